@@ -0,0 +1,246 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { ROLES, type Role, type SessionUser } from "../../lib/auth/types";
+import type { LimitConfig } from "../../lib/limits";
+import type { AppSettings, SettingKey } from "../../lib/settings/store";
+import AuditLog from "../components/AuditLog";
+import UserMenu from "../components/UserMenu";
+
+type SettingsPayload = {
+  overrides: AppSettings;
+  effective: Record<SettingKey, string | null>;
+  keys: { gemini: boolean; openai: boolean };
+  limits: LimitConfig;
+  usage: { date: string; requests: number; tokens: number };
+};
+
+const SETTING_FIELDS: { key: SettingKey; label: string; placeholder: string }[] = [
+  { key: "LLM_PROVIDER", label: "Provider (gemini, openai, mock or recorded)", placeholder: "gemini" },
+  { key: "GEMINI_MODEL", label: "Gemini model", placeholder: "gemini-3" },
+  { key: "OPENAI_MODEL", label: "OpenAI model", placeholder: "gpt-4o-mini" },
+  { key: "PROMPT_TEMPLATE", label: "Default prompt template", placeholder: "defensive-v1" },
+  { key: "RATE_LIMIT_PER_MINUTE", label: "Requests per minute per user (0 disables)", placeholder: "20" },
+  { key: "DAILY_REQUEST_BUDGET", label: "Daily analysis requests (0 disables)", placeholder: "0" },
+  { key: "DAILY_TOKEN_BUDGET", label: "Daily model tokens (0 disables)", placeholder: "0" }
+];
+
+export default function AdminPage() {
+  const [user, setUser] = useState<SessionUser | null>(null);
+  const [settings, setSettings] = useState<SettingsPayload | null>(null);
+  const [draft, setDraft] = useState<AppSettings>({});
+  const [users, setUsers] = useState<SessionUser[]>([]);
+  const [newUser, setNewUser] = useState({ username: "", password: "", role: "analyst" as Role });
+  const [status, setStatus] = useState<string | null>(null);
+
+  const isAdmin = user?.role === "admin";
+
+  const loadAdminData = useCallback(async () => {
+    const [settingsResponse, usersResponse] = await Promise.all([
+      fetch("/api/admin/settings"),
+      fetch("/api/admin/users")
+    ]);
+    if (settingsResponse.ok) {
+      const payload = (await settingsResponse.json()) as SettingsPayload;
+      setSettings(payload);
+      setDraft(payload.overrides);
+    }
+    if (usersResponse.ok) {
+      setUsers(((await usersResponse.json()) as { users: SessionUser[] }).users);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isAdmin) {
+      void loadAdminData();
+    }
+  }, [isAdmin, loadAdminData]);
+
+  const reportFailure = async (response: Response) => {
+    setStatus(((await response.json()) as { error: string }).error);
+  };
+
+  const handleSaveSettings = async () => {
+    const patch = Object.fromEntries(SETTING_FIELDS.map(({ key }) => [key, draft[key] ?? null]));
+    const response = await fetch("/api/admin/settings", {
+      method: "PATCH",
+      headers: {
+        "Content-Type": "application/json"
+      },
+      body: JSON.stringify(patch)
+    });
+    if (!response.ok) {
+      await reportFailure(response);
+      return;
+    }
+    const payload = (await response.json()) as SettingsPayload;
+    setSettings(payload);
+    setDraft(payload.overrides);
+    setStatus("Settings saved.");
+  };
+
+  const handleCreateUser = async () => {
+    const response = await fetch("/api/admin/users", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json"
+      },
+      body: JSON.stringify(newUser)
+    });
+    if (!response.ok) {
+      await reportFailure(response);
+      return;
+    }
+    setNewUser({ username: "", password: "", role: "analyst" });
+    setStatus("User created.");
+    await loadAdminData();
+  };
+
+  const handleRoleChange = async (id: string, role: Role) => {
+    const response = await fetch(`/api/admin/users/${id}`, {
+      method: "PATCH",
+      headers: {
+        "Content-Type": "application/json"
+      },
+      body: JSON.stringify({ role })
+    });
+    if (!response.ok) {
+      await reportFailure(response);
+    }
+    await loadAdminData();
+  };
+
+  const handleDelete = async (id: string) => {
+    const response = await fetch(`/api/admin/users/${id}`, { method: "DELETE" });
+    if (!response.ok) {
+      await reportFailure(response);
+    }
+    await loadAdminData();
+  };
+
+  return (
+    <div className="container">
+      <header>
+        <h1>Administration</h1>
+        <p>
+          <a className="link-button" href="/">
+            Back to analysis
+          </a>
+        </p>
+        <UserMenu onUser={setUser} />
+      </header>
+
+      {user && !isAdmin && (
+        <div className="error">The admin role is required to manage providers, budgets and users.</div>
+      )}
+      {status && <p className="helper">{status}</p>}
+
+      {isAdmin && settings && (
+        <div className="main-grid">
+          <section className="panel">
+            <h2>Provider and Budgets</h2>
+            <p className="helper">
+              Overrides are stored in the data directory and take precedence over environment variables. Leave a field
+              empty to fall back to the environment. API keys stay in the environment: Gemini{" "}
+              {settings.keys.gemini ? "configured" : "missing"}, OpenAI {settings.keys.openai ? "configured" : "missing"}.
+            </p>
+            {SETTING_FIELDS.map((field) => (
+              <div className="field" key={field.key}>
+                <label htmlFor={field.key}>{field.label}</label>
+                <input
+                  id={field.key}
+                  type="text"
+                  placeholder={settings.effective[field.key] ?? field.placeholder}
+                  value={draft[field.key] ?? ""}
+                  onChange={(event) => setDraft((current) => ({ ...current, [field.key]: event.target.value }))}
+                />
+              </div>
+            ))}
+            <button className="button" onClick={handleSaveSettings}>
+              Save Settings
+            </button>
+            <div className="card" style={{ marginTop: 16 }}>
+              <h3>Usage on {settings.usage.date} (UTC)</h3>
+              <ul className="list">
+                <li>
+                  Analysis requests: {settings.usage.requests}
+                  {settings.limits.dailyRequests > 0 ? ` of ${settings.limits.dailyRequests}` : ""}
+                </li>
+                <li>
+                  Estimated model tokens: {settings.usage.tokens.toLocaleString()}
+                  {settings.limits.dailyTokens > 0 ? ` of ${settings.limits.dailyTokens.toLocaleString()}` : ""}
+                </li>
+                <li>Counter store: {settings.limits.store}</li>
+              </ul>
+            </div>
+          </section>
+
+          <section className="panel">
+            <h2>Users</h2>
+            <ul className="history">
+              {users.map((item) => (
+                <li key={item.id}>
+                  <div className="input-row">
+                    <strong>{item.display_name}</strong>
+                    <span className="helper">
+                      {item.username} · {item.provider === "oidc" ? "SSO" : "local"}
+                    </span>
+                    <select
+                      value={item.role}
+                      onChange={(event) => handleRoleChange(item.id, event.target.value as Role)}
+                      aria-label={`Role for ${item.username}`}
+                    >
+                      {ROLES.map((role) => (
+                        <option key={role} value={role}>
+                          {role}
+                        </option>
+                      ))}
+                    </select>
+                    {item.id !== user?.id && (
+                      <button className="link-button" onClick={() => handleDelete(item.id)}>
+                        Remove
+                      </button>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+            <h3>Add local user</h3>
+            <div className="field">
+              <input
+                type="text"
+                placeholder="Username"
+                value={newUser.username}
+                onChange={(event) => setNewUser((current) => ({ ...current, username: event.target.value }))}
+              />
+              <input
+                type="password"
+                placeholder="Temporary password (10+ characters)"
+                value={newUser.password}
+                onChange={(event) => setNewUser((current) => ({ ...current, password: event.target.value }))}
+              />
+              <select
+                value={newUser.role}
+                onChange={(event) => setNewUser((current) => ({ ...current, role: event.target.value as Role }))}
+              >
+                {ROLES.map((role) => (
+                  <option key={role} value={role}>
+                    {role}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <button
+              className="button secondary"
+              onClick={handleCreateUser}
+              disabled={!newUser.username || !newUser.password}
+            >
+              Add User
+            </button>
+          </section>
+        </div>
+      )}
+      {isAdmin && <AuditLog />}
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { requireRole } from "../../../../lib/api/auth";
+import { listAuditEntries, toJsonl, type AuditFilter } from "../../../../lib/audit";
+
+export const dynamic = "force-dynamic";
+
+function filterFrom(params: URLSearchParams): AuditFilter {
+  const limit = Number(params.get("limit"));
+  return {
+    user: params.get("user") || undefined,
+    project_id: params.get("project_id") || undefined,
+    route: params.get("route") || undefined,
+    status: params.get("status") || undefined,
+    from: params.get("from") || undefined,
+    to: params.get("to") || undefined,
+    limit: params.has("limit") && Number.isFinite(limit) && limit >= 0 ? limit : undefined
+  };
+}
+
+export async function GET(request: Request) {
+  const auth = await requireRole(request, "admin");
+  if (auth.response) {
+    return auth.response;
+  }
+
+  try {
+    const params = new URL(request.url).searchParams;
+    if (params.get("format") === "jsonl") {
+      const entries = await listAuditEntries({ ...filterFrom(params), limit: 0 });
+      return new Response(toJsonl(entries), {
+        status: 200,
+        headers: {
+          "Content-Type": "application/x-ndjson; charset=utf-8",
+          "Content-Disposition": `attachment; filename="chainbreak-audit-${new Date().toISOString().slice(0, 10)}.jsonl"`
+        }
+      });
+    }
+    return NextResponse.json({ entries: await listAuditEntries(filterFrom(params)) });
+  } catch (error) {
+    return NextResponse.json(
+      { error: "Unable to load the audit log.", details: error instanceof Error ? error.message : "Unknown error." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+import { requireRole } from "../../../../lib/api/auth";
+import { readJsonBody } from "../../../../lib/api/body";
+import { getDailyUsage, getLimitConfig } from "../../../../lib/limits";
+import {
+  getSettings,
+  SETTING_KEYS,
+  settingsEnv,
+  SettingsValidationError,
+  updateSettings
+} from "../../../../lib/settings/store";
+
+export const dynamic = "force-dynamic";
+
+async function settingsPayload() {
+  const env = await settingsEnv();
+  const limits = getLimitConfig(env);
+  return {
+    overrides: await getSettings(),
+    effective: Object.fromEntries(SETTING_KEYS.map((key) => [key, env[key] ?? null])),
+    keys: {
+      gemini: Boolean(env.GEMINI_API_KEY),
+      openai: Boolean(env.OPENAI_API_KEY)
+    },
+    limits,
+    usage: await getDailyUsage(limits)
+  };
+}
+
+export async function GET(request: Request) {
+  const auth = await requireRole(request, "admin");
+  if (auth.response) {
+    return auth.response;
+  }
+
+  try {
+    return NextResponse.json(await settingsPayload());
+  } catch (error) {
+    return NextResponse.json(
+      { error: "Unable to load settings.", details: error instanceof Error ? error.message : "Unknown error." },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: Request) {
+  const auth = await requireRole(request, "admin");
+  if (auth.response) {
+    return auth.response;
+  }
+
+  try {
+    const parsed = await readJsonBody<Record<string, unknown>>(request);
+    if (parsed.response) {
+      return parsed.response;
+    }
+    const { body } = parsed;
+    await updateSettings(body);
+    return NextResponse.json(await settingsPayload());
+  } catch (error) {
+    if (error instanceof SettingsValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    return NextResponse.json(
+      { error: "Unable to save settings.", details: error instanceof Error ? error.message : "Unknown error." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { isRole } from "../../../../../lib/auth";
+import { deleteUserSessions } from "../../../../../lib/auth/sessions";
+import { deleteUser, toSessionUser, updateUserRole } from "../../../../../lib/auth/users";
+import { requireRole } from "../../../../../lib/api/auth";
+import { readJsonBody } from "../../../../../lib/api/body";
+import { userErrorResponse } from "../../../../../lib/api/users";
+
+type RouteContext = { params: { id: string } };
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const auth = await requireRole(request, "admin");
+  if (auth.response) {
+    return auth.response;
+  }
+
+  try {
+    const parsed = await readJsonBody<{ role?: string }>(request);
+    if (parsed.response) {
+      return parsed.response;
+    }
+    const { body } = parsed;
+    if (!isRole(body.role)) {
+      return NextResponse.json({ error: "Role must be viewer, analyst or admin." }, { status: 400 });
+    }
+    return NextResponse.json(toSessionUser(await updateUserRole(params.id, body.role)));
+  } catch (error) {
+    return userErrorResponse(error);
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const auth = await requireRole(request, "admin");
+  if (auth.response) {
+    return auth.response;
+  }
+
+  try {
+    await deleteUser(params.id);
+    await deleteUserSessions(params.id);
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    return userErrorResponse(error);
+  }
+}
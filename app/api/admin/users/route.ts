@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { isRole } from "../../../../lib/auth";
+import { createLocalUser, listUsers, toSessionUser } from "../../../../lib/auth/users";
+import { requireRole } from "../../../../lib/api/auth";
+import { readJsonBody } from "../../../../lib/api/body";
+import { userErrorResponse } from "../../../../lib/api/users";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const auth = await requireRole(request, "admin");
+  if (auth.response) {
+    return auth.response;
+  }
+
+  try {
+    return NextResponse.json({ users: (await listUsers()).map(toSessionUser) });
+  } catch (error) {
+    return userErrorResponse(error);
+  }
+}
+
+export async function POST(request: Request) {
+  const auth = await requireRole(request, "admin");
+  if (auth.response) {
+    return auth.response;
+  }
+
+  try {
+    const parsed = await readJsonBody<{
+      username?: string;
+      password?: string;
+      display_name?: string;
+      role?: string;
+    }>(request);
+    if (parsed.response) {
+      return parsed.response;
+    }
+    const { body } = parsed;
+    if (!isRole(body.role)) {
+      return NextResponse.json({ error: "Role must be viewer, analyst or admin." }, { status: 400 });
+    }
+    const user = await createLocalUser({
+      username: body.username ?? "",
+      password: body.password ?? "",
+      displayName: body.display_name,
+      role: body.role
+    });
+    return NextResponse.json(toSessionUser(user), { status: 201 });
+  } catch (error) {
+    return userErrorResponse(error);
+  }
+}
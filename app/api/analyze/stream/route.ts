@@ -0,0 +1,131 @@
+import { NextResponse } from "next/server";
+import { analysisErrorPayload, validateAnalysisInput } from "../../../../lib/analysis/core";
+import type { RedactionEntry } from "../../../../lib/analysis/redaction";
+import type {
+  AnalysisInput,
+  AnalysisResponse,
+  AnalysisStreamEvent,
+  CondensedField
+} from "../../../../lib/analysis/schema";
+import { streamAnalysis } from "../../../../lib/analysis/stream";
+import { requireRole } from "../../../../lib/api/auth";
+import { readJsonBody } from "../../../../lib/api/body";
+import { applyLimits } from "../../../../lib/api/limits";
+import { projectErrorResponse } from "../../../../lib/api/projects";
+import { resolveProvider } from "../../../../lib/api/provider";
+import { resolvePromptTemplate } from "../../../../lib/api/templates";
+import { failedOutcome, startAuditRun } from "../../../../lib/audit";
+import { analysisCacheKey, readCachedAnalysis, writeCachedAnalysis } from "../../../../lib/cache/store";
+import { getProject, recordRun } from "../../../../lib/projects/store";
+
+async function* replayCached(analysis: AnalysisResponse): AsyncGenerator<AnalysisStreamEvent> {
+  yield { type: "complete", analysis, cached: true };
+}
+
+export async function POST(request: Request) {
+  const auth = await requireRole(request, "analyst");
+  if (auth.response) {
+    return auth.response;
+  }
+
+  const { provider, response } = await resolveProvider();
+  if (response) {
+    return response;
+  }
+
+  const parsed = await readJsonBody<AnalysisInput>(request);
+  if (parsed.response) {
+    return parsed.response;
+  }
+  const { body } = parsed;
+  const inputError = validateAnalysisInput(body);
+
+  if (inputError) {
+    return NextResponse.json({ error: inputError }, { status: 400 });
+  }
+
+  const resolved = await resolvePromptTemplate(body.prompt_template);
+  if (resolved.response) {
+    return resolved.response;
+  }
+  const { template } = resolved;
+
+  if (body.project_id) {
+    try {
+      await getProject(body.project_id);
+    } catch (projectError) {
+      return projectErrorResponse(projectError);
+    }
+  }
+
+  const cacheKey = analysisCacheKey(provider, template, body);
+  const cached = await readCachedAnalysis(cacheKey);
+  if (!cached) {
+    const limited = await applyLimits(request, auth.user);
+    if (limited) {
+      return limited;
+    }
+  }
+
+  const audit = startAuditRun({ provider, template, route: "stream", user: auth.user, input: body });
+  const prepared = { redactions: [] as RedactionEntry[], condensed: [] as CondensedField[] };
+  const events = cached
+    ? replayCached(cached.analysis)
+    : streamAnalysis({
+        provider: audit.provider,
+        template,
+        input: body,
+        signal: request.signal,
+        trace: audit.trace
+      });
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: AnalysisStreamEvent) => {
+        controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+      };
+
+      try {
+        for await (const event of events) {
+          if (event.type === "redacted") {
+            prepared.redactions = event.entries;
+          }
+          if (event.type === "condensed") {
+            prepared.condensed = event.fields;
+          }
+          if (event.type !== "complete") {
+            send(event);
+            continue;
+          }
+          if (!cached) {
+            await writeCachedAnalysis(cacheKey, provider, event.analysis);
+          }
+          const run = body.project_id
+            ? await recordRun(body.project_id, body, event.analysis, template.id)
+            : null;
+          await audit.complete({ status: cached ? "cached" : "ok", prepared, run_id: run?.id });
+          send(run ? { ...event, run_id: run.id } : event);
+        }
+      } catch (error) {
+        if (!request.signal.aborted) {
+          send({ type: "error", ...analysisErrorPayload(error) });
+        }
+        await audit.complete({ ...failedOutcome(error, request.signal), prepared });
+      } finally {
+        try {
+          controller.close();
+        } catch {
+          // The client already disconnected.
+        }
+      }
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "application/x-ndjson; charset=utf-8",
+      "Cache-Control": "no-cache"
+    }
+  });
+}
@@ -0,0 +1,94 @@
+import { NextResponse } from "next/server";
+import { validateAnalysisInput } from "../../../../lib/analysis/core";
+import { normalizeAnalysis, type AnalysisInput } from "../../../../lib/analysis/schema";
+import { DEFAULT_SWEEP_CONCURRENCY, MAX_SWEEP_FIXES, runFixSweep } from "../../../../lib/analysis/sweep";
+import { requireRole } from "../../../../lib/api/auth";
+import { readJsonBody } from "../../../../lib/api/body";
+import { applyLimits } from "../../../../lib/api/limits";
+import { projectErrorResponse } from "../../../../lib/api/projects";
+import { resolveProvider } from "../../../../lib/api/provider";
+import { resolvePromptTemplate } from "../../../../lib/api/templates";
+import { startAuditRun } from "../../../../lib/audit";
+import { getProject, recordRun } from "../../../../lib/projects/store";
+
+export async function POST(request: Request) {
+  try {
+    const auth = await requireRole(request, "analyst");
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const { provider, response } = await resolveProvider();
+    if (response) {
+      return response;
+    }
+
+    const parsed = await readJsonBody<{ input?: AnalysisInput; baseline?: unknown }>(request);
+    if (parsed.response) {
+      return parsed.response;
+    }
+    const { body } = parsed;
+
+    if (!body.input) {
+      return NextResponse.json({ error: "Baseline input is required." }, { status: 400 });
+    }
+
+    const inputError = validateAnalysisInput(body.input);
+    if (inputError) {
+      return NextResponse.json({ error: inputError }, { status: 400 });
+    }
+
+    const resolved = await resolvePromptTemplate(body.input.prompt_template);
+    if (resolved.response) {
+      return resolved.response;
+    }
+    const { template } = resolved;
+
+    const projectId = body.input.project_id;
+    if (projectId) {
+      try {
+        await getProject(projectId);
+      } catch (projectError) {
+        return projectErrorResponse(projectError);
+      }
+    }
+
+    const { value: baseline, violations } = normalizeAnalysis(body.baseline);
+    if (violations.length > 0) {
+      return NextResponse.json({ error: "Baseline analysis is invalid.", violations }, { status: 400 });
+    }
+
+    if (baseline.priority_fixes.length === 0) {
+      return NextResponse.json({ error: "Baseline has no priority fixes to sweep." }, { status: 400 });
+    }
+
+    const limited = await applyLimits(request, auth.user, Math.min(baseline.priority_fixes.length, MAX_SWEEP_FIXES));
+    if (limited) {
+      return limited;
+    }
+
+    const concurrency = Number(process.env.SWEEP_CONCURRENCY) || DEFAULT_SWEEP_CONCURRENCY;
+    const report = await runFixSweep({
+      provider,
+      template,
+      input: body.input,
+      baseline,
+      concurrency,
+      signal: request.signal,
+      startRun: (input) => startAuditRun({ provider, template, route: "sweep", user: auth.user, input }),
+      saveRun: projectId
+        ? async (input, analysis) => (await recordRun(projectId, input, analysis, template.id)).id
+        : undefined
+    });
+
+    return NextResponse.json(report, { status: 200 });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: "Failed to run mitigation sweep.",
+        details: error instanceof Error ? error.message : "Unknown error."
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { ensureSeedAdmin, getAuthMode } from "../../../../lib/auth";
+import { toSessionUser, verifyLocalLogin } from "../../../../lib/auth/users";
+import { startSession } from "../../../../lib/api/auth";
+import { readJsonBody } from "../../../../lib/api/body";
+import { applySignInLimits, recordSignIn } from "../../../../lib/api/limits";
+
+export async function POST(request: Request) {
+  if (getAuthMode() !== "local") {
+    return NextResponse.json({ error: "Password sign-in is disabled." }, { status: 400 });
+  }
+
+  try {
+    const parsed = await readJsonBody<{ username?: string; password?: string }>(request);
+    if (parsed.response) {
+      return parsed.response;
+    }
+    const { body } = parsed;
+    const username = body.username ?? "";
+    const limited = await applySignInLimits(request, username);
+    if (limited) {
+      return limited;
+    }
+    await ensureSeedAdmin();
+    const user = await verifyLocalLogin(username, body.password ?? "");
+    await recordSignIn(request, username, user !== null);
+    if (!user) {
+      return NextResponse.json({ error: "Invalid username or password." }, { status: 401 });
+    }
+    return await startSession(request, NextResponse.json({ user: toSessionUser(user) }), user.id);
+  } catch (error) {
+    return NextResponse.json(
+      { error: "Sign-in failed.", details: error instanceof Error ? error.message : "Unknown error." },
+      { status: 500 }
+    );
+  }
+}
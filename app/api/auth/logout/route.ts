@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+import { cookieOptions, readCookie } from "../../../../lib/auth";
+import { deleteSession, SESSION_COOKIE } from "../../../../lib/auth/sessions";
+
+export async function POST(request: Request) {
+  const token = readCookie(request, SESSION_COOKIE);
+  if (token) {
+    await deleteSession(token);
+  }
+  const response = new NextResponse(null, { status: 204 });
+  response.cookies.set(SESSION_COOKIE, "", cookieOptions(request, 0));
+  return response;
+}
@@ -0,0 +1,9 @@
+import { NextResponse } from "next/server";
+import { authStatus } from "../../../../lib/auth";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const status = await authStatus(request);
+  return NextResponse.json(status, { status: status.user ? 200 : 401 });
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { cookieOptions, getAuthMode, readCookie } from "../../../../../lib/auth";
+import {
+  exchangeCode,
+  getOidcConfig,
+  OIDC_STATE_COOKIE,
+  redirectUriFor,
+  roleFromClaims
+} from "../../../../../lib/auth/oidc";
+import { upsertOidcUser } from "../../../../../lib/auth/users";
+import { startSession } from "../../../../../lib/api/auth";
+
+export const dynamic = "force-dynamic";
+
+function failed(request: Request, message: string) {
+  const url = new URL("/login", request.url);
+  url.searchParams.set("error", message);
+  const response = NextResponse.redirect(url);
+  response.cookies.set(OIDC_STATE_COOKIE, "", cookieOptions(request, 0));
+  return response;
+}
+
+export async function GET(request: Request) {
+  const config = getOidcConfig();
+  if (!config || getAuthMode() === "off") {
+    return failed(request, "Single sign-on is not configured.");
+  }
+
+  const params = new URL(request.url).searchParams;
+  const code = params.get("code");
+  const state = params.get("state");
+  if (params.get("error")) {
+    return failed(request, `Identity provider returned ${params.get("error")}.`);
+  }
+  if (!code || !state || state !== readCookie(request, OIDC_STATE_COOKIE)) {
+    return failed(request, "Sign-in state did not match. Please try again.");
+  }
+
+  try {
+    const claims = await exchangeCode(config, redirectUriFor(config, request), code);
+    const username = String(claims.preferred_username ?? claims.email ?? claims.sub);
+    const user = await upsertOidcUser({
+      subject: `${config.issuer}#${claims.sub}`,
+      username,
+      displayName: String(claims.name ?? username),
+      role: roleFromClaims(claims, config.roleClaim)
+    });
+    const response = NextResponse.redirect(new URL("/", request.url));
+    response.cookies.set(OIDC_STATE_COOKIE, "", cookieOptions(request, 0));
+    return await startSession(request, response, user.id);
+  } catch (error) {
+    return failed(request, error instanceof Error ? error.message : "Single sign-on failed.");
+  }
+}
@@ -0,0 +1,25 @@
+import { randomBytes } from "node:crypto";
+import { NextResponse } from "next/server";
+import { cookieOptions, getAuthMode } from "../../../../../lib/auth";
+import { authorizationUrl, getOidcConfig, OIDC_STATE_COOKIE, redirectUriFor } from "../../../../../lib/auth/oidc";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const config = getOidcConfig();
+  if (!config || getAuthMode() === "off") {
+    return NextResponse.json({ error: "Single sign-on is not configured." }, { status: 404 });
+  }
+
+  try {
+    const state = randomBytes(16).toString("base64url");
+    const response = NextResponse.redirect(await authorizationUrl(config, redirectUriFor(config, request), state));
+    response.cookies.set(OIDC_STATE_COOKIE, state, cookieOptions(request, 600));
+    return response;
+  } catch (error) {
+    return NextResponse.json(
+      { error: "Single sign-on failed.", details: error instanceof Error ? error.message : "Unknown error." },
+      { status: 502 }
+    );
+  }
+}
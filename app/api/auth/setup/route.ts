@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { needsSetup } from "../../../../lib/auth";
+import { createLocalUser, toSessionUser, UserConflictError } from "../../../../lib/auth/users";
+import { startSession } from "../../../../lib/api/auth";
+import { readJsonBody } from "../../../../lib/api/body";
+import { applySignInLimits } from "../../../../lib/api/limits";
+
+export async function POST(request: Request) {
+  try {
+    const limited = await applySignInLimits(request);
+    if (limited) {
+      return limited;
+    }
+    if (!(await needsSetup())) {
+      return NextResponse.json({ error: "Setup has already been completed." }, { status: 409 });
+    }
+
+    const parsed = await readJsonBody<{ username?: string; password?: string; display_name?: string }>(request);
+    if (parsed.response) {
+      return parsed.response;
+    }
+    const { body } = parsed;
+    const user = await createLocalUser({
+      username: body.username ?? "",
+      password: body.password ?? "",
+      displayName: body.display_name,
+      role: "admin",
+      onlyIfEmpty: true
+    });
+    return await startSession(request, NextResponse.json({ user: toSessionUser(user) }, { status: 201 }), user.id);
+  } catch (error) {
+    if (error instanceof UserConflictError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    return NextResponse.json(
+      { error: "Setup failed.", details: error instanceof Error ? error.message : "Unknown error." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,92 @@
+import { NextResponse } from "next/server";
+import { normalizeAnalysis } from "../../../lib/analysis/schema";
+import { requireRole } from "../../../lib/api/auth";
+import { readJsonBody } from "../../../lib/api/body";
+import { applyLimits } from "../../../lib/api/limits";
+import { resolveProvider } from "../../../lib/api/provider";
+import { failedOutcome, startAuditRun } from "../../../lib/audit";
+import {
+  DETECTION_TEMPLATE,
+  DetectionTargetError,
+  detectionTargets,
+  generateDetections,
+  type DetectionDraft
+} from "../../../lib/detections";
+
+export async function POST(request: Request) {
+  try {
+    const auth = await requireRole(request, "analyst");
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const { provider, response } = await resolveProvider();
+    if (response) {
+      return response;
+    }
+
+    const parsed = await readJsonBody<{ analysis?: unknown; path_index?: unknown; step?: unknown; logs?: unknown }>(
+      request
+    );
+    if (parsed.response) {
+      return parsed.response;
+    }
+    const { body } = parsed;
+
+    const { value: analysis, violations } = normalizeAnalysis(body.analysis);
+    if (violations.length > 0) {
+      return NextResponse.json({ error: "Analysis is invalid.", violations }, { status: 400 });
+    }
+    if (!Number.isInteger(body.path_index) || (body.step !== undefined && !Number.isInteger(body.step))) {
+      return NextResponse.json({ error: "path_index and step must be integers." }, { status: 400 });
+    }
+    if (body.logs !== undefined && typeof body.logs !== "string") {
+      return NextResponse.json({ error: "logs must be a string." }, { status: 400 });
+    }
+
+    const pathIndex = body.path_index as number;
+    const step = body.step as number | undefined;
+    const targets = detectionTargets(analysis, pathIndex, step);
+
+    const limited = await applyLimits(request, auth.user, targets.steps.length);
+    if (limited) {
+      return limited;
+    }
+
+    const audit = startAuditRun({
+      provider,
+      template: DETECTION_TEMPLATE,
+      route: "detections",
+      user: auth.user,
+      input: { system_text: JSON.stringify({ path: targets.path, step: step ?? null }), snippets: { logs: body.logs } }
+    });
+    let drafts: DetectionDraft[];
+    try {
+      drafts = await generateDetections({
+        provider: audit.provider,
+        analysis,
+        pathIndex,
+        step,
+        logs: body.logs,
+        signal: request.signal
+      });
+    } catch (runError) {
+      await audit.complete(failedOutcome(runError, request.signal));
+      throw runError;
+    }
+    await audit.complete({ status: "ok" });
+
+    return NextResponse.json({ drafts }, { status: 200 });
+  } catch (error) {
+    if (error instanceof DetectionTargetError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    return NextResponse.json(
+      {
+        error: "Failed to generate detections.",
+        details: error instanceof Error ? error.message : "Unknown error."
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server";
+import { normalizeAnalysis, normalizeReports, type AnalysisInput } from "../../../lib/analysis/schema";
+import { requireRole } from "../../../lib/api/auth";
+import { readJsonBody } from "../../../lib/api/body";
+import { EXPORT_FORMATS, renderExport, type ExportFormat } from "../../../lib/export";
+
+function fileSlug(name: string | undefined) {
+  return (name ?? "chainbreak-ai").toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "chainbreak-ai";
+}
+
+export async function POST(request: Request) {
+  try {
+    const auth = await requireRole(request, "viewer");
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const parsed = await readJsonBody<{ format?: string; input?: AnalysisInput; analysis?: unknown }>(request);
+    if (parsed.response) {
+      return parsed.response;
+    }
+    const { body } = parsed;
+    const format = body.format as ExportFormat;
+
+    if (!EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json({ error: `Unsupported format. Use one of ${EXPORT_FORMATS.join(", ")}.` }, { status: 400 });
+    }
+
+    const { value, violations } = normalizeAnalysis(body.analysis);
+    const reports = normalizeReports(body.analysis);
+    if (violations.length + reports.violations.length > 0) {
+      return NextResponse.json(
+        { error: "Analysis is invalid.", violations: [...violations, ...reports.violations] },
+        { status: 400 }
+      );
+    }
+
+    const analysis = { ...value, ...reports.value };
+
+    const input: AnalysisInput = body.input ?? { system_text: "" };
+    const rendered = renderExport(format, { input, analysis, generated_at: new Date().toISOString() });
+
+    return new Response(rendered.body, {
+      status: 200,
+      headers: {
+        "Content-Type": rendered.content_type,
+        "Content-Disposition": `attachment; filename="${fileSlug(input.project_name)}-report.${rendered.extension}"`
+      }
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { error: "Failed to export analysis.", details: error instanceof Error ? error.message : "Unknown error." },
+      { status: 500 }
+    );
+  }
+}
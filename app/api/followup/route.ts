@@ -0,0 +1,143 @@
+import { NextResponse } from "next/server";
+import {
+  analysisErrorPayload,
+  buildUserPrompt,
+  prepareInput,
+  validateAnalysisInput
+} from "../../../lib/analysis/core";
+import { normalizeAnalysis, type AnalysisInput } from "../../../lib/analysis/schema";
+import { requireRole } from "../../../lib/api/auth";
+import { readJsonBody } from "../../../lib/api/body";
+import { applyLimits } from "../../../lib/api/limits";
+import { resolveProvider } from "../../../lib/api/provider";
+import { resolvePromptTemplate } from "../../../lib/api/templates";
+import { failedOutcome, startAuditRun } from "../../../lib/audit";
+import {
+  answerFollowup,
+  appendTurn,
+  createThread,
+  getThread,
+  MAX_FOLLOWUP_TURNS,
+  MAX_QUESTION_CHARS,
+  ThreadNotFoundError,
+  type FollowupThread
+} from "../../../lib/followup";
+
+type FollowupBody = {
+  thread_id?: string;
+  question?: unknown;
+  input?: AnalysisInput;
+  analysis?: unknown;
+  run_id?: string;
+};
+
+export async function POST(request: Request) {
+  try {
+    const auth = await requireRole(request, "analyst");
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const { provider, response } = await resolveProvider();
+    if (response) {
+      return response;
+    }
+
+    const parsed = await readJsonBody<FollowupBody>(request);
+    if (parsed.response) {
+      return parsed.response;
+    }
+    const { body } = parsed;
+    const question = typeof body.question === "string" ? body.question.trim() : "";
+
+    if (!question) {
+      return NextResponse.json({ error: "A question is required." }, { status: 400 });
+    }
+
+    if (question.length > MAX_QUESTION_CHARS) {
+      return NextResponse.json(
+        { error: `Questions are limited to ${MAX_QUESTION_CHARS} characters.` },
+        { status: 400 }
+      );
+    }
+
+    let thread: FollowupThread | null = null;
+    if (body.thread_id) {
+      thread = await getThread(body.thread_id, auth.user.id);
+      if (thread.turns.length >= MAX_FOLLOWUP_TURNS) {
+        return NextResponse.json(
+          { error: `This thread reached ${MAX_FOLLOWUP_TURNS} questions. Start a new one.` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const input = thread?.input ?? body.input;
+    if (!input) {
+      return NextResponse.json({ error: "The analysis input is required to start a thread." }, { status: 400 });
+    }
+
+    const inputError = thread ? null : validateAnalysisInput(input);
+    if (inputError) {
+      return NextResponse.json({ error: inputError }, { status: 400 });
+    }
+
+    const { value: analysis, violations } = normalizeAnalysis(thread?.analysis ?? body.analysis);
+    if (violations.length > 0) {
+      return NextResponse.json({ error: "Analysis is invalid.", violations }, { status: 400 });
+    }
+
+    const resolved = await resolvePromptTemplate(thread?.prompt_template ?? input.prompt_template);
+    if (resolved.response) {
+      return resolved.response;
+    }
+    const { template } = resolved;
+
+    const limited = await applyLimits(request, auth.user);
+    if (limited) {
+      return limited;
+    }
+
+    const audit = startAuditRun({ provider, template, route: "followup", user: auth.user, input });
+    let prepared: Awaited<ReturnType<typeof prepareInput>> | undefined;
+    let turn;
+    try {
+      if (!thread) {
+        prepared = await prepareInput({ provider: audit.provider, template, input, signal: request.signal });
+        thread = await createThread({
+          user_id: auth.user.id,
+          project_id: input.project_id ?? null,
+          run_id: body.run_id ?? null,
+          prompt_template: template.id,
+          input,
+          context: buildUserPrompt(prepared.input, prepared.ingest),
+          analysis
+        });
+      }
+      turn = await answerFollowup({
+        provider: audit.provider,
+        template,
+        thread,
+        question,
+        signal: request.signal,
+        trace: audit.trace
+      });
+    } catch (runError) {
+      await audit.complete({ ...failedOutcome(runError, request.signal), prepared });
+      throw runError;
+    }
+
+    await appendTurn(thread.id, turn);
+    await audit.complete({ status: "ok", prepared, run_id: thread.run_id });
+
+    return NextResponse.json({ thread_id: thread.id, turn }, { status: 200 });
+  } catch (error) {
+    if (error instanceof ThreadNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    return NextResponse.json(
+      { error: "Failed to answer the follow-up question.", details: analysisErrorPayload(error).details },
+      { status: 500 }
+    );
+  }
+}
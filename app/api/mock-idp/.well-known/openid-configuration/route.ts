@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { mockIdpDisabledResponse, mockIdpEnabled, mockIssuer } from "../../../../../lib/auth/mock-idp";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  if (!mockIdpEnabled()) {
+    return mockIdpDisabledResponse();
+  }
+  const issuer = mockIssuer(request);
+  return NextResponse.json({
+    issuer,
+    authorization_endpoint: `${issuer}/authorize`,
+    token_endpoint: `${issuer}/token`,
+    userinfo_endpoint: `${issuer}/userinfo`,
+    response_types_supported: ["code"],
+    grant_types_supported: ["authorization_code"],
+    scopes_supported: ["openid", "profile", "email"],
+    token_endpoint_auth_methods_supported: ["client_secret_basic", "client_secret_post"]
+  });
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { issueMockToken, mockIdpDisabledResponse, mockIdpEnabled, mockIdpUsers } from "../../../../lib/auth/mock-idp";
+
+export const dynamic = "force-dynamic";
+
+const CODE_TTL_SECONDS = 120;
+
+function escapeHtml(value: string) {
+  return value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+export async function GET(request: Request) {
+  if (!mockIdpEnabled()) {
+    return mockIdpDisabledResponse();
+  }
+
+  const url = new URL(request.url);
+  const clientId = url.searchParams.get("client_id");
+  const redirectUri = url.searchParams.get("redirect_uri");
+  const state = url.searchParams.get("state") ?? "";
+  if (url.searchParams.get("response_type") !== "code" || !clientId || !redirectUri) {
+    return NextResponse.json({ error: "invalid_request" }, { status: 400 });
+  }
+
+  const users = mockIdpUsers();
+  const login = url.searchParams.get("login");
+  const user = users.find((candidate) => candidate.login === login);
+  if (user) {
+    const target = new URL(redirectUri);
+    const code = issueMockToken(
+      { type: "code", login: user.login, client_id: clientId, redirect_uri: redirectUri },
+      CODE_TTL_SECONDS
+    );
+    target.searchParams.set("code", code);
+    target.searchParams.set("state", state);
+    return NextResponse.redirect(target);
+  }
+
+  const links = users
+    .map((candidate) => {
+      const link = new URL(url);
+      link.searchParams.set("login", candidate.login);
+      return `<li><a href="${escapeHtml(link.toString())}">${escapeHtml(candidate.login)}</a> (${candidate.role})</li>`;
+    })
+    .join("");
+  const page = [
+    "<!doctype html><html><head><title>Mock identity provider</title></head><body>",
+    "<h1>Mock identity provider</h1>",
+    `<p>Sign in to ${escapeHtml(clientId)} as:</p><ul>${links}</ul>`,
+    "</body></html>"
+  ].join("");
+  return new Response(page, { headers: { "Content-Type": "text/html; charset=utf-8" } });
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import {
+  issueMockToken,
+  mockIdpDisabledResponse,
+  mockIdpEnabled,
+  verifyMockToken
+} from "../../../../lib/auth/mock-idp";
+
+const ACCESS_TTL_SECONDS = 300;
+
+function clientIdFrom(request: Request, form: URLSearchParams) {
+  const basic = request.headers.get("authorization")?.match(/^Basic\s+(.+)$/i)?.[1];
+  if (basic) {
+    return Buffer.from(basic, "base64").toString("utf8").split(":")[0];
+  }
+  return form.get("client_id");
+}
+
+export async function POST(request: Request) {
+  if (!mockIdpEnabled()) {
+    return mockIdpDisabledResponse();
+  }
+
+  const form = new URLSearchParams(await request.text());
+  const code = verifyMockToken(form.get("code") ?? "", "code");
+  if (
+    form.get("grant_type") !== "authorization_code" ||
+    !code ||
+    code.client_id !== clientIdFrom(request, form) ||
+    code.redirect_uri !== form.get("redirect_uri")
+  ) {
+    return NextResponse.json({ error: "invalid_grant" }, { status: 400 });
+  }
+
+  return NextResponse.json({
+    access_token: issueMockToken({ type: "access", login: code.login, client_id: code.client_id }, ACCESS_TTL_SECONDS),
+    token_type: "Bearer",
+    expires_in: ACCESS_TTL_SECONDS
+  });
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import {
+  mockClaims,
+  mockIdpDisabledResponse,
+  mockIdpEnabled,
+  mockIdpUsers,
+  verifyMockToken
+} from "../../../../lib/auth/mock-idp";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  if (!mockIdpEnabled()) {
+    return mockIdpDisabledResponse();
+  }
+
+  const bearer = request.headers.get("authorization")?.match(/^Bearer\s+(.+)$/i)?.[1] ?? "";
+  const token = verifyMockToken(bearer, "access");
+  const user = token && mockIdpUsers().find((candidate) => candidate.login === token.login);
+  if (!user) {
+    return NextResponse.json({ error: "invalid_token" }, { status: 401 });
+  }
+  return NextResponse.json(mockClaims(user));
+}
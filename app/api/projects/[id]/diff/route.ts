@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { diffAnalyses } from "../../../../../lib/analysis/diff";
+import { requireRole } from "../../../../../lib/api/auth";
+import { projectErrorResponse } from "../../../../../lib/api/projects";
+import { getProject } from "../../../../../lib/projects/store";
+
+type RouteContext = { params: { id: string } };
+
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const auth = await requireRole(request, "viewer");
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const baselineId = searchParams.get("baseline");
+    const candidateId = searchParams.get("candidate");
+
+    if (!baselineId || !candidateId) {
+      return NextResponse.json({ error: "Both baseline and candidate run ids are required." }, { status: 400 });
+    }
+
+    const project = await getProject(params.id);
+    const baseline = project.runs.find((run) => run.id === baselineId);
+    const candidate = project.runs.find((run) => run.id === candidateId);
+
+    if (!baseline || !candidate) {
+      return NextResponse.json({ error: "Run not found in this project." }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      baseline: { id: baseline.id, created_at: baseline.created_at, what_if: baseline.what_if },
+      candidate: { id: candidate.id, created_at: candidate.created_at, what_if: candidate.what_if },
+      claimed_delta: candidate.analysis.what_if,
+      diff: diffAnalyses(baseline.analysis, candidate.analysis)
+    });
+  } catch (error) {
+    return projectErrorResponse(error);
+  }
+}
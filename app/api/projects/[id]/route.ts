@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { requireRole } from "../../../../lib/api/auth";
+import { readJsonBody } from "../../../../lib/api/body";
+import { projectErrorResponse } from "../../../../lib/api/projects";
+import { deleteProject, getProject, updateProject } from "../../../../lib/projects/store";
+import type { ProjectInputs } from "../../../../lib/projects/types";
+
+type RouteContext = { params: { id: string } };
+
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const auth = await requireRole(request, "viewer");
+    if (auth.response) {
+      return auth.response;
+    }
+
+    return NextResponse.json(await getProject(params.id));
+  } catch (error) {
+    return projectErrorResponse(error);
+  }
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const auth = await requireRole(request, "analyst");
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const parsed = await readJsonBody<{ name?: string; inputs?: Partial<ProjectInputs> }>(request);
+    if (parsed.response) {
+      return parsed.response;
+    }
+    const { body } = parsed;
+    return NextResponse.json(await updateProject(params.id, body));
+  } catch (error) {
+    return projectErrorResponse(error);
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  try {
+    const auth = await requireRole(request, "analyst");
+    if (auth.response) {
+      return auth.response;
+    }
+
+    await deleteProject(params.id);
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    return projectErrorResponse(error);
+  }
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { requireRole } from "../../../../../../lib/api/auth";
+import { readJsonBody } from "../../../../../../lib/api/body";
+import { projectErrorResponse } from "../../../../../../lib/api/projects";
+import { deleteTask, updateTask } from "../../../../../../lib/projects/store";
+import { normalizeTaskChanges } from "../../../../../../lib/remediation";
+
+type RouteContext = { params: { id: string; taskId: string } };
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const auth = await requireRole(request, "analyst");
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const parsed = await readJsonBody<unknown>(request);
+    if (parsed.response) {
+      return parsed.response;
+    }
+    const changes = normalizeTaskChanges(parsed.body);
+    return NextResponse.json(await updateTask(params.id, params.taskId, changes));
+  } catch (error) {
+    return projectErrorResponse(error);
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  try {
+    const auth = await requireRole(request, "analyst");
+    if (auth.response) {
+      return auth.response;
+    }
+
+    await deleteTask(params.id, params.taskId);
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    return projectErrorResponse(error);
+  }
+}
@@ -0,0 +1,86 @@
+import { NextResponse } from "next/server";
+import { analysisErrorPayload, prepareInput, runPreparedAnalysis } from "../../../../../../../lib/analysis/core";
+import { requireRole } from "../../../../../../../lib/api/auth";
+import { applyLimits } from "../../../../../../../lib/api/limits";
+import { projectErrorResponse } from "../../../../../../../lib/api/projects";
+import { resolveProvider } from "../../../../../../../lib/api/provider";
+import { resolvePromptTemplate } from "../../../../../../../lib/api/templates";
+import { failedOutcome, startAuditRun } from "../../../../../../../lib/audit";
+import {
+  getProject,
+  recordRun,
+  recordTaskVerification,
+  RunNotFoundError,
+  TaskNotFoundError
+} from "../../../../../../../lib/projects/store";
+import { verificationInput, verificationOutcome } from "../../../../../../../lib/remediation";
+
+type RouteContext = { params: { id: string; taskId: string } };
+
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const auth = await requireRole(request, "analyst");
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const { provider, response } = await resolveProvider();
+    if (response) {
+      return response;
+    }
+
+    let target;
+    try {
+      const project = await getProject(params.id);
+      const task = project.tasks.find((item) => item.id === params.taskId);
+      if (!task) {
+        throw new TaskNotFoundError(params.taskId);
+      }
+      const run = project.runs.find((item) => item.id === task.source_run_id);
+      if (!run) {
+        throw new RunNotFoundError(task.source_run_id);
+      }
+      target = { task, run };
+    } catch (projectError) {
+      return projectErrorResponse(projectError);
+    }
+
+    const resolved = await resolvePromptTemplate(target.run.prompt_template);
+    if (resolved.response) {
+      return resolved.response;
+    }
+    const { template } = resolved;
+
+    const limited = await applyLimits(request, auth.user);
+    if (limited) {
+      return limited;
+    }
+
+    const input = { ...verificationInput(target.run, target.task), project_id: params.id };
+    const audit = startAuditRun({ provider, template, route: "verify", user: auth.user, input });
+    let prepared: Awaited<ReturnType<typeof prepareInput>> | undefined;
+    let analysis;
+    try {
+      prepared = await prepareInput({ provider: audit.provider, template, input, signal: request.signal });
+      analysis = await runPreparedAnalysis({
+        provider: audit.provider,
+        prepared,
+        signal: request.signal,
+        trace: audit.trace
+      });
+    } catch (runError) {
+      await audit.complete({ ...failedOutcome(runError, request.signal), prepared });
+      throw runError;
+    }
+
+    const run = await recordRun(params.id, input, analysis, template.id);
+    await audit.complete({ status: "ok", prepared, run_id: run.id });
+
+    const verification = verificationOutcome(target.task, target.run.analysis, analysis, run.id);
+    const task = await recordTaskVerification(params.id, params.taskId, verification);
+
+    return NextResponse.json({ task, run_id: run.id }, { status: 200 });
+  } catch (error) {
+    return NextResponse.json(analysisErrorPayload(error), { status: 500 });
+  }
+}
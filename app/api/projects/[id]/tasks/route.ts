@@ -0,0 +1,87 @@
+import { NextResponse } from "next/server";
+import { requireRole } from "../../../../../lib/api/auth";
+import { readJsonBody } from "../../../../../lib/api/body";
+import { projectErrorResponse } from "../../../../../lib/api/projects";
+import { createTasks, getProject } from "../../../../../lib/projects/store";
+import { renderTaskCsv, TASK_EXPORT_FORMATS, webhookPayload, type TaskExportFormat } from "../../../../../lib/remediation";
+
+type RouteContext = { params: { id: string } };
+
+function fileSlug(name: string) {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "chainbreak-ai";
+}
+
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const auth = await requireRole(request, "viewer");
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const project = await getProject(params.id);
+    const format = new URL(request.url).searchParams.get("format");
+
+    if (!format) {
+      return NextResponse.json({ tasks: project.tasks });
+    }
+
+    if (!TASK_EXPORT_FORMATS.includes(format as TaskExportFormat)) {
+      return NextResponse.json(
+        { error: `Unsupported format. Use one of ${TASK_EXPORT_FORMATS.join(", ")}.` },
+        { status: 400 }
+      );
+    }
+
+    const filename = `${fileSlug(project.name)}-remediation`;
+    if (format === "csv") {
+      return new Response(renderTaskCsv(project.tasks), {
+        status: 200,
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="${filename}.csv"`
+        }
+      });
+    }
+
+    const payload = webhookPayload(format as Exclude<TaskExportFormat, "csv">, project, project.tasks, {
+      jiraProject: process.env.REMEDIATION_JIRA_PROJECT
+    });
+    return NextResponse.json(payload, {
+      status: 200,
+      headers: { "Content-Disposition": `attachment; filename="${filename}-${format}.json"` }
+    });
+  } catch (error) {
+    return projectErrorResponse(error);
+  }
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const auth = await requireRole(request, "analyst");
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const parsed = await readJsonBody<{ run_id?: unknown; fix_indexes?: unknown }>(request);
+    if (parsed.response) {
+      return parsed.response;
+    }
+    const { body } = parsed;
+
+    if (typeof body.run_id !== "string" || !body.run_id) {
+      return NextResponse.json({ error: "A run id is required." }, { status: 400 });
+    }
+
+    if (
+      body.fix_indexes !== undefined &&
+      (!Array.isArray(body.fix_indexes) || !body.fix_indexes.every((index) => Number.isInteger(index)))
+    ) {
+      return NextResponse.json({ error: "fix_indexes must be a list of integers." }, { status: 400 });
+    }
+
+    const tasks = await createTasks(params.id, body.run_id, body.fix_indexes as number[] | undefined);
+    return NextResponse.json({ tasks }, { status: 201 });
+  } catch (error) {
+    return projectErrorResponse(error);
+  }
+}
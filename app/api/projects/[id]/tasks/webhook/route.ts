@@ -0,0 +1,80 @@
+import { NextResponse } from "next/server";
+import { requireRole } from "../../../../../../lib/api/auth";
+import { readJsonBody } from "../../../../../../lib/api/body";
+import { projectErrorResponse } from "../../../../../../lib/api/projects";
+import { getProject } from "../../../../../../lib/projects/store";
+import { TASK_EXPORT_FORMATS, webhookPayload, type WebhookFormat } from "../../../../../../lib/remediation";
+
+type RouteContext = { params: { id: string } };
+
+const WEBHOOK_FORMATS = TASK_EXPORT_FORMATS.filter((format): format is WebhookFormat => format !== "csv");
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const auth = await requireRole(request, "analyst");
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const url = process.env.REMEDIATION_WEBHOOK_URL;
+    if (!url) {
+      return NextResponse.json(
+        { error: "No remediation webhook is configured. Set REMEDIATION_WEBHOOK_URL." },
+        { status: 400 }
+      );
+    }
+
+    const parsed = await readJsonBody<{ format?: string; task_ids?: unknown }>(request, {});
+    if (parsed.response) {
+      return parsed.response;
+    }
+    const { body } = parsed;
+    const format = (body.format ?? process.env.REMEDIATION_WEBHOOK_FORMAT ?? "github") as WebhookFormat;
+    if (!WEBHOOK_FORMATS.includes(format)) {
+      return NextResponse.json({ error: `Unsupported format. Use one of ${WEBHOOK_FORMATS.join(", ")}.` }, { status: 400 });
+    }
+
+    const project = await getProject(params.id);
+    const taskIds = Array.isArray(body.task_ids) ? body.task_ids : null;
+    const tasks = taskIds ? project.tasks.filter((task) => taskIds.includes(task.id)) : project.tasks;
+    if (tasks.length === 0) {
+      return NextResponse.json({ error: "There are no tasks to send." }, { status: 400 });
+    }
+
+    const token = process.env.REMEDIATION_WEBHOOK_TOKEN;
+    let upstream: Response;
+    try {
+      upstream = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(token ? { Authorization: `Bearer ${token}` } : {})
+        },
+        body: JSON.stringify(
+          webhookPayload(format, project, tasks, { jiraProject: process.env.REMEDIATION_JIRA_PROJECT })
+        ),
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+      });
+    } catch (deliveryError) {
+      return NextResponse.json(
+        {
+          error: "Webhook delivery failed.",
+          details: deliveryError instanceof Error ? deliveryError.message : "Unknown error."
+        },
+        { status: 502 }
+      );
+    }
+
+    if (!upstream.ok) {
+      return NextResponse.json(
+        { error: "Webhook delivery failed.", details: `The webhook answered ${upstream.status}.` },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json({ delivered: tasks.length, format, status: upstream.status });
+  } catch (error) {
+    return projectErrorResponse(error);
+  }
+}
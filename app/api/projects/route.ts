@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { requireRole } from "../../../lib/api/auth";
+import { readJsonBody } from "../../../lib/api/body";
+import { projectErrorResponse } from "../../../lib/api/projects";
+import { createProject, listProjects } from "../../../lib/projects/store";
+import type { ProjectInputs } from "../../../lib/projects/types";
+
+export async function GET(request: Request) {
+  try {
+    const auth = await requireRole(request, "viewer");
+    if (auth.response) {
+      return auth.response;
+    }
+
+    return NextResponse.json({ projects: await listProjects() });
+  } catch (error) {
+    return projectErrorResponse(error);
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const auth = await requireRole(request, "analyst");
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const parsed = await readJsonBody<{ name?: string; inputs?: Partial<ProjectInputs> }>(request);
+    if (parsed.response) {
+      return parsed.response;
+    }
+    const { body } = parsed;
+
+    if (!body.name || body.name.trim().length === 0) {
+      return NextResponse.json({ error: "Project name is required." }, { status: 400 });
+    }
+
+    const project = await createProject({ name: body.name, inputs: body.inputs });
+    return NextResponse.json(project, { status: 201 });
+  } catch (error) {
+    return projectErrorResponse(error);
+  }
+}
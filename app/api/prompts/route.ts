@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { defaultPromptTemplateId, listPromptTemplates } from "../../../lib/analysis/templates";
+import { requireRole } from "../../../lib/api/auth";
+import { settingsEnv } from "../../../lib/settings/store";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const auth = await requireRole(request, "viewer");
+  if (auth.response) {
+    return auth.response;
+  }
+
+  try {
+    return NextResponse.json({
+      templates: await listPromptTemplates(),
+      default: defaultPromptTemplateId(await settingsEnv())
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { error: "Unable to load prompt templates.", details: error instanceof Error ? error.message : "Unknown error." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { requireRole } from "../../../../lib/api/auth";
+import { deleteScenario, ScenarioNotFoundError } from "../../../../lib/scenarios/store";
+
+type RouteContext = { params: { id: string } };
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  try {
+    const auth = await requireRole(request, "analyst");
+    if (auth.response) {
+      return auth.response;
+    }
+
+    await deleteScenario(params.id);
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    if (error instanceof ScenarioNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    return NextResponse.json(
+      { error: "Unable to delete scenario.", details: error instanceof Error ? error.message : "Unknown error." },
+      { status: 500 }
+    );
+  }
+}
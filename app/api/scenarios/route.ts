@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { requireRole } from "../../../lib/api/auth";
+import { readJsonBody } from "../../../lib/api/body";
+import { createScenario, listScenarios } from "../../../lib/scenarios/store";
+
+export async function GET(request: Request) {
+  try {
+    const auth = await requireRole(request, "viewer");
+    if (auth.response) {
+      return auth.response;
+    }
+
+    return NextResponse.json({ scenarios: await listScenarios() });
+  } catch (error) {
+    return NextResponse.json(
+      { error: "Unable to load scenarios.", details: error instanceof Error ? error.message : "Unknown error." },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const auth = await requireRole(request, "analyst");
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const parsed = await readJsonBody<{ label?: string; value?: string }>(request);
+    if (parsed.response) {
+      return parsed.response;
+    }
+    const { body } = parsed;
+
+    if (!body.value || body.value.trim().length === 0) {
+      return NextResponse.json({ error: "Scenario text is required." }, { status: 400 });
+    }
+
+    return NextResponse.json(await createScenario({ label: body.label ?? "", value: body.value }), { status: 201 });
+  } catch (error) {
+    return NextResponse.json(
+      { error: "Unable to save scenario.", details: error instanceof Error ? error.message : "Unknown error." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+import { normalizeAnalysis } from "../../../../lib/analysis/schema";
+import { requireRole } from "../../../../lib/api/auth";
+import { readJsonBody } from "../../../../lib/api/body";
+import { exportThreatDragon } from "../../../../lib/threatdragon";
+
+function fileSlug(name: unknown) {
+  const slug = typeof name === "string" ? name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") : "";
+  return slug || "threat-model";
+}
+
+export async function POST(request: Request) {
+  try {
+    const auth = await requireRole(request, "viewer");
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const parsed = await readJsonBody<{ model?: unknown; analysis?: unknown }>(request);
+    if (parsed.response) {
+      return parsed.response;
+    }
+    const { body } = parsed;
+
+    const { value: analysis, violations } = normalizeAnalysis(body.analysis);
+    if (violations.length > 0) {
+      return NextResponse.json({ error: "Analysis is invalid.", violations }, { status: 400 });
+    }
+
+    const exported = exportThreatDragon(body.model, analysis);
+    if (!exported.value) {
+      return NextResponse.json({ error: "Not a Threat Dragon model.", violations: exported.violations }, { status: 400 });
+    }
+
+    const { document, added, unmatched } = exported.value;
+    const summary = (document.summary ?? {}) as { title?: unknown };
+    return new Response(JSON.stringify(document, null, 2), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        "Content-Disposition": `attachment; filename="${fileSlug(summary.title)}.json"`,
+        "X-Threats-Added": String(added),
+        "X-Threats-Unmatched": String(unmatched.length)
+      }
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: "Failed to export the Threat Dragon model.",
+        details: error instanceof Error ? error.message : "Unknown error."
+      },
+      { status: 500 }
+    );
+  }
+}
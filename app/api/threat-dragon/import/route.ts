@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { requireRole } from "../../../../lib/api/auth";
+import { readJsonBody } from "../../../../lib/api/body";
+import { importThreatDragon } from "../../../../lib/threatdragon";
+
+export async function POST(request: Request) {
+  try {
+    const auth = await requireRole(request, "analyst");
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const parsed = await readJsonBody<unknown>(request);
+    if (parsed.response) {
+      return parsed.response;
+    }
+    const { value, violations } = importThreatDragon(parsed.body);
+    if (!value) {
+      return NextResponse.json({ error: "Not a Threat Dragon model.", violations }, { status: 400 });
+    }
+
+    return NextResponse.json(value, { status: 200 });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: "Failed to import the Threat Dragon model.",
+        details: error instanceof Error ? error.message : "Unknown error."
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,144 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { buildAttackGraph, type GraphNode } from "../../lib/analysis/graph";
+import type { AnalysisResponse } from "../../lib/analysis/schema";
+
+type AttackGraphProps = {
+  analysis: AnalysisResponse;
+};
+
+const NODE_WIDTH = 150;
+const NODE_HEIGHT = 44;
+const LABEL_LENGTH = 24;
+
+function shorten(label: string) {
+  return label.length > LABEL_LENGTH ? `${label.slice(0, LABEL_LENGTH - 1)}…` : label;
+}
+
+export default function AttackGraph({ analysis }: AttackGraphProps) {
+  const graph = useMemo(() => buildAttackGraph(analysis), [analysis]);
+  const [focusPath, setFocusPath] = useState<number | null>(null);
+  const [focusCut, setFocusCut] = useState<string | null>(null);
+
+  const nodesById = useMemo(() => new Map(graph.nodes.map((node) => [node.id, node])), [graph]);
+
+  const isDimmed = (paths: number[]) => focusPath !== null && !paths.includes(focusPath);
+
+  const handleNodeFocus = (node: GraphNode) => {
+    setFocusPath(node.paths.length === 1 ? node.paths[0] : focusPath === node.paths[0] ? null : node.paths[0] ?? null);
+  };
+
+  return (
+    <div className="card">
+      <div className="graph-legend">
+        {analysis.attack_paths.map((path, index) => (
+          <button
+            key={path.name}
+            className={`tab ${focusPath === index ? "active" : ""}`}
+            onClick={() => setFocusPath(focusPath === index ? null : index)}
+          >
+            <span className={`badge ${path.overall_risk}`}>{path.overall_risk}</span> {path.name}
+          </button>
+        ))}
+      </div>
+      <div className="graph-scroll">
+        <svg
+          className="graph"
+          width={graph.width}
+          height={graph.height}
+          viewBox={`0 0 ${graph.width} ${graph.height}`}
+          role="img"
+          aria-label="Attack path graph"
+        >
+          {graph.edges.map((edge) => {
+            const from = nodesById.get(edge.from);
+            const to = nodesById.get(edge.to);
+            if (!from || !to) {
+              return null;
+            }
+            return (
+              <line
+                key={edge.id}
+                className={`graph-edge ${edge.kind} ${edge.risk} ${isDimmed([edge.path]) ? "dimmed" : ""}`}
+                x1={from.x + (edge.kind === "chain" ? NODE_WIDTH / 2 : 0)}
+                y1={from.y}
+                x2={to.x - (edge.kind === "chain" ? NODE_WIDTH / 2 : 0)}
+                y2={to.y}
+              />
+            );
+          })}
+
+          {graph.nodes.map((node) => (
+            <g
+              key={node.id}
+              className={`graph-node ${node.kind} ${node.risk ?? ""} ${isDimmed(node.paths) ? "dimmed" : ""}`}
+              transform={`translate(${node.x - NODE_WIDTH / 2}, ${node.y - NODE_HEIGHT / 2})`}
+              onClick={() => handleNodeFocus(node)}
+            >
+              <title>{node.label}</title>
+              <rect width={NODE_WIDTH} height={NODE_HEIGHT} rx={node.kind === "component" ? 22 : 10} />
+              <text x={NODE_WIDTH / 2} y={NODE_HEIGHT / 2 + 4} textAnchor="middle">
+                {shorten(node.label)}
+              </text>
+            </g>
+          ))}
+
+          {graph.cuts.map((cut) => {
+            const edge = graph.edges.find((item) => item.id === cut.edge);
+            const from = edge && nodesById.get(edge.from);
+            const to = edge && nodesById.get(edge.to);
+            if (!from || !to) {
+              return null;
+            }
+            const x = (from.x + NODE_WIDTH / 2 + to.x - NODE_WIDTH / 2) / 2;
+            const y = (from.y + to.y) / 2;
+            const active = focusCut === cut.edge;
+            return (
+              <g
+                key={`${cut.fix.fix}-${cut.edge}`}
+                className={`graph-cut ${active ? "active" : ""} ${isDimmed([cut.path]) ? "dimmed" : ""}`}
+                onMouseEnter={() => setFocusCut(cut.edge)}
+                onMouseLeave={() => setFocusCut(null)}
+              >
+                <title>
+                  {`${cut.fix.fix} (breaks ${analysis.attack_paths[cut.path]?.name} at step ${cut.step}` +
+                    `${cut.assumed ? ", assumed: no step given" : ""})`}
+                </title>
+                <line x1={x} y1={y - 16} x2={x} y2={y + 16} />
+                <text x={x + 6} y={y - 8}>
+                  ✂
+                </text>
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+
+      <h4>Fix cuts</h4>
+      <ul className="list">
+        {graph.cuts.map((cut) => (
+          <li
+            key={`${cut.fix.fix}-${cut.edge}`}
+            className={focusCut === cut.edge ? "diff-changed" : ""}
+            onMouseEnter={() => {
+              setFocusCut(cut.edge);
+              setFocusPath(cut.path);
+            }}
+            onMouseLeave={() => setFocusCut(null)}
+          >
+            {cut.fix.fix} — breaks <strong>{analysis.attack_paths[cut.path]?.name}</strong> before step {cut.step}
+            {cut.assumed && (
+              <span className="helper"> (no step given in &quot;{cut.fix.breaks_chain_at}&quot;, first step assumed)</span>
+            )}
+          </li>
+        ))}
+        {graph.unplaced_fixes.map((fix) => (
+          <li key={`unplaced-${fix.fix}`} className="helper">
+            {fix.fix} — could not place &quot;{fix.breaks_chain_at}&quot; on the graph
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
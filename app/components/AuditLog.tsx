@@ -0,0 +1,172 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { AuditEntry } from "../../lib/audit/types";
+
+type Filters = {
+  user: string;
+  project_id: string;
+  route: string;
+  status: string;
+  from: string;
+  to: string;
+};
+
+const EMPTY_FILTERS: Filters = { user: "", project_id: "", route: "", status: "", from: "", to: "" };
+
+function queryFor(filters: Filters) {
+  const params = new URLSearchParams();
+  for (const key of ["user", "project_id", "route", "status"] as const) {
+    if (filters[key].trim()) {
+      params.set(key, filters[key].trim());
+    }
+  }
+  if (filters.from) {
+    params.set("from", `${filters.from}T00:00:00.000Z`);
+  }
+  if (filters.to) {
+    params.set("to", `${filters.to}T23:59:59.999Z`);
+  }
+  return params;
+}
+
+export default function AuditLog() {
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const loadEntries = useCallback(async (current: Filters) => {
+    const response = await fetch(`/api/admin/audit?${queryFor(current)}`);
+    if (!response.ok) {
+      setStatus("Unable to load the audit log.");
+      return;
+    }
+    setStatus(null);
+    setEntries(((await response.json()) as { entries: AuditEntry[] }).entries);
+  }, []);
+
+  useEffect(() => {
+    void loadEntries(EMPTY_FILTERS);
+  }, [loadEntries]);
+
+  const setFilter = (key: keyof Filters, value: string) => {
+    setFilters((current) => ({ ...current, [key]: value }));
+  };
+
+  const exportParams = queryFor(filters);
+  exportParams.set("format", "jsonl");
+
+  return (
+    <section className="panel" style={{ marginTop: 24 }}>
+      <h2>Audit Log</h2>
+      <p className="helper">
+        Append-only record of every analysis run: who ran it, an input hash, prompt versions, model and parameters,
+        raw model output from the initial and repair passes, masked values, latency and estimated tokens.
+      </p>
+      <div className="input-row">
+        <input
+          type="text"
+          placeholder="User"
+          value={filters.user}
+          onChange={(event) => setFilter("user", event.target.value)}
+        />
+        <input
+          type="text"
+          placeholder="Project ID"
+          value={filters.project_id}
+          onChange={(event) => setFilter("project_id", event.target.value)}
+        />
+        <select value={filters.route} onChange={(event) => setFilter("route", event.target.value)} aria-label="Route">
+          <option value="">All routes</option>
+          <option value="analyze">analyze</option>
+          <option value="stream">stream</option>
+          <option value="sweep">sweep</option>
+          <option value="verify">verify</option>
+          <option value="followup">followup</option>
+          <option value="detections">detections</option>
+        </select>
+        <select value={filters.status} onChange={(event) => setFilter("status", event.target.value)} aria-label="Status">
+          <option value="">All statuses</option>
+          <option value="ok">ok</option>
+          <option value="cached">cached</option>
+          <option value="error">error</option>
+          <option value="cancelled">cancelled</option>
+        </select>
+        <input
+          type="date"
+          value={filters.from}
+          onChange={(event) => setFilter("from", event.target.value)}
+          aria-label="From"
+        />
+        <input
+          type="date"
+          value={filters.to}
+          onChange={(event) => setFilter("to", event.target.value)}
+          aria-label="To"
+        />
+      </div>
+      <div className="input-row" style={{ marginTop: 12 }}>
+        <button className="button secondary" onClick={() => loadEntries(filters)}>
+          Apply Filters
+        </button>
+        <a className="button secondary" href={`/api/admin/audit?${exportParams}`}>
+          Export JSONL
+        </a>
+      </div>
+      {status && <p className="helper">{status}</p>}
+      {entries.length === 0 && <p className="helper">No audit entries match.</p>}
+      <ul className="history">
+        {entries.map((entry) => (
+          <li key={entry.id}>
+            <details>
+              <summary>
+                {new Date(entry.created_at).toLocaleString()} · {entry.user?.username ?? "unknown"} · {entry.route}{" "}
+                <span className={`badge ${entry.status === "ok" || entry.status === "cached" ? "low" : "high"}`}>
+                  {entry.status}
+                </span>{" "}
+                <span className="helper">
+                  {entry.provider}/{entry.model} · {entry.latency_ms} ms ·{" "}
+                  {(entry.usage.prompt_tokens + entry.usage.output_tokens).toLocaleString()} tokens
+                </span>
+              </summary>
+              <ul className="list">
+                <li>Input hash: {entry.input_hash}</li>
+                <li>
+                  Project: {entry.project_id ?? "none"}
+                  {entry.run_id ? ` (run ${entry.run_id})` : ""}
+                </li>
+                {entry.what_if.length > 0 && <li>What-if: {entry.what_if.join(" + ")}</li>}
+                <li>
+                  Prompt versions: system {entry.prompt_versions.system}, developer {entry.prompt_versions.developer}
+                </li>
+                <li>
+                  Parameters: temperature {entry.parameters.temperature}, max output tokens{" "}
+                  {entry.parameters.maxOutputTokens}
+                </li>
+                <li>
+                  Usage: {entry.usage.calls} model calls, {entry.usage.prompt_tokens} prompt and{" "}
+                  {entry.usage.output_tokens} output tokens (estimated)
+                </li>
+                {entry.redactions.length > 0 && (
+                  <li>Masked: {entry.redactions.map((item) => `${item.placeholder} (${item.label})`).join(", ")}</li>
+                )}
+                {entry.condensed.length > 0 && (
+                  <li>Condensed: {entry.condensed.map((field) => field.field).join(", ")}</li>
+                )}
+                {entry.error && <li>Error: {entry.error}</li>}
+              </ul>
+              <h4>Initial output</h4>
+              <pre className="masked-text">{entry.outputs.initial ?? "(none)"}</pre>
+              {entry.outputs.repair !== null && (
+                <>
+                  <h4>Repair output</h4>
+                  <pre className="masked-text">{entry.outputs.repair}</pre>
+                </>
+              )}
+            </details>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,132 @@
+"use client";
+
+import { useMemo } from "react";
+import type { AnalysisResponse } from "../../lib/analysis/schema";
+import {
+  ATTACK_VERSION,
+  CWE_VERSION,
+  coverageMatrix,
+  describeMapping,
+  findTechnique,
+  findWeakness,
+  mappingIsEmpty
+} from "../../lib/frameworks";
+
+type CoverageMatrixProps = {
+  analysis: AnalysisResponse;
+};
+
+export default function CoverageMatrix({ analysis }: CoverageMatrixProps) {
+  const matrix = useMemo(() => coverageMatrix(analysis), [analysis]);
+  const weaknesses = useMemo(() => {
+    const counts = new Map<string, number>();
+    const mappings = [
+      ...analysis.top_risks.map((risk) => risk.mapping),
+      ...analysis.attack_paths.flatMap((path) => path.steps.map((step) => step.mapping))
+    ];
+    for (const id of mappings.flatMap((mapping) => mapping?.cwes ?? [])) {
+      counts.set(id, (counts.get(id) ?? 0) + 1);
+    }
+    return [...counts.entries()].sort((a, b) => b[1] - a[1]);
+  }, [analysis]);
+  const rejected = analysis.mapping_report?.rejected ?? [];
+  const columns = `160px repeat(${matrix.tactics.length}, 88px)`;
+
+  return (
+    <>
+      <div className="card">
+        <h3>ATT&amp;CK Tactic Coverage</h3>
+        <p className="helper">
+          {matrix.covered.length} of {matrix.tactics.length} tactics reached by {analysis.attack_paths.length} attack
+          path{analysis.attack_paths.length === 1 ? "" : "s"}. IDs are checked against the bundled {ATTACK_VERSION} and{" "}
+          {CWE_VERSION} catalogs.
+        </p>
+        {matrix.covered.length === 0 ? (
+          <p className="helper">No attack-path steps are mapped to ATT&amp;CK tactics.</p>
+        ) : (
+          <div className="graph-scroll">
+            <div className="coverage-matrix" style={{ gridTemplateColumns: columns }}>
+              <div />
+              {matrix.tactics.map((tactic) => (
+                <div
+                  key={tactic.id}
+                  className={`coverage-head ${matrix.covered.includes(tactic.id) ? "hit" : ""}`}
+                  title={tactic.id}
+                >
+                  {tactic.name}
+                </div>
+              ))}
+              {matrix.rows.map((row) => (
+                <div key={row.path} className="coverage-row">
+                  <div className="coverage-path">{row.path}</div>
+                  {matrix.tactics.map((tactic) => {
+                    const cell = row.cells[tactic.id];
+                    return (
+                      <div key={tactic.id} className={`coverage-cell ${cell ? "hit" : ""}`}>
+                        {cell && (
+                          <>
+                            <span>Step {cell.steps.join(", ")}</span>
+                            {cell.techniques.map((technique) => (
+                              <code key={technique} title={findTechnique(technique)?.name}>
+                                {technique}
+                              </code>
+                            ))}
+                          </>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+      <div className="card">
+        <h3>Top Risk Mappings</h3>
+        <ul className="list">
+          {analysis.top_risks.map((risk) => (
+            <li key={risk.risk}>
+              {risk.risk}{" "}
+              <span className="helper">
+                {mappingIsEmpty(risk.mapping) ? "not mapped" : describeMapping(risk.mapping).join(", ")}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </div>
+      <div className="card">
+        <h3>Weaknesses (CWE)</h3>
+        {weaknesses.length === 0 ? (
+          <p className="helper">No CWE IDs were assigned.</p>
+        ) : (
+          <ul className="list">
+            {weaknesses.map(([id, count]) => (
+              <li key={id}>
+                <code>{id}</code> {findWeakness(id)?.name}{" "}
+                <span className="helper">
+                  ({count} finding{count === 1 ? "" : "s"})
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      {rejected.length > 0 && (
+        <div className="callout">
+          <strong>Rejected IDs</strong>
+          <p className="helper">
+            {rejected.length} ID{rejected.length === 1 ? " was" : "s were"} not found in the bundled catalogs and dropped.
+          </p>
+          <ul className="list">
+            {rejected.map((entry, index) => (
+              <li key={`${entry.path}-${index}`}>
+                {entry.path}: <code>{entry.id}</code>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,146 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { AnalysisResponse } from "../../lib/analysis/schema";
+import { evaluateSigma } from "../../lib/detections/evaluate";
+import type { DetectionDraft } from "../../lib/detections/types";
+
+type DetectionDraftsProps = {
+  analysis: AnalysisResponse;
+  pathIndex: number;
+  step?: number;
+  logs?: string;
+  disabled: boolean;
+};
+
+type DraftEditorProps = {
+  draft: DetectionDraft;
+  logs?: string;
+  onChange: (sigma: string) => void;
+};
+
+function DraftEditor({ draft, logs, onChange }: DraftEditorProps) {
+  const evaluation = useMemo(() => evaluateSigma(draft.sigma, logs), [draft.sigma, logs]);
+  const { validation, queries, matches } = evaluation;
+  const title = draft.sigma.match(/^title:\s*(.*)$/m)?.[1] ?? draft.signals.join("; ");
+
+  return (
+    <details className="card">
+      <summary>
+        <strong>{title}</strong>{" "}
+        <span className={`badge ${validation.valid ? "low" : "high"}`}>{validation.valid ? "valid" : "invalid"}</span>{" "}
+        {matches && (
+          <span className="helper">
+            {matches.matched.length} of {matches.total} log lines match
+          </span>
+        )}
+      </summary>
+      <p className="helper">Step {draft.step}. Edit the rule to re-validate it and re-check your log sample.</p>
+      <textarea value={draft.sigma} onChange={(event) => onChange(event.target.value)} rows={14} spellCheck={false} />
+      {validation.errors.length > 0 && (
+        <ul className="list error">
+          {validation.errors.map((issue, index) => (
+            <li key={`${issue.path}-${index}`}>
+              {issue.path}: {issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
+      {validation.warnings.length > 0 && (
+        <ul className="list helper">
+          {validation.warnings.map((issue, index) => (
+            <li key={`${issue.path}-${index}`}>
+              {issue.path}: {issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
+      {queries.map((query) => (
+        <div key={query.dialect}>
+          <h4>{query.dialect === "sql" ? "SQL template" : "Lucene query"}</h4>
+          <pre className="masked-text">{query.query}</pre>
+        </div>
+      ))}
+      {matches && (
+        <>
+          <h4>Matching log lines</h4>
+          {matches.unsupported.length > 0 && (
+            <p className="helper">Not evaluated locally: {matches.unsupported.join(", ")} modifiers.</p>
+          )}
+          {matches.matched.length === 0 ? (
+            <p className="helper">No lines in the log sample match this rule.</p>
+          ) : (
+            <pre className="masked-text">
+              {matches.matched.map((line) => `${line.line}: ${line.text}`).join("\n")}
+            </pre>
+          )}
+        </>
+      )}
+    </details>
+  );
+}
+
+export default function DetectionDrafts({ analysis, pathIndex, step, logs, disabled }: DetectionDraftsProps) {
+  const [drafts, setDrafts] = useState<DetectionDraft[] | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleGenerate = async () => {
+    setRunning(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/detections", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({ analysis, path_index: pathIndex, step, logs })
+      });
+      const payload = await response.json();
+      if (!response.ok) {
+        setError(payload.details ?? payload.error);
+        return;
+      }
+      setDrafts((payload as { drafts: DetectionDraft[] }).drafts);
+    } catch (requestError) {
+      setError(requestError instanceof Error ? requestError.message : "Unknown error.");
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleChange = (index: number, sigma: string) => {
+    setDrafts((current) => current?.map((draft, position) => (position === index ? { ...draft, sigma } : draft)) ?? null);
+  };
+
+  const downloadUrl = useMemo(
+    () =>
+      drafts && drafts.length > 0
+        ? `data:application/x-yaml;charset=utf-8,${encodeURIComponent(drafts.map((draft) => draft.sigma).join("---\n"))}`
+        : null,
+    [drafts]
+  );
+
+  return (
+    <div className="section">
+      <div className="input-row">
+        <button className="button ghost" onClick={handleGenerate} disabled={disabled || running}>
+          {running ? "Generating..." : step === undefined ? "Generate detections for path" : "Generate detections"}
+        </button>
+        {downloadUrl && (
+          <a className="button ghost" href={downloadUrl} download={`detections-${pathIndex + 1}${step ? `-${step}` : ""}.yml`}>
+            Download Sigma YAML
+          </a>
+        )}
+      </div>
+      {error && <p className="error">{error}</p>}
+      {drafts && drafts.length === 0 && <p className="helper">The model returned no rules.</p>}
+      {drafts?.map((draft, index) => (
+        <DraftEditor key={index} draft={draft} logs={logs} onChange={(sigma) => handleChange(index, sigma)} />
+      ))}
+      {drafts && !logs?.trim() && (
+        <p className="helper">Add a log sample in the Logs snippet to see which lines each rule matches.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { AnalysisInput, AnalysisResponse } from "../../lib/analysis/schema";
+import type { FollowupTurn } from "../../lib/followup/types";
+
+type FollowupPanelProps = {
+  analysis: AnalysisResponse;
+  input: AnalysisInput;
+  runId: string | null;
+  disabled: boolean;
+  onPromote: (whatIf: string) => void;
+};
+
+function describeReference(analysis: AnalysisResponse, reference: string) {
+  const step = reference.match(/^attack_paths\[(\d+)\]\.steps\[(\d+)\]/);
+  if (step) {
+    const path = analysis.attack_paths[Number(step[1])];
+    const item = path?.steps[Number(step[2])];
+    return path && item ? `${path.name} · step ${item.step}` : reference;
+  }
+  const [, section, index] = reference.match(/^(attack_paths|top_risks|priority_fixes)\[(\d+)\]/) ?? [];
+  switch (section) {
+    case "attack_paths":
+      return analysis.attack_paths[Number(index)]?.name ?? reference;
+    case "top_risks":
+      return analysis.top_risks[Number(index)]?.risk ?? reference;
+    case "priority_fixes":
+      return analysis.priority_fixes[Number(index)]?.fix ?? reference;
+    default:
+      return reference;
+  }
+}
+
+export default function FollowupPanel({ analysis, input, runId, disabled, onPromote }: FollowupPanelProps) {
+  const [threadId, setThreadId] = useState<string | null>(null);
+  const [turns, setTurns] = useState<FollowupTurn[]>([]);
+  const [question, setQuestion] = useState("");
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setThreadId(null);
+    setTurns([]);
+    setError(null);
+  }, [analysis]);
+
+  const handleAsk = async () => {
+    setRunning(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/followup", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify(
+          threadId ? { thread_id: threadId, question } : { question, input, analysis, run_id: runId ?? undefined }
+        )
+      });
+      const payload = await response.json();
+      if (!response.ok) {
+        setError(payload.details ?? payload.error);
+        return;
+      }
+      const { thread_id: nextThreadId, turn } = payload as { thread_id: string; turn: FollowupTurn };
+      setThreadId(nextThreadId);
+      setTurns((current) => [...current, turn]);
+      setQuestion("");
+    } catch (requestError) {
+      setError(requestError instanceof Error ? requestError.message : "Unknown error.");
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <div className="card">
+      <h3>Follow-up Questions</h3>
+      <p className="helper">
+        Ask about this result, for example &quot;why is step 2 plausible?&quot; or &quot;what if the service account
+        were scoped to one bucket?&quot;. Answers are grounded in the inputs and analysis above.
+      </p>
+      {turns.map((turn) => (
+        <div key={turn.id} className="section">
+          <strong>{turn.question}</strong>
+          <p>{turn.answer}</p>
+          {turn.references.length > 0 && (
+            <p className="helper">
+              Based on: {turn.references.map((reference) => describeReference(analysis, reference)).join(" · ")}
+            </p>
+          )}
+          {turn.safety_report.findings.length > 0 && (
+            <p className="helper">
+              The safety filter changed {turn.safety_report.findings.length} part(s) of this answer.
+            </p>
+          )}
+          {turn.what_if && (
+            <div className="input-row">
+              <span className="helper">What-if: {turn.what_if}</span>
+              <button className="button ghost" onClick={() => onPromote(turn.what_if as string)} disabled={disabled}>
+                Run as what-if
+              </button>
+            </div>
+          )}
+        </div>
+      ))}
+      {error && <p className="error">{error}</p>}
+      <div className="field">
+        <textarea
+          placeholder="Ask a follow-up question"
+          value={question}
+          onChange={(event) => setQuestion(event.target.value)}
+          rows={3}
+        />
+      </div>
+      <button className="button secondary" onClick={handleAsk} disabled={disabled || running || !question.trim()}>
+        {running ? "Thinking..." : "Ask"}
+      </button>
+    </div>
+  );
+}
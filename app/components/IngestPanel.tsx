@@ -0,0 +1,133 @@
+"use client";
+
+import { useMemo, type ChangeEvent } from "react";
+import { ingestAnalysisInput, inventoryIsEmpty, type ArtifactSource } from "../../lib/ingest";
+
+type IngestPanelProps = {
+  artifacts: ArtifactSource[];
+  configSnippet: string;
+  onChange: (artifacts: ArtifactSource[]) => void;
+};
+
+export default function IngestPanel({ artifacts, configSnippet, onChange }: IngestPanelProps) {
+  const result = useMemo(
+    () => ingestAnalysisInput({ artifacts, snippets: { config: configSnippet } }),
+    [artifacts, configSnippet]
+  );
+  const { inventory } = result;
+
+  const handleFiles = async (event: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = "";
+    const added = await Promise.all(files.map(async (file) => ({ name: file.name, content: await file.text() })));
+    const names = new Set(added.map((artifact) => artifact.name));
+    onChange([...artifacts.filter((artifact) => !names.has(artifact.name)), ...added]);
+  };
+
+  const handleRemove = (name: string) => {
+    onChange(artifacts.filter((artifact) => artifact.name !== name));
+  };
+
+  return (
+    <div className="field">
+      <label htmlFor="artifact-files">Config Artifacts (optional)</label>
+      <input
+        id="artifact-files"
+        type="file"
+        multiple
+        accept=".json,.yaml,.yml,.conf,.tfplan,.txt"
+        onChange={(event) => void handleFiles(event)}
+      />
+      <p className="helper">
+        Kubernetes manifests, Terraform plan JSON, IAM policies, docker-compose and nginx configs. A config snippet in
+        one of these formats is parsed too.
+      </p>
+      {result.artifacts.length > 0 && (
+        <ul className="history">
+          {result.artifacts.map((artifact) => (
+            <li key={artifact.name}>
+              <div className="input-row">
+                <strong>{artifact.name}</strong>
+                <span className={`badge ${artifact.kind === "unknown" ? "high" : "low"}`}>{artifact.kind}</span>
+                {artifacts.some((item) => item.name === artifact.name) && (
+                  <button className="link-button" onClick={() => handleRemove(artifact.name)}>
+                    Remove
+                  </button>
+                )}
+              </div>
+              {artifact.error && <span className="helper">{artifact.error}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+      {!inventoryIsEmpty(inventory) && (
+        <details className="card" open>
+          <summary>
+            Inventory: {inventory.components.length} components, {inventory.exposures.length} exposures,{" "}
+            {inventory.identities.length} identities, {inventory.trust_boundaries.length} boundaries
+          </summary>
+          {inventory.exposures.length > 0 && (
+            <>
+              <h4>Exposures</h4>
+              <ul className="list">
+                {inventory.exposures.map((exposure, index) => (
+                  <li key={`${exposure.source}-${index}`}>
+                    {exposure.target}: {exposure.detail}{" "}
+                    {exposure.public && <span className="badge high">public</span>}
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+          {inventory.identities.length > 0 && (
+            <>
+              <h4>Identities</h4>
+              <ul className="list">
+                {inventory.identities.map((identity, index) => (
+                  <li key={`${identity.source}-${index}`}>
+                    {identity.name}: {identity.permissions.join(", ") || "no inline permissions"}{" "}
+                    {identity.broad && <span className="badge high">broad</span>}
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+          {inventory.components.length > 0 && (
+            <>
+              <h4>Components</h4>
+              <ul className="list">
+                {inventory.components.map((component, index) => (
+                  <li key={`${component.source}-${index}`}>
+                    {component.name} <span className="helper">{component.kind}</span>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+          {inventory.trust_boundaries.length > 0 && (
+            <>
+              <h4>Trust Boundaries</h4>
+              <ul className="list">
+                {inventory.trust_boundaries.map((boundary, index) => (
+                  <li key={`${boundary.source}-${index}`}>
+                    {boundary.name}: {boundary.detail}
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+          {inventory.notes.length > 0 && (
+            <>
+              <h4>Notes</h4>
+              <ul className="list">
+                {inventory.notes.map((note, index) => (
+                  <li key={index}>{note}</li>
+                ))}
+              </ul>
+            </>
+          )}
+        </details>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+"use client";
+
+import { useMemo } from "react";
+import { formatLogPattern, parseLogTimeline, timelineIsEmpty } from "../../lib/logs";
+
+const DISPLAYED_EVENTS = 50;
+
+type LogTimelineProps = {
+  logs: string;
+};
+
+export default function LogTimeline({ logs }: LogTimelineProps) {
+  const timeline = useMemo(() => parseLogTimeline(logs), [logs]);
+
+  if (timelineIsEmpty(timeline)) {
+    return null;
+  }
+
+  const formats = Object.entries(timeline.formats)
+    .map(([format, count]) => `${count} ${format}`)
+    .join(", ");
+  const hidden = timeline.events.length - DISPLAYED_EVENTS;
+
+  return (
+    <details className="card">
+      <summary>
+        Log timeline: {timeline.events.length} events ({formats}), {timeline.patterns.length} patterns
+      </summary>
+      {timeline.patterns.length > 0 && (
+        <>
+          <h4>Patterns</h4>
+          <ul className="list">
+            {timeline.patterns.map((pattern) => (
+              <li key={`${pattern.key}-${pattern.value}`}>
+                {formatLogPattern(pattern)} <span className="helper">lines {pattern.lines.join(", ")}</span>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+      <h4>Events</h4>
+      <ul className="list">
+        {timeline.events.slice(0, DISPLAYED_EVENTS).map((event) => (
+          <li key={event.line}>
+            <span className="helper">{event.time ?? event.timestamp ?? `line ${event.line}`}</span> {event.action}
+            {event.user && ` user=${event.user}`}
+            {event.ip && ` ip=${event.ip}`}{" "}
+            {event.outcome && (
+              <span className={`badge ${event.outcome === "failure" ? "high" : "low"}`}>{event.outcome}</span>
+            )}
+          </li>
+        ))}
+      </ul>
+      {hidden > 0 && <p className="helper">{hidden} more events not shown.</p>}
+    </details>
+  );
+}
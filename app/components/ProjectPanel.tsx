@@ -0,0 +1,145 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { AnalysisRun, Project, ProjectInputs, ProjectSummary } from "../../lib/projects/types";
+
+type ProjectPanelProps = {
+  project: Project | null;
+  inputs: ProjectInputs;
+  activeRunId: string | null;
+  onProjectLoaded: (project: Project | null) => void;
+  onOpenRun: (run: AnalysisRun) => void;
+  readOnly: boolean;
+};
+
+function formatTimestamp(value: string) {
+  return new Date(value).toLocaleString();
+}
+
+export default function ProjectPanel({
+  project,
+  inputs,
+  activeRunId,
+  onProjectLoaded,
+  onOpenRun,
+  readOnly
+}: ProjectPanelProps) {
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [newProjectName, setNewProjectName] = useState("");
+  const [status, setStatus] = useState<string | null>(null);
+
+  const refreshProjects = async () => {
+    const response = await fetch("/api/projects");
+    if (response.ok) {
+      const payload = (await response.json()) as { projects: ProjectSummary[] };
+      setProjects(payload.projects);
+    }
+  };
+
+  useEffect(() => {
+    void refreshProjects();
+  }, [project?.id, project?.runs.length]);
+
+  const handleSelect = async (id: string) => {
+    setStatus(null);
+    if (!id) {
+      onProjectLoaded(null);
+      return;
+    }
+    const response = await fetch(`/api/projects/${id}`);
+    if (!response.ok) {
+      setStatus("Unable to load project.");
+      return;
+    }
+    onProjectLoaded((await response.json()) as Project);
+  };
+
+  const handleCreate = async () => {
+    const response = await fetch("/api/projects", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json"
+      },
+      body: JSON.stringify({ name: newProjectName, inputs })
+    });
+    if (!response.ok) {
+      setStatus("Unable to create project.");
+      return;
+    }
+    setNewProjectName("");
+    setStatus("Project created from the current inputs.");
+    onProjectLoaded((await response.json()) as Project);
+  };
+
+  const handleSaveInputs = async () => {
+    if (!project) {
+      return;
+    }
+    const response = await fetch(`/api/projects/${project.id}`, {
+      method: "PATCH",
+      headers: {
+        "Content-Type": "application/json"
+      },
+      body: JSON.stringify({ inputs })
+    });
+    if (!response.ok) {
+      setStatus("Unable to save inputs.");
+      return;
+    }
+    setStatus("Inputs saved.");
+    onProjectLoaded((await response.json()) as Project);
+  };
+
+  return (
+    <div className="card" style={{ marginBottom: 16 }}>
+      <h3>Project</h3>
+      <div className="field">
+        <label htmlFor="project-picker">Saved projects</label>
+        <select id="project-picker" value={project?.id ?? ""} onChange={(event) => handleSelect(event.target.value)}>
+          <option value="">No project (results are not saved)</option>
+          {projects.map((item) => (
+            <option key={item.id} value={item.id}>
+              {item.name} ({item.run_count} runs{item.open_task_count > 0 ? `, ${item.open_task_count} open tasks` : ""})
+            </option>
+          ))}
+        </select>
+      </div>
+      {!readOnly && (
+        <div className="input-row">
+          <input
+            type="text"
+            placeholder="New project name"
+            value={newProjectName}
+            onChange={(event) => setNewProjectName(event.target.value)}
+          />
+          <button className="button secondary" onClick={handleCreate} disabled={newProjectName.trim().length === 0}>
+            Create Project
+          </button>
+          {project && (
+            <button className="button secondary" onClick={handleSaveInputs}>
+              Save Inputs
+            </button>
+          )}
+        </div>
+      )}
+      {status && <p className="helper">{status}</p>}
+
+      {project && (
+        <details className="field" style={{ marginTop: 12 }} open={project.runs.length > 0}>
+          <summary>History ({project.runs.length} runs)</summary>
+          {project.runs.length === 0 && <p className="helper">No analysis runs yet.</p>}
+          <ul className="history">
+            {[...project.runs].reverse().map((run) => (
+              <li key={run.id} className={run.id === activeRunId ? "active" : ""}>
+                <button className="link-button" onClick={() => onOpenRun(run)}>
+                  {formatTimestamp(run.created_at)}
+                </button>
+                <span className="helper">{run.what_if ? `What-if: ${run.what_if}` : "Baseline"}</span>
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+"use client";
+
+import { useMemo } from "react";
+import { redactAnalysisInput } from "../../lib/analysis/redaction";
+import type { AnalysisInput } from "../../lib/analysis/schema";
+import { systemModelText } from "../../lib/snapshot";
+
+type RedactionPreviewProps = {
+  input: AnalysisInput;
+};
+
+export default function RedactionPreview({ input }: RedactionPreviewProps) {
+  const { input: masked, entries } = useMemo(() => redactAnalysisInput(input), [input]);
+
+  if (entries.length === 0) {
+    return null;
+  }
+
+  const maskedFields = [
+    { label: "System snapshot", text: masked.system_text },
+    { label: "System model", text: systemModelText(masked.system_model) },
+    { label: "Diagram summary", text: masked.diagram_summary },
+    { label: "Config", text: masked.snippets?.config },
+    { label: "Logs", text: masked.snippets?.logs },
+    { label: "Code", text: masked.snippets?.code },
+    ...(masked.artifacts ?? []).map((artifact) => ({ label: artifact.name, text: artifact.content }))
+  ].filter((field) => field.text?.trim());
+
+  return (
+    <details className="field card">
+      <summary>
+        {entries.length} value{entries.length === 1 ? "" : "s"} will be masked before anything is sent to the model
+      </summary>
+      <ul className="list">
+        {entries.map((entry) => (
+          <li key={entry.placeholder}>
+            <code>{entry.placeholder}</code> {entry.label}{" "}
+            <span className="helper">
+              ({entry.fields.join(", ")}
+              {entry.occurrences > 1 ? `, ${entry.occurrences} occurrences` : ""})
+            </span>
+          </li>
+        ))}
+      </ul>
+      <details>
+        <summary className="helper">Show masked text</summary>
+        {maskedFields.map((field) => (
+          <div key={field.label}>
+            <h4>{field.label}</h4>
+            <pre className="masked-text">{field.text}</pre>
+          </div>
+        ))}
+      </details>
+    </details>
+  );
+}
@@ -0,0 +1,258 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { AnalysisResponse } from "../../lib/analysis/schema";
+import type { Project } from "../../lib/projects/types";
+import { statusLabel } from "../../lib/remediation/export";
+import { TASK_STATUSES, type RemediationTask, type TaskChanges } from "../../lib/remediation/types";
+
+type RemediationPanelProps = {
+  project: Project;
+  analysis: AnalysisResponse;
+  activeRunId: string | null;
+  readOnly: boolean;
+  disabled: boolean;
+  onChanged: () => Promise<void>;
+};
+
+type TaskRowProps = {
+  task: RemediationTask;
+  readOnly: boolean;
+  busy: boolean;
+  onUpdate: (changes: TaskChanges) => void;
+  onVerify: () => void;
+  onDelete: () => void;
+};
+
+const OUTCOME_BADGE = { broken: "low", reduced: "medium", unchanged: "high" } as const;
+
+function describeLink(task: RemediationTask) {
+  if (!task.link) {
+    return task.breaks_chain_at;
+  }
+  return `${task.link.path}${task.link.step === null ? "" : `, step ${task.link.step}`}`;
+}
+
+function TaskRow({ task, readOnly, busy, onUpdate, onVerify, onDelete }: TaskRowProps) {
+  const [owner, setOwner] = useState(task.owner);
+
+  useEffect(() => {
+    setOwner(task.owner);
+  }, [task.owner]);
+
+  return (
+    <div className="table-row">
+      <div>
+        <strong>{task.fix}</strong>
+        <p className="helper">Breaks: {describeLink(task)}</p>
+        {task.verification && (
+          <p className="helper">
+            <span className={`badge ${OUTCOME_BADGE[task.verification.outcome]}`}>
+              Chain {task.verification.outcome}
+            </span>{" "}
+            {task.verification.path_risk_before && (
+              <>
+                Path risk {task.verification.path_risk_before} → {task.verification.path_risk_after ?? "gone"},{" "}
+              </>
+            )}
+            score Δ {task.verification.score_delta} ({new Date(task.verification.verified_at).toLocaleString()})
+          </p>
+        )}
+      </div>
+      <div>
+        <input
+          type="text"
+          placeholder="Owner"
+          value={owner}
+          readOnly={readOnly}
+          onChange={(event) => setOwner(event.target.value)}
+          onBlur={() => owner.trim() !== task.owner && onUpdate({ owner })}
+        />
+        <input
+          type="date"
+          value={task.due_date ?? ""}
+          disabled={readOnly || busy}
+          onChange={(event) => onUpdate({ due_date: event.target.value || null })}
+          aria-label="Due date"
+        />
+      </div>
+      <div>
+        <select
+          value={task.status}
+          disabled={readOnly || busy}
+          onChange={(event) => onUpdate({ status: event.target.value as RemediationTask["status"] })}
+          aria-label="Status"
+        >
+          {TASK_STATUSES.map((status) => (
+            <option key={status} value={status}>
+              {statusLabel(status)}
+            </option>
+          ))}
+        </select>
+        <span className={`badge ${task.effort}`}>Effort: {task.effort}</span>
+      </div>
+      <div>
+        {!readOnly && (
+          <>
+            <button className="link-button" onClick={onVerify} disabled={busy}>
+              {busy ? "Re-running..." : "Re-run what-if"}
+            </button>
+            <br />
+            <button className="link-button" onClick={onDelete} disabled={busy}>
+              Remove
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function RemediationPanel({
+  project,
+  analysis,
+  activeRunId,
+  readOnly,
+  disabled,
+  onChanged
+}: RemediationPanelProps) {
+  const [busyTask, setBusyTask] = useState<string | null>(null);
+  const [verifyOnDone, setVerifyOnDone] = useState(true);
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const tasksUrl = `/api/projects/${project.id}/tasks`;
+  const tracked = new Set(project.tasks.map((task) => task.fix.trim().toLowerCase()));
+  const untracked = analysis.priority_fixes.filter((fix) => !tracked.has(fix.fix.trim().toLowerCase()));
+
+  const request = async (url: string, init: RequestInit) => {
+    setError(null);
+    setStatus(null);
+    try {
+      const response = await fetch(url, {
+        ...init,
+        headers: {
+          "Content-Type": "application/json"
+        }
+      });
+      const payload = response.status === 204 ? null : await response.json();
+      if (!response.ok) {
+        setError(payload?.details ?? payload?.error ?? "Request failed.");
+        return null;
+      }
+      return payload ?? {};
+    } catch (requestError) {
+      setError(requestError instanceof Error ? requestError.message : "Unknown error.");
+      return null;
+    }
+  };
+
+  const handleTrack = async () => {
+    const payload = await request(tasksUrl, { method: "POST", body: JSON.stringify({ run_id: activeRunId }) });
+    if (payload) {
+      setStatus(`Tracking ${(payload as { tasks: RemediationTask[] }).tasks.length} new fixes.`);
+      await onChanged();
+    }
+  };
+
+  const handleVerify = async (task: RemediationTask) => {
+    setBusyTask(task.id);
+    const payload = await request(`${tasksUrl}/${task.id}/verify`, { method: "POST" });
+    setBusyTask(null);
+    if (payload) {
+      const outcome = (payload as { task: RemediationTask }).task.verification?.outcome;
+      setStatus(`What-if re-run for "${task.fix}": chain ${outcome}.`);
+      await onChanged();
+    }
+  };
+
+  const handleUpdate = async (task: RemediationTask, changes: TaskChanges) => {
+    setBusyTask(task.id);
+    const payload = await request(`${tasksUrl}/${task.id}`, { method: "PATCH", body: JSON.stringify(changes) });
+    setBusyTask(null);
+    if (!payload) {
+      return;
+    }
+    await onChanged();
+    if (changes.status === "done" && task.status !== "done" && verifyOnDone) {
+      await handleVerify(task);
+    }
+  };
+
+  const handleDelete = async (task: RemediationTask) => {
+    if (await request(`${tasksUrl}/${task.id}`, { method: "DELETE" })) {
+      await onChanged();
+    }
+  };
+
+  const handleWebhook = async () => {
+    const payload = await request(`${tasksUrl}/webhook`, { method: "POST", body: JSON.stringify({}) });
+    if (payload) {
+      setStatus(`Sent ${(payload as { delivered: number }).delivered} tasks to the webhook.`);
+    }
+  };
+
+  return (
+    <div className="card">
+      <div className="input-row" style={{ justifyContent: "space-between", alignItems: "center" }}>
+        <h3 style={{ margin: 0 }}>Remediation Tasks</h3>
+        {!readOnly && (
+          <button
+            className="button secondary"
+            onClick={handleTrack}
+            disabled={disabled || !activeRunId || untracked.length === 0}
+          >
+            Track {untracked.length > 0 ? untracked.length : ""} fixes
+          </button>
+        )}
+      </div>
+      <p className="helper">
+        Tracked fixes stay with the project across runs. Marking one done can re-run the analysis with the fix as a
+        what-if to confirm the chain is broken.
+      </p>
+      {!readOnly && (
+        <label className="helper">
+          <input type="checkbox" checked={verifyOnDone} onChange={(event) => setVerifyOnDone(event.target.checked)} />{" "}
+          Re-run the what-if when a task is marked done
+        </label>
+      )}
+      {error && <p className="error">{error}</p>}
+      {status && <p className="helper">{status}</p>}
+      {project.tasks.length === 0 ? (
+        <p className="helper">No fixes are tracked for this project yet.</p>
+      ) : (
+        <>
+          <div className="table">
+            {project.tasks.map((task) => (
+              <TaskRow
+                key={task.id}
+                task={task}
+                readOnly={readOnly}
+                busy={busyTask === task.id}
+                onUpdate={(changes) => void handleUpdate(task, changes)}
+                onVerify={() => void handleVerify(task)}
+                onDelete={() => void handleDelete(task)}
+              />
+            ))}
+          </div>
+          <div className="input-row">
+            <a className="button ghost" href={`${tasksUrl}?format=csv`}>
+              Export CSV
+            </a>
+            <a className="button ghost" href={`${tasksUrl}?format=github`}>
+              GitHub issues JSON
+            </a>
+            <a className="button ghost" href={`${tasksUrl}?format=jira`}>
+              Jira bulk JSON
+            </a>
+            {!readOnly && (
+              <button className="button ghost" onClick={handleWebhook}>
+                Send to webhook
+              </button>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,205 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { diffAnalyses, type ValueChange } from "../../lib/analysis/diff";
+import type { AnalysisResponse } from "../../lib/analysis/schema";
+
+export type BaselineOption = {
+  id: string;
+  label: string;
+  is_baseline: boolean;
+  analysis: AnalysisResponse;
+};
+
+type RunDiffProps = {
+  analysis: AnalysisResponse;
+  baselines: BaselineOption[];
+};
+
+function formatChange<T>(label: string, value?: ValueChange<T>) {
+  return value ? `${label}: ${String(value.before)} → ${String(value.after)}` : null;
+}
+
+export default function RunDiff({ analysis, baselines }: RunDiffProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const selected =
+    baselines.find((option) => option.id === selectedId) ??
+    baselines.find((option) => option.is_baseline) ??
+    baselines[0];
+
+  const diff = useMemo(() => (selected ? diffAnalyses(selected.analysis, analysis) : null), [selected, analysis]);
+
+  return (
+    <div className="diff-grid">
+      <div className="card">
+        <h3>Model-reported delta</h3>
+        <p>{analysis.what_if.change || "No what-if provided."}</p>
+        <h4>Delta Summary</h4>
+        <ul className="list">
+          {analysis.what_if.delta_summary.map((item) => (
+            <li key={item}>{item}</li>
+          ))}
+        </ul>
+        <h4>Updated Risks</h4>
+        <ul className="list">
+          {analysis.what_if.updated_risks.map((item) => (
+            <li key={item}>{item}</li>
+          ))}
+        </ul>
+        {analysis.what_if.by_change.length > 0 && (
+          <>
+            <h4>By Change</h4>
+            {analysis.what_if.by_change.map((entry) => (
+              <div key={entry.change} className="card" style={{ marginBottom: 8 }}>
+                <strong>{entry.change}</strong>
+                <ul className="list">
+                  {entry.delta_summary.map((item) => (
+                    <li key={item}>{item}</li>
+                  ))}
+                  {entry.updated_risks.map((item) => (
+                    <li key={item} className="diff-changed">
+                      {item}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </>
+        )}
+      </div>
+
+      <div className="card">
+        <h3>Measured changes</h3>
+        {!selected || !diff ? (
+          <p className="helper">Run a baseline analysis or open a saved project to compare against.</p>
+        ) : (
+          <>
+            <div className="field">
+              <label htmlFor="diff-baseline">Compared against</label>
+              <select id="diff-baseline" value={selected.id} onChange={(event) => setSelectedId(event.target.value)}>
+                {baselines.map((option) => (
+                  <option key={option.id} value={option.id}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {!diff.has_changes && <p className="helper">No structural differences between the two runs.</p>}
+
+            {(diff.attack_paths.added.length > 0 ||
+              diff.attack_paths.removed.length > 0 ||
+              diff.attack_paths.changed.length > 0) && (
+              <>
+                <h4>Attack Paths</h4>
+                <ul className="list">
+                  {diff.attack_paths.added.map((path) => (
+                    <li key={`added-${path.name}`} className="diff-added">
+                      Added: {path.name} ({path.overall_risk})
+                    </li>
+                  ))}
+                  {diff.attack_paths.removed.map((path) => (
+                    <li key={`removed-${path.name}`} className="diff-removed">
+                      Removed: {path.name} ({path.overall_risk})
+                    </li>
+                  ))}
+                  {diff.attack_paths.changed.map((path) => (
+                    <li key={`changed-${path.name}`} className="diff-changed">
+                      Changed: {path.name}
+                      <ul className="list">
+                        {[
+                          formatChange("Overall risk", path.overall_risk),
+                          formatChange("Entry point", path.entry_point),
+                          formatChange("End impact", path.end_impact)
+                        ]
+                          .filter((line): line is string => line !== null)
+                          .map((line) => (
+                            <li key={line}>{line}</li>
+                          ))}
+                        {path.steps_added.map((step) => (
+                          <li key={`step-added-${step.step}`} className="diff-added">
+                            Step added: {step.action_high_level}
+                          </li>
+                        ))}
+                        {path.steps_removed.map((step) => (
+                          <li key={`step-removed-${step.step}`} className="diff-removed">
+                            Step removed: {step.action_high_level}
+                          </li>
+                        ))}
+                        {path.steps_changed.map((step) => (
+                          <li key={`step-changed-${step.step}`}>
+                            Step {step.step} changed: {step.changed_fields.join(", ")}
+                          </li>
+                        ))}
+                      </ul>
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+
+            {(diff.top_risks.added.length > 0 ||
+              diff.top_risks.removed.length > 0 ||
+              diff.top_risks.changed.length > 0) && (
+              <>
+                <h4>Top Risks</h4>
+                <ul className="list">
+                  {diff.top_risks.added.map((risk) => (
+                    <li key={`added-${risk.risk}`} className="diff-added">
+                      Added: {risk.risk}
+                    </li>
+                  ))}
+                  {diff.top_risks.removed.map((risk) => (
+                    <li key={`removed-${risk.risk}`} className="diff-removed">
+                      Removed: {risk.risk}
+                    </li>
+                  ))}
+                  {diff.top_risks.changed.map((risk) => (
+                    <li key={`changed-${risk.risk}`} className="diff-changed">
+                      {risk.risk}:{" "}
+                      {[formatChange("likelihood", risk.likelihood), formatChange("impact", risk.impact)]
+                        .filter(Boolean)
+                        .join("; ")}
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+
+            {(diff.priority_fixes.added.length > 0 ||
+              diff.priority_fixes.dropped.length > 0 ||
+              diff.priority_fixes.changed.length > 0) && (
+              <>
+                <h4>Priority Fixes</h4>
+                <ul className="list">
+                  {diff.priority_fixes.added.map((fix) => (
+                    <li key={`added-${fix.fix}`} className="diff-added">
+                      Added: {fix.fix}
+                    </li>
+                  ))}
+                  {diff.priority_fixes.dropped.map((fix) => (
+                    <li key={`dropped-${fix.fix}`} className="diff-removed">
+                      Dropped: {fix.fix}
+                    </li>
+                  ))}
+                  {diff.priority_fixes.changed.map((fix) => (
+                    <li key={`changed-${fix.fix}`} className="diff-changed">
+                      {fix.fix}:{" "}
+                      {[
+                        fix.rank.before !== fix.rank.after ? `rank #${fix.rank.before} → #${fix.rank.after}` : null,
+                        formatChange("effort", fix.effort),
+                        formatChange("risk reduction", fix.risk_reduction)
+                      ]
+                        .filter(Boolean)
+                        .join("; ")}
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+"use client";
+
+import { useState } from "react";
+import type { AnalysisInput, AnalysisResponse } from "../../lib/analysis/schema";
+import type { SweepReport } from "../../lib/analysis/sweep";
+
+type SweepPanelProps = {
+  analysis: AnalysisResponse;
+  input: AnalysisInput;
+  disabled: boolean;
+  onRecorded: () => void;
+};
+
+export default function SweepPanel({ analysis, input, disabled, onRecorded }: SweepPanelProps) {
+  const [report, setReport] = useState<SweepReport | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSweep = async () => {
+    setRunning(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/analyze/sweep", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({ input, baseline: analysis })
+      });
+      const payload = await response.json();
+      if (!response.ok) {
+        setError(payload.details ?? payload.error);
+        return;
+      }
+      setReport(payload as SweepReport);
+      if ((payload as SweepReport).results.some((result) => result.run_id)) {
+        onRecorded();
+      }
+    } catch (requestError) {
+      setError(requestError instanceof Error ? requestError.message : "Unknown error.");
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <div className="card">
+      <div className="input-row" style={{ justifyContent: "space-between", alignItems: "center" }}>
+        <h3 style={{ margin: 0 }}>Measured Risk Reduction</h3>
+        <button className="button secondary" onClick={handleSweep} disabled={disabled || running}>
+          {running ? "Sweeping..." : "Run Fix Sweep"}
+        </button>
+      </div>
+      <p className="helper">
+        Re-runs the analysis once per fix as a what-if and scores the resulting attack paths and top risks.
+        {input.project_id && " Each run is saved to the project history."}
+      </p>
+      {error && <p className="error">{error}</p>}
+      {report && (
+        <>
+          <p className="helper">Baseline risk score: {report.baseline_score.total}</p>
+          <div className="table">
+            {report.results.map((result, index) => (
+              <div key={result.fix.fix} className="table-row">
+                <div>
+                  <strong>
+                    #{index + 1} {result.fix.fix}
+                  </strong>
+                  {result.status === "failed" && <p className="helper">Failed: {result.error}</p>}
+                </div>
+                <div>
+                  <span className="badge">
+                    Δ {result.risk_delta} ({result.risk_delta_percent}%)
+                  </span>
+                  <p className="helper">Score after fix: {result.score?.total ?? "—"}</p>
+                </div>
+                <div>
+                  <span className={`badge ${result.fix.effort}`}>Effort: {result.fix.effort}</span>
+                </div>
+                <div>
+                  <span className={`badge ${result.fix.risk_reduction}`}>Claimed: {result.fix.risk_reduction}</span>
+                  <p className="helper">Δ per effort: {result.delta_per_effort}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,522 @@
+"use client";
+
+import { useMemo, useState, type ChangeEvent } from "react";
+import { formatViolations } from "../../lib/analysis/schema";
+import {
+  COMPONENT_KINDS,
+  DATA_STORE_KINDS,
+  EXPOSURE_CHANNELS,
+  IDENTITY_KINDS,
+  SENSITIVITIES,
+  TRUST_LEVELS,
+  modelIsEmpty,
+  normalizeSystemModel,
+  parseSnapshot,
+  serializeSnapshot,
+  type SystemModel
+} from "../../lib/snapshot";
+
+type SystemModelEditorProps = {
+  model: SystemModel;
+  readOnly: boolean;
+  onChange: (model: SystemModel) => void;
+};
+
+type ListKey = "trust_zones" | "components" | "data_stores" | "identities" | "edges" | "exposures";
+
+type Item<K extends ListKey> = SystemModel[K][number];
+
+function nextId(model: SystemModel, prefix: string) {
+  const ids = new Set(
+    [...model.trust_zones, ...model.components, ...model.data_stores, ...model.identities].map((item) => item.id)
+  );
+  let index = 1;
+  while (ids.has(`${prefix}-${index}`)) {
+    index += 1;
+  }
+  return `${prefix}-${index}`;
+}
+
+function splitList(value: string) {
+  return value.split(",").map((item) => item.trimStart());
+}
+
+function Options({ values, empty }: { values: readonly string[]; empty?: string }) {
+  return (
+    <>
+      {empty !== undefined && <option value="">{empty}</option>}
+      {values.map((value) => (
+        <option key={value} value={value}>
+          {value.replace(/_/g, " ")}
+        </option>
+      ))}
+    </>
+  );
+}
+
+export default function SystemModelEditor({ model, readOnly, onChange }: SystemModelEditorProps) {
+  const [status, setStatus] = useState<string | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const violations = useMemo(() => (modelIsEmpty(model) ? [] : normalizeSystemModel(model).violations), [model]);
+  const zoneIds = model.trust_zones.map((zone) => zone.id);
+  const nodeIds = [...model.components, ...model.data_stores].map((node) => node.id);
+
+  const downloads = useMemo(
+    () =>
+      modelIsEmpty(model)
+        ? null
+        : {
+            yaml: `data:application/x-yaml;charset=utf-8,${encodeURIComponent(serializeSnapshot(model, "yaml"))}`,
+            json: `data:application/json;charset=utf-8,${encodeURIComponent(serializeSnapshot(model, "json"))}`
+          },
+    [model]
+  );
+
+  const update = <K extends ListKey>(key: K, index: number, patch: Partial<Item<K>>) => {
+    const items = model[key] as Item<K>[];
+    onChange({ ...model, [key]: items.map((item, position) => (position === index ? { ...item, ...patch } : item)) });
+  };
+
+  const add = <K extends ListKey>(key: K, item: Item<K>) => {
+    onChange({ ...model, [key]: [...(model[key] as Item<K>[]), item] });
+  };
+
+  const remove = (key: ListKey, index: number) => {
+    onChange({ ...model, [key]: (model[key] as Item<ListKey>[]).filter((_, position) => position !== index) });
+  };
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) {
+      return;
+    }
+    const { value, violations: problems } = parseSnapshot(await file.text());
+    if (!value) {
+      setImportError(formatViolations(problems));
+      setStatus(null);
+      return;
+    }
+    onChange(value);
+    setImportError(problems.length > 0 ? formatViolations(problems) : null);
+    setStatus(`Imported ${file.name}.`);
+  };
+
+  const removeButton = (key: ListKey, index: number) =>
+    !readOnly && (
+      <button className="link-button" onClick={() => remove(key, index)}>
+        Remove
+      </button>
+    );
+
+  return (
+    <details className="field">
+      <summary>
+        Structured System Model (optional) — {model.components.length} components, {model.data_stores.length} data
+        stores, {model.edges.length} edges
+      </summary>
+      <p className="helper">
+        Describe the system as trust zones, components, data stores, identities, network edges and exposures. Either
+        this model or the snapshot text is required; both are sent when present.
+      </p>
+      <div className="input-row">
+        {!readOnly && (
+          <label className="button ghost">
+            Import snapshot
+            <input
+              type="file"
+              accept=".yaml,.yml,.json"
+              hidden
+              onChange={(event) => void handleImport(event)}
+            />
+          </label>
+        )}
+        {downloads && (
+          <>
+            <a className="button ghost" href={downloads.yaml} download="system-model.yaml">
+              Export YAML
+            </a>
+            <a className="button ghost" href={downloads.json} download="system-model.json">
+              Export JSON
+            </a>
+          </>
+        )}
+      </div>
+      {status && <p className="helper">{status}</p>}
+      {importError && <pre className="error">{importError}</pre>}
+
+      <div className="field">
+        <input
+          type="text"
+          placeholder="System name"
+          value={model.name}
+          readOnly={readOnly}
+          onChange={(event) => onChange({ ...model, name: event.target.value })}
+        />
+      </div>
+
+      <h4>Trust zones</h4>
+      {model.trust_zones.map((zone, index) => (
+        <div key={index} className="input-row">
+          <input
+            type="text"
+            placeholder="id"
+            value={zone.id}
+            readOnly={readOnly}
+            onChange={(event) => update("trust_zones", index, { id: event.target.value })}
+          />
+          <input
+            type="text"
+            placeholder="Name"
+            value={zone.name}
+            readOnly={readOnly}
+            onChange={(event) => update("trust_zones", index, { name: event.target.value })}
+          />
+          <select
+            value={zone.trust}
+            disabled={readOnly}
+            onChange={(event) => update("trust_zones", index, { trust: event.target.value as typeof zone.trust })}
+            aria-label="Trust level"
+          >
+            <Options values={TRUST_LEVELS} />
+          </select>
+          {removeButton("trust_zones", index)}
+        </div>
+      ))}
+      {!readOnly && (
+        <button
+          className="link-button"
+          onClick={() =>
+            add("trust_zones", { id: nextId(model, "zone"), name: "", trust: "internal", description: "" })
+          }
+        >
+          Add trust zone
+        </button>
+      )}
+
+      <h4>Components</h4>
+      {model.components.map((component, index) => (
+        <div key={index} className="input-row">
+          <input
+            type="text"
+            placeholder="id"
+            value={component.id}
+            readOnly={readOnly}
+            onChange={(event) => update("components", index, { id: event.target.value })}
+          />
+          <input
+            type="text"
+            placeholder="Name"
+            value={component.name}
+            readOnly={readOnly}
+            onChange={(event) => update("components", index, { name: event.target.value })}
+          />
+          <select
+            value={component.kind}
+            disabled={readOnly}
+            onChange={(event) => update("components", index, { kind: event.target.value as typeof component.kind })}
+            aria-label="Component kind"
+          >
+            <Options values={COMPONENT_KINDS} />
+          </select>
+          <select
+            value={component.zone ?? ""}
+            disabled={readOnly}
+            onChange={(event) => update("components", index, { zone: event.target.value || null })}
+            aria-label="Trust zone"
+          >
+            <Options values={zoneIds} empty="No zone" />
+          </select>
+          <input
+            type="text"
+            placeholder="Description"
+            value={component.description}
+            readOnly={readOnly}
+            onChange={(event) => update("components", index, { description: event.target.value })}
+          />
+          {removeButton("components", index)}
+        </div>
+      ))}
+      {!readOnly && (
+        <button
+          className="link-button"
+          onClick={() =>
+            add("components", { id: nextId(model, "component"), name: "", kind: "service", zone: null, description: "" })
+          }
+        >
+          Add component
+        </button>
+      )}
+
+      <h4>Data stores</h4>
+      {model.data_stores.map((store, index) => (
+        <div key={index} className="input-row">
+          <input
+            type="text"
+            placeholder="id"
+            value={store.id}
+            readOnly={readOnly}
+            onChange={(event) => update("data_stores", index, { id: event.target.value })}
+          />
+          <input
+            type="text"
+            placeholder="Name"
+            value={store.name}
+            readOnly={readOnly}
+            onChange={(event) => update("data_stores", index, { name: event.target.value })}
+          />
+          <select
+            value={store.kind}
+            disabled={readOnly}
+            onChange={(event) => update("data_stores", index, { kind: event.target.value as typeof store.kind })}
+            aria-label="Data store kind"
+          >
+            <Options values={DATA_STORE_KINDS} />
+          </select>
+          <select
+            value={store.zone ?? ""}
+            disabled={readOnly}
+            onChange={(event) => update("data_stores", index, { zone: event.target.value || null })}
+            aria-label="Trust zone"
+          >
+            <Options values={zoneIds} empty="No zone" />
+          </select>
+          <select
+            value={store.sensitivity}
+            disabled={readOnly}
+            onChange={(event) =>
+              update("data_stores", index, { sensitivity: event.target.value as typeof store.sensitivity })
+            }
+            aria-label="Sensitivity"
+          >
+            <Options values={SENSITIVITIES} />
+          </select>
+          <input
+            type="text"
+            placeholder="Data held (comma separated)"
+            value={store.data.join(", ")}
+            readOnly={readOnly}
+            onChange={(event) => update("data_stores", index, { data: splitList(event.target.value) })}
+          />
+          {removeButton("data_stores", index)}
+        </div>
+      ))}
+      {!readOnly && (
+        <button
+          className="link-button"
+          onClick={() =>
+            add("data_stores", {
+              id: nextId(model, "store"),
+              name: "",
+              kind: "database",
+              zone: null,
+              sensitivity: "internal",
+              data: [],
+              description: ""
+            })
+          }
+        >
+          Add data store
+        </button>
+      )}
+
+      <h4>Identities</h4>
+      {model.identities.map((identity, index) => (
+        <div key={index} className="input-row">
+          <input
+            type="text"
+            placeholder="id"
+            value={identity.id}
+            readOnly={readOnly}
+            onChange={(event) => update("identities", index, { id: event.target.value })}
+          />
+          <input
+            type="text"
+            placeholder="Name"
+            value={identity.name}
+            readOnly={readOnly}
+            onChange={(event) => update("identities", index, { name: event.target.value })}
+          />
+          <select
+            value={identity.kind}
+            disabled={readOnly}
+            onChange={(event) => update("identities", index, { kind: event.target.value as typeof identity.kind })}
+            aria-label="Identity kind"
+          >
+            <Options values={IDENTITY_KINDS} />
+          </select>
+          <input
+            type="text"
+            placeholder="Permissions (comma separated)"
+            value={identity.permissions.join(", ")}
+            readOnly={readOnly}
+            onChange={(event) => update("identities", index, { permissions: splitList(event.target.value) })}
+          />
+          <input
+            type="text"
+            placeholder="Used by component ids"
+            value={identity.used_by.join(", ")}
+            readOnly={readOnly}
+            onChange={(event) => update("identities", index, { used_by: splitList(event.target.value) })}
+          />
+          <label className="helper">
+            <input
+              type="checkbox"
+              checked={identity.privileged}
+              disabled={readOnly}
+              onChange={(event) => update("identities", index, { privileged: event.target.checked })}
+            />{" "}
+            Privileged
+          </label>
+          {removeButton("identities", index)}
+        </div>
+      ))}
+      {!readOnly && (
+        <button
+          className="link-button"
+          onClick={() =>
+            add("identities", {
+              id: nextId(model, "identity"),
+              name: "",
+              kind: "service_account",
+              permissions: [],
+              privileged: false,
+              used_by: []
+            })
+          }
+        >
+          Add identity
+        </button>
+      )}
+
+      <h4>Network edges</h4>
+      {model.edges.map((edge, index) => (
+        <div key={index} className="input-row">
+          <select
+            value={edge.from}
+            disabled={readOnly}
+            onChange={(event) => update("edges", index, { from: event.target.value })}
+            aria-label="From"
+          >
+            <Options values={nodeIds} empty="From..." />
+          </select>
+          <select
+            value={edge.to}
+            disabled={readOnly}
+            onChange={(event) => update("edges", index, { to: event.target.value })}
+            aria-label="To"
+          >
+            <Options values={nodeIds} empty="To..." />
+          </select>
+          <input
+            type="text"
+            placeholder="Protocol"
+            value={edge.protocol}
+            readOnly={readOnly}
+            onChange={(event) => update("edges", index, { protocol: event.target.value })}
+          />
+          <input
+            type="text"
+            inputMode="numeric"
+            placeholder="Port"
+            value={edge.port ?? ""}
+            readOnly={readOnly}
+            onChange={(event) => {
+              const port = Number.parseInt(event.target.value, 10);
+              update("edges", index, { port: Number.isNaN(port) ? null : port });
+            }}
+          />
+          <label className="helper">
+            <input
+              type="checkbox"
+              checked={edge.authenticated}
+              disabled={readOnly}
+              onChange={(event) => update("edges", index, { authenticated: event.target.checked })}
+            />{" "}
+            Authenticated
+          </label>
+          <label className="helper">
+            <input
+              type="checkbox"
+              checked={edge.encrypted}
+              disabled={readOnly}
+              onChange={(event) => update("edges", index, { encrypted: event.target.checked })}
+            />{" "}
+            Encrypted
+          </label>
+          {removeButton("edges", index)}
+        </div>
+      ))}
+      {!readOnly && (
+        <button
+          className="link-button"
+          onClick={() =>
+            add("edges", {
+              from: "",
+              to: "",
+              protocol: "https",
+              port: null,
+              authenticated: false,
+              encrypted: true,
+              description: ""
+            })
+          }
+        >
+          Add edge
+        </button>
+      )}
+
+      <h4>Exposures</h4>
+      {model.exposures.map((exposure, index) => (
+        <div key={index} className="input-row">
+          <select
+            value={exposure.target}
+            disabled={readOnly}
+            onChange={(event) => update("exposures", index, { target: event.target.value })}
+            aria-label="Exposed target"
+          >
+            <Options values={nodeIds} empty="Target..." />
+          </select>
+          <select
+            value={exposure.channel}
+            disabled={readOnly}
+            onChange={(event) => update("exposures", index, { channel: event.target.value as typeof exposure.channel })}
+            aria-label="Channel"
+          >
+            <Options values={EXPOSURE_CHANNELS} />
+          </select>
+          <label className="helper">
+            <input
+              type="checkbox"
+              checked={exposure.authenticated}
+              disabled={readOnly}
+              onChange={(event) => update("exposures", index, { authenticated: event.target.checked })}
+            />{" "}
+            Authenticated
+          </label>
+          <input
+            type="text"
+            placeholder="Description"
+            value={exposure.description}
+            readOnly={readOnly}
+            onChange={(event) => update("exposures", index, { description: event.target.value })}
+          />
+          {removeButton("exposures", index)}
+        </div>
+      ))}
+      {!readOnly && (
+        <button
+          className="link-button"
+          onClick={() =>
+            add("exposures", { target: "", channel: "internet", authenticated: false, description: "" })
+          }
+        >
+          Add exposure
+        </button>
+      )}
+
+      {violations.length > 0 && <pre className="error">{formatViolations(violations)}</pre>}
+    </details>
+  );
+}
@@ -0,0 +1,52 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { PromptTemplateSummary } from "../../lib/analysis/templates";
+
+type TemplatePickerProps = {
+  value: string;
+  onChange: (id: string) => void;
+};
+
+export default function TemplatePicker({ value, onChange }: TemplatePickerProps) {
+  const [templates, setTemplates] = useState<PromptTemplateSummary[]>([]);
+  const [defaultId, setDefaultId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadTemplates = async () => {
+      const response = await fetch("/api/prompts");
+      if (response.ok) {
+        const payload = (await response.json()) as { templates: PromptTemplateSummary[]; default: string };
+        setTemplates(payload.templates);
+        setDefaultId(payload.default);
+      }
+    };
+    void loadTemplates();
+  }, []);
+
+  if (templates.length === 0) {
+    return null;
+  }
+
+  const selected = templates.find((template) => template.id === (value || defaultId));
+
+  return (
+    <div className="field">
+      <label htmlFor="prompt-template">Prompt Template</label>
+      <select id="prompt-template" value={value} onChange={(event) => onChange(event.target.value)}>
+        <option value="">Default ({defaultId})</option>
+        {templates.map((template) => (
+          <option key={template.id} value={template.id}>
+            {template.id}
+          </option>
+        ))}
+      </select>
+      {selected && (
+        <p className="helper">
+          {selected.description} Temperature {selected.generation.temperature}, up to{" "}
+          {selected.generation.maxOutputTokens} output tokens, version {selected.versions.template}.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+"use client";
+
+import { useState, type ChangeEvent } from "react";
+import type { ThreatDragonImport as ImportedModel } from "../../lib/threatdragon/types";
+
+type ThreatDragonImportProps = {
+  readOnly: boolean;
+  onImport: (imported: ImportedModel, model: unknown) => void;
+};
+
+export default function ThreatDragonImport({ readOnly, onImport }: ThreatDragonImportProps) {
+  const [status, setStatus] = useState<string | null>(null);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) {
+      return;
+    }
+    setError(null);
+    setStatus(null);
+    setWarnings([]);
+    let model: unknown;
+    try {
+      model = JSON.parse(await file.text());
+    } catch {
+      setError(`${file.name} is not valid JSON.`);
+      return;
+    }
+    const response = await fetch("/api/threat-dragon/import", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json"
+      },
+      body: JSON.stringify(model)
+    });
+    const payload = await response.json();
+    if (!response.ok) {
+      setError(payload.violations?.[0]?.message ?? payload.details ?? payload.error);
+      return;
+    }
+    const imported = payload as ImportedModel;
+    onImport(imported, model);
+    setWarnings(imported.warnings);
+    setStatus(`Imported ${imported.elements} elements from ${file.name}. Results can be exported back to this model.`);
+  };
+
+  if (readOnly) {
+    return null;
+  }
+
+  return (
+    <div className="field">
+      <label htmlFor="threat-dragon-file">OWASP Threat Dragon Model (optional)</label>
+      <input id="threat-dragon-file" type="file" accept=".json" onChange={(event) => void handleFile(event)} />
+      <p className="helper">
+        Fills the structured model and diagram summary from the diagrams, flows, trust boundaries and existing threats.
+      </p>
+      {status && <p className="helper">{status}</p>}
+      {warnings.length > 0 && (
+        <ul className="list helper">
+          {warnings.map((warning) => (
+            <li key={warning}>{warning}</li>
+          ))}
+        </ul>
+      )}
+      {error && <p className="error">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { AuthStatus, SessionUser } from "../../lib/auth/types";
+
+type UserMenuProps = {
+  onUser: (user: SessionUser | null) => void;
+};
+
+export default function UserMenu({ onUser }: UserMenuProps) {
+  const [status, setStatus] = useState<AuthStatus | null>(null);
+
+  useEffect(() => {
+    const loadStatus = async () => {
+      const response = await fetch("/api/auth/me");
+      if (response.status === 401) {
+        window.location.href = "/login";
+        return;
+      }
+      if (response.ok) {
+        const payload = (await response.json()) as AuthStatus;
+        setStatus(payload);
+        onUser(payload.user);
+      }
+    };
+    void loadStatus();
+  }, [onUser]);
+
+  const handleLogout = async () => {
+    await fetch("/api/auth/logout", { method: "POST" });
+    window.location.href = "/login";
+  };
+
+  const user = status?.user;
+  if (!user) {
+    return null;
+  }
+
+  return (
+    <div className="input-row user-menu">
+      <span>
+        {user.display_name} <span className="badge">{user.role}</span>
+      </span>
+      {user.role === "admin" && (
+        <a className="link-button" href="/admin">
+          Admin
+        </a>
+      )}
+      {status.auth_mode !== "off" && (
+        <button className="link-button" onClick={handleLogout}>
+          Sign out
+        </button>
+      )}
+    </div>
+  );
+}
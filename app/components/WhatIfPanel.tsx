@@ -0,0 +1,111 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { WhatIfScenario } from "../../lib/scenarios/types";
+
+type WhatIfPanelProps = {
+  disabled: boolean;
+  readOnly: boolean;
+  onRun: (changes: string[]) => void;
+};
+
+export default function WhatIfPanel({ disabled, readOnly, onRun }: WhatIfPanelProps) {
+  const [scenarios, setScenarios] = useState<WhatIfScenario[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [customText, setCustomText] = useState("");
+  const [status, setStatus] = useState<string | null>(null);
+
+  const refreshScenarios = async () => {
+    const response = await fetch("/api/scenarios");
+    if (response.ok) {
+      const payload = (await response.json()) as { scenarios: WhatIfScenario[] };
+      setScenarios(payload.scenarios);
+    }
+  };
+
+  useEffect(() => {
+    void refreshScenarios();
+  }, []);
+
+  const toggleScenario = (id: string) => {
+    setSelectedIds((current) => (current.includes(id) ? current.filter((item) => item !== id) : [...current, id]));
+  };
+
+  const selectedChanges = [
+    ...scenarios.filter((scenario) => selectedIds.includes(scenario.id)).map((scenario) => scenario.value),
+    ...(customText.trim() ? [customText.trim()] : [])
+  ];
+
+  const handleSave = async () => {
+    const response = await fetch("/api/scenarios", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json"
+      },
+      body: JSON.stringify({ value: customText })
+    });
+    if (!response.ok) {
+      setStatus("Unable to save scenario.");
+      return;
+    }
+    const scenario = (await response.json()) as WhatIfScenario;
+    setCustomText("");
+    setSelectedIds((current) => [...current, scenario.id]);
+    setStatus(`Saved "${scenario.label}" to the library.`);
+    await refreshScenarios();
+  };
+
+  const handleDelete = async (id: string) => {
+    const response = await fetch(`/api/scenarios/${id}`, { method: "DELETE" });
+    if (response.ok) {
+      setSelectedIds((current) => current.filter((item) => item !== id));
+      await refreshScenarios();
+    }
+  };
+
+  return (
+    <div className="field">
+      <p className="helper">
+        What-if reruns reasoning and highlights changes. Select one or more scenarios to combine them in one run.
+      </p>
+      <div className="input-row">
+        {scenarios.map((scenario) => (
+          <span key={scenario.id} className="chip-group">
+            <button
+              className={`button ghost ${selectedIds.includes(scenario.id) ? "selected" : ""}`}
+              onClick={() => toggleScenario(scenario.id)}
+              title={scenario.value}
+            >
+              {scenario.label}
+            </button>
+            {!scenario.builtin && !readOnly && (
+              <button className="link-button" onClick={() => handleDelete(scenario.id)} aria-label="Delete scenario">
+                ×
+              </button>
+            )}
+          </span>
+        ))}
+      </div>
+      <textarea
+        id="custom-what-if"
+        placeholder="Describe a custom what-if (e.g. the service account is scoped to one bucket)."
+        value={customText}
+        onChange={(event) => setCustomText(event.target.value)}
+        style={{ minHeight: 72 }}
+      />
+      <div className="input-row">
+        <button className="button" onClick={() => onRun(selectedChanges)} disabled={disabled || selectedChanges.length === 0}>
+          Run What-if ({selectedChanges.length})
+        </button>
+        <button
+          className="button secondary"
+          onClick={handleSave}
+          disabled={readOnly || customText.trim().length === 0}
+        >
+          Save to Library
+        </button>
+      </div>
+      {status && <p className="helper">{status}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+"use client";
+
+import { useEffect, useState, type FormEvent } from "react";
+import type { AuthStatus } from "../../lib/auth/types";
+
+export default function LoginPage() {
+  const [status, setStatus] = useState<AuthStatus | null>(null);
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    setError(new URLSearchParams(window.location.search).get("error"));
+    const loadStatus = async () => {
+      const response = await fetch("/api/auth/me");
+      const payload = (await response.json()) as AuthStatus;
+      if (payload.user) {
+        window.location.href = "/";
+        return;
+      }
+      setStatus(payload);
+    };
+    void loadStatus();
+  }, []);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    const response = await fetch(status?.needs_setup ? "/api/auth/setup" : "/api/auth/login", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json"
+      },
+      body: JSON.stringify({ username, password })
+    });
+    setSubmitting(false);
+    if (!response.ok) {
+      setError(((await response.json()) as { error: string }).error);
+      return;
+    }
+    window.location.href = "/";
+  };
+
+  if (!status) {
+    return null;
+  }
+
+  return (
+    <div className="container">
+      <section className="panel auth-card">
+        <h2>{status.needs_setup ? "Create the first admin" : "Sign in to ChainBreak AI"}</h2>
+        {status.needs_setup && (
+          <p className="helper">
+            No accounts exist yet. This account becomes the admin and can invite the rest of the team.
+          </p>
+        )}
+        {status.auth_mode === "local" && (
+          <form onSubmit={handleSubmit}>
+            <div className="field">
+              <label htmlFor="username">Username</label>
+              <input
+                id="username"
+                type="text"
+                autoComplete="username"
+                value={username}
+                onChange={(event) => setUsername(event.target.value)}
+              />
+            </div>
+            <div className="field">
+              <label htmlFor="password">Password</label>
+              <input
+                id="password"
+                type="password"
+                autoComplete={status.needs_setup ? "new-password" : "current-password"}
+                value={password}
+                onChange={(event) => setPassword(event.target.value)}
+              />
+            </div>
+            <button className="button" type="submit" disabled={submitting || !username || !password}>
+              {status.needs_setup ? "Create Admin" : "Sign In"}
+            </button>
+          </form>
+        )}
+        {status.oidc_enabled && !status.needs_setup && (
+          <div className="field" style={{ marginTop: 16 }}>
+            <a className="button secondary" href="/api/auth/oidc/login">
+              Sign in with SSO
+            </a>
+          </div>
+        )}
+        {status.auth_mode === "oidc" && !status.oidc_enabled && (
+          <p className="helper">AUTH_MODE is oidc but OIDC_ISSUER and OIDC_CLIENT_ID are not set.</p>
+        )}
+        {error && <div className="error">{error}</div>}
+      </section>
+    </div>
+  );
+}
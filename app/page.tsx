@@ -1,65 +1,50 @@
 "use client";
 
-import { useMemo, useState } from "react";
-
-type Risk = {
-  risk: string;
-  why_it_matters: string;
-  likelihood: "low" | "medium" | "high";
-  impact: "low" | "medium" | "high";
-};
-
-type AttackStep = {
-  step: number;
-  action_high_level: string;
-  why_plausible: string;
-  defender_signals: string[];
-  mitigations: string[];
-};
-
-type AttackPath = {
-  name: string;
-  entry_point: string;
-  preconditions: string[];
-  steps: AttackStep[];
-  end_impact: string;
-  overall_risk: "low" | "medium" | "high";
-};
-
-type PriorityFix = {
-  fix: string;
-  breaks_chain_at: string;
-  effort: "low" | "medium" | "high";
-  risk_reduction: "low" | "medium" | "high";
-};
-
-type AnalysisResponse = {
-  system_summary: {
-    assets: string[];
-    components: string[];
-    trust_boundaries: string[];
-    assumptions: string[];
-  };
-  top_risks: Risk[];
-  attack_paths: AttackPath[];
-  what_if: {
-    change: string;
-    delta_summary: string[];
-    updated_risks: string[];
-  };
-  priority_fixes: PriorityFix[];
-  safe_notes: string[];
-};
-
-type ErrorResponse = {
-  error: string;
-  details?: string;
-  raw_output?: string;
-};
+import { useMemo, useRef, useState } from "react";
+import { readNdjson } from "../lib/analysis/ndjson";
+import { redactAnalysisInput } from "../lib/analysis/redaction";
+import { describeFinding } from "../lib/analysis/safety";
+import {
+  emptyAnalysis,
+  formatWhatIf,
+  MAX_TOTAL_CHARS,
+  totalInputLength,
+  type AnalysisErrorPayload,
+  type AnalysisInput,
+  type AnalysisResponse,
+  type AnalysisStreamEvent,
+  type CondensedField
+} from "../lib/analysis/schema";
+import { hasRole, type SessionUser } from "../lib/auth/types";
+import { describeMapping, mappingIds, mappingIsEmpty } from "../lib/frameworks";
+import type { ArtifactSource } from "../lib/ingest";
+import { correlateSignals, parseLogTimeline } from "../lib/logs";
+import type { AnalysisRun, Project, ProjectInputs } from "../lib/projects/types";
+import type { ThreatDragonImport as ThreatDragonImported } from "../lib/threatdragon/types";
+import { emptySystemModel, modelIsEmpty, type SystemModel } from "../lib/snapshot";
+import AttackGraph from "./components/AttackGraph";
+import CoverageMatrix from "./components/CoverageMatrix";
+import DetectionDrafts from "./components/DetectionDrafts";
+import FollowupPanel from "./components/FollowupPanel";
+import IngestPanel from "./components/IngestPanel";
+import LogTimeline from "./components/LogTimeline";
+import ProjectPanel from "./components/ProjectPanel";
+import RedactionPreview from "./components/RedactionPreview";
+import RemediationPanel from "./components/RemediationPanel";
+import RunDiff, { type BaselineOption } from "./components/RunDiff";
+import SweepPanel from "./components/SweepPanel";
+import SystemModelEditor from "./components/SystemModelEditor";
+import ThreatDragonImport from "./components/ThreatDragonImport";
+import TemplatePicker from "./components/TemplatePicker";
+import UserMenu from "./components/UserMenu";
+import WhatIfPanel from "./components/WhatIfPanel";
+
+type ErrorResponse = AnalysisErrorPayload;
 
 const exampleData = {
   system_text:
     "Public web app with a REST API behind it. The web app is accessible from the internet. Authentication uses email/password. An admin panel exists for support staff. The API talks to a PostgreSQL database and object storage. Logs are shipped to a centralized logging service. Some endpoints are rate-limited, but admin login is not. A service account has broad permissions to storage. Secrets are stored as environment variables in the deployment.",
+  system_model: null,
   diagram_summary:
     "Browser -> Web App -> REST API -> PostgreSQL + Object Storage; logs to centralized logging service. Admin panel reachable via web app.",
   snippets: {
@@ -68,45 +53,60 @@ const exampleData = {
     logs:
       "2024-07-06T12:22:01Z admin-login failed user=support@company.com ip=203.0.113.22\n2024-07-06T12:22:06Z admin-login failed user=support@company.com ip=203.0.113.22\n2024-07-06T12:22:10Z admin-login failed user=support@company.com ip=203.0.113.22",
     code: "if (!user.mfaEnabled && user.role === 'admin') {\n  // TODO: enforce MFA later\n}\nreturn sessionToken;"
-  }
+  },
+  artifacts: [
+    {
+      name: "service-account-01-policy.json",
+      content:
+        '{\n  "Version": "2012-10-17",\n  "Statement": [\n    { "Effect": "Allow", "Action": "s3:*", "Resource": "*" }\n  ]\n}'
+    }
+  ]
 };
 
-const whatIfOptions = [
-  {
-    label: "What-if: Enable MFA",
-    value:
-      "Enable MFA for all privileged accounts and enforce phishing-resistant MFA where possible."
-  },
-  {
-    label: "What-if: Patch Exposed Service",
-    value:
-      "The exposed service is patched and now rejects unauthenticated requests; rate limiting is enabled."
-  },
-  {
-    label: "What-if: Attacker Has Internal Access",
-    value:
-      "Assume the attacker has low-privilege internal network access (e.g., compromised employee device)."
-  }
-];
+async function downloadResponse(response: Response, fallbackName: string) {
+  const fileName = response.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1] ?? fallbackName;
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
 
-const tabLabels = ["Summary", "Attack Paths", "Priority Fixes", "What Changed"] as const;
+const tabLabels = ["Summary", "Attack Paths", "Coverage", "Priority Fixes", "What Changed"] as const;
 
 type TabKey = (typeof tabLabels)[number];
 
 export default function HomePage() {
   const [systemText, setSystemText] = useState("");
+  const [systemModel, setSystemModel] = useState<SystemModel>(emptySystemModel);
   const [diagramSummary, setDiagramSummary] = useState("");
   const [configSnippet, setConfigSnippet] = useState("");
   const [logSnippet, setLogSnippet] = useState("");
   const [codeSnippet, setCodeSnippet] = useState("");
+  const [artifacts, setArtifacts] = useState<ArtifactSource[]>([]);
   const [analysis, setAnalysis] = useState<AnalysisResponse | null>(null);
   const [error, setError] = useState<ErrorResponse | null>(null);
   const [loading, setLoading] = useState(false);
   const [activeTab, setActiveTab] = useState<TabKey>("Summary");
+  const [pathView, setPathView] = useState<"cards" | "graph">("cards");
   const [rawOutput, setRawOutput] = useState<string | null>(null);
-  const [lastWhatIf, setLastWhatIf] = useState<string | null>(null);
-
-  const isAnalyzeDisabled = loading || systemText.trim().length === 0;
+  const [analysisInput, setAnalysisInput] = useState<AnalysisInput | null>(null);
+  const [streamComplete, setStreamComplete] = useState(false);
+  const [condensed, setCondensed] = useState<CondensedField[]>([]);
+  const [cachedResult, setCachedResult] = useState(false);
+  const [project, setProject] = useState<Project | null>(null);
+  const [activeRunId, setActiveRunId] = useState<string | null>(null);
+  const [sessionBaseline, setSessionBaseline] = useState<AnalysisResponse | null>(null);
+  const [user, setUser] = useState<SessionUser | null>(null);
+  const [promptTemplate, setPromptTemplate] = useState("");
+  const [threatModel, setThreatModel] = useState<unknown>(null);
+  const [exportNote, setExportNote] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const canAnalyze = user !== null && hasRole(user, "analyst");
+  const isAnalyzeDisabled =
+    loading || !canAnalyze || (systemText.trim().length === 0 && modelIsEmpty(systemModel));
 
   const formattedRawJson = useMemo(() => {
     if (!analysis) {
@@ -115,63 +115,255 @@ export default function HomePage() {
     return JSON.stringify(analysis, null, 2);
   }, [analysis]);
 
-  const runAnalysis = async (whatIf: string | null) => {
+  const currentInputs = useMemo<ProjectInputs>(
+    () => ({
+      system_text: systemText,
+      system_model: modelIsEmpty(systemModel) ? null : systemModel,
+      diagram_summary: diagramSummary,
+      snippets: {
+        config: configSnippet,
+        logs: logSnippet,
+        code: codeSnippet
+      },
+      artifacts
+    }),
+    [systemText, systemModel, diagramSummary, configSnippet, logSnippet, codeSnippet, artifacts]
+  );
+
+  const inputLength = useMemo(() => totalInputLength(currentInputs), [currentInputs]);
+
+  const redactionLegend = useMemo(
+    () => (analysisInput ? redactAnalysisInput(analysisInput).entries : []),
+    [analysisInput]
+  );
+
+  const logEvidence = useMemo(
+    () => (analysis ? correlateSignals(analysis, parseLogTimeline(analysisInput?.snippets?.logs ?? "")) : []),
+    [analysis, analysisInput]
+  );
+
+  const stepEvidence = (pathIndex: number, step: number) =>
+    logEvidence[pathIndex]?.steps.find((item) => item.step === step);
+
+  const loadInputs = (inputs: ProjectInputs) => {
+    setSystemText(inputs.system_text);
+    setSystemModel(inputs.system_model ?? emptySystemModel());
+    setDiagramSummary(inputs.diagram_summary);
+    setConfigSnippet(inputs.snippets.config);
+    setLogSnippet(inputs.snippets.logs);
+    setCodeSnippet(inputs.snippets.code);
+    setArtifacts(inputs.artifacts);
+    setThreatModel(null);
+    setExportNote(null);
+  };
+
+  const openRun = (run: AnalysisRun) => {
+    setAnalysis(run.analysis);
+    setAnalysisInput({ ...run.inputs, what_if: run.what_if_changes });
+    setActiveRunId(run.id);
+    setCondensed([]);
+    setCachedResult(false);
+    setStreamComplete(true);
+    setError(null);
+    setRawOutput(null);
+    setActiveTab("Summary");
+  };
+
+  const handleProjectLoaded = (loaded: Project | null) => {
+    setProject(loaded);
+    setActiveRunId(null);
+    if (!loaded) {
+      return;
+    }
+    loadInputs(loaded.inputs);
+    const latestRun = loaded.runs[loaded.runs.length - 1];
+    if (latestRun) {
+      openRun(latestRun);
+    } else {
+      setAnalysis(null);
+    }
+  };
+
+  const refreshProject = async (id: string, runId?: string) => {
+    const response = await fetch(`/api/projects/${id}`);
+    if (response.ok) {
+      setProject((await response.json()) as Project);
+    }
+    if (runId) {
+      setActiveRunId(runId);
+    }
+  };
+
+  const baselineOptions = useMemo<BaselineOption[]>(() => {
+    if (project) {
+      return [...project.runs]
+        .reverse()
+        .filter((run) => run.id !== activeRunId)
+        .map((run) => ({
+          id: run.id,
+          label: `${new Date(run.created_at).toLocaleString()} — ${run.what_if ? `What-if: ${run.what_if}` : "Baseline"}`,
+          is_baseline: run.what_if === null,
+          analysis: run.analysis
+        }));
+    }
+    if (sessionBaseline && sessionBaseline !== analysis) {
+      return [{ id: "session", label: "Latest baseline in this session", is_baseline: true, analysis: sessionBaseline }];
+    }
+    return [];
+  }, [project, activeRunId, sessionBaseline, analysis]);
+
+  const applyStreamEvent = (event: AnalysisStreamEvent, whatIf: string[] | null) => {
+    switch (event.type) {
+      case "condensed":
+        setCondensed(event.fields);
+        break;
+      case "section":
+        setAnalysis((current) => ({ ...(current ?? emptyAnalysis()), [event.key]: event.value }));
+        break;
+      case "attack_path":
+        setAnalysis((current) => {
+          const base = current ?? emptyAnalysis();
+          const attackPaths = [...base.attack_paths];
+          attackPaths[event.index] = event.value;
+          return { ...base, attack_paths: attackPaths };
+        });
+        break;
+      case "complete":
+        setAnalysis(event.analysis);
+        setCachedResult(Boolean(event.cached));
+        setStreamComplete(true);
+        if (whatIf === null) {
+          setSessionBaseline(event.analysis);
+        }
+        if (project && event.run_id) {
+          void refreshProject(project.id, event.run_id);
+        }
+        break;
+      case "error": {
+        const { type: _type, ...payload } = event;
+        setError(payload);
+        break;
+      }
+    }
+  };
+
+  const runAnalysis = async (whatIf: string[] | null) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
     setLoading(true);
     setError(null);
     setRawOutput(null);
-    setLastWhatIf(whatIf);
+    setAnalysisInput({ ...currentInputs, what_if: whatIf, prompt_template: promptTemplate || undefined });
+    setAnalysis(null);
+    setCondensed([]);
+    setCachedResult(false);
+    setStreamComplete(false);
+    setActiveRunId(null);
+    setActiveTab("Summary");
 
     try {
-      const response = await fetch("/api/analyze", {
+      const response = await fetch("/api/analyze/stream", {
         method: "POST",
         headers: {
           "Content-Type": "application/json"
         },
         body: JSON.stringify({
-          project_name: "ChainBreak AI",
-          system_text: systemText,
-          diagram_summary: diagramSummary,
-          snippets: {
-            config: configSnippet,
-            logs: logSnippet,
-            code: codeSnippet
-          },
-          what_if: whatIf
-        })
+          project_id: project?.id,
+          project_name: project?.name ?? "ChainBreak AI",
+          ...currentInputs,
+          what_if: whatIf,
+          prompt_template: promptTemplate || undefined
+        }),
+        signal: controller.signal
       });
 
-      const payload = await response.json();
-
-      if (!response.ok) {
-        setError(payload as ErrorResponse);
-        setAnalysis(null);
+      if (!response.ok || !response.body) {
+        setError((await response.json()) as ErrorResponse);
         return;
       }
 
-      setAnalysis(payload as AnalysisResponse);
-      setActiveTab("Summary");
+      for await (const event of readNdjson<AnalysisStreamEvent>(response.body)) {
+        applyStreamEvent(event, whatIf);
+      }
     } catch (requestError) {
+      if (controller.signal.aborted) {
+        setError({ error: "Analysis cancelled.", details: "Sections received before cancelling are still shown." });
+        return;
+      }
       setError({
         error: "Unable to reach the analysis service.",
         details: requestError instanceof Error ? requestError.message : "Unknown error."
       });
       setAnalysis(null);
     } finally {
+      abortRef.current = null;
       setLoading(false);
     }
   };
 
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
+
   const handleLoadExample = () => {
-    setSystemText(exampleData.system_text);
-    setDiagramSummary(exampleData.diagram_summary);
-    setConfigSnippet(exampleData.snippets.config);
-    setLogSnippet(exampleData.snippets.logs);
-    setCodeSnippet(exampleData.snippets.code);
+    loadInputs(exampleData);
     setAnalysis(null);
     setError(null);
     setRawOutput(null);
   };
 
+  const handleExport = async (format: "markdown" | "html" | "sarif") => {
+    if (!analysis) {
+      return;
+    }
+    const response = await fetch("/api/export", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json"
+      },
+      body: JSON.stringify({
+        format,
+        input: { ...(analysisInput ?? currentInputs), project_name: project?.name ?? "ChainBreak AI" },
+        analysis
+      })
+    });
+    if (!response.ok) {
+      setError((await response.json()) as ErrorResponse);
+      return;
+    }
+    await downloadResponse(response, `chainbreak-report.${format}`);
+  };
+
+  const handleThreatDragonExport = async () => {
+    if (!analysis || !threatModel) {
+      return;
+    }
+    const response = await fetch("/api/threat-dragon/export", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json"
+      },
+      body: JSON.stringify({ model: threatModel, analysis })
+    });
+    if (!response.ok) {
+      setError((await response.json()) as ErrorResponse);
+      return;
+    }
+    const unmatched = Number(response.headers.get("X-Threats-Unmatched") ?? 0);
+    setExportNote(
+      `Added ${response.headers.get("X-Threats-Added") ?? 0} threats to the Threat Dragon model.` +
+        (unmatched > 0 ? ` ${unmatched} steps or fixes had no matching element.` : "")
+    );
+    await downloadResponse(response, "threat-model.json");
+  };
+
+  const handleThreatDragonImport = (imported: ThreatDragonImported, model: unknown) => {
+    setSystemModel(imported.input.system_model ?? emptySystemModel());
+    setDiagramSummary(imported.input.diagram_summary ?? "");
+    setThreatModel(model);
+    setExportNote(null);
+  };
+
   const handleCopyJson = async () => {
     if (!formattedRawJson) {
       return;
@@ -184,20 +376,31 @@ export default function HomePage() {
       <header>
         <h1>ChainBreak AI</h1>
         <p>Real-time attack-path reasoning for defenders (no exploit instructions).</p>
+        <UserMenu onUser={setUser} />
       </header>
 
       <div className="main-grid">
         <section className="panel">
           <h2>Inputs</h2>
+          <ProjectPanel
+            project={project}
+            inputs={currentInputs}
+            activeRunId={activeRunId}
+            onProjectLoaded={handleProjectLoaded}
+            onOpenRun={openRun}
+            readOnly={!canAnalyze}
+          />
           <div className="field">
-            <label htmlFor="system-text">System Snapshot *</label>
+            <label htmlFor="system-text">System Snapshot</label>
             <textarea
               id="system-text"
-              placeholder="Describe components, auth, data stores, and external exposure."
+              placeholder="Describe components, auth, data stores, and external exposure, or use the structured model."
               value={systemText}
               onChange={(event) => setSystemText(event.target.value)}
             />
           </div>
+          <ThreatDragonImport readOnly={!canAnalyze} onImport={handleThreatDragonImport} />
+          <SystemModelEditor model={systemModel} readOnly={!canAnalyze} onChange={setSystemModel} />
           <div className="field">
             <label htmlFor="diagram-summary">Diagram Summary (optional)</label>
             <textarea
@@ -227,6 +430,7 @@ export default function HomePage() {
                 value={logSnippet}
                 onChange={(event) => setLogSnippet(event.target.value)}
               />
+              <LogTimeline logs={logSnippet} />
             </div>
             <div className="field">
               <label htmlFor="code-snippet">Code Excerpt</label>
@@ -239,6 +443,10 @@ export default function HomePage() {
             </div>
           </details>
 
+          <IngestPanel artifacts={artifacts} configSnippet={configSnippet} onChange={setArtifacts} />
+          <RedactionPreview input={currentInputs} />
+          <TemplatePicker value={promptTemplate} onChange={setPromptTemplate} />
+
           <div className="input-row">
             <button
               className="button"
@@ -251,29 +459,42 @@ export default function HomePage() {
               Load Example
             </button>
           </div>
-          <p className="helper">What-if reruns reasoning and highlights changes.</p>
-          <div className="input-row">
-            {whatIfOptions.map((option) => (
-              <button
-                key={option.value}
-                className="button ghost"
-                onClick={() => runAnalysis(option.value)}
-                disabled={isAnalyzeDisabled}
-              >
-                {option.label}
-              </button>
-            ))}
-          </div>
+          {inputLength > MAX_TOTAL_CHARS && (
+            <p className="helper">
+              Inputs total {inputLength.toLocaleString()} characters. Fields over their budget will be summarized in
+              chunks before analysis.
+            </p>
+          )}
+          {user && !canAnalyze && (
+            <p className="helper">Your viewer role can read projects and analyses. Ask an admin for analyst access.</p>
+          )}
+          <WhatIfPanel
+            disabled={isAnalyzeDisabled}
+            readOnly={!canAnalyze}
+            onRun={(changes) => runAnalysis(changes)}
+          />
           {loading && (
             <div className="input-row" style={{ marginTop: 12 }}>
               <div className="spinner" />
-              <span className="helper">Calling Gemini 3 for defensive analysis...</span>
+              <span className="helper">Streaming defensive analysis...</span>
+              <button className="button secondary" onClick={handleCancel}>
+                Cancel
+              </button>
             </div>
           )}
           {error && (
             <div className="error" style={{ marginTop: 16 }}>
               <strong>{error.error}</strong>
               {error.details && <p>{error.details}</p>}
+              {error.violations && error.violations.length > 0 && (
+                <ul className="list">
+                  {error.violations.map((violation) => (
+                    <li key={`${violation.path}-${violation.message}`}>
+                      <code>{violation.path}</code>: {violation.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
               {error.raw_output && (
                 <details>
                   <summary>Raw model output</summary>
@@ -287,10 +508,27 @@ export default function HomePage() {
         <section className="panel">
           <div className="input-row" style={{ justifyContent: "space-between" }}>
             <h2>Results</h2>
-            <button className="button secondary" onClick={handleCopyJson}>
-              Copy JSON
-            </button>
+            <div className="input-row">
+              <button className="button secondary" onClick={handleCopyJson}>
+                Copy JSON
+              </button>
+              <button className="button secondary" onClick={() => handleExport("markdown")} disabled={!streamComplete}>
+                Markdown
+              </button>
+              <button className="button secondary" onClick={() => handleExport("html")} disabled={!streamComplete}>
+                HTML
+              </button>
+              <button className="button secondary" onClick={() => handleExport("sarif")} disabled={!streamComplete}>
+                SARIF
+              </button>
+              {threatModel !== null && (
+                <button className="button secondary" onClick={handleThreatDragonExport} disabled={!streamComplete}>
+                  Threat Dragon
+                </button>
+              )}
+            </div>
           </div>
+          {exportNote && <p className="helper">{exportNote}</p>}
           {!analysis && !error && (
             <div className="callout">
               <p>
@@ -299,10 +537,49 @@ export default function HomePage() {
             </div>
           )}
 
+          {analysis && redactionLegend.length > 0 && (
+            <details className="callout">
+              <summary>Placeholders in these results stand for masked input values</summary>
+              <ul className="list">
+                {redactionLegend.map((entry) => (
+                  <li key={entry.placeholder}>
+                    <code>{entry.placeholder}</code> {entry.label} <span className="helper">({entry.fields.join(", ")})</span>
+                  </li>
+                ))}
+              </ul>
+            </details>
+          )}
+
+          {condensed.length > 0 && (
+            <div className="callout">
+              <strong>Input condensed to fit the prompt budget</strong>
+              <ul className="list">
+                {condensed.map((field) => (
+                  <li key={field.field}>
+                    {field.field}: {field.original_chars.toLocaleString()} → {field.condensed_chars.toLocaleString()}{" "}
+                    characters (budget {field.budget.toLocaleString()}
+                    {field.chunks > 0 ? `, ${field.chunks} chunks summarized` : ", truncated"})
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {analysis && (
             <>
-              {lastWhatIf && (
-                <p className="helper">Latest what-if: {lastWhatIf}</p>
+              {cachedResult && (
+                <p className="helper">
+                  <span className="badge">cached</span> Identical inputs were analyzed recently; no model call was made.
+                </p>
+              )}
+              {formatWhatIf(analysisInput?.what_if) && (
+                <p className="helper">Latest what-if: {formatWhatIf(analysisInput?.what_if)}</p>
+              )}
+              {!streamComplete && (
+                <p className="helper">
+                  Partial results: {analysis.top_risks.length} risks, {analysis.attack_paths.length} attack paths,{" "}
+                  {analysis.priority_fixes.length} fixes received so far.
+                </p>
               )}
               <div className="tabs">
                 {tabLabels.map((tab) => (
@@ -344,6 +621,9 @@ export default function HomePage() {
                             <span className={`badge ${risk.likelihood}`}>Likelihood: {risk.likelihood}</span>
                             <span className={`badge ${risk.impact}`}>Impact: {risk.impact}</span>
                           </div>
+                          {!mappingIsEmpty(risk.mapping) && (
+                            <p className="helper">{mappingIds(risk.mapping).join(" · ")}</p>
+                          )}
                         </div>
                       ))}
                     </div>
@@ -352,82 +632,158 @@ export default function HomePage() {
 
                 {activeTab === "Attack Paths" && (
                   <>
-                    {analysis.attack_paths.map((path) => (
-                      <div key={path.name} className="card">
-                        <h3>{path.name}</h3>
-                        <p className="helper">Entry: {path.entry_point}</p>
-                        <p className="helper">End impact: {path.end_impact}</p>
-                        <span className={`badge ${path.overall_risk}`}>Risk: {path.overall_risk}</span>
-                        <h4>Preconditions</h4>
-                        <ul className="list">
-                          {path.preconditions.map((item) => (
-                            <li key={item}>{item}</li>
-                          ))}
-                        </ul>
-                        <div className="section">
-                          {path.steps.map((step) => (
-                            <div key={step.step} className="card">
-                              <strong>Step {step.step}: {step.action_high_level}</strong>
-                              <p className="helper">Why plausible: {step.why_plausible}</p>
-                              <p>Defender signals</p>
-                              <ul className="list">
-                                {step.defender_signals.map((signal) => (
-                                  <li key={signal}>{signal}</li>
-                                ))}
-                              </ul>
-                              <p>Mitigations</p>
-                              <ul className="list">
-                                {step.mitigations.map((mitigation) => (
-                                  <li key={mitigation}>{mitigation}</li>
-                                ))}
-                              </ul>
+                    <div className="input-row">
+                      {(["cards", "graph"] as const).map((view) => (
+                        <button
+                          key={view}
+                          className={`tab ${pathView === view ? "active" : ""}`}
+                          onClick={() => setPathView(view)}
+                        >
+                          {view === "cards" ? "Cards" : "Graph"}
+                        </button>
+                      ))}
+                    </div>
+                    {pathView === "graph" ? (
+                      <AttackGraph analysis={analysis} />
+                    ) : (
+                      <>
+                        {analysis.attack_paths.map((path, pathIndex) => (
+                          <div key={path.name} className="card">
+                            <h3>{path.name}</h3>
+                            <p className="helper">Entry: {path.entry_point}</p>
+                            <p className="helper">End impact: {path.end_impact}</p>
+                            <div className="input-row">
+                              <span className={`badge ${path.overall_risk}`}>Risk: {path.overall_risk}</span>
+                              {(logEvidence[pathIndex]?.steps.length ?? 0) > 0 && (
+                                <span className="badge high">
+                                  Observed in logs: {logEvidence[pathIndex].steps.length} of {path.steps.length} steps
+                                </span>
+                              )}
                             </div>
-                          ))}
-                        </div>
-                      </div>
-                    ))}
+                            <h4>Preconditions</h4>
+                            <ul className="list">
+                              {path.preconditions.map((item) => (
+                                <li key={item}>{item}</li>
+                              ))}
+                            </ul>
+                            <div className="section">
+                              {path.steps.map((step) => (
+                                <div key={step.step} className="card">
+                                  <strong>Step {step.step}: {step.action_high_level}</strong>{" "}
+                                  {stepEvidence(pathIndex, step.step) && (
+                                    <span className="badge high">Observed in logs</span>
+                                  )}
+                                  <p className="helper">Why plausible: {step.why_plausible}</p>
+                                  {!mappingIsEmpty(step.mapping) && (
+                                    <p className="helper">{describeMapping(step.mapping).join(" · ")}</p>
+                                  )}
+                                  <p>Defender signals</p>
+                                  <ul className="list">
+                                    {step.defender_signals.map((signal) => {
+                                      const evidence = stepEvidence(pathIndex, step.step)?.signals.find(
+                                        (item) => item.signal === signal
+                                      );
+                                      return (
+                                        <li key={signal}>
+                                          {signal}
+                                          {evidence && (
+                                            <span className="helper">
+                                              {" "}
+                                              Seen on log lines {evidence.lines.join(", ")} ({evidence.terms.join(", ")})
+                                            </span>
+                                          )}
+                                        </li>
+                                      );
+                                    })}
+                                  </ul>
+                                  <p>Mitigations</p>
+                                  <ul className="list">
+                                    {step.mitigations.map((mitigation) => (
+                                      <li key={mitigation}>{mitigation}</li>
+                                    ))}
+                                  </ul>
+                                  {canAnalyze && step.defender_signals.length > 0 && (
+                                    <DetectionDrafts
+                                      analysis={analysis}
+                                      pathIndex={pathIndex}
+                                      step={step.step}
+                                      logs={analysisInput?.snippets?.logs}
+                                      disabled={loading || !streamComplete}
+                                    />
+                                  )}
+                                </div>
+                              ))}
+                            </div>
+                            {canAnalyze && path.steps.some((step) => step.defender_signals.length > 0) && (
+                              <DetectionDrafts
+                                analysis={analysis}
+                                pathIndex={pathIndex}
+                                logs={analysisInput?.snippets?.logs}
+                                disabled={loading || !streamComplete}
+                              />
+                            )}
+                          </div>
+                        ))}
+                      </>
+                    )}
+                    {canAnalyze && analysisInput && (
+                      <FollowupPanel
+                        analysis={analysis}
+                        input={{ ...analysisInput, project_id: project?.id }}
+                        runId={activeRunId}
+                        disabled={loading || !streamComplete}
+                        onPromote={(change) => runAnalysis([change])}
+                      />
+                    )}
                   </>
                 )}
 
+                {activeTab === "Coverage" && <CoverageMatrix analysis={analysis} />}
+
                 {activeTab === "Priority Fixes" && (
-                  <div className="table">
-                    {analysis.priority_fixes.map((fix) => (
-                      <div key={fix.fix} className="table-row">
-                        <div>
-                          <strong>{fix.fix}</strong>
-                          <p className="helper">Breaks: {fix.breaks_chain_at}</p>
-                        </div>
-                        <div>
-                          <span className={`badge ${fix.effort}`}>Effort: {fix.effort}</span>
-                        </div>
-                        <div>
-                          <span className={`badge ${fix.risk_reduction}`}>Risk reduction: {fix.risk_reduction}</span>
-                        </div>
-                        <div>
-                          <span className="badge">Priority Fix</span>
+                  <>
+                    <div className="table">
+                      {analysis.priority_fixes.map((fix) => (
+                        <div key={fix.fix} className="table-row">
+                          <div>
+                            <strong>{fix.fix}</strong>
+                            <p className="helper">Breaks: {fix.breaks_chain_at}</p>
+                          </div>
+                          <div>
+                            <span className={`badge ${fix.effort}`}>Effort: {fix.effort}</span>
+                          </div>
+                          <div>
+                            <span className={`badge ${fix.risk_reduction}`}>Risk reduction: {fix.risk_reduction}</span>
+                          </div>
+                          <div>
+                            <span className="badge">Priority Fix</span>
+                          </div>
                         </div>
-                      </div>
-                    ))}
-                  </div>
+                      ))}
+                    </div>
+                    {canAnalyze && analysisInput && (
+                      <SweepPanel
+                        analysis={analysis}
+                        input={{ ...analysisInput, project_id: project?.id }}
+                        disabled={loading || !streamComplete || analysis.priority_fixes.length === 0}
+                        onRecorded={() => project && refreshProject(project.id)}
+                      />
+                    )}
+                    {project && (
+                      <RemediationPanel
+                        project={project}
+                        analysis={analysis}
+                        activeRunId={activeRunId}
+                        readOnly={!canAnalyze}
+                        disabled={loading || !streamComplete}
+                        onChanged={() => refreshProject(project.id)}
+                      />
+                    )}
+                  </>
                 )}
 
                 {activeTab === "What Changed" && (
-                  <div className="card">
-                    <h3>What-if change</h3>
-                    <p>{analysis.what_if.change || "No what-if provided."}</p>
-                    <h4>Delta Summary</h4>
-                    <ul className="list">
-                      {analysis.what_if.delta_summary.map((item) => (
-                        <li key={item}>{item}</li>
-                      ))}
-                    </ul>
-                    <h4>Updated Risks</h4>
-                    <ul className="list">
-                      {analysis.what_if.updated_risks.map((item) => (
-                        <li key={item}>{item}</li>
-                      ))}
-                    </ul>
-                  </div>
+                  <RunDiff analysis={analysis} baselines={baselineOptions} />
                 )}
 
                 <div className="callout">
@@ -437,6 +793,20 @@ export default function HomePage() {
                       <li key={note}>{note}</li>
                     ))}
                   </ul>
+                  {analysis.safety_report && analysis.safety_report.findings.length > 0 && (
+                    <>
+                      <strong>Safety filter</strong>
+                      <p className="helper">
+                        {analysis.safety_report.findings.length} of {analysis.safety_report.checked_strings} strings were
+                        rewritten or removed because they contained operational content.
+                      </p>
+                      <ul className="list">
+                        {analysis.safety_report.findings.map((finding) => (
+                          <li key={finding.path}>{describeFinding(finding)}</li>
+                        ))}
+                      </ul>
+                    </>
+                  )}
                 </div>
 
                 <details className="card" onToggle={(event) => {
@@ -0,0 +1,159 @@
+import { mapWithConcurrency } from "../concurrency";
+import { ingestAnalysisInput, type ArtifactSource, type IngestResult } from "../ingest";
+import type { ChatMessage, LlmProvider } from "../llm";
+import { CONDENSE_PROMPT } from "./prompts";
+import { totalInputLength, uncondensedInputLength, type AnalysisInput, type CondensedField } from "./schema";
+
+export const FIELD_BUDGETS = {
+  system_text: 6000,
+  diagram_summary: 2000,
+  config: 4000,
+  logs: 5000,
+  code: 4000,
+  artifacts: 3000
+};
+
+export const CHUNK_CHARS = 8000;
+const CONDENSE_CONCURRENCY = 2;
+const MAX_CONDENSE_ROUNDS = 3;
+const TRUNCATION_MARKER = "\n[truncated to fit the prompt budget]";
+
+const CONDENSE_OPTIONS = {
+  temperature: 0.1,
+  maxOutputTokens: 1024
+};
+
+export type PreparedInput = {
+  input: AnalysisInput;
+  ingest: IngestResult;
+  condensed: CondensedField[];
+};
+
+export function splitIntoChunks(text: string, size = CHUNK_CHARS) {
+  const chunks: string[] = [];
+  let current = "";
+
+  for (const line of text.split("\n")) {
+    for (let offset = 0; offset < Math.max(line.length, 1); offset += size) {
+      const piece = line.slice(offset, offset + size);
+      if (current && current.length + piece.length + 1 > size) {
+        chunks.push(current);
+        current = "";
+      }
+      current = current ? `${current}\n${piece}` : piece;
+    }
+  }
+  if (current.trim()) {
+    chunks.push(current);
+  }
+
+  return chunks;
+}
+
+function condenseMessages(field: string, stage: "map" | "reduce", excerpt: string): ChatMessage[] {
+  return [
+    { role: "system", text: CONDENSE_PROMPT },
+    { role: "user", text: `field:\n${field}\n\nstage:\n${stage}\n\nexcerpt:\n${excerpt}` }
+  ];
+}
+
+async function condenseText({
+  provider,
+  field,
+  text,
+  budget,
+  signal
+}: {
+  provider: LlmProvider;
+  field: string;
+  text: string;
+  budget: number;
+  signal?: AbortSignal;
+}): Promise<{ text: string; field: CondensedField }> {
+  let current = text;
+  let chunks = 0;
+
+  for (let round = 0; round < MAX_CONDENSE_ROUNDS && current.length > budget; round += 1) {
+    const parts = splitIntoChunks(current);
+    chunks += parts.length;
+    const facts = await mapWithConcurrency(parts, CONDENSE_CONCURRENCY, (part) =>
+      provider.generate({
+        messages: condenseMessages(field, round === 0 ? "map" : "reduce", part),
+        ...CONDENSE_OPTIONS,
+        signal
+      })
+    );
+    const merged = facts
+      .map((fact) => fact.trim())
+      .filter(Boolean)
+      .join("\n");
+    if (merged.length >= current.length) {
+      break;
+    }
+    current = merged;
+  }
+
+  if (current.length > budget) {
+    current = `${current.slice(0, budget - TRUNCATION_MARKER.length)}${TRUNCATION_MARKER}`;
+  }
+
+  return {
+    text: current,
+    field: { field, original_chars: text.length, condensed_chars: current.length, budget, chunks }
+  };
+}
+
+export async function prepareAnalysisInput({
+  provider,
+  input,
+  maxChars,
+  signal
+}: {
+  provider: LlmProvider;
+  input: AnalysisInput;
+  maxChars: number;
+  signal?: AbortSignal;
+}): Promise<PreparedInput> {
+  const ingest = ingestAnalysisInput(input);
+  if (totalInputLength(input) <= maxChars) {
+    return { input, ingest, condensed: [] };
+  }
+
+  const total = Object.values(FIELD_BUDGETS).reduce((sum, budget) => sum + budget, 0);
+  const scale = Math.min(1, Math.max(maxChars - uncondensedInputLength(input), 0) / total);
+  const budgets = Object.fromEntries(
+    Object.entries(FIELD_BUDGETS).map(([field, budget]) => [field, Math.floor(budget * scale)])
+  ) as typeof FIELD_BUDGETS;
+
+  const condensed: CondensedField[] = [];
+  const fit = async (field: string, text: string | undefined, budget: number) => {
+    if (!text || text.length <= budget) {
+      return text;
+    }
+    const result = await condenseText({ provider, field, text, budget, signal });
+    condensed.push(result.field);
+    return result.text;
+  };
+
+  const artifacts = input.artifacts ?? [];
+  const artifactBudget = Math.floor(budgets.artifacts / Math.max(artifacts.length, 1));
+  const condensedArtifacts: ArtifactSource[] = [];
+  for (const artifact of artifacts) {
+    const content = (await fit(`artifacts/${artifact.name}`, artifact.content, artifactBudget)) ?? "";
+    condensedArtifacts.push({ name: artifact.name, content });
+  }
+
+  const prepared: AnalysisInput = {
+    ...input,
+    system_text: (await fit("system_text", input.system_text, budgets.system_text)) ?? "",
+    diagram_summary: await fit("diagram_summary", input.diagram_summary, budgets.diagram_summary),
+    snippets: {
+      config: await fit("snippets.config", input.snippets?.config, budgets.config),
+      logs: await fit("snippets.logs", input.snippets?.logs, budgets.logs),
+      code: await fit("snippets.code", input.snippets?.code, budgets.code)
+    },
+    artifacts: condensedArtifacts
+  };
+
+  return { input: prepared, ingest, condensed };
+}
@@ -0,0 +1,315 @@
+import { applyFrameworkCatalog } from "../frameworks";
+import { formatInventory, ingestAnalysisInput, inventoryIsEmpty, type IngestResult } from "../ingest";
+import type { ChatMessage, LlmProvider } from "../llm";
+import { formatLogPattern, parseLogTimeline } from "../logs";
+import { modelIsEmpty, normalizeSystemModel, systemModelText } from "../snapshot";
+import { prepareAnalysisInput, type PreparedInput } from "./condense";
+import { redactAnalysisInput, type RedactionEntry } from "./redaction";
+import { applySafetyFilter } from "./safety";
+import {
+  emptyAnalysis,
+  formatViolations,
+  normalizeAnalysis,
+  type AnalysisErrorPayload,
+  type AnalysisInput,
+  type AnalysisResponse,
+  type SchemaViolation,
+  type ValidationResult,
+  MAX_TOTAL_CHARS,
+  MAX_UNCONDENSED_CHARS,
+  totalInputLength,
+  uncondensedInputLength,
+  whatIfChanges
+} from "./schema";
+import type { PromptTemplate } from "./templates";
+
+export const MAX_RAW_INPUT_CHARS = 400000;
+export const MAX_WHAT_IF_CHANGES = 5;
+
+export type PreparedAnalysis = PreparedInput & {
+  redactions: RedactionEntry[];
+  template: PromptTemplate;
+};
+
+export type AnalysisTrace = {
+  initial_output: string | null;
+  repair_output: string | null;
+};
+
+export function createAnalysisTrace(): AnalysisTrace {
+  return { initial_output: null, repair_output: null };
+}
+
+export class AnalysisValidationError extends Error {
+  violations: SchemaViolation[];
+
+  constructor(violations: SchemaViolation[], rawOutput: string) {
+    super(rawOutput);
+    this.name = "AnalysisValidationError";
+    this.violations = violations;
+  }
+}
+
+function renderWhatIf(input: AnalysisInput) {
+  const changes = whatIfChanges(input.what_if);
+  if (changes.length === 0) {
+    return "NONE";
+  }
+  if (changes.length === 1) {
+    return changes[0];
+  }
+  return changes.map((change, index) => `${index + 1}. ${change}`).join("\n");
+}
+
+function renderArtifacts(input: AnalysisInput, ingest: IngestResult) {
+  const { artifacts, inventory } = ingest;
+  if (artifacts.length === 0) {
+    return "";
+  }
+  const raw = (input.artifacts ?? [])
+    .map((artifact) => {
+      const kind = artifacts.find((parsed) => parsed.name === artifact.name)?.kind ?? "unknown";
+      return `--- ${artifact.name} (${kind}) ---\n${artifact.content}`;
+    })
+    .join("\n");
+  return (
+    `inventory:\n${inventoryIsEmpty(inventory) ? "NONE" : formatInventory(inventory)}\n\n` +
+    (raw ? `artifacts:\n${raw}\n\n` : "")
+  );
+}
+
+function renderSystemModel(input: AnalysisInput) {
+  const text = systemModelText(input.system_model);
+  return text ? `system_model:\n${text}\n\n` : "";
+}
+
+function renderLogPatterns(input: AnalysisInput) {
+  const { patterns } = parseLogTimeline(input.snippets?.logs ?? "");
+  return patterns.length > 0
+    ? `log_patterns:\n${patterns.map((pattern) => `- ${formatLogPattern(pattern)}`).join("\n")}\n\n`
+    : "";
+}
+
+export function buildUserPrompt(input: AnalysisInput, ingest = ingestAnalysisInput(input)) {
+  return `system_text:\n${input.system_text ?? ""}\n\n` +
+    renderSystemModel(input) +
+    `diagram_summary:\n${input.diagram_summary ?? ""}\n\n` +
+    `snippets:\nconfig:\n${input.snippets?.config ?? ""}\nlogs:\n${input.snippets?.logs ?? ""}\ncode:\n${input.snippets?.code ?? ""}\n\n` +
+    renderLogPatterns(input) +
+    renderArtifacts(input, ingest) +
+    `what_if:\n${renderWhatIf(input)}`;
+}
+
+export function validateAnalysisInput(input: AnalysisInput) {
+  if (input.system_text !== undefined && typeof input.system_text !== "string") {
+    return "system_text must be a string.";
+  }
+
+  if (input.system_model !== undefined && input.system_model !== null) {
+    const { violations } = normalizeSystemModel(input.system_model);
+    if (violations.length > 0) {
+      return `System model is invalid:\n${formatViolations(violations)}`;
+    }
+  }
+
+  if (!input.system_text?.trim() && modelIsEmpty(input.system_model)) {
+    return "System snapshot is required: provide system_text or a system_model.";
+  }
+
+  const whatIf: unknown = input.what_if;
+  if (whatIf !== undefined && whatIf !== null && typeof whatIf !== "string" && !Array.isArray(whatIf)) {
+    return "what_if must be a string or an array of strings.";
+  }
+
+  const artifacts: unknown = input.artifacts;
+  if (
+    artifacts !== undefined &&
+    (!Array.isArray(artifacts) ||
+      !artifacts.every((artifact) => typeof artifact?.name === "string" && typeof artifact?.content === "string"))
+  ) {
+    return "artifacts must be an array of { name, content } objects.";
+  }
+
+  if (input.prompt_template !== undefined && typeof input.prompt_template !== "string") {
+    return "prompt_template must be a template id string.";
+  }
+
+  if (whatIfChanges(input.what_if).length > MAX_WHAT_IF_CHANGES) {
+    return `Combine at most ${MAX_WHAT_IF_CHANGES} what-if changes in one run.`;
+  }
+
+  if (uncondensedInputLength(input) > MAX_UNCONDENSED_CHARS) {
+    return (
+      `The system model and what-if changes must total at most ${MAX_UNCONDENSED_CHARS.toLocaleString("en-US")} ` +
+      "characters because they are not condensed. Move detail into the system text or artifacts."
+    );
+  }
+
+  if (totalInputLength(input) > MAX_RAW_INPUT_CHARS) {
+    return "Input too large. Please keep total input under 400k characters.";
+  }
+
+  return null;
+}
+
+export function sanitizeAnalysis(analysis: AnalysisResponse): AnalysisResponse {
+  const { safety_report: _safety, mapping_report: _mapping, ...rest } = analysis;
+  const { value, findings, checked } = applySafetyFilter(rest, "");
+  const mapped = applyFrameworkCatalog(value, "");
+  return {
+    ...mapped.value,
+    safety_report: { checked_strings: checked, findings },
+    mapping_report: { checked_ids: mapped.checked, rejected: mapped.rejected }
+  };
+}
+
+export function analysisMessages(template: PromptTemplate, userPrompt: string): ChatMessage[] {
+  return [
+    { role: "system", text: template.system },
+    { role: "user", text: template.developer },
+    { role: "user", text: userPrompt }
+  ];
+}
+
+export function validateModelOutput(text: string): ValidationResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (parseError) {
+    const reason = parseError instanceof Error ? parseError.message : "unparseable output";
+    return { value: emptyAnalysis(), violations: [{ path: "$", message: `invalid JSON (${reason})` }] };
+  }
+  return normalizeAnalysis(parsed);
+}
+
+export async function repairModelOutput({
+  provider,
+  template,
+  initialText,
+  violations,
+  signal,
+  trace
+}: {
+  provider: LlmProvider;
+  template: PromptTemplate;
+  initialText: string;
+  violations: SchemaViolation[];
+  signal?: AbortSignal;
+  trace?: AnalysisTrace;
+}) {
+  const repairMessages: ChatMessage[] = [
+    { role: "system", text: template.system },
+    {
+      role: "user",
+      text:
+        "Return valid JSON only matching the required schema. Fix the following output.\n" +
+        `It has these schema violations:\n${formatViolations(violations)}`
+    },
+    { role: "user", text: initialText }
+  ];
+
+  const repairText = await provider.generate({ messages: repairMessages, ...template.generation, signal });
+  if (trace) {
+    trace.repair_output = repairText;
+  }
+  const repaired = validateModelOutput(repairText);
+
+  if (repaired.violations.length === 0) {
+    return { analysis: repaired.value, raw: repairText };
+  }
+
+  throw new AnalysisValidationError(repaired.violations, repairText || initialText);
+}
+
+export async function parseGeminiJson({
+  provider,
+  template,
+  userPrompt,
+  signal,
+  trace
+}: {
+  provider: LlmProvider;
+  template: PromptTemplate;
+  userPrompt: string;
+  signal?: AbortSignal;
+  trace?: AnalysisTrace;
+}) {
+  const initialText = await provider.generate({
+    messages: analysisMessages(template, userPrompt),
+    ...template.generation,
+    signal
+  });
+  if (trace) {
+    trace.initial_output = initialText;
+  }
+  const initial = validateModelOutput(initialText);
+
+  if (initial.violations.length === 0) {
+    return { analysis: initial.value, raw: initialText };
+  }
+
+  return repairModelOutput({ provider, template, initialText, violations: initial.violations, signal, trace });
+}
+
+export async function prepareInput({
+  provider,
+  template,
+  input,
+  signal
+}: {
+  provider: LlmProvider;
+  template: PromptTemplate;
+  input: AnalysisInput;
+  signal?: AbortSignal;
+}): Promise<PreparedAnalysis> {
+  const redaction = redactAnalysisInput(input);
+  const prepared = await prepareAnalysisInput({ provider, input: redaction.input, maxChars: MAX_TOTAL_CHARS, signal });
+  return { ...prepared, redactions: redaction.entries, template };
+}
+
+export async function runPreparedAnalysis({
+  provider,
+  prepared,
+  signal,
+  trace
+}: {
+  provider: LlmProvider;
+  prepared: PreparedAnalysis;
+  signal?: AbortSignal;
+  trace?: AnalysisTrace;
+}) {
+  const userPrompt = buildUserPrompt(prepared.input, prepared.ingest);
+  const { analysis } = await parseGeminiJson({ provider, template: prepared.template, userPrompt, signal, trace });
+  return sanitizeAnalysis(analysis);
+}
+
+export async function runAnalysis({
+  provider,
+  template,
+  input,
+  signal,
+  trace
+}: {
+  provider: LlmProvider;
+  template: PromptTemplate;
+  input: AnalysisInput;
+  signal?: AbortSignal;
+  trace?: AnalysisTrace;
+}) {
+  const prepared = await prepareInput({ provider, template, input, signal });
+  return runPreparedAnalysis({ provider, prepared, signal, trace });
+}
+
+export function analysisErrorPayload(error: unknown): AnalysisErrorPayload {
+  return {
+    error: "Failed to analyze attack paths.",
+    details:
+      error instanceof AnalysisValidationError
+        ? "Model output did not match the analysis schema after a repair attempt."
+        : error instanceof Error
+          ? error.message
+          : "Unknown error.",
+    raw_output: error instanceof Error ? error.message : undefined,
+    violations: error instanceof AnalysisValidationError ? error.violations : undefined
+  };
+}
@@ -0,0 +1,238 @@
+import type { AnalysisResponse, AttackPath, AttackStep, Level, PriorityFix, Risk } from "./schema";
+
+export type ValueChange<T> = {
+  before: T;
+  after: T;
+};
+
+export type StepChange = {
+  step: number;
+  before: AttackStep;
+  after: AttackStep;
+  changed_fields: Array<keyof AttackStep>;
+};
+
+export type PathChange = {
+  name: string;
+  overall_risk?: ValueChange<Level>;
+  entry_point?: ValueChange<string>;
+  end_impact?: ValueChange<string>;
+  steps_added: AttackStep[];
+  steps_removed: AttackStep[];
+  steps_changed: StepChange[];
+};
+
+export type RiskChange = {
+  risk: string;
+  likelihood?: ValueChange<Level>;
+  impact?: ValueChange<Level>;
+};
+
+export type FixChange = {
+  fix: string;
+  rank: ValueChange<number>;
+  effort?: ValueChange<Level>;
+  risk_reduction?: ValueChange<Level>;
+};
+
+export type AnalysisDiff = {
+  attack_paths: {
+    added: AttackPath[];
+    removed: AttackPath[];
+    changed: PathChange[];
+    unchanged: string[];
+  };
+  top_risks: {
+    added: Risk[];
+    removed: Risk[];
+    changed: RiskChange[];
+  };
+  priority_fixes: {
+    added: PriorityFix[];
+    dropped: PriorityFix[];
+    changed: FixChange[];
+  };
+  has_changes: boolean;
+};
+
+const MATCH_THRESHOLD = 0.5;
+
+function tokens(text: string) {
+  return new Set(
+    text
+      .toLowerCase()
+      .replace(/[^a-z0-9\s]/g, " ")
+      .split(/\s+/)
+      .filter((token) => token.length > 1)
+  );
+}
+
+export function textSimilarity(a: string, b: string) {
+  const left = tokens(a);
+  const right = tokens(b);
+  if (left.size === 0 && right.size === 0) {
+    return 1;
+  }
+  let shared = 0;
+  for (const token of left) {
+    if (right.has(token)) {
+      shared += 1;
+    }
+  }
+  return shared / (left.size + right.size - shared);
+}
+
+export function matchByText<T>(before: T[], after: T[], key: (item: T) => string) {
+  const pairs: Array<[T, T]> = [];
+  const unmatchedAfter = new Set(after.map((_, index) => index));
+  const unmatchedBefore: T[] = [];
+
+  for (const item of before) {
+    let bestIndex = -1;
+    let bestScore = MATCH_THRESHOLD;
+    for (const index of unmatchedAfter) {
+      const score = textSimilarity(key(item), key(after[index]));
+      if (score >= bestScore) {
+        bestScore = score;
+        bestIndex = index;
+      }
+    }
+    if (bestIndex >= 0) {
+      pairs.push([item, after[bestIndex]]);
+      unmatchedAfter.delete(bestIndex);
+    } else {
+      unmatchedBefore.push(item);
+    }
+  }
+
+  return {
+    pairs,
+    removed: unmatchedBefore,
+    added: [...unmatchedAfter].sort((a, b) => a - b).map((index) => after[index])
+  };
+}
+
+function change<T>(before: T, after: T): ValueChange<T> | undefined {
+  return before === after ? undefined : { before, after };
+}
+
+function sameList(a: string[], b: string[]) {
+  return a.length === b.length && a.every((item, index) => item === b[index]);
+}
+
+function diffSteps(before: AttackStep[], after: AttackStep[]) {
+  const { pairs, added, removed } = matchByText(before, after, (step) => step.action_high_level);
+  const changed: StepChange[] = [];
+
+  for (const [previous, next] of pairs) {
+    const fields: Array<keyof AttackStep> = [];
+    if (previous.step !== next.step) {
+      fields.push("step");
+    }
+    if (previous.action_high_level !== next.action_high_level) {
+      fields.push("action_high_level");
+    }
+    if (previous.why_plausible !== next.why_plausible) {
+      fields.push("why_plausible");
+    }
+    if (!sameList(previous.defender_signals, next.defender_signals)) {
+      fields.push("defender_signals");
+    }
+    if (!sameList(previous.mitigations, next.mitigations)) {
+      fields.push("mitigations");
+    }
+    if (fields.length > 0) {
+      changed.push({ step: next.step, before: previous, after: next, changed_fields: fields });
+    }
+  }
+
+  return { added, removed, changed };
+}
+
+function diffPaths(before: AttackPath[], after: AttackPath[]): AnalysisDiff["attack_paths"] {
+  const { pairs, added, removed } = matchByText(before, after, (path) => `${path.name} ${path.entry_point}`);
+  const changed: PathChange[] = [];
+  const unchanged: string[] = [];
+
+  for (const [previous, next] of pairs) {
+    const steps = diffSteps(previous.steps, next.steps);
+    const pathChange: PathChange = {
+      name: next.name,
+      overall_risk: change(previous.overall_risk, next.overall_risk),
+      entry_point: change(previous.entry_point, next.entry_point),
+      end_impact: change(previous.end_impact, next.end_impact),
+      steps_added: steps.added,
+      steps_removed: steps.removed,
+      steps_changed: steps.changed
+    };
+    const isChanged =
+      pathChange.overall_risk ||
+      pathChange.entry_point ||
+      pathChange.end_impact ||
+      steps.added.length > 0 ||
+      steps.removed.length > 0 ||
+      steps.changed.length > 0;
+
+    if (isChanged) {
+      changed.push(pathChange);
+    } else {
+      unchanged.push(next.name);
+    }
+  }
+
+  return { added, removed, changed, unchanged };
+}
+
+function diffRisks(before: Risk[], after: Risk[]): AnalysisDiff["top_risks"] {
+  const { pairs, added, removed } = matchByText(before, after, (risk) => risk.risk);
+  const changed: RiskChange[] = [];
+
+  for (const [previous, next] of pairs) {
+    const likelihood = change(previous.likelihood, next.likelihood);
+    const impact = change(previous.impact, next.impact);
+    if (likelihood || impact) {
+      changed.push({ risk: next.risk, likelihood, impact });
+    }
+  }
+
+  return { added, removed, changed };
+}
+
+function diffFixes(before: PriorityFix[], after: PriorityFix[]): AnalysisDiff["priority_fixes"] {
+  const { pairs, added, removed } = matchByText(before, after, (fix) => fix.fix);
+  const changed: FixChange[] = [];
+
+  for (const [previous, next] of pairs) {
+    const rank = { before: before.indexOf(previous) + 1, after: after.indexOf(next) + 1 };
+    const effort = change(previous.effort, next.effort);
+    const riskReduction = change(previous.risk_reduction, next.risk_reduction);
+    if (rank.before !== rank.after || effort || riskReduction) {
+      changed.push({ fix: next.fix, rank, effort, risk_reduction: riskReduction });
+    }
+  }
+
+  return { added, dropped: removed, changed };
+}
+
+export function diffAnalyses(baseline: AnalysisResponse, candidate: AnalysisResponse): AnalysisDiff {
+  const attackPaths = diffPaths(baseline.attack_paths, candidate.attack_paths);
+  const topRisks = diffRisks(baseline.top_risks, candidate.top_risks);
+  const priorityFixes = diffFixes(baseline.priority_fixes, candidate.priority_fixes);
+
+  return {
+    attack_paths: attackPaths,
+    top_risks: topRisks,
+    priority_fixes: priorityFixes,
+    has_changes:
+      attackPaths.added.length +
+        attackPaths.removed.length +
+        attackPaths.changed.length +
+        topRisks.added.length +
+        topRisks.removed.length +
+        topRisks.changed.length +
+        priorityFixes.added.length +
+        priorityFixes.dropped.length +
+        priorityFixes.changed.length >
+      0
+  };
+}
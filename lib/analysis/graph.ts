@@ -0,0 +1,223 @@
+import { textSimilarity } from "./diff";
+import type { AnalysisResponse, AttackPath, Level, PriorityFix } from "./schema";
+
+export type GraphNodeKind = "entry" | "step" | "impact" | "component";
+
+export type GraphNode = {
+  id: string;
+  kind: GraphNodeKind;
+  label: string;
+  risk?: Level;
+  paths: number[];
+  x: number;
+  y: number;
+};
+
+export type GraphEdge = {
+  id: string;
+  from: string;
+  to: string;
+  kind: "chain" | "touches";
+  risk: Level;
+  path: number;
+};
+
+export type GraphCut = {
+  fix: PriorityFix;
+  path: number;
+  step: number;
+  edge: string;
+  assumed: boolean;
+};
+
+export type AttackGraph = {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  cuts: GraphCut[];
+  unplaced_fixes: PriorityFix[];
+  width: number;
+  height: number;
+};
+
+export const GRAPH_LAYOUT = {
+  columnWidth: 190,
+  rowHeight: 110,
+  padding: 90,
+  componentGap: 60,
+  componentSpacing: 170,
+  componentRowHeight: 70
+};
+
+const RISK_ORDER: Level[] = ["low", "medium", "high"];
+
+function nodeKey(text: string) {
+  return text.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+function maxRisk(a: Level | undefined, b: Level) {
+  return a && RISK_ORDER.indexOf(a) > RISK_ORDER.indexOf(b) ? a : b;
+}
+
+export function parseBreaksChainAt(value: string) {
+  const match = value.match(/^(.*?)[:#]\s*(?:step\s*)?#?(\d+)\s*$/i);
+  if (!match) {
+    return { pathName: value.trim(), step: null };
+  }
+  return { pathName: match[1].trim(), step: Number(match[2]) };
+}
+
+export function findPathIndex(paths: AttackPath[], name: string) {
+  const exact = paths.findIndex((path) => nodeKey(path.name) === nodeKey(name));
+  if (exact >= 0) {
+    return exact;
+  }
+  let best = -1;
+  let bestScore = 0.5;
+  paths.forEach((path, index) => {
+    const score = textSimilarity(path.name, name);
+    if (score >= bestScore) {
+      best = index;
+      bestScore = score;
+    }
+  });
+  return best;
+}
+
+export function mentions(text: string, component: string) {
+  const needle = nodeKey(component);
+  return needle.length > 2 && nodeKey(text).includes(needle);
+}
+
+export function buildAttackGraph(analysis: AnalysisResponse): AttackGraph {
+  const { columnWidth, rowHeight, padding, componentGap, componentSpacing, componentRowHeight } = GRAPH_LAYOUT;
+  const nodes = new Map<string, GraphNode>();
+  const edges: GraphEdge[] = [];
+  const paths = analysis.attack_paths;
+  const maxSteps = Math.max(1, ...paths.map((path) => path.steps.length));
+  const impactColumn = maxSteps + 1;
+
+  const upsert = (id: string, node: Omit<GraphNode, "paths" | "x" | "y">, pathIndex: number, column: number) => {
+    const existing = nodes.get(id);
+    if (existing) {
+      existing.paths.push(pathIndex);
+      existing.risk = node.risk ? maxRisk(existing.risk, node.risk) : existing.risk;
+      return existing;
+    }
+    const created: GraphNode = { ...node, paths: [pathIndex], x: padding + column * columnWidth, y: 0 };
+    nodes.set(id, created);
+    return created;
+  };
+
+  paths.forEach((path, pathIndex) => {
+    const entryId = `entry:${nodeKey(path.entry_point)}`;
+    const entry = upsert(entryId, { id: entryId, kind: "entry", label: path.entry_point, risk: path.overall_risk }, pathIndex, 0);
+
+    let previous = entry;
+    path.steps.forEach((step, stepIndex) => {
+      const id = `step:${pathIndex}:${stepIndex}`;
+      const stepNode = upsert(
+        id,
+        { id, kind: "step", label: `${step.step}. ${step.action_high_level}`, risk: path.overall_risk },
+        pathIndex,
+        stepIndex + 1
+      );
+      edges.push({
+        id: `${previous.id}->${id}`,
+        from: previous.id,
+        to: id,
+        kind: "chain",
+        risk: path.overall_risk,
+        path: pathIndex
+      });
+      previous = stepNode;
+    });
+
+    const impactLabel = path.end_impact || path.name;
+    const impactId = `impact:${nodeKey(impactLabel)}`;
+    upsert(impactId, { id: impactId, kind: "impact", label: impactLabel, risk: path.overall_risk }, pathIndex, impactColumn);
+    edges.push({
+      id: `${previous.id}->${impactId}`,
+      from: previous.id,
+      to: impactId,
+      kind: "chain",
+      risk: path.overall_risk,
+      path: pathIndex
+    });
+  });
+
+  for (const node of nodes.values()) {
+    const rows = [...new Set(node.paths)];
+    node.y = padding + (rows.reduce((sum, row) => sum + row, 0) / rows.length) * rowHeight;
+  }
+
+  const componentsY = padding + Math.max(paths.length, 1) * rowHeight + componentGap;
+  const components = analysis.system_summary.components;
+  const perRow = Math.floor((impactColumn * columnWidth) / componentSpacing) + 1;
+  components.forEach((component, index) => {
+    const id = `component:${nodeKey(component)}`;
+    if (nodes.has(id)) {
+      return;
+    }
+    const touched = paths.flatMap((path, pathIndex) =>
+      path.steps
+        .map((step, stepIndex) => ({ step, stepIndex }))
+        .filter(({ step }) => mentions(`${step.action_high_level} ${step.why_plausible}`, component))
+        .map(({ stepIndex }) => ({ pathIndex, stepId: `step:${pathIndex}:${stepIndex}`, risk: path.overall_risk }))
+    );
+    const entryTouches = paths
+      .map((path, pathIndex) => ({ path, pathIndex }))
+      .filter(({ path }) => mentions(path.entry_point, component))
+      .map(({ path, pathIndex }) => ({
+        pathIndex,
+        stepId: `entry:${nodeKey(path.entry_point)}`,
+        risk: path.overall_risk
+      }));
+
+    nodes.set(id, {
+      id,
+      kind: "component",
+      label: component,
+      paths: [...touched, ...entryTouches].map((touch) => touch.pathIndex),
+      x: padding + (index % perRow) * componentSpacing,
+      y: componentsY + Math.floor(index / perRow) * componentRowHeight
+    });
+
+    for (const touch of [...touched, ...entryTouches]) {
+      edges.push({
+        id: `${touch.stepId}~${id}`,
+        from: touch.stepId,
+        to: id,
+        kind: "touches",
+        risk: touch.risk,
+        path: touch.pathIndex
+      });
+    }
+  });
+
+  const cuts: GraphCut[] = [];
+  const unplacedFixes: PriorityFix[] = [];
+  for (const fix of analysis.priority_fixes) {
+    const { pathName, step } = parseBreaksChainAt(fix.breaks_chain_at);
+    const pathIndex = findPathIndex(paths, pathName);
+    const steps = pathIndex >= 0 ? paths[pathIndex].steps : [];
+    const stepIndex = step === null ? 0 : steps.findIndex((item) => item.step === step);
+    const edge = edges.find((item) => item.kind === "chain" && item.to === `step:${pathIndex}:${stepIndex}`);
+    if (stepIndex >= 0 && steps.length > 0 && edge) {
+      cuts.push({ fix, path: pathIndex, step: steps[stepIndex].step, edge: edge.id, assumed: step === null });
+    } else {
+      unplacedFixes.push(fix);
+    }
+  }
+
+  return {
+    nodes: [...nodes.values()],
+    edges,
+    cuts,
+    unplaced_fixes: unplacedFixes,
+    width: padding * 2 + impactColumn * columnWidth,
+    height:
+      components.length > 0
+        ? componentsY + Math.floor((components.length - 1) / perRow) * componentRowHeight + padding
+        : padding + Math.max(paths.length, 1) * rowHeight
+  };
+}
@@ -0,0 +1,23 @@
+export async function* readNdjson<T>(body: ReadableStream<Uint8Array>) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    const lines = buffer.split("\n");
+    buffer = done ? "" : lines.pop() ?? "";
+
+    for (const line of lines) {
+      if (line.trim()) {
+        yield JSON.parse(line) as T;
+      }
+    }
+
+    if (done) {
+      return;
+    }
+  }
+}
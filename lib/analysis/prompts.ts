@@ -0,0 +1,29 @@
+export const CONDENSE_PROMPT = `You condense oversized input for a defensive attack-path analysis.
+You will receive a field name, a stage ("map" for a raw excerpt, "reduce" for facts already extracted from earlier excerpts), and an excerpt.
+
+Extract only security-relevant facts: components and versions, exposures and listening ports, identities and permissions, authentication behavior, misconfigurations, errors, and suspicious log patterns (with counts, sources and time ranges).
+- In the "reduce" stage, merge and deduplicate the facts instead of re-extracting them.
+- Return plain text, one fact per line starting with "- ". No JSON, no markdown fences.
+- Keep identifiers (hostnames, users, IPs, resource names) exactly as written.
+- No exploit instructions or payloads.`;
+
+export const DETECTION_PROMPT = `You turn defender signals from a defensive attack-path analysis into draft detection rules.
+You will receive an attack path name, one step of that path, ATT&CK tags for the step, its defender signals, and a sample of the user's logs (masked values appear as placeholders such as [IP_1]).
+
+Write one Sigma rule per defender signal.
+- Output only YAML documents separated by lines containing "---". No markdown fences, no prose.
+- Each rule needs title, description, logsource (category, product and/or service), detection with named selections and a condition, falsepositives and level (informational|low|medium|high|critical).
+- Prefer field names that appear in the log sample; otherwise use common names such as message, user, src_ip, status or url.
+- Match on observable behavior (event types, outcomes, paths, roles), never on masked placeholders.
+- Do not use aggregation conditions (| count); describe the threshold in the description instead.
+- Rules describe what to detect; no exploit steps or payloads.`;
+
+export const FOLLOWUP_PROMPT = `You answer follow-up questions about a defensive attack-path analysis you already produced.
+You will receive the original (masked) input, the analysis JSON, earlier questions and answers, and a new question.
+
+Answer only from that input and analysis.
+- Return JSON only: {"answer": string, "references": string[], "what_if": string | null}. No markdown fences.
+- "references" lists the analysis fields the answer relies on, as paths such as "attack_paths[0].steps[1]" or "top_risks[2]".
+- If the input and analysis do not cover the question, say so in "answer" instead of guessing.
+- When the question proposes a change to the system, put that change as one sentence in "what_if" so it can be re-run as a what-if analysis; otherwise use null.
+- Explain at a high level. No exploit steps, commands, payloads or tooling instructions.`;
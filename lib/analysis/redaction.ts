@@ -0,0 +1,249 @@
+import { modelIsEmpty, normalizeSystemModel, type SystemModel } from "../snapshot";
+import type { AnalysisInput } from "./schema";
+
+export type RedactionKind =
+  | "PRIVATE_KEY"
+  | "AWS_KEY"
+  | "JWT"
+  | "TOKEN"
+  | "URL_CREDENTIAL"
+  | "PASSWORD"
+  | "EMAIL"
+  | "IP"
+  | "SECRET";
+
+export type RedactionEntry = {
+  placeholder: string;
+  kind: RedactionKind;
+  label: string;
+  fields: string[];
+  occurrences: number;
+};
+
+export type RedactionResult = {
+  input: AnalysisInput;
+  entries: RedactionEntry[];
+};
+
+type RedactionRule = {
+  kind: RedactionKind;
+  pattern: RegExp;
+  group?: number;
+  accept?: (value: string) => boolean;
+};
+
+export const REDACTION_LABELS: Record<RedactionKind, string> = {
+  PRIVATE_KEY: "private key",
+  AWS_KEY: "AWS access key",
+  JWT: "JSON web token",
+  TOKEN: "API token",
+  URL_CREDENTIAL: "credentials in a URL",
+  PASSWORD: "password or secret value",
+  EMAIL: "email address",
+  IP: "public IP address",
+  SECRET: "high-entropy secret"
+};
+
+const ENTROPY_THRESHOLD = 3.5;
+const MIN_ENTROPY_LENGTH = 24;
+
+function isPublicIpv4(value: string) {
+  const octets = value.split(".").map(Number);
+  if (octets.some((octet) => octet > 255)) {
+    return false;
+  }
+  const [a, b] = octets;
+  return !(
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    a >= 224
+  );
+}
+
+export function shannonEntropy(value: string) {
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const probability = count / value.length;
+    entropy -= probability * Math.log2(probability);
+  }
+  return entropy;
+}
+
+function looksLikeSecret(value: string) {
+  return (
+    /[0-9]/.test(value) &&
+    /[a-z]/.test(value) &&
+    /[A-Z]/.test(value) &&
+    !/^[A-Z]+_\d+$/.test(value) &&
+    shannonEntropy(value) >= ENTROPY_THRESHOLD
+  );
+}
+
+const RULES: RedactionRule[] = [
+  {
+    kind: "PRIVATE_KEY",
+    pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g
+  },
+  { kind: "AWS_KEY", pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { kind: "JWT", pattern: /\beyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}\b/g },
+  {
+    kind: "TOKEN",
+    pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{30,}|xox[abprs]-[A-Za-z0-9-]{10,}|AIza[0-9A-Za-z_-]{35}|sk_(?:live|test)_[0-9A-Za-z]{16,}|sk-[A-Za-z0-9_-]{20,})\b/g
+  },
+  { kind: "TOKEN", pattern: /(\bBearer\s+)([A-Za-z0-9._~+/-]{16,}=*)/g, group: 2 },
+  { kind: "URL_CREDENTIAL", pattern: /(\b[a-z][a-z0-9+.-]*:\/\/[^\s:/@]+:)([^\s@/]+)(?=@)/gi, group: 2 },
+  {
+    kind: "PASSWORD",
+    pattern:
+      /(\b[\w.-]*(?:password|passwd|pwd|secret|token|api[_-]?key|access[_-]?key|client[_-]?secret)[\w.-]*["']?\s*[:=]\s*["']?)([^\s"',;}]{4,})/gi,
+    group: 2,
+    accept: (value) =>
+      !/^(?:\*+|true|false|null|none|required|\$\{?[\w.]+\}?|\[[A-Z_]+_\d+\])$/i.test(value) &&
+      !/^[A-Za-z_$][\w$]*(?:\.[\w$]+)+$|\(/.test(value)
+  },
+  { kind: "EMAIL", pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g },
+  { kind: "IP", pattern: /\b(?:\d{1,3}\.){3}\d{1,3}\b(?!\/\d)/g, accept: isPublicIpv4 },
+  {
+    kind: "SECRET",
+    pattern: new RegExp(`[A-Za-z0-9+/_-]{${MIN_ENTROPY_LENGTH},}={0,2}`, "g"),
+    accept: looksLikeSecret
+  }
+];
+
+type Span = { start: number; end: number; kind: RedactionKind; value: string };
+
+function findSpans(text: string) {
+  const spans: Span[] = [];
+  for (const rule of RULES) {
+    for (const match of text.matchAll(rule.pattern)) {
+      const value = rule.group ? match[rule.group] : match[0];
+      if (!value || (rule.accept && !rule.accept(value))) {
+        continue;
+      }
+      const start = (match.index ?? 0) + (rule.group ? match[1].length : 0);
+      const end = start + value.length;
+      if (spans.some((span) => start < span.end && end > span.start)) {
+        continue;
+      }
+      spans.push({ start, end, kind: rule.kind, value });
+    }
+  }
+  return spans.sort((a, b) => a.start - b.start);
+}
+
+function createRegistry() {
+  const byValue = new Map<string, RedactionEntry>();
+  const counters = new Map<RedactionKind, number>();
+
+  const redact = (text: string | undefined, field: string) => {
+    if (!text) {
+      return text;
+    }
+    let output = "";
+    let cursor = 0;
+    for (const span of findSpans(text)) {
+      let entry = byValue.get(span.value);
+      if (!entry) {
+        const next = (counters.get(span.kind) ?? 0) + 1;
+        counters.set(span.kind, next);
+        entry = {
+          placeholder: `[${span.kind}_${next}]`,
+          kind: span.kind,
+          label: REDACTION_LABELS[span.kind],
+          fields: [],
+          occurrences: 0
+        };
+        byValue.set(span.value, entry);
+      }
+      entry.occurrences += 1;
+      if (!entry.fields.includes(field)) {
+        entry.fields.push(field);
+      }
+      output += text.slice(cursor, span.start) + entry.placeholder;
+      cursor = span.end;
+    }
+    return output + text.slice(cursor);
+  };
+
+  return { redact, entries: () => [...byValue.values()] };
+}
+
+function redactSystemModel(registry: ReturnType<typeof createRegistry>, raw: SystemModel): SystemModel {
+  const model = normalizeSystemModel(raw).value;
+  const redact = (text: string, field: string) => registry.redact(text, `system_model.${field}`) ?? "";
+  return {
+    ...model,
+    name: redact(model.name, "name"),
+    description: redact(model.description, "description"),
+    trust_zones: model.trust_zones.map((zone) => ({
+      ...zone,
+      name: redact(zone.name, "trust_zones"),
+      description: redact(zone.description, "trust_zones")
+    })),
+    components: model.components.map((component) => ({
+      ...component,
+      name: redact(component.name, "components"),
+      description: redact(component.description, "components")
+    })),
+    data_stores: model.data_stores.map((store) => ({
+      ...store,
+      name: redact(store.name, "data_stores"),
+      data: store.data.map((item) => redact(item, "data_stores")),
+      description: redact(store.description, "data_stores")
+    })),
+    identities: model.identities.map((identity) => ({
+      ...identity,
+      name: redact(identity.name, "identities"),
+      permissions: identity.permissions.map((permission) => redact(permission, "identities"))
+    })),
+    edges: model.edges.map((edge) => ({ ...edge, description: redact(edge.description, "edges") })),
+    exposures: model.exposures.map((exposure) => ({ ...exposure, description: redact(exposure.description, "exposures") }))
+  };
+}
+
+function redactInput(registry: ReturnType<typeof createRegistry>, input: AnalysisInput) {
+  const whatIf = input.what_if;
+
+  const redacted: AnalysisInput = {
+    ...input,
+    system_text: registry.redact(input.system_text, "system_text") ?? "",
+    system_model:
+      input.system_model && !modelIsEmpty(input.system_model) ? redactSystemModel(registry, input.system_model) : null,
+    diagram_summary: registry.redact(input.diagram_summary, "diagram_summary"),
+    snippets: input.snippets && {
+      config: registry.redact(input.snippets.config, "snippets.config"),
+      logs: registry.redact(input.snippets.logs, "snippets.logs"),
+      code: registry.redact(input.snippets.code, "snippets.code")
+    },
+    artifacts: input.artifacts?.map((artifact) => ({
+      name: artifact.name,
+      content: registry.redact(artifact.content, `artifacts/${artifact.name}`) ?? ""
+    })),
+    what_if: Array.isArray(whatIf)
+      ? whatIf.map((change) => registry.redact(change, "what_if") ?? "")
+      : typeof whatIf === "string"
+        ? registry.redact(whatIf, "what_if")
+        : whatIf
+  };
+  return redacted;
+}
+
+export function redactAnalysisInput(input: AnalysisInput): RedactionResult {
+  const registry = createRegistry();
+  const redacted = redactInput(registry, input);
+  return { input: redacted, entries: registry.entries() };
+}
+
+export function createInputRedactor(input: AnalysisInput) {
+  const registry = createRegistry();
+  redactInput(registry, input);
+  return (text: string, field: string) => registry.redact(text, field) ?? "";
+}
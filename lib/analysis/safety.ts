@@ -0,0 +1,185 @@
+import type { SafetyFinding, SafetyReason, SafetyReport } from "./schema";
+
+type SafetyRule = {
+  reason: SafetyReason;
+  pattern: RegExp;
+  defensiveMentionAllowed?: boolean;
+  accept?: (match: string) => boolean;
+};
+
+export const SAFETY_REASON_LABELS: Record<SafetyReason, string> = {
+  code_block: "code block",
+  shell_command: "shell command",
+  encoded_payload: "encoded payload",
+  exploit_module: "exploit module reference",
+  injection_string: "injection string"
+};
+
+const SHELL_TOOLS = [
+  "curl",
+  "wget",
+  "nc",
+  "ncat",
+  "netcat",
+  "nmap",
+  "sqlmap",
+  "msfconsole",
+  "msfvenom",
+  "hydra",
+  "hashcat",
+  "john",
+  "mimikatz",
+  "certutil",
+  "bash",
+  "sh",
+  "zsh",
+  "python3?",
+  "perl",
+  "ruby",
+  "php",
+  "powershell(?:\\.exe)?",
+  "cmd(?:\\.exe)?",
+  "chmod",
+  "rm"
+];
+
+const MODULE_PLATFORMS =
+  "windows|linux|unix|multi|osx|android|apple_ios|bsd|freebsd|solaris|aix|hpux|irix|java|php|python|nodejs|ruby|" +
+  "firefox|netware|mainframe|qnx";
+const AUXILIARY_TYPES =
+  "scanner|admin|gather|dos|fuzzers|server|spoof|sniffer|sqli|voip|client|crawler|analyze|cloud|fileformat|pdf";
+
+// Hex digests (sha256 and up) are common in defender output; only flag blobs with real base64 traits.
+function looksLikeBase64(match: string) {
+  const body = match.replace(/=+$/, "");
+  if (/^[0-9a-f]+$/i.test(body)) {
+    return false;
+  }
+  const mixed = /[A-Z]/.test(body) && /[a-z]/.test(body);
+  const padded = body.length < match.length && match.length % 4 === 0;
+  return padded || (mixed && /\d/.test(body) && /[+/]/.test(body)) || (mixed && body.length > 128);
+}
+
+const RULES: SafetyRule[] = [
+  { reason: "code_block", pattern: /```[\s\S]*?(?:```|$)|<script\b[\s\S]*?(?:<\/script>|$)/gi },
+  {
+    reason: "encoded_payload",
+    pattern: /powershell(?:\.exe)?\s+-e(?:nc(?:odedcommand)?)?\s+\S+|(?:\\x[0-9a-f]{2}){4,}/gi
+  },
+  {
+    reason: "encoded_payload",
+    pattern: /\b[A-Za-z0-9+/]{60,}={0,2}/g,
+    accept: looksLikeBase64
+  },
+  {
+    reason: "shell_command",
+    pattern: new RegExp(
+      `(?:^|(?<=[\\s\`'"(]))(?:\\$\\s+)?(?:sudo\\s+)?(?:${SHELL_TOOLS.join("|")})\\s+(?:-{1,2}[A-Za-z]|\\/|https?:\\/\\/|[\\w.-]+\\s*[|;&>])(?:[^\\n\`.]|\\.(?!\\s|$))*`,
+      "gi"
+    )
+  },
+  {
+    reason: "exploit_module",
+    pattern: new RegExp(
+      `\\b(?:(?:exploit|post|payloads?)\\/(?:${MODULE_PLATFORMS}|cmd|generic)|auxiliary\\/(?:${AUXILIARY_TYPES}))` +
+        "(?:\\/[a-z0-9_]+)+",
+      "gi"
+    ),
+    defensiveMentionAllowed: true
+  },
+  {
+    reason: "injection_string",
+    pattern: /'\s*(?:or|and)\s+'?\d+'?\s*=\s*'?\d+'?(?:\s*--)?|\bunion\s+(?:all\s+)?select\b[^.;\n]*|\bjavascript:[^\s]+|\$\{jndi:[^}]*\}?|(?:\.\.\/){2,}[\w/.-]*|;\s*drop\s+table\s+\w+/gi,
+    defensiveMentionAllowed: true
+  }
+];
+
+const DEFENSIVE_CONTEXT = new RegExp(
+  "\\b(?:detect(?:s|ed|ion|ions)?|monitor(?:s|ed|ing)?|alert(?:s|ed|ing)?|watch(?:es|ed|ing)?|" +
+    "block(?:s|ed|ing)?|flag(?:s|ged|ging)?|filter(?:s|ed|ing)?|log(?:s|ged|ging)?|signatures?|rules?|wafs?|" +
+    "den(?:y|ies|ied)|reject(?:s|ed|ing)?|sanitiz(?:e|es|ed|ing)|validat(?:e|es|ed|ing)|look for)\\b",
+  "i"
+);
+const MIN_REMAINING_WORD_CHARS = 12;
+const REMOVED_TEXT = "[removed for safety]";
+
+function sentenceAround(text: string, index: number) {
+  const start = Math.max(text.lastIndexOf(".", index), text.lastIndexOf("\n", index)) + 1;
+  return text.slice(start, index);
+}
+
+export function classifyText(text: string) {
+  const reasons = new Set<SafetyReason>();
+  let rewritten = text;
+
+  for (const rule of RULES) {
+    rewritten = rewritten.replace(rule.pattern, (match: string, offset: number, source: string) => {
+      if (rule.accept && !rule.accept(match)) {
+        return match;
+      }
+      if (rule.defensiveMentionAllowed && DEFENSIVE_CONTEXT.test(sentenceAround(source, offset))) {
+        return match;
+      }
+      reasons.add(rule.reason);
+      return `[removed: ${SAFETY_REASON_LABELS[rule.reason]}]`;
+    });
+  }
+
+  if (reasons.size === 0) {
+    return null;
+  }
+
+  const remaining = rewritten.replace(/\[removed: [a-z ]+\]/g, "").replace(/[^A-Za-z0-9]/g, "");
+  return {
+    reasons: [...reasons],
+    text: remaining.length >= MIN_REMAINING_WORD_CHARS ? rewritten.trim() : null
+  };
+}
+
+export function applySafetyFilter<T>(value: T, path: string) {
+  const findings: SafetyFinding[] = [];
+  let checked = 0;
+
+  const walk = (current: unknown, currentPath: string, inList: boolean): unknown => {
+    if (typeof current === "string") {
+      checked += 1;
+      const result = classifyText(current);
+      if (!result) {
+        return current;
+      }
+      findings.push({
+        path: currentPath,
+        action: result.text === null ? "removed" : "rewritten",
+        reasons: result.reasons
+      });
+      return result.text ?? (inList ? undefined : REMOVED_TEXT);
+    }
+    if (Array.isArray(current)) {
+      return current
+        .map((item, index) => walk(item, `${currentPath}[${index}]`, true))
+        .filter((item) => item !== undefined);
+    }
+    if (typeof current === "object" && current !== null) {
+      return Object.fromEntries(
+        Object.entries(current).map(([key, item]) => [key, walk(item, currentPath ? `${currentPath}.${key}` : key, false)])
+      );
+    }
+    return current;
+  };
+
+  return { value: walk(value, path, false) as T, findings, checked };
+}
+
+export function describeFinding(finding: SafetyFinding) {
+  return `${finding.path}: ${finding.action} (${finding.reasons.map((reason) => SAFETY_REASON_LABELS[reason]).join(", ")})`;
+}
+
+export function describeSafetyReport(report: SafetyReport | undefined) {
+  if (!report) {
+    return [];
+  }
+  return [
+    `${report.findings.length} of ${report.checked_strings} strings changed by the safety filter.`,
+    ...report.findings.map(describeFinding)
+  ];
+}
@@ -0,0 +1,468 @@
+import type { ArtifactSource } from "../ingest/types";
+import type { SystemModel } from "../snapshot/types";
+import type { RedactionEntry } from "./redaction";
+
+export const LEVELS = ["low", "medium", "high"] as const;
+
+export const MAX_TOTAL_CHARS = 25000;
+export const MAX_UNCONDENSED_CHARS = 10000;
+
+export type Level = (typeof LEVELS)[number];
+
+export type FrameworkMapping = {
+  tactics: string[];
+  techniques: string[];
+  cwes: string[];
+};
+
+export type Risk = {
+  risk: string;
+  why_it_matters: string;
+  likelihood: Level;
+  impact: Level;
+  mapping?: FrameworkMapping;
+};
+
+export type AttackStep = {
+  step: number;
+  action_high_level: string;
+  why_plausible: string;
+  defender_signals: string[];
+  mitigations: string[];
+  mapping?: FrameworkMapping;
+};
+
+export type AttackPath = {
+  name: string;
+  entry_point: string;
+  preconditions: string[];
+  steps: AttackStep[];
+  end_impact: string;
+  overall_risk: Level;
+};
+
+export type PriorityFix = {
+  fix: string;
+  breaks_chain_at: string;
+  effort: Level;
+  risk_reduction: Level;
+};
+
+export type SystemSummary = {
+  assets: string[];
+  components: string[];
+  trust_boundaries: string[];
+  assumptions: string[];
+};
+
+export type WhatIfAttribution = {
+  change: string;
+  delta_summary: string[];
+  updated_risks: string[];
+};
+
+export type WhatIfResult = WhatIfAttribution & {
+  by_change: WhatIfAttribution[];
+};
+
+export const SAFETY_REASONS = [
+  "code_block",
+  "shell_command",
+  "encoded_payload",
+  "exploit_module",
+  "injection_string"
+] as const;
+
+export type SafetyReason = (typeof SAFETY_REASONS)[number];
+
+export type SafetyFinding = {
+  path: string;
+  action: "rewritten" | "removed";
+  reasons: SafetyReason[];
+};
+
+export type SafetyReport = {
+  checked_strings: number;
+  findings: SafetyFinding[];
+};
+
+export type RejectedFrameworkId = {
+  path: string;
+  id: string;
+};
+
+export type MappingReport = {
+  checked_ids: number;
+  rejected: RejectedFrameworkId[];
+};
+
+export type AnalysisResponse = {
+  system_summary: SystemSummary;
+  top_risks: Risk[];
+  attack_paths: AttackPath[];
+  what_if: WhatIfResult;
+  priority_fixes: PriorityFix[];
+  safe_notes: string[];
+  safety_report?: SafetyReport;
+  mapping_report?: MappingReport;
+};
+
+export type AnalysisInput = {
+  project_id?: string;
+  prompt_template?: string;
+  project_name?: string;
+  system_text?: string;
+  system_model?: SystemModel | null;
+  diagram_summary?: string;
+  snippets?: {
+    config?: string;
+    logs?: string;
+    code?: string;
+  };
+  artifacts?: ArtifactSource[];
+  what_if?: string | string[] | null;
+};
+
+export type StreamedSectionKey = "system_summary" | "top_risks" | "what_if" | "priority_fixes";
+
+export type AnalysisErrorPayload = {
+  error: string;
+  details?: string;
+  raw_output?: string;
+  violations?: SchemaViolation[];
+};
+
+export type CondensedField = {
+  field: string;
+  original_chars: number;
+  condensed_chars: number;
+  budget: number;
+  chunks: number;
+};
+
+export type AnalysisStreamEvent =
+  | { type: "redacted"; entries: RedactionEntry[] }
+  | { type: "condensed"; fields: CondensedField[] }
+  | { type: "section"; key: StreamedSectionKey; value: AnalysisResponse[StreamedSectionKey] }
+  | { type: "attack_path"; index: number; value: AttackPath }
+  | { type: "complete"; analysis: AnalysisResponse; run_id?: string; cached?: boolean }
+  | ({ type: "error" } & AnalysisErrorPayload);
+
+export type SchemaViolation = {
+  path: string;
+  message: string;
+};
+
+export type ValidationResult = {
+  value: AnalysisResponse;
+  violations: SchemaViolation[];
+};
+
+const LEVEL_SYNONYMS: Record<string, Level> = {
+  none: "low",
+  minimal: "low",
+  minor: "low",
+  med: "medium",
+  moderate: "medium",
+  critical: "high",
+  severe: "high",
+  "very high": "high"
+};
+
+type Context = {
+  violations: SchemaViolation[];
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function record(ctx: Context, path: string, value: unknown) {
+  if (isRecord(value)) {
+    return value;
+  }
+  if (value !== undefined) {
+    ctx.violations.push({ path, message: "expected an object" });
+  }
+  return {};
+}
+
+function string(ctx: Context, path: string, value: unknown, required = false) {
+  if (typeof value === "string") {
+    return value.trim();
+  }
+  if (typeof value === "number" || typeof value === "boolean") {
+    return String(value);
+  }
+  if (value !== undefined || required) {
+    ctx.violations.push({ path, message: value === undefined ? "is required" : "expected a string" });
+  }
+  return "";
+}
+
+function stringList(ctx: Context, path: string, value: unknown) {
+  if (value === undefined) {
+    return [];
+  }
+  if (typeof value === "string") {
+    return value.trim() ? [value.trim()] : [];
+  }
+  if (!Array.isArray(value)) {
+    ctx.violations.push({ path, message: "expected an array of strings" });
+    return [];
+  }
+  return value
+    .map((item, index) => string(ctx, `${path}[${index}]`, item))
+    .filter((item) => item.length > 0);
+}
+
+function list<T>(ctx: Context, path: string, value: unknown, item: (entry: unknown, itemPath: string, index: number) => T) {
+  if (value === undefined) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    ctx.violations.push({ path, message: "expected an array" });
+    return [];
+  }
+  return value.map((entry, index) => item(entry, `${path}[${index}]`, index));
+}
+
+function count(ctx: Context, path: string, value: unknown) {
+  if (typeof value === "number" && Number.isInteger(value) && value >= 0) {
+    return value;
+  }
+  ctx.violations.push({ path, message: "expected a non-negative integer" });
+  return 0;
+}
+
+export function coerceLevel(value: unknown): Level | null {
+  if (typeof value !== "string") {
+    return null;
+  }
+  const normalized = value.trim().toLowerCase();
+  if ((LEVELS as readonly string[]).includes(normalized)) {
+    return normalized as Level;
+  }
+  return LEVEL_SYNONYMS[normalized] ?? null;
+}
+
+function level(ctx: Context, path: string, value: unknown): Level {
+  const coerced = coerceLevel(value);
+  if (coerced) {
+    return coerced;
+  }
+  if (value === undefined) {
+    return "medium";
+  }
+  ctx.violations.push({ path, message: `expected one of ${LEVELS.join("|")}, got ${JSON.stringify(value ?? null)}` });
+  return "medium";
+}
+
+function normalizeMapping(ctx: Context, path: string, value: unknown): FrameworkMapping {
+  const entry = record(ctx, path, value);
+  return {
+    tactics: stringList(ctx, `${path}.tactics`, entry.tactics),
+    techniques: stringList(ctx, `${path}.techniques`, entry.techniques),
+    cwes: stringList(ctx, `${path}.cwes`, entry.cwes)
+  };
+}
+
+function normalizeRisk(ctx: Context, value: unknown, path: string): Risk {
+  const entry = record(ctx, path, value);
+  return {
+    risk: string(ctx, `${path}.risk`, entry.risk, true),
+    why_it_matters: string(ctx, `${path}.why_it_matters`, entry.why_it_matters),
+    likelihood: level(ctx, `${path}.likelihood`, entry.likelihood),
+    impact: level(ctx, `${path}.impact`, entry.impact),
+    mapping: normalizeMapping(ctx, `${path}.mapping`, entry.mapping)
+  };
+}
+
+function normalizeStep(ctx: Context, value: unknown, path: string, index: number): AttackStep {
+  const entry = record(ctx, path, value);
+  const stepNumber = Number(entry.step);
+  return {
+    step: Number.isInteger(stepNumber) && stepNumber > 0 ? stepNumber : index + 1,
+    action_high_level: string(ctx, `${path}.action_high_level`, entry.action_high_level, true),
+    why_plausible: string(ctx, `${path}.why_plausible`, entry.why_plausible),
+    defender_signals: stringList(ctx, `${path}.defender_signals`, entry.defender_signals),
+    mitigations: stringList(ctx, `${path}.mitigations`, entry.mitigations),
+    mapping: normalizeMapping(ctx, `${path}.mapping`, entry.mapping)
+  };
+}
+
+function normalizePath(ctx: Context, value: unknown, path: string, index: number): AttackPath {
+  const entry = record(ctx, path, value);
+  return {
+    name: string(ctx, `${path}.name`, entry.name) || `Path ${index + 1}`,
+    entry_point: string(ctx, `${path}.entry_point`, entry.entry_point, true),
+    preconditions: stringList(ctx, `${path}.preconditions`, entry.preconditions),
+    steps: list(ctx, `${path}.steps`, entry.steps, (step, stepPath, stepIndex) =>
+      normalizeStep(ctx, step, stepPath, stepIndex)
+    ),
+    end_impact: string(ctx, `${path}.end_impact`, entry.end_impact),
+    overall_risk: level(ctx, `${path}.overall_risk`, entry.overall_risk)
+  };
+}
+
+function normalizeFix(ctx: Context, value: unknown, path: string): PriorityFix {
+  const entry = record(ctx, path, value);
+  return {
+    fix: string(ctx, `${path}.fix`, entry.fix, true),
+    breaks_chain_at: string(ctx, `${path}.breaks_chain_at`, entry.breaks_chain_at),
+    effort: level(ctx, `${path}.effort`, entry.effort),
+    risk_reduction: level(ctx, `${path}.risk_reduction`, entry.risk_reduction)
+  };
+}
+
+function normalizeAttribution(ctx: Context, value: unknown, path: string): WhatIfAttribution {
+  const entry = record(ctx, path, value);
+  return {
+    change: string(ctx, `${path}.change`, entry.change, true),
+    delta_summary: stringList(ctx, `${path}.delta_summary`, entry.delta_summary),
+    updated_risks: stringList(ctx, `${path}.updated_risks`, entry.updated_risks)
+  };
+}
+
+export function emptyAnalysis(): AnalysisResponse {
+  return {
+    system_summary: { assets: [], components: [], trust_boundaries: [], assumptions: [] },
+    top_risks: [],
+    attack_paths: [],
+    what_if: { change: "", delta_summary: [], updated_risks: [], by_change: [] },
+    priority_fixes: [],
+    safe_notes: []
+  };
+}
+
+export function normalizeAnalysis(raw: unknown): ValidationResult {
+  const ctx: Context = { violations: [] };
+
+  if (!isRecord(raw)) {
+    ctx.violations.push({ path: "$", message: "expected a JSON object at the top level" });
+    return { value: emptyAnalysis(), violations: ctx.violations };
+  }
+
+  const summary = record(ctx, "system_summary", raw.system_summary);
+  const whatIf = record(ctx, "what_if", raw.what_if);
+
+  if (raw.attack_paths === undefined) {
+    ctx.violations.push({ path: "attack_paths", message: "is required" });
+  }
+
+  const value: AnalysisResponse = {
+    system_summary: {
+      assets: stringList(ctx, "system_summary.assets", summary.assets),
+      components: stringList(ctx, "system_summary.components", summary.components),
+      trust_boundaries: stringList(ctx, "system_summary.trust_boundaries", summary.trust_boundaries),
+      assumptions: stringList(ctx, "system_summary.assumptions", summary.assumptions)
+    },
+    top_risks: list(ctx, "top_risks", raw.top_risks, (entry, path) => normalizeRisk(ctx, entry, path)),
+    attack_paths: list(ctx, "attack_paths", raw.attack_paths, (entry, path, index) =>
+      normalizePath(ctx, entry, path, index)
+    ),
+    what_if: {
+      change: string(ctx, "what_if.change", whatIf.change),
+      delta_summary: stringList(ctx, "what_if.delta_summary", whatIf.delta_summary),
+      updated_risks: stringList(ctx, "what_if.updated_risks", whatIf.updated_risks),
+      by_change: list(ctx, "what_if.by_change", whatIf.by_change, (entry, path) => normalizeAttribution(ctx, entry, path))
+    },
+    priority_fixes: list(ctx, "priority_fixes", raw.priority_fixes, (entry, path) => normalizeFix(ctx, entry, path)),
+    safe_notes: stringList(ctx, "safe_notes", raw.safe_notes)
+  };
+
+  return { value, violations: ctx.violations };
+}
+
+function normalizeSafetyReport(ctx: Context, value: unknown): SafetyReport {
+  const report = record(ctx, "safety_report", value);
+  return {
+    checked_strings: count(ctx, "safety_report.checked_strings", report.checked_strings),
+    findings: list(ctx, "safety_report.findings", report.findings, (entry, path) => {
+      const finding = record(ctx, path, entry);
+      const action = finding.action === "removed" ? "removed" : "rewritten";
+      if (finding.action !== action) {
+        ctx.violations.push({ path: `${path}.action`, message: "expected rewritten|removed" });
+      }
+      const reasons = stringList(ctx, `${path}.reasons`, finding.reasons);
+      const known = reasons.filter((reason): reason is SafetyReason =>
+        (SAFETY_REASONS as readonly string[]).includes(reason)
+      );
+      if (known.length < reasons.length) {
+        ctx.violations.push({ path: `${path}.reasons`, message: `expected values from ${SAFETY_REASONS.join("|")}` });
+      }
+      return { path: string(ctx, `${path}.path`, finding.path, true), action, reasons: known };
+    })
+  };
+}
+
+function normalizeMappingReport(ctx: Context, value: unknown): MappingReport {
+  const report = record(ctx, "mapping_report", value);
+  return {
+    checked_ids: count(ctx, "mapping_report.checked_ids", report.checked_ids),
+    rejected: list(ctx, "mapping_report.rejected", report.rejected, (entry, path) => {
+      const rejected = record(ctx, path, entry);
+      return {
+        path: string(ctx, `${path}.path`, rejected.path, true),
+        id: string(ctx, `${path}.id`, rejected.id, true)
+      };
+    })
+  };
+}
+
+export function normalizeReports(raw: unknown) {
+  const ctx: Context = { violations: [] };
+  const entry = isRecord(raw) ? raw : {};
+  const value: Pick<AnalysisResponse, "safety_report" | "mapping_report"> = {};
+  if (entry.safety_report !== undefined) {
+    value.safety_report = normalizeSafetyReport(ctx, entry.safety_report);
+  }
+  if (entry.mapping_report !== undefined) {
+    value.mapping_report = normalizeMappingReport(ctx, entry.mapping_report);
+  }
+  return { value, violations: ctx.violations };
+}
+
+export function normalizeSection<K extends keyof AnalysisResponse>(key: K, raw: unknown) {
+  const { value, violations } = normalizeAnalysis({ attack_paths: [], [key]: raw });
+  return { value: value[key], violations };
+}
+
+export function normalizeAttackPath(raw: unknown, index: number) {
+  const ctx: Context = { violations: [] };
+  return { value: normalizePath(ctx, raw, `attack_paths[${index}]`, index), violations: ctx.violations };
+}
+
+export function whatIfChanges(whatIf: AnalysisInput["what_if"]) {
+  const changes = Array.isArray(whatIf) ? whatIf : whatIf ? [whatIf] : [];
+  return changes.filter((change): change is string => typeof change === "string").map((change) => change.trim()).filter(Boolean);
+}
+
+// The structured model and what-if changes reach the prompt verbatim; only the free-text fields are condensed.
+export function uncondensedInputLength(input: AnalysisInput) {
+  return (
+    (input.system_model ? JSON.stringify(input.system_model).length : 0) +
+    whatIfChanges(input.what_if).reduce((sum, change) => sum + change.length, 0)
+  );
+}
+
+export function totalInputLength(input: AnalysisInput) {
+  return (
+    uncondensedInputLength(input) +
+    (input.system_text?.length ?? 0) +
+    (input.diagram_summary?.length ?? 0) +
+    (input.snippets?.config?.length ?? 0) +
+    (input.snippets?.logs?.length ?? 0) +
+    (input.snippets?.code?.length ?? 0) +
+    (input.artifacts ?? []).reduce((sum, artifact) => sum + artifact.content.length, 0)
+  );
+}
+
+export function formatWhatIf(whatIf: AnalysisInput["what_if"]) {
+  const changes = whatIfChanges(whatIf);
+  return changes.length > 0 ? changes.join(" + ") : null;
+}
+
+export function formatViolations(violations: SchemaViolation[]) {
+  return violations.map((violation) => `- ${violation.path}: ${violation.message}`).join("\n");
+}
@@ -0,0 +1,29 @@
+import type { AnalysisResponse, Level, Risk } from "./schema";
+
+export const LEVEL_WEIGHT: Record<Level, number> = {
+  low: 1,
+  medium: 2,
+  high: 3
+};
+
+export function riskLevel(risk: Pick<Risk, "likelihood" | "impact">): Level {
+  if (risk.likelihood === "high" && risk.impact === "high") {
+    return "high";
+  }
+  return risk.likelihood === "low" || risk.impact === "low" ? "low" : "medium";
+}
+
+export type RiskScore = {
+  attack_paths: number;
+  top_risks: number;
+  total: number;
+};
+
+export function scoreAnalysis(analysis: AnalysisResponse): RiskScore {
+  const attackPaths = analysis.attack_paths.reduce((sum, path) => sum + LEVEL_WEIGHT[path.overall_risk], 0);
+  const topRisks = analysis.top_risks.reduce(
+    (sum, risk) => sum + LEVEL_WEIGHT[risk.likelihood] * LEVEL_WEIGHT[risk.impact],
+    0
+  );
+  return { attack_paths: attackPaths, top_risks: topRisks, total: attackPaths + topRisks };
+}
@@ -0,0 +1,132 @@
+export type ScannedSection =
+  | { type: "section"; key: string; value: unknown }
+  | { type: "item"; key: string; index: number; value: unknown };
+
+function tryParse(text: string): { ok: true; value: unknown } | { ok: false } {
+  try {
+    return { ok: true, value: JSON.parse(text) };
+  } catch {
+    return { ok: false };
+  }
+}
+
+export function createSectionScanner(itemKeys: string[] = []) {
+  let text = "";
+  let position = 0;
+  let depth = 0;
+  let started = false;
+  let finished = false;
+  let inString = false;
+  let escaped = false;
+  let expectingKey = false;
+  let keyStart = -1;
+  let key: string | null = null;
+  let valueStart = -1;
+  let itemKey: string | null = null;
+  let itemStart = -1;
+  let itemIndex = 0;
+
+  const closeValue = (events: ScannedSection[]) => {
+    if (key !== null && valueStart >= 0) {
+      const parsed = tryParse(text.slice(valueStart, position).trim());
+      if (parsed.ok) {
+        events.push({ type: "section", key, value: parsed.value });
+      }
+    }
+    key = null;
+    valueStart = -1;
+  };
+
+  const closeItem = (events: ScannedSection[]) => {
+    const raw = text.slice(itemStart, position).trim();
+    if (itemKey !== null && raw.length > 0) {
+      const parsed = tryParse(raw);
+      if (parsed.ok) {
+        events.push({ type: "item", key: itemKey, index: itemIndex, value: parsed.value });
+      }
+      itemIndex += 1;
+    }
+  };
+
+  return {
+    push(chunk: string) {
+      const events: ScannedSection[] = [];
+      text += chunk;
+
+      for (; position < text.length && !finished; position++) {
+        const char = text[position];
+
+        if (!started) {
+          if (char === "{") {
+            started = true;
+            depth = 1;
+            expectingKey = true;
+          }
+          continue;
+        }
+
+        if (inString) {
+          if (escaped) {
+            escaped = false;
+          } else if (char === "\\") {
+            escaped = true;
+          } else if (char === '"') {
+            inString = false;
+            if (keyStart >= 0) {
+              key = JSON.parse(text.slice(keyStart, position + 1)) as string;
+              keyStart = -1;
+            }
+          }
+          continue;
+        }
+
+        switch (char) {
+          case '"':
+            inString = true;
+            if (depth === 1 && expectingKey) {
+              keyStart = position;
+              expectingKey = false;
+            }
+            break;
+          case ":":
+            if (depth === 1 && key !== null && valueStart < 0) {
+              valueStart = position + 1;
+            }
+            break;
+          case "{":
+          case "[":
+            if (depth === 1 && char === "[" && key !== null && itemKeys.includes(key)) {
+              itemKey = key;
+              itemStart = position + 1;
+              itemIndex = 0;
+            }
+            depth += 1;
+            break;
+          case ",":
+            if (depth === 1) {
+              closeValue(events);
+              expectingKey = true;
+            } else if (depth === 2 && itemKey !== null) {
+              closeItem(events);
+              itemStart = position + 1;
+            }
+            break;
+          case "}":
+          case "]":
+            if (depth === 2 && char === "]" && itemKey !== null) {
+              closeItem(events);
+              itemKey = null;
+            }
+            depth -= 1;
+            if (depth === 0) {
+              closeValue(events);
+              finished = true;
+            }
+            break;
+        }
+      }
+
+      return events;
+    }
+  };
+}
@@ -0,0 +1,93 @@
+import { applyFrameworkCatalog } from "../frameworks";
+import type { LlmProvider } from "../llm";
+import {
+  analysisMessages,
+  buildUserPrompt,
+  type AnalysisTrace,
+  prepareInput,
+  repairModelOutput,
+  sanitizeAnalysis,
+  validateModelOutput
+} from "./core";
+import {
+  normalizeAttackPath,
+  normalizeSection,
+  type AnalysisInput,
+  type AnalysisStreamEvent,
+  type StreamedSectionKey
+} from "./schema";
+import { applySafetyFilter } from "./safety";
+import { createSectionScanner, type ScannedSection } from "./sectionScanner";
+import type { PromptTemplate } from "./templates";
+
+const STREAMED_SECTIONS: StreamedSectionKey[] = ["system_summary", "top_risks", "what_if", "priority_fixes"];
+
+function toStreamEvent(scanned: ScannedSection): AnalysisStreamEvent | null {
+  if (scanned.type === "item" && scanned.key === "attack_paths") {
+    const { value } = normalizeAttackPath(scanned.value, scanned.index);
+    const path = `attack_paths[${scanned.index}]`;
+    const filtered = applySafetyFilter(value, path).value;
+    return { type: "attack_path", index: scanned.index, value: applyFrameworkCatalog(filtered, path).value };
+  }
+
+  if (scanned.type === "section" && (STREAMED_SECTIONS as string[]).includes(scanned.key)) {
+    const key = scanned.key as StreamedSectionKey;
+    const { value } = normalizeSection(key, scanned.value);
+    return { type: "section", key, value: applyFrameworkCatalog(applySafetyFilter(value, key).value, key).value };
+  }
+
+  return null;
+}
+
+export async function* streamAnalysis({
+  provider,
+  template,
+  input,
+  signal,
+  trace
+}: {
+  provider: LlmProvider;
+  template: PromptTemplate;
+  input: AnalysisInput;
+  signal?: AbortSignal;
+  trace?: AnalysisTrace;
+}): AsyncGenerator<AnalysisStreamEvent> {
+  const prepared = await prepareInput({ provider, template, input, signal });
+  if (prepared.redactions.length > 0) {
+    yield { type: "redacted", entries: prepared.redactions };
+  }
+  if (prepared.condensed.length > 0) {
+    yield { type: "condensed", fields: prepared.condensed };
+  }
+
+  const scanner = createSectionScanner(["attack_paths"]);
+  let text = "";
+
+  const chunks = provider.stream({
+    messages: analysisMessages(template, buildUserPrompt(prepared.input, prepared.ingest)),
+    ...template.generation,
+    signal
+  });
+
+  for await (const chunk of chunks) {
+    text += chunk;
+    if (trace) {
+      trace.initial_output = text;
+    }
+    for (const scanned of scanner.push(chunk)) {
+      const event = toStreamEvent(scanned);
+      if (event) {
+        yield event;
+      }
+    }
+  }
+
+  const initialText = text.trim();
+  const initial = validateModelOutput(initialText);
+  const { analysis } =
+    initial.violations.length === 0
+      ? { analysis: initial.value }
+      : await repairModelOutput({ provider, template, initialText, violations: initial.violations, signal, trace });
+
+  yield { type: "complete", analysis: sanitizeAnalysis(analysis) };
+}
@@ -0,0 +1,101 @@
+import { failedOutcome, type AuditRun } from "../audit";
+import { mapWithConcurrency } from "../concurrency";
+import type { LlmProvider } from "../llm";
+import { analysisErrorPayload, prepareInput, runPreparedAnalysis } from "./core";
+import { LEVEL_WEIGHT, scoreAnalysis, type RiskScore } from "./scoring";
+import type { PromptTemplate } from "./templates";
+import { whatIfChanges, type AnalysisInput, type AnalysisResponse, type PriorityFix } from "./schema";
+
+export const DEFAULT_SWEEP_CONCURRENCY = 2;
+export const MAX_SWEEP_FIXES = 8;
+
+export type SweepResult = {
+  fix: PriorityFix;
+  status: "ok" | "failed";
+  score?: RiskScore;
+  risk_delta: number;
+  risk_delta_percent: number;
+  delta_per_effort: number;
+  run_id?: string | null;
+  error?: string;
+};
+
+export type SweepReport = {
+  baseline_score: RiskScore;
+  results: SweepResult[];
+};
+
+export function fixAsWhatIf(fix: PriorityFix) {
+  return `The following fix is fully implemented: ${fix.fix}`;
+}
+
+export async function runFixSweep({
+  provider,
+  template,
+  input,
+  baseline,
+  concurrency = DEFAULT_SWEEP_CONCURRENCY,
+  signal,
+  startRun,
+  saveRun
+}: {
+  provider: LlmProvider;
+  template: PromptTemplate;
+  input: AnalysisInput;
+  baseline: AnalysisResponse;
+  concurrency?: number;
+  signal?: AbortSignal;
+  startRun?: (input: AnalysisInput) => AuditRun;
+  saveRun?: (input: AnalysisInput, analysis: AnalysisResponse) => Promise<string>;
+}): Promise<SweepReport> {
+  const baselineScore = scoreAnalysis(baseline);
+  const baseChanges = whatIfChanges(input.what_if);
+  const fixes = baseline.priority_fixes.slice(0, MAX_SWEEP_FIXES);
+  const prepared = await prepareInput({ provider, template, input, signal });
+
+  const results = await mapWithConcurrency(fixes, concurrency, async (fix): Promise<SweepResult> => {
+    const whatIf = [...baseChanges, fixAsWhatIf(fix)];
+    const runInput = { ...input, what_if: whatIf };
+    const run = startRun?.(runInput);
+    try {
+      const analysis = await runPreparedAnalysis({
+        provider: run?.provider ?? provider,
+        prepared: { ...prepared, input: { ...prepared.input, what_if: whatIf } },
+        signal,
+        trace: run?.trace
+      });
+      const runId = saveRun ? await saveRun(runInput, analysis) : null;
+      await run?.complete({ status: "ok", prepared, run_id: runId });
+      const score = scoreAnalysis(analysis);
+      const delta = baselineScore.total - score.total;
+      return {
+        fix,
+        status: "ok",
+        score,
+        risk_delta: delta,
+        risk_delta_percent: baselineScore.total > 0 ? Math.round((delta / baselineScore.total) * 100) : 0,
+        delta_per_effort: Math.round((delta / LEVEL_WEIGHT[fix.effort]) * 100) / 100,
+        run_id: runId
+      };
+    } catch (error) {
+      await run?.complete({ ...failedOutcome(error, signal), prepared });
+      return {
+        fix,
+        status: "failed",
+        risk_delta: 0,
+        risk_delta_percent: 0,
+        delta_per_effort: 0,
+        error: analysisErrorPayload(error).details
+      };
+    }
+  });
+
+  results.sort((a, b) => {
+    if (a.status !== b.status) {
+      return a.status === "ok" ? -1 : 1;
+    }
+    return b.risk_delta - a.risk_delta || LEVEL_WEIGHT[a.fix.effort] - LEVEL_WEIGHT[b.fix.effort];
+  });
+
+  return { baseline_score: baselineScore, results };
+}
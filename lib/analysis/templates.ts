@@ -0,0 +1,127 @@
+import { createHash } from "node:crypto";
+import { readdir, readFile } from "node:fs/promises";
+import path from "node:path";
+import type { GenerationOptions } from "../llm";
+
+export type PromptTemplate = {
+  id: string;
+  description: string;
+  system: string;
+  developer: string;
+  generation: GenerationOptions;
+  versions: { system: string; developer: string; template: string };
+};
+
+export type PromptTemplateSummary = Pick<PromptTemplate, "id" | "description" | "generation" | "versions">;
+
+type TemplateManifest = {
+  description?: string;
+  system?: string;
+  developer?: string;
+  generation?: Partial<GenerationOptions>;
+};
+
+export const DEFAULT_PROMPT_TEMPLATE = "defensive-v1";
+
+const DEFAULT_GENERATION: GenerationOptions = {
+  temperature: 0.3,
+  maxOutputTokens: 2048
+};
+
+export class PromptTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PromptTemplateError";
+  }
+}
+
+export function promptTemplatesDir(env: NodeJS.ProcessEnv = process.env) {
+  return env.PROMPT_TEMPLATES_DIR ?? path.join(process.cwd(), "prompts");
+}
+
+export function defaultPromptTemplateId(env: NodeJS.ProcessEnv = process.env) {
+  return env.PROMPT_TEMPLATE || DEFAULT_PROMPT_TEMPLATE;
+}
+
+function shortHash(value: string) {
+  return createHash("sha256").update(value).digest("hex").slice(0, 12);
+}
+
+async function readTemplateFile(directory: string, name: string) {
+  const filePath = path.resolve(directory, name);
+  if (path.dirname(filePath) !== directory) {
+    throw new PromptTemplateError(`Template file "${name}" must sit next to template.json.`);
+  }
+  return (await readFile(filePath, "utf8")).trim();
+}
+
+export async function loadPromptTemplate(id: string, dir = promptTemplatesDir()): Promise<PromptTemplate> {
+  if (!/^[a-z0-9][a-z0-9._-]*$/i.test(id)) {
+    throw new PromptTemplateError(`Invalid prompt template id "${id}".`);
+  }
+  const directory = path.resolve(dir, id);
+  let manifest: TemplateManifest;
+  try {
+    manifest = JSON.parse(await readFile(path.join(directory, "template.json"), "utf8")) as TemplateManifest;
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    if (code === "ENOENT" || code === "ENOTDIR") {
+      throw new PromptTemplateError(`Unknown prompt template "${id}".`);
+    }
+    throw error;
+  }
+
+  const system = await readTemplateFile(directory, manifest.system ?? "system.md");
+  const developer = await readTemplateFile(directory, manifest.developer ?? "developer.md");
+  const generation: GenerationOptions = {
+    temperature: manifest.generation?.temperature ?? DEFAULT_GENERATION.temperature,
+    maxOutputTokens: manifest.generation?.maxOutputTokens ?? DEFAULT_GENERATION.maxOutputTokens
+  };
+
+  return builtInPromptTemplate(id, manifest.description ?? "", system, developer, generation);
+}
+
+export function builtInPromptTemplate(
+  id: string,
+  description: string,
+  system: string,
+  developer: string,
+  generation: GenerationOptions
+): PromptTemplate {
+  return {
+    id,
+    description,
+    system,
+    developer,
+    generation,
+    versions: {
+      system: shortHash(system),
+      developer: shortHash(developer),
+      template: shortHash(JSON.stringify({ system, developer, generation }))
+    }
+  };
+}
+
+export async function listPromptTemplates(dir = promptTemplatesDir()): Promise<PromptTemplateSummary[]> {
+  let entries: string[];
+  try {
+    entries = await readdir(dir);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
+  const templates: PromptTemplateSummary[] = [];
+  for (const entry of entries.sort()) {
+    try {
+      const { id, description, generation, versions } = await loadPromptTemplate(entry, dir);
+      templates.push({ id, description, generation, versions });
+    } catch (error) {
+      if (!(error instanceof PromptTemplateError)) {
+        throw error;
+      }
+    }
+  }
+  return templates;
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { cookieOptions, currentUser, hasRole, type Role, type SessionUser } from "../auth";
+import { createSession, SESSION_COOKIE, sessionTtlMs } from "../auth/sessions";
+
+export async function requireRole(
+  request: Request,
+  role: Role
+): Promise<{ user: SessionUser; response?: never } | { user?: never; response: NextResponse }> {
+  const user = await currentUser(request);
+  if (!user) {
+    return { response: NextResponse.json({ error: "Sign in to continue." }, { status: 401 }) };
+  }
+  if (!hasRole(user, role)) {
+    return {
+      response: NextResponse.json({ error: `This action requires the ${role} role.`, role: user.role }, { status: 403 })
+    };
+  }
+  return { user };
+}
+
+export async function startSession(request: Request, response: NextResponse, userId: string) {
+  const { token } = await createSession(userId);
+  response.cookies.set(SESSION_COOKIE, token, cookieOptions(request, Math.floor(sessionTtlMs() / 1000)));
+  return response;
+}
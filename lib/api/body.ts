@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+
+function invalidBody(error: string) {
+  return { response: NextResponse.json({ error }, { status: 400 }) };
+}
+
+export async function readJsonBody<T>(
+  request: Request,
+  fallback?: T
+): Promise<{ body: T; response?: never } | { body?: never; response: NextResponse }> {
+  let parsed: unknown;
+  try {
+    const text = await request.text();
+    if (!text.trim() && fallback !== undefined) {
+      return { body: fallback };
+    }
+    parsed = JSON.parse(text);
+  } catch {
+    return invalidBody("Request body must be valid JSON.");
+  }
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    return invalidBody("Request body must be a JSON object.");
+  }
+  return { body: parsed as T };
+}
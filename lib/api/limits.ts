@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server";
+import type { SessionUser } from "../auth";
+import {
+  enforceLimits,
+  enforceSignInLimits,
+  getCounterStore,
+  getLimitConfig,
+  LimitExceededError,
+  recordSignInResult
+} from "../limits";
+import { settingsEnv } from "../settings/store";
+
+export function clientIdFor(request: Request, user?: SessionUser) {
+  if (user && user.id !== "anonymous") {
+    return `user:${user.id}`;
+  }
+  const forwarded = request.headers.get("x-forwarded-for")?.split(",").pop()?.trim();
+  if (process.env.TRUST_PROXY === "1" || process.env.TRUST_PROXY === "true") {
+    return forwarded || request.headers.get("x-real-ip")?.trim() || "local";
+  }
+  // Without a proxy, Next.js sets X-Forwarded-For to the connection address unless the client sent one.
+  return forwarded ? `peer:${forwarded}` : "local";
+}
+
+function limitResponse(error: unknown) {
+  if (error instanceof LimitExceededError) {
+    return NextResponse.json(
+      { error: error.message, details: `Retry in ${error.retryAfterSeconds} seconds.`, scope: error.scope },
+      { status: 429, headers: { "Retry-After": String(error.retryAfterSeconds) } }
+    );
+  }
+  throw error;
+}
+
+async function counterStore() {
+  return getCounterStore(getLimitConfig(await settingsEnv()));
+}
+
+export async function applyLimits(request: Request, user?: SessionUser, units = 1) {
+  try {
+    const config = getLimitConfig(await settingsEnv());
+    await enforceLimits(clientIdFor(request, user), config, getCounterStore(config), units);
+    return null;
+  } catch (error) {
+    return limitResponse(error);
+  }
+}
+
+export async function applySignInLimits(request: Request, account: string | null = null) {
+  try {
+    await enforceSignInLimits(clientIdFor(request), account, await counterStore());
+    return null;
+  } catch (error) {
+    return limitResponse(error);
+  }
+}
+
+export async function recordSignIn(request: Request, account: string, succeeded: boolean) {
+  await recordSignInResult(clientIdFor(request), account, succeeded, await counterStore());
+}
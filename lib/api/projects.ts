@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { ProjectNotFoundError, RunNotFoundError, TaskNotFoundError } from "../projects/store";
+import { TaskValidationError } from "../remediation";
+
+export function projectErrorResponse(error: unknown) {
+  if (error instanceof ProjectNotFoundError || error instanceof RunNotFoundError || error instanceof TaskNotFoundError) {
+    return NextResponse.json({ error: error.message }, { status: 404 });
+  }
+  if (error instanceof TaskValidationError) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+  return NextResponse.json(
+    {
+      error: "Project storage failed.",
+      details: error instanceof Error ? error.message : "Unknown error."
+    },
+    { status: 500 }
+  );
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { createMeteredProvider, getLimitConfig, recordTokenUsage } from "../limits";
+import { getProvider, ProviderConfigError, type LlmProvider } from "../llm";
+import { settingsEnv } from "../settings/store";
+
+export async function resolveProvider(): Promise<
+  { provider: LlmProvider; response?: never } | { provider?: never; response: NextResponse }
+> {
+  const env = await settingsEnv();
+  try {
+    const config = getLimitConfig(env);
+    return { provider: createMeteredProvider(getProvider(env), (tokens) => recordTokenUsage(tokens, config)) };
+  } catch (configError) {
+    if (configError instanceof ProviderConfigError) {
+      return { response: NextResponse.json({ error: configError.message }, { status: 500 }) };
+    }
+    throw configError;
+  }
+}
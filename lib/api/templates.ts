@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import {
+  defaultPromptTemplateId,
+  loadPromptTemplate,
+  PromptTemplateError,
+  type PromptTemplate
+} from "../analysis/templates";
+import { settingsEnv } from "../settings/store";
+
+export async function resolvePromptTemplate(
+  requested: string | undefined
+): Promise<{ template: PromptTemplate; response?: never } | { template?: never; response: NextResponse }> {
+  try {
+    return { template: await loadPromptTemplate(requested || defaultPromptTemplateId(await settingsEnv())) };
+  } catch (templateError) {
+    if (templateError instanceof PromptTemplateError) {
+      return { response: NextResponse.json({ error: templateError.message }, { status: 400 }) };
+    }
+    throw templateError;
+  }
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { UserConflictError, UserNotFoundError } from "../auth/users";
+
+export function userErrorResponse(error: unknown) {
+  if (error instanceof UserNotFoundError) {
+    return NextResponse.json({ error: error.message }, { status: 404 });
+  }
+  if (error instanceof UserConflictError) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+  return NextResponse.json(
+    {
+      error: "User storage failed.",
+      details: error instanceof Error ? error.message : "Unknown error."
+    },
+    { status: 500 }
+  );
+}
@@ -0,0 +1,86 @@
+import { randomUUID } from "node:crypto";
+import { createAnalysisTrace, type AnalysisTrace } from "../analysis/core";
+import type { RedactionEntry } from "../analysis/redaction";
+import { whatIfChanges, type AnalysisInput, type CondensedField } from "../analysis/schema";
+import type { PromptTemplate } from "../analysis/templates";
+import type { SessionUser } from "../auth/types";
+import { hashAnalysisInput } from "../cache/store";
+import { createMeteredProvider } from "../limits";
+import type { LlmProvider } from "../llm";
+import { appendAuditEntry } from "./store";
+import type { AuditEntry, AuditRoute, AuditStatus } from "./types";
+
+export * from "./types";
+export { listAuditEntries, toJsonl } from "./store";
+
+export type AuditOutcome = {
+  status: AuditStatus;
+  prepared?: { redactions: RedactionEntry[]; condensed: CondensedField[] };
+  run_id?: string | null;
+  error?: string;
+};
+
+export type AuditRun = {
+  provider: LlmProvider;
+  trace: AnalysisTrace;
+  complete: (outcome: AuditOutcome) => Promise<AuditEntry>;
+};
+
+export function failedOutcome(error: unknown, signal?: AbortSignal): AuditOutcome {
+  return {
+    status: signal?.aborted ? "cancelled" : "error",
+    error: error instanceof Error ? error.message : "Unknown error."
+  };
+}
+
+export function startAuditRun({
+  provider,
+  template,
+  route,
+  user,
+  input
+}: {
+  provider: LlmProvider;
+  template: PromptTemplate;
+  route: AuditRoute;
+  user: SessionUser | null;
+  input: AnalysisInput;
+}): AuditRun {
+  const startedAt = Date.now();
+  const trace = createAnalysisTrace();
+  const usage = { calls: 0, prompt_tokens: 0, output_tokens: 0 };
+  const metered = createMeteredProvider(provider, async (_tokens, call) => {
+    usage.calls += 1;
+    usage.prompt_tokens += call.prompt_tokens;
+    usage.output_tokens += call.output_tokens;
+  });
+
+  const complete = async (outcome: AuditOutcome) => {
+    const entry: AuditEntry = {
+      id: randomUUID(),
+      created_at: new Date(startedAt).toISOString(),
+      route,
+      status: outcome.status,
+      user: user && { id: user.id, username: user.username, role: user.role },
+      project_id: input.project_id ?? null,
+      run_id: outcome.run_id ?? null,
+      input_hash: hashAnalysisInput(input),
+      what_if: whatIfChanges(input.what_if),
+      prompt_template: template.id,
+      prompt_versions: template.versions,
+      provider: provider.name,
+      model: provider.model,
+      parameters: template.generation,
+      outputs: { initial: trace.initial_output, repair: trace.repair_output },
+      redactions: outcome.prepared?.redactions ?? [],
+      condensed: outcome.prepared?.condensed ?? [],
+      latency_ms: Date.now() - startedAt,
+      usage: { ...usage },
+      ...(outcome.error ? { error: outcome.error } : {})
+    };
+    await appendAuditEntry(entry);
+    return entry;
+  };
+
+  return { provider: metered, trace, complete };
+}
@@ -0,0 +1,56 @@
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import path from "node:path";
+import { dataPath, withFileLock } from "../store/files";
+import type { AuditEntry, AuditFilter } from "./types";
+
+export const DEFAULT_AUDIT_LIMIT = 200;
+
+function auditPath() {
+  return dataPath("audit.jsonl");
+}
+
+export async function appendAuditEntry(entry: AuditEntry) {
+  const filePath = auditPath();
+  await withFileLock(filePath, async () => {
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await appendFile(filePath, `${JSON.stringify(entry)}\n`, "utf8");
+  });
+}
+
+async function readAuditEntries() {
+  let text: string;
+  try {
+    text = await readFile(auditPath(), "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
+  return text
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line) as AuditEntry);
+}
+
+function matches(entry: AuditEntry, filter: AuditFilter) {
+  const user = filter.user?.toLowerCase();
+  return (
+    (!user || entry.user?.username.toLowerCase() === user || entry.user?.id === filter.user) &&
+    (!filter.project_id || entry.project_id === filter.project_id) &&
+    (!filter.route || entry.route === filter.route) &&
+    (!filter.status || entry.status === filter.status) &&
+    (!filter.from || entry.created_at >= filter.from) &&
+    (!filter.to || entry.created_at <= filter.to)
+  );
+}
+
+export async function listAuditEntries(filter: AuditFilter = {}) {
+  const limit = filter.limit ?? DEFAULT_AUDIT_LIMIT;
+  const entries = (await readAuditEntries()).filter((entry) => matches(entry, filter)).reverse();
+  return limit > 0 ? entries.slice(0, limit) : entries;
+}
+
+export function toJsonl(entries: AuditEntry[]) {
+  return entries.map((entry) => JSON.stringify(entry)).join("\n") + (entries.length > 0 ? "\n" : "");
+}
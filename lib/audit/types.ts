@@ -0,0 +1,41 @@
+import type { RedactionEntry } from "../analysis/redaction";
+import type { CondensedField } from "../analysis/schema";
+import type { Role } from "../auth/types";
+import type { GenerationOptions } from "../llm/provider";
+
+export type AuditRoute = "analyze" | "stream" | "sweep" | "verify" | "followup" | "detections";
+
+export type AuditStatus = "ok" | "cached" | "error" | "cancelled";
+
+export type AuditEntry = {
+  id: string;
+  created_at: string;
+  route: AuditRoute;
+  status: AuditStatus;
+  user: { id: string; username: string; role: Role } | null;
+  project_id: string | null;
+  run_id: string | null;
+  input_hash: string;
+  what_if: string[];
+  prompt_template: string;
+  prompt_versions: { system: string; developer: string; template: string };
+  provider: string;
+  model: string;
+  parameters: GenerationOptions;
+  outputs: { initial: string | null; repair: string | null };
+  redactions: RedactionEntry[];
+  condensed: CondensedField[];
+  latency_ms: number;
+  usage: { calls: number; prompt_tokens: number; output_tokens: number };
+  error?: string;
+};
+
+export type AuditFilter = {
+  user?: string;
+  project_id?: string;
+  route?: string;
+  status?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+};
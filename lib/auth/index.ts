@@ -0,0 +1,85 @@
+import { findSessionUserId, SESSION_COOKIE } from "./sessions";
+import { getOidcConfig } from "./oidc";
+import type { AuthMode, AuthStatus, SessionUser } from "./types";
+import { createLocalUser, getUser, listUsers, toSessionUser, UserConflictError } from "./users";
+
+export * from "./types";
+
+const ANONYMOUS_ADMIN: SessionUser = {
+  id: "anonymous",
+  username: "anonymous",
+  display_name: "Anonymous (auth disabled)",
+  role: "admin",
+  provider: "local",
+  created_at: new Date(0).toISOString()
+};
+
+export function getAuthMode(env: NodeJS.ProcessEnv = process.env): AuthMode {
+  const mode = env.AUTH_MODE?.toLowerCase();
+  return mode === "oidc" || mode === "off" ? mode : "local";
+}
+
+export function readCookie(request: Request, name: string) {
+  for (const part of request.headers.get("cookie")?.split(";") ?? []) {
+    const [key, ...rest] = part.trim().split("=");
+    if (key === name) {
+      return decodeURIComponent(rest.join("="));
+    }
+  }
+  return null;
+}
+
+export function cookieOptions(request: Request, maxAgeSeconds?: number) {
+  return {
+    httpOnly: true,
+    sameSite: "lax" as const,
+    secure: new URL(request.url).protocol === "https:",
+    path: "/",
+    ...(maxAgeSeconds === undefined ? {} : { maxAge: maxAgeSeconds })
+  };
+}
+
+export async function ensureSeedAdmin(env: NodeJS.ProcessEnv = process.env) {
+  if (!env.ADMIN_USERNAME || !env.ADMIN_PASSWORD) {
+    return;
+  }
+  try {
+    await createLocalUser({
+      username: env.ADMIN_USERNAME,
+      password: env.ADMIN_PASSWORD,
+      role: "admin",
+      onlyIfEmpty: true
+    });
+  } catch (error) {
+    if (!(error instanceof UserConflictError)) {
+      throw error;
+    }
+  }
+}
+
+export async function currentUser(request: Request): Promise<SessionUser | null> {
+  if (getAuthMode() === "off") {
+    return ANONYMOUS_ADMIN;
+  }
+  const token = readCookie(request, SESSION_COOKIE);
+  const userId = token ? await findSessionUserId(token) : null;
+  const user = userId ? await getUser(userId) : null;
+  return user ? toSessionUser(user) : null;
+}
+
+export async function needsSetup() {
+  if (getAuthMode() !== "local") {
+    return false;
+  }
+  await ensureSeedAdmin();
+  return (await listUsers()).length === 0;
+}
+
+export async function authStatus(request: Request): Promise<AuthStatus> {
+  return {
+    auth_mode: getAuthMode(),
+    oidc_enabled: getAuthMode() !== "off" && getOidcConfig() !== null,
+    needs_setup: await needsSetup(),
+    user: await currentUser(request)
+  };
+}
@@ -0,0 +1,77 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { isRole, type Role } from "./types";
+
+export type MockIdpUser = {
+  login: string;
+  role: Role;
+};
+
+type MockToken = {
+  type: "code" | "access";
+  login: string;
+  client_id: string;
+  redirect_uri?: string;
+  exp: number;
+};
+
+const DEFAULT_USERS = "alice:admin,bob:analyst,carol:viewer";
+
+export function mockIdpEnabled(env: NodeJS.ProcessEnv = process.env) {
+  return env.MOCK_IDP === "1" || env.MOCK_IDP === "true";
+}
+
+export function mockIdpUsers(env: NodeJS.ProcessEnv = process.env): MockIdpUser[] {
+  return (env.MOCK_IDP_USERS ?? DEFAULT_USERS)
+    .split(",")
+    .map((entry) => entry.trim().split(":"))
+    .filter(([login, role]) => login && isRole(role))
+    .map(([login, role]) => ({ login, role: role as Role }));
+}
+
+export function mockIssuer(request: Request) {
+  return new URL("/api/mock-idp", request.url).toString();
+}
+
+function secret(env: NodeJS.ProcessEnv = process.env) {
+  return env.MOCK_IDP_SECRET ?? "chainbreak-mock-idp";
+}
+
+function sign(payload: string) {
+  return createHmac("sha256", secret()).update(payload).digest("base64url");
+}
+
+export function issueMockToken(token: Omit<MockToken, "exp">, ttlSeconds: number) {
+  const payload = Buffer.from(JSON.stringify({ ...token, exp: Date.now() + ttlSeconds * 1000 })).toString("base64url");
+  return `${payload}.${sign(payload)}`;
+}
+
+export function verifyMockToken(value: string, type: MockToken["type"]) {
+  const [payload, signature] = value.split(".");
+  if (!payload || !signature) {
+    return null;
+  }
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+  const token = JSON.parse(Buffer.from(payload, "base64url").toString("utf8")) as MockToken;
+  return token.type === type && token.exp > Date.now() ? token : null;
+}
+
+export function mockClaims(user: MockIdpUser) {
+  return {
+    sub: `mock-${user.login}`,
+    preferred_username: user.login,
+    name: user.login.charAt(0).toUpperCase() + user.login.slice(1),
+    email: `${user.login}@example.test`,
+    roles: [user.role]
+  };
+}
+
+export function mockIdpDisabledResponse() {
+  return Response.json(
+    { error: "The mock identity provider is disabled. Set MOCK_IDP=1 to enable it." },
+    { status: 404 }
+  );
+}
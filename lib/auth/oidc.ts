@@ -0,0 +1,100 @@
+import { ROLES, type Role } from "./types";
+
+export const OIDC_STATE_COOKIE = "chainbreak_oidc_state";
+
+export type OidcConfig = {
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  redirectUri?: string;
+  scope: string;
+  roleClaim: string;
+};
+
+type DiscoveryDocument = {
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint: string;
+};
+
+export type OidcClaims = Record<string, unknown> & { sub?: string };
+
+export class OidcError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OidcError";
+  }
+}
+
+export function getOidcConfig(env: NodeJS.ProcessEnv = process.env): OidcConfig | null {
+  if (!env.OIDC_ISSUER || !env.OIDC_CLIENT_ID) {
+    return null;
+  }
+  return {
+    issuer: env.OIDC_ISSUER.replace(/\/+$/, ""),
+    clientId: env.OIDC_CLIENT_ID,
+    clientSecret: env.OIDC_CLIENT_SECRET ?? "",
+    redirectUri: env.OIDC_REDIRECT_URI,
+    scope: env.OIDC_SCOPE ?? "openid profile email",
+    roleClaim: env.OIDC_ROLE_CLAIM ?? "roles"
+  };
+}
+
+export function redirectUriFor(config: OidcConfig, request: Request) {
+  return config.redirectUri ?? new URL("/api/auth/oidc/callback", request.url).toString();
+}
+
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, { ...init, cache: "no-store" });
+  if (!response.ok) {
+    throw new OidcError(`Identity provider request to ${new URL(url).pathname} failed with ${response.status}.`);
+  }
+  return (await response.json()) as T;
+}
+
+export async function discover(config: OidcConfig) {
+  const document = await fetchJson<Partial<DiscoveryDocument>>(`${config.issuer}/.well-known/openid-configuration`);
+  if (!document.authorization_endpoint || !document.token_endpoint || !document.userinfo_endpoint) {
+    throw new OidcError("Identity provider discovery document is missing required endpoints.");
+  }
+  return document as DiscoveryDocument;
+}
+
+export async function authorizationUrl(config: OidcConfig, redirectUri: string, state: string) {
+  const { authorization_endpoint } = await discover(config);
+  const url = new URL(authorization_endpoint);
+  url.searchParams.set("response_type", "code");
+  url.searchParams.set("client_id", config.clientId);
+  url.searchParams.set("redirect_uri", redirectUri);
+  url.searchParams.set("scope", config.scope);
+  url.searchParams.set("state", state);
+  return url.toString();
+}
+
+export async function exchangeCode(config: OidcConfig, redirectUri: string, code: string) {
+  const endpoints = await discover(config);
+  const token = await fetchJson<{ access_token?: string }>(endpoints.token_endpoint, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/x-www-form-urlencoded",
+      Authorization: `Basic ${Buffer.from(`${config.clientId}:${config.clientSecret}`).toString("base64")}`
+    },
+    body: new URLSearchParams({ grant_type: "authorization_code", code, redirect_uri: redirectUri })
+  });
+  if (!token.access_token) {
+    throw new OidcError("Identity provider did not return an access token.");
+  }
+  const claims = await fetchJson<OidcClaims>(endpoints.userinfo_endpoint, {
+    headers: { Authorization: `Bearer ${token.access_token}` }
+  });
+  if (!claims.sub) {
+    throw new OidcError("Identity provider user info is missing the subject claim.");
+  }
+  return claims as OidcClaims & { sub: string };
+}
+
+export function roleFromClaims(claims: OidcClaims, roleClaim: string): Role | null {
+  const value = claims[roleClaim];
+  const values = (Array.isArray(value) ? value : [value]).map((item) => String(item).toLowerCase());
+  return [...ROLES].reverse().find((role) => values.includes(role)) ?? null;
+}
@@ -0,0 +1,59 @@
+import { createHash, randomBytes } from "node:crypto";
+import { dataPath, readJsonFile, updateJsonFile } from "../store/files";
+
+export const SESSION_COOKIE = "chainbreak_session";
+
+type Session = {
+  token_hash: string;
+  user_id: string;
+  expires_at: string;
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function sessionsPath() {
+  return dataPath("sessions.json");
+}
+
+function hashToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function sessionTtlMs(env: NodeJS.ProcessEnv = process.env) {
+  const hours = Number(env.SESSION_TTL_HOURS ?? 12);
+  return (Number.isFinite(hours) && hours > 0 ? hours : 12) * HOUR_MS;
+}
+
+export async function createSession(userId: string) {
+  const token = randomBytes(32).toString("base64url");
+  const now = Date.now();
+  const session: Session = {
+    token_hash: hashToken(token),
+    user_id: userId,
+    expires_at: new Date(now + sessionTtlMs()).toISOString()
+  };
+  await updateJsonFile<Session[]>(sessionsPath(), [], (sessions) => [
+    ...sessions.filter((existing) => Date.parse(existing.expires_at) > now),
+    session
+  ]);
+  return { token, expiresAt: session.expires_at };
+}
+
+export async function findSessionUserId(token: string) {
+  const tokenHash = hashToken(token);
+  const session = (await readJsonFile<Session[]>(sessionsPath(), [])).find((item) => item.token_hash === tokenHash);
+  return session && Date.parse(session.expires_at) > Date.now() ? session.user_id : null;
+}
+
+export async function deleteSession(token: string) {
+  const tokenHash = hashToken(token);
+  await updateJsonFile<Session[]>(sessionsPath(), [], (sessions) =>
+    sessions.filter((session) => session.token_hash !== tokenHash)
+  );
+}
+
+export async function deleteUserSessions(userId: string) {
+  await updateJsonFile<Session[]>(sessionsPath(), [], (sessions) =>
+    sessions.filter((session) => session.user_id !== userId)
+  );
+}
@@ -0,0 +1,33 @@
+export const ROLES = ["viewer", "analyst", "admin"] as const;
+
+export type Role = (typeof ROLES)[number];
+
+export type AuthMode = "local" | "oidc" | "off";
+
+export type User = {
+  id: string;
+  username: string;
+  display_name: string;
+  role: Role;
+  provider: "local" | "oidc";
+  subject?: string;
+  password_hash?: string;
+  created_at: string;
+};
+
+export type SessionUser = Omit<User, "password_hash" | "subject">;
+
+export type AuthStatus = {
+  auth_mode: AuthMode;
+  oidc_enabled: boolean;
+  needs_setup: boolean;
+  user: SessionUser | null;
+};
+
+export function hasRole(user: Pick<User, "role">, required: Role) {
+  return ROLES.indexOf(user.role) >= ROLES.indexOf(required);
+}
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === "string" && (ROLES as readonly string[]).includes(value);
+}
@@ -0,0 +1,156 @@
+import { randomUUID } from "node:crypto";
+import { dataPath, readJsonFile, updateJsonFile } from "../store/files";
+import { hashPassword, verifyPassword } from "./passwords";
+import type { Role, SessionUser, User } from "./types";
+
+export const MIN_PASSWORD_LENGTH = 10;
+
+export class UserNotFoundError extends Error {
+  constructor(id: string) {
+    super(`User "${id}" was not found.`);
+    this.name = "UserNotFoundError";
+  }
+}
+
+export class UserConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UserConflictError";
+  }
+}
+
+function usersPath() {
+  return dataPath("users.json");
+}
+
+export function toSessionUser({ password_hash: _hash, subject: _subject, ...user }: User): SessionUser {
+  return user;
+}
+
+function normalizeUsername(username: string) {
+  return username.trim().toLowerCase();
+}
+
+export async function listUsers() {
+  return readJsonFile<User[]>(usersPath(), []);
+}
+
+export async function getUser(id: string) {
+  return (await listUsers()).find((user) => user.id === id) ?? null;
+}
+
+export async function verifyLocalLogin(username: string, password: string) {
+  const user = (await listUsers()).find(
+    (candidate) => candidate.provider === "local" && candidate.username === normalizeUsername(username)
+  );
+  return user && (await verifyPassword(password, user.password_hash)) ? user : null;
+}
+
+export async function createLocalUser({
+  username,
+  password,
+  role,
+  displayName,
+  onlyIfEmpty = false
+}: {
+  username: string;
+  password: string;
+  role: Role;
+  displayName?: string;
+  onlyIfEmpty?: boolean;
+}) {
+  const normalized = normalizeUsername(username);
+  if (!/^[a-z0-9._@-]{2,64}$/.test(normalized)) {
+    throw new UserConflictError("Usernames use 2-64 letters, digits, dots, dashes, underscores or @.");
+  }
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new UserConflictError(`Passwords need at least ${MIN_PASSWORD_LENGTH} characters.`);
+  }
+
+  const user: User = {
+    id: randomUUID(),
+    username: normalized,
+    display_name: displayName?.trim() || normalized,
+    role,
+    provider: "local",
+    password_hash: await hashPassword(password),
+    created_at: new Date().toISOString()
+  };
+
+  await updateJsonFile<User[]>(usersPath(), [], (users) => {
+    if (onlyIfEmpty && users.length > 0) {
+      throw new UserConflictError("Setup has already been completed.");
+    }
+    if (users.some((existing) => existing.provider === "local" && existing.username === normalized)) {
+      throw new UserConflictError(`User "${normalized}" already exists.`);
+    }
+    return [...users, user];
+  });
+  return user;
+}
+
+export async function upsertOidcUser({
+  subject,
+  username,
+  displayName,
+  role
+}: {
+  subject: string;
+  username: string;
+  displayName: string;
+  role: Role | null;
+}) {
+  let result: User | undefined;
+  await updateJsonFile<User[]>(usersPath(), [], async (users) => {
+    const existing = users.find((user) => user.provider === "oidc" && user.subject === subject);
+    if (existing) {
+      result = { ...existing, username, display_name: displayName, role: role ?? existing.role };
+      return users.map((user) => (user.id === existing.id ? (result as User) : user));
+    }
+    result = {
+      id: randomUUID(),
+      username,
+      display_name: displayName,
+      role: role ?? defaultOidcRole(),
+      provider: "oidc",
+      subject,
+      created_at: new Date().toISOString()
+    };
+    return [...users, result];
+  });
+  return result as User;
+}
+
+export function defaultOidcRole(env: NodeJS.ProcessEnv = process.env): Role {
+  const role = env.OIDC_DEFAULT_ROLE;
+  return role === "analyst" || role === "admin" ? role : "viewer";
+}
+
+export async function updateUserRole(id: string, role: Role) {
+  let updated: User | undefined;
+  await updateJsonFile<User[]>(usersPath(), [], (users) => {
+    const existing = users.find((user) => user.id === id);
+    if (!existing) {
+      throw new UserNotFoundError(id);
+    }
+    if (existing.role === "admin" && role !== "admin" && users.filter((user) => user.role === "admin").length === 1) {
+      throw new UserConflictError("At least one admin must remain.");
+    }
+    updated = { ...existing, role };
+    return users.map((user) => (user.id === id ? (updated as User) : user));
+  });
+  return updated as User;
+}
+
+export async function deleteUser(id: string) {
+  await updateJsonFile<User[]>(usersPath(), [], (users) => {
+    const existing = users.find((user) => user.id === id);
+    if (!existing) {
+      throw new UserNotFoundError(id);
+    }
+    if (existing.role === "admin" && users.filter((user) => user.role === "admin").length === 1) {
+      throw new UserConflictError("At least one admin must remain.");
+    }
+    return users.filter((user) => user.id !== id);
+  });
+}
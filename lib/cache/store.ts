@@ -0,0 +1,95 @@
+import { createHash } from "node:crypto";
+import path from "node:path";
+import type { PromptTemplate } from "../analysis/templates";
+import { whatIfChanges, type AnalysisInput, type AnalysisResponse } from "../analysis/schema";
+import type { LlmProvider } from "../llm";
+import { systemModelText } from "../snapshot";
+import { dataPath, readJsonFile, writeJsonFile } from "../store/files";
+
+export type CachedAnalysis = {
+  key: string;
+  created_at: string;
+  provider: string;
+  model: string;
+  analysis: AnalysisResponse;
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function sha256(value: string) {
+  return createHash("sha256").update(value).digest("hex");
+}
+
+export function cacheTtlMs(env: NodeJS.ProcessEnv = process.env) {
+  const hours = Number(env.ANALYSIS_CACHE_TTL_HOURS ?? 24);
+  return Number.isFinite(hours) && hours > 0 ? hours * HOUR_MS : 0;
+}
+
+function normalizeInput(input: AnalysisInput) {
+  const systemModel = systemModelText(input.system_model);
+  return {
+    system_text: input.system_text?.trim() ?? "",
+    diagram_summary: input.diagram_summary?.trim() ?? "",
+    snippets: {
+      config: input.snippets?.config?.trim() ?? "",
+      logs: input.snippets?.logs?.trim() ?? "",
+      code: input.snippets?.code?.trim() ?? ""
+    },
+    artifacts: (input.artifacts ?? []).map((artifact) => ({ name: artifact.name, content: artifact.content.trim() })),
+    what_if: whatIfChanges(input.what_if),
+    ...(systemModel ? { system_model: systemModel } : {})
+  };
+}
+
+export function hashAnalysisInput(input: AnalysisInput) {
+  return sha256(JSON.stringify(normalizeInput(input)));
+}
+
+export function analysisCacheKey(
+  provider: Pick<LlmProvider, "name" | "model">,
+  template: Pick<PromptTemplate, "id" | "versions">,
+  input: AnalysisInput
+) {
+  return sha256(
+    JSON.stringify({
+      provider: provider.name,
+      model: provider.model,
+      prompt: `${template.id}@${template.versions.template}`,
+      input: normalizeInput(input)
+    })
+  );
+}
+
+function cachePath(key: string) {
+  return dataPath("cache", `${path.basename(key)}.json`);
+}
+
+export async function readCachedAnalysis(key: string, ttlMs = cacheTtlMs()) {
+  if (ttlMs === 0) {
+    return null;
+  }
+  const cached = await readJsonFile<CachedAnalysis | null>(cachePath(key), null);
+  if (!cached || Date.now() - Date.parse(cached.created_at) > ttlMs) {
+    return null;
+  }
+  return cached;
+}
+
+export async function writeCachedAnalysis(
+  key: string,
+  provider: Pick<LlmProvider, "name" | "model">,
+  analysis: AnalysisResponse,
+  ttlMs = cacheTtlMs()
+) {
+  if (ttlMs === 0) {
+    return;
+  }
+  const entry: CachedAnalysis = {
+    key,
+    created_at: new Date().toISOString(),
+    provider: provider.name,
+    model: provider.model,
+    analysis
+  };
+  await writeJsonFile(cachePath(key), entry);
+}
@@ -0,0 +1,131 @@
+import { matchByText } from "../analysis/diff";
+import { LEVELS, type AnalysisResponse, type Level, type SchemaViolation } from "../analysis/schema";
+import { LEVEL_WEIGHT, riskLevel } from "../analysis/scoring";
+import {
+  BASELINE_FORMAT,
+  BASELINE_VERSION,
+  type Baseline,
+  type Finding,
+  type FindingKind,
+  type GateFinding,
+  type GateResult
+} from "./types";
+
+const KIND_LABELS: Record<FindingKind, string> = {
+  attack_path: "Attack path",
+  top_risk: "Top risk"
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export function collectFindings(analysis: AnalysisResponse): Finding[] {
+  return [
+    ...analysis.attack_paths.map((path): Finding => ({ kind: "attack_path", name: path.name, level: path.overall_risk })),
+    ...analysis.top_risks.map((risk): Finding => ({ kind: "top_risk", name: risk.risk, level: riskLevel(risk) }))
+  ];
+}
+
+export function createBaseline(analysis: AnalysisResponse): Baseline {
+  return {
+    format: BASELINE_FORMAT,
+    version: BASELINE_VERSION,
+    generated_at: new Date().toISOString(),
+    findings: collectFindings(analysis)
+  };
+}
+
+export function parseBaseline(text: string): { value: Baseline | null; violations: SchemaViolation[] } {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { value: null, violations: [{ path: "$", message: "invalid JSON" }] };
+  }
+  if (!isRecord(raw) || raw.format !== BASELINE_FORMAT) {
+    return { value: null, violations: [{ path: "format", message: `expected "${BASELINE_FORMAT}"` }] };
+  }
+  if (raw.version !== BASELINE_VERSION) {
+    return { value: null, violations: [{ path: "version", message: `expected ${BASELINE_VERSION}` }] };
+  }
+  if (!Array.isArray(raw.findings)) {
+    return { value: null, violations: [{ path: "findings", message: "expected a list" }] };
+  }
+  const violations: SchemaViolation[] = [];
+  const findings = raw.findings.filter((finding, index): finding is Finding => {
+    const valid =
+      isRecord(finding) &&
+      (finding.kind === "attack_path" || finding.kind === "top_risk") &&
+      typeof finding.name === "string" &&
+      LEVELS.includes(finding.level as Level);
+    if (!valid) {
+      violations.push({ path: `findings[${index}]`, message: "expected { kind, name, level }" });
+    }
+    return valid;
+  });
+  return {
+    value: {
+      format: BASELINE_FORMAT,
+      version: BASELINE_VERSION,
+      generated_at: typeof raw.generated_at === "string" ? raw.generated_at : "",
+      findings
+    },
+    violations
+  };
+}
+
+export function evaluateGate(
+  analysis: AnalysisResponse,
+  threshold: Level | null,
+  baseline: Baseline | null = null
+): GateResult {
+  const current = collectFindings(analysis);
+  const known = new Map<Finding, Level>();
+  for (const kind of ["attack_path", "top_risk"] as const) {
+    const { pairs } = matchByText(
+      (baseline?.findings ?? []).filter((finding) => finding.kind === kind),
+      current.filter((finding) => finding.kind === kind),
+      (finding) => finding.name
+    );
+    for (const [before, after] of pairs) {
+      known.set(after, before.level);
+    }
+  }
+
+  const failing: GateFinding[] = [];
+  const accepted: GateFinding[] = [];
+  if (threshold) {
+    for (const finding of current.filter((item) => LEVEL_WEIGHT[item.level] >= LEVEL_WEIGHT[threshold])) {
+      const baselineLevel = known.get(finding) ?? null;
+      const entry = { ...finding, baseline_level: baselineLevel };
+      if (baselineLevel && LEVEL_WEIGHT[finding.level] <= LEVEL_WEIGHT[baselineLevel]) {
+        accepted.push(entry);
+      } else {
+        failing.push(entry);
+      }
+    }
+  }
+
+  return { threshold, failing, accepted, passed: failing.length === 0 };
+}
+
+export function formatGateReport(result: GateResult) {
+  if (!result.threshold) {
+    return "Risk gate disabled.";
+  }
+  const describe = (finding: GateFinding) =>
+    `  - ${KIND_LABELS[finding.kind]} "${finding.name}" (${finding.level}` +
+    `${finding.baseline_level ? `, was ${finding.baseline_level} in the baseline` : ""})`;
+  const lines = [
+    result.passed
+      ? `Risk gate passed: no new findings at or above ${result.threshold}.`
+      : `Risk gate failed: ${result.failing.length} new finding(s) at or above ${result.threshold}.`,
+    ...result.failing.map(describe)
+  ];
+  if (result.accepted.length > 0) {
+    lines.push(`${result.accepted.length} finding(s) at or above ${result.threshold} are accepted by the baseline:`);
+    lines.push(...result.accepted.map(describe));
+  }
+  return lines.join("\n");
+}
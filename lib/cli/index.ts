@@ -0,0 +1,60 @@
+import YAML from "yaml";
+import { formatViolations, type AnalysisInput } from "../analysis/schema";
+import { parseSnapshot, SNAPSHOT_FORMAT } from "../snapshot";
+import { importThreatDragon } from "../threatdragon";
+
+export * from "./types";
+export { collectFindings, createBaseline, evaluateGate, formatGateReport, parseBaseline } from "./gate";
+
+export class CliInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CliInputError";
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export function parseInputDocument(text: string, name: string): { input: AnalysisInput; warnings: string[] } {
+  if (!text.trim()) {
+    throw new CliInputError(`${name} is empty.`);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = YAML.parse(text);
+  } catch {
+    parsed = null;
+  }
+
+  if (!isRecord(parsed)) {
+    return { input: { system_text: text }, warnings: [] };
+  }
+
+  if (parsed.format === SNAPSHOT_FORMAT) {
+    const { value, violations } = parseSnapshot(text);
+    if (!value || violations.length > 0) {
+      throw new CliInputError(`${name} is not a valid system model snapshot:\n${formatViolations(violations)}`);
+    }
+    return { input: { system_model: value }, warnings: [] };
+  }
+
+  if (isRecord(parsed.detail) && Array.isArray(parsed.detail.diagrams)) {
+    const { value, violations } = importThreatDragon(parsed);
+    if (!value) {
+      throw new CliInputError(`${name} is not a valid Threat Dragon model:\n${formatViolations(violations)}`);
+    }
+    return { input: value.input, warnings: value.warnings };
+  }
+
+  if ("system_text" in parsed || "system_model" in parsed) {
+    return { input: parsed as AnalysisInput, warnings: [] };
+  }
+
+  if (text.trimStart().startsWith("{")) {
+    throw new CliInputError(`${name} is not an analysis input, a system model snapshot or a Threat Dragon model.`);
+  }
+  return { input: { system_text: text }, warnings: [] };
+}
@@ -0,0 +1,34 @@
+import type { Level } from "../analysis/schema";
+
+export const BASELINE_FORMAT = "chainbreak.baseline";
+export const BASELINE_VERSION = 1;
+
+export const OUTPUT_FORMATS = ["json", "markdown"] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+export type FindingKind = "attack_path" | "top_risk";
+
+export type Finding = {
+  kind: FindingKind;
+  name: string;
+  level: Level;
+};
+
+export type Baseline = {
+  format: typeof BASELINE_FORMAT;
+  version: typeof BASELINE_VERSION;
+  generated_at: string;
+  findings: Finding[];
+};
+
+export type GateFinding = Finding & {
+  baseline_level: Level | null;
+};
+
+export type GateResult = {
+  threshold: Level | null;
+  failing: GateFinding[];
+  accepted: GateFinding[];
+  passed: boolean;
+};
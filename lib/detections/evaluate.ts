@@ -0,0 +1,16 @@
+import { matchLogs } from "./match";
+import { renderQueries } from "./query";
+import { parseSigma } from "./sigma";
+import type { SigmaEvaluation } from "./types";
+
+export function evaluateSigma(sigma: string, logs?: string): SigmaEvaluation {
+  const { rule, validation } = parseSigma(sigma);
+  if (!rule) {
+    return { validation, queries: [], matches: null };
+  }
+  return {
+    validation,
+    queries: renderQueries(rule),
+    matches: logs?.trim() ? matchLogs(rule, logs) : null
+  };
+}
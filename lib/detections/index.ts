@@ -0,0 +1,146 @@
+import { randomUUID } from "node:crypto";
+import YAML from "yaml";
+import { DETECTION_PROMPT } from "../analysis/prompts";
+import { redactAnalysisInput } from "../analysis/redaction";
+import type { AnalysisResponse, AttackPath, AttackStep } from "../analysis/schema";
+import { builtInPromptTemplate } from "../analysis/templates";
+import { mapWithConcurrency } from "../concurrency";
+import { findTactic } from "../frameworks";
+import type { ChatMessage, LlmProvider } from "../llm";
+import { evaluateSigma } from "./evaluate";
+import type { DetectionDraft } from "./types";
+
+export * from "./types";
+
+const DETECTION_OPTIONS = {
+  temperature: 0.2,
+  maxOutputTokens: 2048
+};
+
+export const DETECTION_TEMPLATE = builtInPromptTemplate(
+  "detections",
+  "Draft Sigma rules from the defender signals of attack-path steps.",
+  DETECTION_PROMPT,
+  "",
+  DETECTION_OPTIONS
+);
+
+const DETECTION_CONCURRENCY = 2;
+const LOG_SAMPLE_LINES = 20;
+
+export class DetectionTargetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DetectionTargetError";
+  }
+}
+
+export function detectionTargets(analysis: AnalysisResponse, pathIndex: number, step?: number) {
+  const path = analysis.attack_paths[pathIndex];
+  if (!path) {
+    throw new DetectionTargetError(`Attack path ${pathIndex} does not exist.`);
+  }
+  const steps = path.steps.filter(
+    (candidate) => (step === undefined || candidate.step === step) && candidate.defender_signals.length > 0
+  );
+  if (steps.length === 0) {
+    const target = step === undefined ? `"${path.name}"` : `Step ${step} of "${path.name}"`;
+    throw new DetectionTargetError(`${target} has no defender signals.`);
+  }
+  return { path, steps };
+}
+
+export function attackTags(step: AttackStep) {
+  return [
+    ...(step.mapping?.tactics ?? []).map((id) => findTactic(id)?.name.toLowerCase().replace(/[^a-z]+/g, "_") ?? id),
+    ...(step.mapping?.techniques ?? [])
+  ].map((tag) => `attack.${tag.toLowerCase()}`);
+}
+
+function logSample(logs: string | undefined) {
+  const lines = (logs ?? "")
+    .split("\n")
+    .filter((line) => line.trim())
+    .slice(0, LOG_SAMPLE_LINES)
+    .join("\n");
+  return lines ? redactAnalysisInput({ system_text: "", snippets: { logs: lines } }).input.snippets?.logs : "";
+}
+
+function detectionMessages(path: AttackPath, step: AttackStep, logs: string | undefined): ChatMessage[] {
+  const tags = attackTags(step);
+  return [
+    { role: "system", text: DETECTION_PROMPT },
+    {
+      role: "user",
+      text:
+        `attack_path:\n${path.name}\n\n` +
+        `step:\n${step.step}. ${step.action_high_level}\n\n` +
+        `attack_tags:\n${tags.join("\n") || "NONE"}\n\n` +
+        `defender_signals:\n${step.defender_signals.map((signal) => `- ${signal}`).join("\n")}\n\n` +
+        `log_sample:\n${logSample(logs) || "NONE"}`
+    }
+  ];
+}
+
+export function splitSigmaDocuments(text: string) {
+  return text
+    .replace(/^\s*```(?:ya?ml)?\s*$/gim, "")
+    .split(/^---\s*$/m)
+    .map((document) => document.trim())
+    .filter(Boolean);
+}
+
+function finalizeRule(text: string, tags: string[]) {
+  const document = YAML.parseDocument(text);
+  const rule: unknown = document.errors.length === 0 ? document.toJS() : null;
+  if (typeof rule !== "object" || rule === null || Array.isArray(rule)) {
+    return text;
+  }
+  const fields = rule as Record<string, unknown>;
+  const existing = Array.isArray(fields.tags) ? fields.tags.map(String) : [];
+  const merged = [...new Set([...existing, ...tags])];
+  return YAML.stringify({
+    title: fields.title,
+    id: fields.id ?? randomUUID(),
+    status: fields.status ?? "experimental",
+    ...fields,
+    ...(merged.length > 0 ? { tags: merged } : {})
+  });
+}
+
+export async function generateDetections({
+  provider,
+  analysis,
+  pathIndex,
+  step,
+  logs,
+  signal
+}: {
+  provider: LlmProvider;
+  analysis: AnalysisResponse;
+  pathIndex: number;
+  step?: number;
+  logs?: string;
+  signal?: AbortSignal;
+}): Promise<DetectionDraft[]> {
+  const { path, steps } = detectionTargets(analysis, pathIndex, step);
+  const drafts = await mapWithConcurrency(steps, DETECTION_CONCURRENCY, async (target) => {
+    const text = await provider.generate({
+      messages: detectionMessages(path, target, logs),
+      ...DETECTION_OPTIONS,
+      signal
+    });
+    const tags = attackTags(target);
+    return splitSigmaDocuments(text).map((document) => {
+      const sigma = finalizeRule(document, tags);
+      return {
+        path: path.name,
+        step: target.step,
+        signals: target.defender_signals,
+        sigma,
+        ...evaluateSigma(sigma, logs)
+      };
+    });
+  });
+  return drafts.flat();
+}
@@ -0,0 +1,197 @@
+import { conditionList, parseCondition, parseFieldSpec, patternMatches, searchIdentifiers } from "./sigma";
+import type { ConditionNode, LogMatchResult, SigmaRule } from "./types";
+
+type LogEvent = {
+  raw: string;
+  fields: Map<string, string>;
+  json: boolean;
+};
+
+const SUPPORTED_MODIFIERS = ["contains", "startswith", "endswith", "all", "re", "i", "m", "s", "cidr", "exists"];
+const NUMERIC_MODIFIERS = ["gt", "gte", "lt", "lte"];
+
+function flatten(value: unknown, prefix: string, fields: Map<string, string>) {
+  if (typeof value === "object" && value !== null && !Array.isArray(value)) {
+    for (const [key, item] of Object.entries(value)) {
+      flatten(item, prefix ? `${prefix}.${key}` : key, fields);
+    }
+    return;
+  }
+  fields.set(prefix.toLowerCase(), Array.isArray(value) ? value.join(" ") : String(value));
+}
+
+export function parseLogLine(raw: string): LogEvent {
+  const fields = new Map<string, string>();
+  const trimmed = raw.trim();
+  if (trimmed.startsWith("{")) {
+    try {
+      flatten(JSON.parse(trimmed), "", fields);
+      return { raw, fields, json: true };
+    } catch {
+      // Not JSON after all; fall back to key=value pairs.
+    }
+  }
+  for (const match of raw.matchAll(/([A-Za-z_][\w.-]*)=("(?:[^"\\]|\\.)*"|\S+)/g)) {
+    fields.set(match[1].toLowerCase(), match[2].replace(/^"|"$/g, ""));
+  }
+  return { raw, fields, json: false };
+}
+
+function wildcardRegex(value: string, flags: string) {
+  const source = value
+    .split(/(\\[*?\\]|\*|\?)/)
+    .map((part) => {
+      if (part === "*") {
+        return ".*";
+      }
+      if (part === "?") {
+        return ".";
+      }
+      const literal = part.startsWith("\\") && part.length === 2 ? part.slice(1) : part;
+      return literal.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+  return new RegExp(`^${source}$`, flags);
+}
+
+function ipv4ToNumber(ip: string) {
+  const octets = ip.split(".").map(Number);
+  if (octets.length !== 4 || octets.some((octet) => !Number.isInteger(octet) || octet < 0 || octet > 255)) {
+    return null;
+  }
+  return octets.reduce((total, octet) => total * 256 + octet, 0);
+}
+
+function inCidr(value: string, cidr: string) {
+  const [network, bits] = cidr.split("/");
+  const address = ipv4ToNumber(value.trim());
+  const base = ipv4ToNumber(network);
+  const size = Number(bits ?? 32);
+  if (address === null || base === null || !Number.isInteger(size) || size < 0 || size > 32) {
+    return false;
+  }
+  const block = 2 ** (32 - size);
+  return Math.floor(address / block) === Math.floor(base / block);
+}
+
+function matchValue(actual: string, expected: unknown, modifiers: string[], unstructured: boolean) {
+  if (expected === null) {
+    return actual === "";
+  }
+  const value = String(expected);
+  if (modifiers.includes("re")) {
+    const flags = ["i", "m", "s"].filter((flag) => modifiers.includes(flag)).join("");
+    return new RegExp(value, flags).test(actual);
+  }
+  if (modifiers.includes("cidr")) {
+    return unstructured
+      ? (actual.match(/\b\d{1,3}(?:\.\d{1,3}){3}\b/g) ?? []).some((ip) => inCidr(ip, value))
+      : inCidr(actual, value);
+  }
+  const numeric = modifiers.find((modifier) => NUMERIC_MODIFIERS.includes(modifier));
+  if (numeric) {
+    const left = Number(actual);
+    const right = Number(value);
+    if (Number.isNaN(left) || Number.isNaN(right)) {
+      return false;
+    }
+    switch (numeric) {
+      case "gt":
+        return left > right;
+      case "gte":
+        return left >= right;
+      case "lt":
+        return left < right;
+      default:
+        return left <= right;
+    }
+  }
+  const contains = modifiers.includes("contains") || unstructured;
+  const pattern = `${contains || modifiers.includes("endswith") ? "*" : ""}${value}${
+    contains || modifiers.includes("startswith") ? "*" : ""
+  }`;
+  return wildcardRegex(pattern, modifiers.includes("cased") ? "" : "i").test(actual);
+}
+
+function matchFieldMap(map: Record<string, unknown>, event: LogEvent, unsupported: Set<string>) {
+  return Object.entries(map).every(([key, expected]) => {
+    const { field, modifiers } = parseFieldSpec(key);
+    const skipped = modifiers.filter(
+      (modifier) => !SUPPORTED_MODIFIERS.includes(modifier) && !NUMERIC_MODIFIERS.includes(modifier)
+    );
+    if (skipped.length > 0) {
+      skipped.forEach((modifier) => unsupported.add(modifier));
+      return false;
+    }
+    const value = field ? event.fields.get(field.toLowerCase()) : undefined;
+    if (modifiers.includes("exists")) {
+      return (value !== undefined) === (expected !== false);
+    }
+    const raw = value === undefined && !event.json;
+    const actual = raw ? event.raw : value;
+    if (actual === undefined) {
+      return expected === null;
+    }
+    const values = Array.isArray(expected) ? expected : [expected];
+    const test = (item: unknown) => matchValue(actual, item, modifiers, raw);
+    return modifiers.includes("all") ? values.every(test) : values.some(test);
+  });
+}
+
+function matchSearch(search: unknown, event: LogEvent, unsupported: Set<string>) {
+  if (Array.isArray(search)) {
+    return search.some((item) =>
+      typeof item === "object" && item !== null
+        ? matchFieldMap(item as Record<string, unknown>, event, unsupported)
+        : matchValue(event.raw, item, ["contains"], true)
+    );
+  }
+  if (typeof search === "object" && search !== null) {
+    return matchFieldMap(search as Record<string, unknown>, event, unsupported);
+  }
+  return false;
+}
+
+function evaluate(node: ConditionNode, results: Map<string, boolean>): boolean {
+  switch (node.type) {
+    case "and":
+      return evaluate(node.left, results) && evaluate(node.right, results);
+    case "or":
+      return evaluate(node.left, results) || evaluate(node.right, results);
+    case "not":
+      return !evaluate(node.operand, results);
+    case "of": {
+      const matched = [...results.entries()].filter(([name]) => patternMatches(node.pattern, name));
+      return node.quantifier === "all"
+        ? matched.length > 0 && matched.every(([, value]) => value)
+        : matched.some(([, value]) => value);
+    }
+    case "ref":
+      return results.get(node.name) ?? false;
+  }
+}
+
+export function matchLogs(rule: SigmaRule, logs: string): LogMatchResult {
+  const lines = logs.split("\n");
+  const conditions = conditionList(rule.detection).map(parseCondition);
+  const identifiers = searchIdentifiers(rule.detection);
+  const unsupported = new Set<string>();
+  const matched: LogMatchResult["matched"] = [];
+  let total = 0;
+
+  lines.forEach((line, index) => {
+    if (!line.trim()) {
+      return;
+    }
+    total += 1;
+    const event = parseLogLine(line);
+    const results = new Map(
+      identifiers.map((identifier) => [identifier, matchSearch(rule.detection[identifier], event, unsupported)])
+    );
+    if (conditions.some((condition) => evaluate(condition, results))) {
+      matched.push({ line: index + 1, text: line });
+    }
+  });
+
+  return { total, matched, unsupported: [...unsupported] };
+}
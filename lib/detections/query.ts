@@ -0,0 +1,161 @@
+import { conditionList, parseCondition, parseFieldSpec, patternMatches, searchIdentifiers } from "./sigma";
+import { QUERY_DIALECTS, type ConditionNode, type QueryDialect, type QueryTemplate, type SigmaRule } from "./types";
+
+const KEYWORD_FIELD = "message";
+
+type Dialect = {
+  and: string;
+  or: string;
+  not: string;
+  keyword: (value: string) => string;
+  field: (field: string, value: unknown, modifiers: string[]) => string;
+  wrap: (where: string) => string;
+};
+
+function luceneEscape(value: string) {
+  return value.replace(/([+\-!(){}[\]^"~:\\/ ]|&&|\|\|)/g, "\\$1");
+}
+
+function sqlString(value: string) {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+function likePattern(value: string, modifiers: string[]) {
+  const escaped = value.replace(/[%_]/g, "\\$&").replace(/\*/g, "%").replace(/\?/g, "_");
+  const prefix = modifiers.includes("contains") || modifiers.includes("endswith") ? "%" : "";
+  const suffix = modifiers.includes("contains") || modifiers.includes("startswith") ? "%" : "";
+  return `${prefix}${escaped}${suffix}`;
+}
+
+const NUMERIC_OPERATORS: Record<string, string> = { gt: ">", gte: ">=", lt: "<", lte: "<=" };
+
+const DIALECTS: Record<QueryDialect, Dialect> = {
+  lucene: {
+    and: "AND",
+    or: "OR",
+    not: "NOT",
+    keyword: (value) => `"${value.replace(/(["\\])/g, "\\$1")}"`,
+    field: (field, value, modifiers) => {
+      if (value === null) {
+        return `NOT _exists_:${field}`;
+      }
+      const text = String(value);
+      if (modifiers.includes("exists")) {
+        return value === false ? `NOT _exists_:${field}` : `_exists_:${field}`;
+      }
+      if (modifiers.includes("re")) {
+        return `${field}:/${text.replace(/\//g, "\\/")}/`;
+      }
+      const numeric = modifiers.find((modifier) => NUMERIC_OPERATORS[modifier]);
+      if (numeric) {
+        return `${field}:${NUMERIC_OPERATORS[numeric]}${text}`;
+      }
+      const prefix = modifiers.includes("contains") || modifiers.includes("endswith") ? "*" : "";
+      const suffix = modifiers.includes("contains") || modifiers.includes("startswith") ? "*" : "";
+      const escaped = luceneEscape(text).replace(/\\\*/g, "*").replace(/\\\?/g, "?");
+      return `${field}:${prefix}${escaped}${suffix}`;
+    },
+    wrap: (where) => where
+  },
+  sql: {
+    and: "AND",
+    or: "OR",
+    not: "NOT",
+    keyword: (value) => `${KEYWORD_FIELD} ILIKE ${sqlString(likePattern(value, ["contains"]))}`,
+    field: (field, value, modifiers) => {
+      const column = `"${field.replace(/"/g, '""')}"`;
+      if (value === null) {
+        return `${column} IS NULL`;
+      }
+      const text = String(value);
+      if (modifiers.includes("exists")) {
+        return value === false ? `${column} IS NULL` : `${column} IS NOT NULL`;
+      }
+      if (modifiers.includes("re")) {
+        return `${column} ~ ${sqlString(text)}`;
+      }
+      const numeric = modifiers.find((modifier) => NUMERIC_OPERATORS[modifier]);
+      if (numeric) {
+        return `${column} ${NUMERIC_OPERATORS[numeric]} ${Number(text)}`;
+      }
+      return `${column} ILIKE ${sqlString(likePattern(text, modifiers))}`;
+    },
+    wrap: (where) => `SELECT * FROM logs WHERE ${where}`
+  }
+};
+
+function joinAll(parts: string[], operator: string) {
+  if (parts.length === 0) {
+    return "";
+  }
+  return parts.length === 1 ? parts[0] : `(${parts.join(` ${operator} `)})`;
+}
+
+function renderFieldMap(map: Record<string, unknown>, dialect: Dialect) {
+  return joinAll(
+    Object.entries(map).map(([key, expected]) => {
+      const { field, modifiers } = parseFieldSpec(key);
+      const values = Array.isArray(expected) ? expected : [expected];
+      const clauses = values.map((value) =>
+        field ? dialect.field(field, value, modifiers) : dialect.keyword(String(value))
+      );
+      return joinAll(clauses, modifiers.includes("all") ? dialect.and : dialect.or);
+    }),
+    dialect.and
+  );
+}
+
+function renderSearch(search: unknown, dialect: Dialect) {
+  if (Array.isArray(search)) {
+    return joinAll(
+      search.map((item) =>
+        typeof item === "object" && item !== null
+          ? renderFieldMap(item as Record<string, unknown>, dialect)
+          : dialect.keyword(String(item))
+      ),
+      dialect.or
+    );
+  }
+  return typeof search === "object" && search !== null
+    ? renderFieldMap(search as Record<string, unknown>, dialect)
+    : "";
+}
+
+function renderCondition(node: ConditionNode, searches: Map<string, string>, dialect: Dialect): string {
+  const render = (child: ConditionNode) => renderCondition(child, searches, dialect);
+  switch (node.type) {
+    case "and":
+      return `(${render(node.left)} ${dialect.and} ${render(node.right)})`;
+    case "or":
+      return `(${render(node.left)} ${dialect.or} ${render(node.right)})`;
+    case "not":
+      return `${dialect.not} ${render(node.operand)}`;
+    case "of": {
+      const parts = [...searches.entries()].filter(([name]) => patternMatches(node.pattern, name));
+      return joinAll(
+        parts.map(([, query]) => query),
+        node.quantifier === "all" ? dialect.and : dialect.or
+      );
+    }
+    case "ref":
+      return searches.get(node.name) ?? "";
+  }
+}
+
+export function renderQuery(rule: SigmaRule, dialect: QueryDialect) {
+  const syntax = DIALECTS[dialect];
+  const searches = new Map(
+    searchIdentifiers(rule.detection).map((identifier) => [
+      identifier,
+      renderSearch(rule.detection[identifier], syntax)
+    ])
+  );
+  const conditions = conditionList(rule.detection).map((condition) =>
+    renderCondition(parseCondition(condition), searches, syntax)
+  );
+  return syntax.wrap(joinAll(conditions, syntax.or));
+}
+
+export function renderQueries(rule: SigmaRule): QueryTemplate[] {
+  return QUERY_DIALECTS.map((dialect) => ({ dialect, query: renderQuery(rule, dialect) }));
+}
@@ -0,0 +1,362 @@
+import YAML from "yaml";
+import type { ConditionNode, FieldSpec, SigmaIssue, SigmaRule, SigmaValidation } from "./types";
+
+export const SIGMA_STATUSES = ["stable", "test", "experimental", "deprecated", "unsupported"];
+export const SIGMA_LEVELS = ["informational", "low", "medium", "high", "critical"];
+export const SIGMA_MODIFIERS = [
+  "contains",
+  "startswith",
+  "endswith",
+  "all",
+  "base64",
+  "base64offset",
+  "re",
+  "i",
+  "m",
+  "s",
+  "cidr",
+  "windash",
+  "exists",
+  "expand",
+  "fieldref",
+  "gt",
+  "gte",
+  "lt",
+  "lte",
+  "cased",
+  "utf16le",
+  "utf16be",
+  "utf16",
+  "wide"
+];
+
+const TOP_LEVEL_KEYS = [
+  "title",
+  "id",
+  "name",
+  "related",
+  "taxonomy",
+  "status",
+  "description",
+  "license",
+  "author",
+  "references",
+  "date",
+  "modified",
+  "tags",
+  "logsource",
+  "detection",
+  "fields",
+  "falsepositives",
+  "level",
+  "scope"
+];
+const LOGSOURCE_KEYS = ["category", "product", "service"];
+const RESERVED_DETECTION_KEYS = ["condition", "timeframe"];
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DATE = /^\d{4}[-/]\d{2}[-/]\d{2}$/;
+const TAG = /^[a-z0-9_-]+\.[a-z0-9._-]+$/;
+const MAX_TITLE_LENGTH = 256;
+
+export class SigmaConditionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SigmaConditionError";
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isScalar(value: unknown) {
+  return value === null || ["string", "number", "boolean"].includes(typeof value);
+}
+
+export function parseFieldSpec(key: string): FieldSpec {
+  const [field, ...modifiers] = key.split("|");
+  return { field, modifiers };
+}
+
+export function searchIdentifiers(detection: Record<string, unknown>) {
+  return Object.keys(detection).filter((key) => !RESERVED_DETECTION_KEYS.includes(key));
+}
+
+export function conditionList(detection: Record<string, unknown>) {
+  const condition = detection.condition;
+  return (Array.isArray(condition) ? condition : [condition]).filter(
+    (entry): entry is string => typeof entry === "string"
+  );
+}
+
+function tokenize(condition: string) {
+  return condition.match(/\(|\)|[^\s()]+/g) ?? [];
+}
+
+export function parseCondition(condition: string): ConditionNode {
+  if (condition.includes("|")) {
+    throw new SigmaConditionError("aggregation expressions (|) are not supported; use a correlation rule instead");
+  }
+  const tokens = tokenize(condition);
+  let position = 0;
+  const peek = () => tokens[position]?.toLowerCase();
+  const next = () => tokens[position++];
+
+  const parseOr = (): ConditionNode => {
+    let left = parseAnd();
+    while (peek() === "or") {
+      next();
+      left = { type: "or", left, right: parseAnd() };
+    }
+    return left;
+  };
+
+  const parseAnd = (): ConditionNode => {
+    let left = parseNot();
+    while (peek() === "and") {
+      next();
+      left = { type: "and", left, right: parseNot() };
+    }
+    return left;
+  };
+
+  const parseNot = (): ConditionNode => {
+    if (peek() === "not") {
+      next();
+      return { type: "not", operand: parseNot() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): ConditionNode => {
+    const token = next();
+    if (token === undefined) {
+      throw new SigmaConditionError("condition ends unexpectedly");
+    }
+    if (token === "(") {
+      const inner = parseOr();
+      if (next() !== ")") {
+        throw new SigmaConditionError("missing closing parenthesis");
+      }
+      return inner;
+    }
+    const lowered = token.toLowerCase();
+    if ((lowered === "1" || lowered === "any" || lowered === "all") && peek() === "of") {
+      next();
+      const pattern = next();
+      if (pattern === undefined || pattern === "(" || pattern === ")") {
+        throw new SigmaConditionError(`"${token} of" needs a search identifier pattern or "them"`);
+      }
+      return { type: "of", quantifier: lowered === "all" ? "all" : "one", pattern };
+    }
+    if (["and", "or", "not", "of", ")"].includes(lowered)) {
+      throw new SigmaConditionError(`unexpected "${token}"`);
+    }
+    return { type: "ref", name: token };
+  };
+
+  const node = parseOr();
+  if (position < tokens.length) {
+    throw new SigmaConditionError(`unexpected "${tokens[position]}"`);
+  }
+  return node;
+}
+
+export function patternMatches(pattern: string, name: string) {
+  if (pattern === "them") {
+    return true;
+  }
+  const source = pattern.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*");
+  return new RegExp(`^${source}$`).test(name);
+}
+
+export function conditionReferences(node: ConditionNode): string[] {
+  switch (node.type) {
+    case "and":
+    case "or":
+      return [...conditionReferences(node.left), ...conditionReferences(node.right)];
+    case "not":
+      return conditionReferences(node.operand);
+    case "of":
+      return [node.pattern];
+    case "ref":
+      return [node.name];
+  }
+}
+
+function validateSearch(value: unknown, path: string, errors: SigmaIssue[]) {
+  const validateMap = (map: Record<string, unknown>, mapPath: string) => {
+    if (Object.keys(map).length === 0) {
+      errors.push({ path: mapPath, message: "must not be empty" });
+    }
+    for (const [key, fieldValue] of Object.entries(map)) {
+      const { field, modifiers } = parseFieldSpec(key);
+      const keyPath = `${mapPath}.${key}`;
+      if (!field && modifiers.length === 0) {
+        errors.push({ path: keyPath, message: "field name is empty" });
+      }
+      for (const modifier of modifiers) {
+        if (!SIGMA_MODIFIERS.includes(modifier)) {
+          errors.push({ path: keyPath, message: `unknown modifier "${modifier}"` });
+        }
+      }
+      const values = Array.isArray(fieldValue) ? fieldValue : [fieldValue];
+      if (values.length === 0 || !values.every(isScalar)) {
+        errors.push({ path: keyPath, message: "expected a value or a list of values" });
+      }
+      if (modifiers.includes("re")) {
+        for (const pattern of values) {
+          try {
+            new RegExp(String(pattern));
+          } catch {
+            errors.push({ path: keyPath, message: `invalid regular expression ${JSON.stringify(pattern)}` });
+          }
+        }
+      }
+    }
+  };
+
+  if (isRecord(value)) {
+    validateMap(value, path);
+    return;
+  }
+  if (Array.isArray(value) && value.length > 0) {
+    if (value.every(isScalar)) {
+      return;
+    }
+    value.forEach((item, index) => {
+      if (isRecord(item)) {
+        validateMap(item, `${path}[${index}]`);
+      } else {
+        errors.push({ path: `${path}[${index}]`, message: "mix of keywords and field maps is not allowed" });
+      }
+    });
+    return;
+  }
+  errors.push({ path, message: "expected a field map, a list of field maps or a list of keywords" });
+}
+
+function validateStringList(rule: Record<string, unknown>, key: string, errors: SigmaIssue[]) {
+  const value = rule[key];
+  if (value !== undefined && (!Array.isArray(value) || !value.every((item) => typeof item === "string"))) {
+    errors.push({ path: key, message: "expected a list of strings" });
+  }
+}
+
+export function validateSigmaRule(raw: unknown): SigmaValidation {
+  const errors: SigmaIssue[] = [];
+  const warnings: SigmaIssue[] = [];
+
+  if (!isRecord(raw)) {
+    return { valid: false, errors: [{ path: "$", message: "expected a YAML mapping" }], warnings };
+  }
+
+  for (const key of Object.keys(raw)) {
+    if (!TOP_LEVEL_KEYS.includes(key)) {
+      warnings.push({ path: key, message: "is not a standard Sigma field" });
+    }
+  }
+
+  if (typeof raw.title !== "string" || !raw.title.trim()) {
+    errors.push({ path: "title", message: "is required" });
+  } else if (raw.title.length > MAX_TITLE_LENGTH) {
+    errors.push({ path: "title", message: `must be at most ${MAX_TITLE_LENGTH} characters` });
+  }
+  if (raw.id === undefined) {
+    warnings.push({ path: "id", message: "is recommended" });
+  } else if (typeof raw.id !== "string" || !UUID.test(raw.id)) {
+    errors.push({ path: "id", message: "must be a UUID" });
+  }
+  if (raw.status !== undefined && !SIGMA_STATUSES.includes(String(raw.status))) {
+    errors.push({ path: "status", message: `expected one of ${SIGMA_STATUSES.join("|")}` });
+  }
+  if (raw.level === undefined) {
+    warnings.push({ path: "level", message: "is recommended" });
+  } else if (!SIGMA_LEVELS.includes(String(raw.level))) {
+    errors.push({ path: "level", message: `expected one of ${SIGMA_LEVELS.join("|")}` });
+  }
+  if (raw.description !== undefined && typeof raw.description !== "string") {
+    errors.push({ path: "description", message: "expected a string" });
+  }
+  for (const key of ["date", "modified"]) {
+    const value = raw[key];
+    if (value !== undefined && !(typeof value === "string" && DATE.test(value))) {
+      errors.push({ path: key, message: "expected a YYYY-MM-DD date" });
+    }
+  }
+  validateStringList(raw, "references", errors);
+  validateStringList(raw, "falsepositives", errors);
+  validateStringList(raw, "tags", errors);
+  if (Array.isArray(raw.tags)) {
+    for (const tag of raw.tags) {
+      if (typeof tag === "string" && !TAG.test(tag)) {
+        errors.push({ path: "tags", message: `"${tag}" must be a lowercase namespace.value tag` });
+      }
+    }
+  }
+
+  if (!isRecord(raw.logsource)) {
+    errors.push({ path: "logsource", message: "is required" });
+  } else {
+    if (!LOGSOURCE_KEYS.some((key) => typeof (raw.logsource as Record<string, unknown>)[key] === "string")) {
+      errors.push({ path: "logsource", message: `needs at least one of ${LOGSOURCE_KEYS.join(", ")}` });
+    }
+    for (const [key, value] of Object.entries(raw.logsource)) {
+      if (typeof value !== "string") {
+        errors.push({ path: `logsource.${key}`, message: "expected a string" });
+      }
+    }
+  }
+
+  if (!isRecord(raw.detection)) {
+    errors.push({ path: "detection", message: "is required" });
+    return { valid: false, errors, warnings };
+  }
+
+  const detection = raw.detection;
+  const identifiers = searchIdentifiers(detection);
+  if (identifiers.length === 0) {
+    errors.push({ path: "detection", message: "needs at least one search identifier" });
+  }
+  for (const identifier of identifiers) {
+    validateSearch(detection[identifier], `detection.${identifier}`, errors);
+  }
+
+  const conditions = conditionList(detection);
+  if (conditions.length === 0) {
+    errors.push({ path: "detection.condition", message: "is required" });
+  }
+  for (const condition of conditions) {
+    try {
+      for (const reference of conditionReferences(parseCondition(condition))) {
+        if (!identifiers.some((identifier) => patternMatches(reference, identifier))) {
+          errors.push({ path: "detection.condition", message: `"${reference}" does not match a search identifier` });
+        }
+      }
+    } catch (conditionError) {
+      if (!(conditionError instanceof SigmaConditionError)) {
+        throw conditionError;
+      }
+      errors.push({ path: "detection.condition", message: conditionError.message });
+    }
+  }
+
+  return { valid: errors.length === 0, errors, warnings };
+}
+
+export function parseSigma(text: string): { rule: SigmaRule | null; validation: SigmaValidation } {
+  const documents = YAML.parseAllDocuments(text);
+  const list = Array.isArray(documents) ? documents : [documents];
+  const issues = list.flatMap((document) => document.errors.map((error) => ({ path: "$", message: error.message })));
+  if (issues.length > 0) {
+    return { rule: null, validation: { valid: false, errors: issues, warnings: [] } };
+  }
+  if (list.length !== 1) {
+    const message = list.length === 0 ? "is empty" : "must contain exactly one rule";
+    return { rule: null, validation: { valid: false, errors: [{ path: "$", message }], warnings: [] } };
+  }
+
+  const raw: unknown = list[0].toJS();
+  const validation = validateSigmaRule(raw);
+  return { rule: validation.valid ? (raw as SigmaRule) : null, validation };
+}
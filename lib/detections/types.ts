@@ -0,0 +1,66 @@
+export type SigmaIssue = {
+  path: string;
+  message: string;
+};
+
+export type SigmaValidation = {
+  valid: boolean;
+  errors: SigmaIssue[];
+  warnings: SigmaIssue[];
+};
+
+export type SigmaRule = {
+  title: string;
+  id?: string;
+  status?: string;
+  description?: string;
+  logsource: Record<string, string>;
+  detection: Record<string, unknown>;
+  level?: string;
+  tags?: string[];
+  falsepositives?: string[];
+};
+
+export type ConditionNode =
+  | { type: "and" | "or"; left: ConditionNode; right: ConditionNode }
+  | { type: "not"; operand: ConditionNode }
+  | { type: "of"; quantifier: "one" | "all"; pattern: string }
+  | { type: "ref"; name: string };
+
+export type FieldSpec = {
+  field: string;
+  modifiers: string[];
+};
+
+export type LogLineMatch = {
+  line: number;
+  text: string;
+};
+
+export type LogMatchResult = {
+  total: number;
+  matched: LogLineMatch[];
+  unsupported: string[];
+};
+
+export const QUERY_DIALECTS = ["lucene", "sql"] as const;
+
+export type QueryDialect = (typeof QUERY_DIALECTS)[number];
+
+export type QueryTemplate = {
+  dialect: QueryDialect;
+  query: string;
+};
+
+export type SigmaEvaluation = {
+  validation: SigmaValidation;
+  queries: QueryTemplate[];
+  matches: LogMatchResult | null;
+};
+
+export type DetectionDraft = SigmaEvaluation & {
+  path: string;
+  step: number;
+  signals: string[];
+  sigma: string;
+};
@@ -0,0 +1,267 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { createAnalysisTrace, runAnalysis, validateAnalysisInput } from "../analysis/core";
+import { classifyText } from "../analysis/safety";
+import type { AnalysisInput, AnalysisResponse, SafetyReason } from "../analysis/schema";
+import type { PromptTemplate } from "../analysis/templates";
+import type { LlmProvider } from "../llm";
+import { listJsonFiles } from "../store/files";
+
+export type EvalFixture = {
+  name: string;
+  file: string;
+  input: AnalysisInput;
+  expect: {
+    findings?: string[];
+    min_attack_paths?: number;
+  };
+};
+
+export type SafetyCase = {
+  text: string;
+  flagged: SafetyReason[];
+};
+
+export type SafetyCaseResult = SafetyCase & {
+  actual: SafetyReason[];
+  passed: boolean;
+};
+
+export type SchemaOutcome = "valid" | "repaired" | "invalid";
+
+export type FixtureResult = {
+  fixture: string;
+  schema: SchemaOutcome;
+  safety_hits: number;
+  matched: string[];
+  missing: string[];
+  recall: number;
+  attack_paths: number;
+  passed: boolean;
+  failures: string[];
+};
+
+export type TemplateReport = {
+  template: string;
+  version: string;
+  results: FixtureResult[];
+  summary: {
+    fixtures: number;
+    passed: number;
+    schema_valid: number;
+    repaired: number;
+    invalid: number;
+    safety_hits: number;
+    mean_recall: number;
+  };
+};
+
+export type EvalThresholds = {
+  minRecall: number;
+  maxSafetyHits: number;
+  allowRepair: boolean;
+};
+
+export const DEFAULT_THRESHOLDS: EvalThresholds = {
+  minRecall: 1,
+  maxSafetyHits: 0,
+  allowRepair: true
+};
+
+export class EvalFixtureError extends Error {
+  constructor(file: string, message: string) {
+    super(`${path.basename(file)}: ${message}`);
+    this.name = "EvalFixtureError";
+  }
+}
+
+export async function loadFixtures(dir: string): Promise<EvalFixture[]> {
+  const fixtures: EvalFixture[] = [];
+  for (const file of (await listJsonFiles(dir)).sort()) {
+    const raw = JSON.parse(await readFile(file, "utf8")) as Partial<EvalFixture>;
+    if (!raw.input) {
+      throw new EvalFixtureError(file, "fixture is missing input.");
+    }
+    const inputError = validateAnalysisInput(raw.input);
+    if (inputError) {
+      throw new EvalFixtureError(file, inputError);
+    }
+    fixtures.push({
+      name: raw.name ?? path.basename(file, ".json"),
+      file,
+      input: raw.input,
+      expect: raw.expect ?? {}
+    });
+  }
+  return fixtures;
+}
+
+export async function loadSafetyCases(file: string): Promise<SafetyCase[]> {
+  const raw = JSON.parse(await readFile(file, "utf8")) as unknown;
+  if (!Array.isArray(raw)) {
+    throw new EvalFixtureError(file, "expected a list of { text, flagged } cases.");
+  }
+  return raw.map((item, index) => {
+    const entry = item as Partial<SafetyCase>;
+    if (typeof entry.text !== "string" || !Array.isArray(entry.flagged)) {
+      throw new EvalFixtureError(file, `case ${index} needs text and a flagged list of reasons.`);
+    }
+    return { text: entry.text, flagged: entry.flagged };
+  });
+}
+
+export function evaluateSafetyCases(cases: SafetyCase[]): SafetyCaseResult[] {
+  return cases.map((safetyCase) => {
+    const actual = classifyText(safetyCase.text)?.reasons ?? [];
+    const passed =
+      actual.length === safetyCase.flagged.length && safetyCase.flagged.every((reason) => actual.includes(reason));
+    return { ...safetyCase, actual, passed };
+  });
+}
+
+export function formatSafetyResults(results: SafetyCaseResult[]) {
+  const lines = [`safety filter: ${results.filter((result) => result.passed).length}/${results.length} cases passed`];
+  for (const result of results.filter((item) => !item.passed)) {
+    lines.push(
+      `  FAIL "${result.text.slice(0, 80)}" ` +
+        `(expected ${result.flagged.join(", ") || "kept"}, got ${result.actual.join(", ") || "kept"})`
+    );
+  }
+  return lines.join("\n");
+}
+
+function analysisText(analysis: AnalysisResponse) {
+  return [
+    ...analysis.system_summary.components,
+    ...analysis.system_summary.trust_boundaries,
+    ...analysis.top_risks.flatMap((risk) => [risk.risk, risk.why_it_matters]),
+    ...analysis.attack_paths.flatMap((attackPath) => [
+      attackPath.name,
+      attackPath.entry_point,
+      attackPath.end_impact,
+      ...attackPath.steps.flatMap((step) => [step.action_high_level, ...step.defender_signals, ...step.mitigations])
+    ]),
+    ...analysis.priority_fixes.map((fix) => fix.fix)
+  ]
+    .join("\n")
+    .toLowerCase();
+}
+
+export async function evaluateFixture({
+  provider,
+  template,
+  fixture,
+  thresholds = DEFAULT_THRESHOLDS
+}: {
+  provider: LlmProvider;
+  template: PromptTemplate;
+  fixture: EvalFixture;
+  thresholds?: EvalThresholds;
+}): Promise<FixtureResult> {
+  const expected = fixture.expect.findings ?? [];
+  const trace = createAnalysisTrace();
+  let analysis: AnalysisResponse | null = null;
+  let error: string | null = null;
+
+  try {
+    analysis = await runAnalysis({ provider, template, input: fixture.input, trace });
+  } catch (runError) {
+    error = runError instanceof Error ? runError.message : "Unknown error.";
+  }
+
+  const text = analysis ? analysisText(analysis) : "";
+  const matched = expected.filter((finding) => text.includes(finding.toLowerCase()));
+  const missing = expected.filter((finding) => !matched.includes(finding));
+  const schema: SchemaOutcome = !analysis ? "invalid" : trace.repair_output === null ? "valid" : "repaired";
+  const safetyHits = analysis?.safety_report?.findings.length ?? 0;
+  const attackPaths = analysis?.attack_paths.length ?? 0;
+  const recall = expected.length === 0 ? 1 : matched.length / expected.length;
+
+  const failures: string[] = [];
+  if (schema === "invalid") {
+    failures.push(`no valid analysis${error ? ` (${error.split("\n")[0].slice(0, 160)})` : ""}`);
+  }
+  if (schema === "repaired" && !thresholds.allowRepair) {
+    failures.push("needed a repair pass");
+  }
+  if (safetyHits > thresholds.maxSafetyHits) {
+    failures.push(`${safetyHits} safety filter hits (max ${thresholds.maxSafetyHits})`);
+  }
+  if (recall < thresholds.minRecall) {
+    failures.push(`expected findings missing: ${missing.join(", ")}`);
+  }
+  if (attackPaths < (fixture.expect.min_attack_paths ?? 0)) {
+    failures.push(`${attackPaths} attack paths (min ${fixture.expect.min_attack_paths})`);
+  }
+
+  return {
+    fixture: fixture.name,
+    schema,
+    safety_hits: safetyHits,
+    matched,
+    missing,
+    recall,
+    attack_paths: attackPaths,
+    passed: failures.length === 0,
+    failures
+  };
+}
+
+export async function evaluateTemplate({
+  provider,
+  template,
+  fixtures,
+  thresholds = DEFAULT_THRESHOLDS
+}: {
+  provider: LlmProvider;
+  template: PromptTemplate;
+  fixtures: EvalFixture[];
+  thresholds?: EvalThresholds;
+}): Promise<TemplateReport> {
+  const results: FixtureResult[] = [];
+  for (const fixture of fixtures) {
+    results.push(await evaluateFixture({ provider, template, fixture, thresholds }));
+  }
+
+  const count = (schema: SchemaOutcome) => results.filter((result) => result.schema === schema).length;
+  return {
+    template: template.id,
+    version: template.versions.template,
+    results,
+    summary: {
+      fixtures: results.length,
+      passed: results.filter((result) => result.passed).length,
+      schema_valid: count("valid"),
+      repaired: count("repaired"),
+      invalid: count("invalid"),
+      safety_hits: results.reduce((total, result) => total + result.safety_hits, 0),
+      mean_recall:
+        results.length === 0
+          ? 1
+          : Math.round((results.reduce((total, result) => total + result.recall, 0) / results.length) * 100) / 100
+    }
+  };
+}
+
+export function formatReport(reports: TemplateReport[]) {
+  const lines: string[] = [];
+  for (const report of reports) {
+    const { summary } = report;
+    lines.push(
+      `${report.template}@${report.version}: ${summary.passed}/${summary.fixtures} passed, ` +
+        `schema ${summary.schema_valid} valid / ${summary.repaired} repaired / ${summary.invalid} invalid, ` +
+        `${summary.safety_hits} safety hits, mean recall ${summary.mean_recall}`
+    );
+    for (const result of report.results) {
+      lines.push(
+        `  ${result.passed ? "PASS" : "FAIL"} ${result.fixture} ` +
+          `(schema ${result.schema}, recall ${result.matched.length}/${result.matched.length + result.missing.length}, ` +
+          `${result.safety_hits} safety hits)`
+      );
+      for (const failure of result.failures) {
+        lines.push(`       - ${failure}`);
+      }
+    }
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,136 @@
+import { describeSafetyReport } from "../analysis/safety";
+import { formatWhatIf, type Level } from "../analysis/schema";
+import {
+  ATTACK_VERSION,
+  coverageMatrix,
+  describeCoverage,
+  describeMapping,
+  describeMappingReport,
+  mappingIds
+} from "../frameworks";
+import { systemModelText } from "../snapshot";
+import type { ExportDocument } from "./types";
+
+const STYLES = `
+  body { font-family: system-ui, sans-serif; margin: 32px auto; max-width: 960px; color: #0f172a; line-height: 1.5; }
+  h1 { margin-bottom: 0; }
+  h2 { border-bottom: 1px solid #cbd5e1; padding-bottom: 4px; margin-top: 32px; }
+  table { border-collapse: collapse; width: 100%; font-size: 14px; }
+  th, td { border: 1px solid #cbd5e1; padding: 6px 8px; text-align: left; vertical-align: top; }
+  pre { background: #f1f5f9; padding: 12px; border-radius: 8px; white-space: pre-wrap; font-size: 13px; }
+  .muted { color: #64748b; }
+  .badge { display: inline-block; padding: 1px 8px; border-radius: 999px; font-size: 12px; font-weight: 600; text-transform: uppercase; }
+  .low { background: #d1fae5; color: #065f46; }
+  .medium { background: #fef3c7; color: #92400e; }
+  .high { background: #ffe4e6; color: #9f1239; }
+  .path { border: 1px solid #cbd5e1; border-radius: 8px; padding: 12px 16px; margin-bottom: 16px; page-break-inside: avoid; }
+  .callout { border-left: 4px solid #0d9488; background: #f0fdfa; padding: 8px 16px; }
+  @media print { body { margin: 0; } }
+`;
+
+export function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function list(items: string[]) {
+  return items.length > 0
+    ? `<ul>${items.map((item) => `<li>${escapeHtml(item)}</li>`).join("")}</ul>`
+    : `<p class="muted">None</p>`;
+}
+
+function badge(label: string, level: Level) {
+  return `<span class="badge ${level}">${escapeHtml(label)}: ${level}</span>`;
+}
+
+function block(label: string, text: string | undefined) {
+  return text?.trim() ? `<h3>${escapeHtml(label)}</h3><pre>${escapeHtml(text.trim())}</pre>` : "";
+}
+
+export function renderHtml({ input, analysis, generated_at }: ExportDocument) {
+  const title = `${input.project_name ?? "ChainBreak AI"} — Attack Path Report`;
+  const whatIf = formatWhatIf(input.what_if);
+
+  const body = [
+    `<h1>${escapeHtml(title)}</h1>`,
+    `<p class="muted">Generated ${escapeHtml(generated_at)}. Defensive analysis only; no exploit instructions.</p>`,
+    `<h2>What-if Context</h2>`,
+    `<p>${whatIf ? escapeHtml(whatIf) : "Baseline run (no what-if)."}</p>`,
+    `<h2>System Summary</h2>`,
+    `<h3>Assets</h3>${list(analysis.system_summary.assets)}`,
+    `<h3>Components</h3>${list(analysis.system_summary.components)}`,
+    `<h3>Trust Boundaries</h3>${list(analysis.system_summary.trust_boundaries)}`,
+    `<h3>Assumptions</h3>${list(analysis.system_summary.assumptions)}`,
+    `<h2>Top Risks</h2>`,
+    `<table><thead><tr><th>Risk</th><th>Likelihood</th><th>Impact</th><th>Why it matters</th>` +
+      `<th>ATT&amp;CK / CWE</th></tr></thead><tbody>`,
+    ...analysis.top_risks.map(
+      (risk) =>
+        `<tr><td>${escapeHtml(risk.risk)}</td><td>${badge("L", risk.likelihood)}</td>` +
+        `<td>${badge("I", risk.impact)}</td><td>${escapeHtml(risk.why_it_matters)}</td>` +
+        `<td>${escapeHtml(mappingIds(risk.mapping).join(", "))}</td></tr>`
+    ),
+    `</tbody></table>`,
+    `<h2>Attack Paths</h2>`,
+    ...analysis.attack_paths.map(
+      (path) =>
+        `<div class="path"><h3>${escapeHtml(path.name)} ${badge("Risk", path.overall_risk)}</h3>` +
+        `<p><strong>Entry:</strong> ${escapeHtml(path.entry_point)}<br/><strong>End impact:</strong> ${escapeHtml(path.end_impact)}</p>` +
+        `<p><strong>Preconditions</strong></p>${list(path.preconditions)}` +
+        `<ol>${path.steps
+          .map(
+            (step) =>
+              `<li value="${step.step}"><strong>${escapeHtml(step.action_high_level)}</strong>` +
+              `<p>${escapeHtml(step.why_plausible)}</p>` +
+              `<p><em>Defender signals</em></p>${list(step.defender_signals)}` +
+              `<p><em>Mitigations</em></p>${list(step.mitigations)}` +
+              `<p><em>ATT&amp;CK / CWE</em></p>${list(describeMapping(step.mapping))}</li>`
+          )
+          .join("")}</ol></div>`
+    ),
+    `<h2>ATT&amp;CK Coverage</h2>`,
+    `<p class="muted">Tactics from ${escapeHtml(ATTACK_VERSION)} reached by attack-path steps.</p>`,
+    list(describeCoverage(coverageMatrix(analysis))),
+    analysis.mapping_report ? `<h3>Mapping Check</h3>${list(describeMappingReport(analysis.mapping_report))}` : "",
+    `<h2>Priority Fixes</h2>`,
+    `<table><thead><tr><th>#</th><th>Fix</th><th>Breaks chain at</th><th>Effort</th><th>Risk reduction</th></tr></thead><tbody>`,
+    ...analysis.priority_fixes.map(
+      (fix, index) =>
+        `<tr><td>${index + 1}</td><td>${escapeHtml(fix.fix)}</td><td>${escapeHtml(fix.breaks_chain_at)}</td>` +
+        `<td>${badge("Effort", fix.effort)}</td><td>${badge("Reduction", fix.risk_reduction)}</td></tr>`
+    ),
+    `</tbody></table>`,
+    `<h2>What Changed</h2>`,
+    `<p>${analysis.what_if.change ? escapeHtml(analysis.what_if.change) : "No what-if provided."}</p>`,
+    `<h3>Delta Summary</h3>${list(analysis.what_if.delta_summary)}`,
+    `<h3>Updated Risks</h3>${list(analysis.what_if.updated_risks)}`,
+    `<h2>Safety Notes</h2>`,
+    `<div class="callout">${list(analysis.safe_notes)}</div>`,
+    analysis.safety_report ? `<h3>Safety Filter</h3>${list(describeSafetyReport(analysis.safety_report))}` : "",
+    `<h2>Inputs</h2>`,
+    block("System snapshot", input.system_text),
+    block("System model", systemModelText(input.system_model)),
+    block("Diagram summary", input.diagram_summary),
+    block("Config", input.snippets?.config),
+    block("Logs", input.snippets?.logs),
+    block("Code", input.snippets?.code),
+    ...(input.artifacts ?? []).map((artifact) => block(`Artifact: ${artifact.name}`, artifact.content))
+  ].join("\n");
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
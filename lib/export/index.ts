@@ -0,0 +1,18 @@
+import { renderHtml } from "./html";
+import { renderMarkdown } from "./markdown";
+import { renderSarif } from "./sarif";
+import type { ExportDocument, ExportFormat, RenderedExport } from "./types";
+
+export { EXPORT_FORMATS } from "./types";
+export type { ExportDocument, ExportFormat, RenderedExport } from "./types";
+
+export function renderExport(format: ExportFormat, document: ExportDocument): RenderedExport {
+  switch (format) {
+    case "markdown":
+      return { body: renderMarkdown(document), content_type: "text/markdown; charset=utf-8", extension: "md" };
+    case "html":
+      return { body: renderHtml(document), content_type: "text/html; charset=utf-8", extension: "html" };
+    case "sarif":
+      return { body: renderSarif(document), content_type: "application/sarif+json", extension: "sarif" };
+  }
+}
@@ -0,0 +1,102 @@
+import { describeSafetyReport } from "../analysis/safety";
+import { formatWhatIf } from "../analysis/schema";
+import {
+  ATTACK_VERSION,
+  coverageMatrix,
+  describeCoverage,
+  describeMapping,
+  describeMappingReport,
+  mappingIds
+} from "../frameworks";
+import { systemModelText } from "../snapshot";
+import type { ExportDocument } from "./types";
+
+function bullets(items: string[]) {
+  return items.length > 0 ? items.map((item) => `- ${item}`).join("\n") : "- _None_";
+}
+
+function cell(text: string) {
+  return text.replace(/\|/g, "\\|").replace(/\n/g, " ");
+}
+
+function fenced(label: string, text: string | undefined) {
+  if (!text?.trim()) {
+    return "";
+  }
+  const fence = text.includes("```") ? "~~~~" : "```";
+  return `**${label}**\n\n${fence}\n${text.trim()}\n${fence}\n`;
+}
+
+export function renderMarkdown({ input, analysis, generated_at }: ExportDocument) {
+  const whatIf = formatWhatIf(input.what_if);
+  const sections: string[] = [
+    `# ${input.project_name ?? "ChainBreak AI"} — Attack Path Report`,
+    `_Generated ${generated_at}. Defensive analysis only; no exploit instructions._`,
+    "## Inputs",
+    fenced("System snapshot", input.system_text),
+    fenced("System model", systemModelText(input.system_model)),
+    fenced("Diagram summary", input.diagram_summary),
+    fenced("Config", input.snippets?.config),
+    fenced("Logs", input.snippets?.logs),
+    fenced("Code", input.snippets?.code),
+    ...(input.artifacts ?? []).map((artifact) => fenced(`Artifact: ${artifact.name}`, artifact.content)),
+    "## What-if Context",
+    whatIf ? `Change: ${whatIf}` : "Baseline run (no what-if).",
+    "## System Summary",
+    `**Assets**\n\n${bullets(analysis.system_summary.assets)}`,
+    `**Components**\n\n${bullets(analysis.system_summary.components)}`,
+    `**Trust boundaries**\n\n${bullets(analysis.system_summary.trust_boundaries)}`,
+    `**Assumptions**\n\n${bullets(analysis.system_summary.assumptions)}`,
+    "## Top Risks",
+    [
+      "| Risk | Likelihood | Impact | Why it matters | ATT&CK / CWE |",
+      "| --- | --- | --- | --- | --- |",
+      ...analysis.top_risks.map(
+        (risk) =>
+          `| ${cell(risk.risk)} | ${risk.likelihood} | ${risk.impact} | ${cell(risk.why_it_matters)} | ` +
+          `${mappingIds(risk.mapping).join(", ")} |`
+      )
+    ].join("\n"),
+    "## Attack Paths",
+    ...analysis.attack_paths.map((path) =>
+      [
+        `### ${path.name} (${path.overall_risk} risk)`,
+        `- Entry point: ${path.entry_point}`,
+        `- End impact: ${path.end_impact}`,
+        `- Preconditions: ${path.preconditions.join("; ") || "none listed"}`,
+        "",
+        ...path.steps.map((step) =>
+          [
+            `${step.step}. **${step.action_high_level}**`,
+            `   - Why plausible: ${step.why_plausible}`,
+            `   - Defender signals: ${step.defender_signals.join("; ") || "none listed"}`,
+            `   - Mitigations: ${step.mitigations.join("; ") || "none listed"}`,
+            `   - ATT&CK / CWE: ${describeMapping(step.mapping).join("; ") || "not mapped"}`
+          ].join("\n")
+        )
+      ].join("\n")
+    ),
+    "## ATT&CK Coverage",
+    `_Tactics from ${ATTACK_VERSION} reached by attack-path steps._`,
+    bullets(describeCoverage(coverageMatrix(analysis))),
+    analysis.mapping_report ? `**Mapping check**\n\n${bullets(describeMappingReport(analysis.mapping_report))}` : "",
+    "## Priority Fixes",
+    [
+      "| # | Fix | Breaks chain at | Effort | Risk reduction |",
+      "| --- | --- | --- | --- | --- |",
+      ...analysis.priority_fixes.map(
+        (fix, index) =>
+          `| ${index + 1} | ${cell(fix.fix)} | ${cell(fix.breaks_chain_at)} | ${fix.effort} | ${fix.risk_reduction} |`
+      )
+    ].join("\n"),
+    "## What Changed",
+    analysis.what_if.change ? `Change: ${analysis.what_if.change}` : "No what-if provided.",
+    `**Delta summary**\n\n${bullets(analysis.what_if.delta_summary)}`,
+    `**Updated risks**\n\n${bullets(analysis.what_if.updated_risks)}`,
+    "## Safety Notes",
+    bullets(analysis.safe_notes),
+    analysis.safety_report ? `**Safety filter**\n\n${bullets(describeSafetyReport(analysis.safety_report))}` : ""
+  ];
+
+  return `${sections.filter(Boolean).join("\n\n")}\n`;
+}
@@ -0,0 +1,115 @@
+import { createHash } from "node:crypto";
+import { formatWhatIf, type FrameworkMapping, type Level } from "../analysis/schema";
+import { riskLevel } from "../analysis/scoring";
+import { ATTACK_VERSION, CWE_VERSION } from "../frameworks";
+import type { ExportDocument } from "./types";
+
+const SARIF_SCHEMA = "https://json.schemastore.org/sarif-2.1.0.json";
+const SNAPSHOT_URI = "chainbreak/system-snapshot.txt";
+
+const RULES = [
+  {
+    id: "chainbreak/top-risk",
+    name: "TopRisk",
+    shortDescription: { text: "Prioritized risk identified by attack-path reasoning." }
+  },
+  {
+    id: "chainbreak/attack-path-step",
+    name: "AttackPathStep",
+    shortDescription: { text: "Step in a plausible attack chain with defender signals and mitigations." }
+  }
+];
+
+function sarifLevel(level: Level) {
+  return level === "high" ? "error" : level === "medium" ? "warning" : "note";
+}
+
+function fingerprint(...parts: string[]) {
+  return createHash("sha256").update(parts.join("\u0000").toLowerCase()).digest("hex").slice(0, 32);
+}
+
+function mappingProperties(mapping: FrameworkMapping | undefined) {
+  const techniques = mapping?.techniques ?? [];
+  const cwes = mapping?.cwes ?? [];
+  return {
+    tags: [
+      ...cwes.map((id) => `external/cwe/${id.toLowerCase()}`),
+      ...techniques.map((id) => `external/mitre-attack/${id}`)
+    ],
+    attack_tactics: mapping?.tactics ?? [],
+    attack_techniques: techniques,
+    cwes
+  };
+}
+
+const location = {
+  physicalLocation: {
+    artifactLocation: { uri: SNAPSHOT_URI },
+    region: { startLine: 1 }
+  }
+};
+
+export function renderSarif({ input, analysis, generated_at }: ExportDocument) {
+  const riskResults = analysis.top_risks.map((risk) => ({
+    ruleId: "chainbreak/top-risk",
+    ruleIndex: 0,
+    level: sarifLevel(riskLevel(risk)),
+    message: { text: `${risk.risk}: ${risk.why_it_matters}` },
+    locations: [location],
+    partialFingerprints: { chainbreakRisk: fingerprint(risk.risk) },
+    properties: { likelihood: risk.likelihood, impact: risk.impact, ...mappingProperties(risk.mapping) }
+  }));
+
+  const stepResults = analysis.attack_paths.flatMap((path) =>
+    path.steps.map((step) => ({
+      ruleId: "chainbreak/attack-path-step",
+      ruleIndex: 1,
+      level: sarifLevel(path.overall_risk),
+      message: {
+        text: `[${path.name} · step ${step.step}] ${step.action_high_level} — ${step.why_plausible}`
+      },
+      locations: [location],
+      partialFingerprints: { chainbreakStep: fingerprint(path.name, String(step.step), step.action_high_level) },
+      properties: {
+        attack_path: path.name,
+        entry_point: path.entry_point,
+        end_impact: path.end_impact,
+        overall_risk: path.overall_risk,
+        step: step.step,
+        defender_signals: step.defender_signals,
+        mitigations: step.mitigations,
+        ...mappingProperties(step.mapping)
+      }
+    }))
+  );
+
+  const sarif = {
+    $schema: SARIF_SCHEMA,
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: "ChainBreak AI",
+            informationUri: "https://github.com/johnnyychiu/ChainBreak-AI",
+            rules: RULES
+          }
+        },
+        invocations: [{ executionSuccessful: true, endTimeUtc: generated_at }],
+        results: [...riskResults, ...stepResults],
+        properties: {
+          project_name: input.project_name ?? "ChainBreak AI",
+          what_if: formatWhatIf(input.what_if),
+          catalogs: [ATTACK_VERSION, CWE_VERSION],
+          what_if_result: analysis.what_if,
+          priority_fixes: analysis.priority_fixes,
+          safe_notes: analysis.safe_notes,
+          safety_report: analysis.safety_report,
+          mapping_report: analysis.mapping_report
+        }
+      }
+    ]
+  };
+
+  return `${JSON.stringify(sarif, null, 2)}\n`;
+}
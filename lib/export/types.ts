@@ -0,0 +1,17 @@
+import type { AnalysisInput, AnalysisResponse } from "../analysis/schema";
+
+export const EXPORT_FORMATS = ["markdown", "html", "sarif"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export type ExportDocument = {
+  input: AnalysisInput;
+  analysis: AnalysisResponse;
+  generated_at: string;
+};
+
+export type RenderedExport = {
+  body: string;
+  content_type: string;
+  extension: string;
+};
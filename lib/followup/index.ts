@@ -0,0 +1,121 @@
+import { randomUUID } from "node:crypto";
+import type { AnalysisTrace } from "../analysis/core";
+import { FOLLOWUP_PROMPT } from "../analysis/prompts";
+import { createInputRedactor } from "../analysis/redaction";
+import { applySafetyFilter } from "../analysis/safety";
+import type { AnalysisResponse } from "../analysis/schema";
+import type { PromptTemplate } from "../analysis/templates";
+import type { ChatMessage, LlmProvider } from "../llm";
+import type { FollowupAnswer, FollowupThread, FollowupTurn } from "./types";
+
+export * from "./types";
+export { appendTurn, createThread, getThread, ThreadNotFoundError } from "./store";
+
+export const MAX_QUESTION_CHARS = 2000;
+export const MAX_FOLLOWUP_TURNS = 20;
+
+const CONTEXT_TURNS = 6;
+const REFERENCE_PATTERN = /^[a-z_]+(?:\[\d+\]|\.[a-z_]+)*$/;
+const FOLLOWUP_OPTIONS = {
+  temperature: 0.2,
+  maxOutputTokens: 1024
+};
+
+function analysisContext(analysis: AnalysisResponse) {
+  const { safety_report: _safety, mapping_report: _mapping, ...rest } = analysis;
+  return JSON.stringify(rest);
+}
+
+export function maskQuestions(thread: FollowupThread, questions: string[]) {
+  const redact = createInputRedactor(thread.input);
+  return questions.map((question) => redact(question, "question"));
+}
+
+export function followupMessages(template: PromptTemplate, thread: FollowupThread, question: string): ChatMessage[] {
+  const masked = maskQuestions(thread, [...thread.turns.map((turn) => turn.question), question]);
+  const first = Math.max(0, thread.turns.length - CONTEXT_TURNS);
+  const history = thread.turns.slice(first).flatMap((turn, index): ChatMessage[] => [
+    { role: "user", text: `question:\n${masked[first + index]}` },
+    {
+      role: "assistant",
+      text: JSON.stringify({ answer: turn.answer, references: turn.references, what_if: turn.what_if })
+    }
+  ]);
+  return [
+    { role: "system", text: template.system },
+    { role: "user", text: FOLLOWUP_PROMPT },
+    { role: "user", text: `${thread.context}\n\nanalysis:\n${analysisContext(thread.analysis)}` },
+    ...history,
+    { role: "user", text: `question:\n${masked[masked.length - 1]}` }
+  ];
+}
+
+export function resolveReference(analysis: AnalysisResponse, reference: string) {
+  if (!REFERENCE_PATTERN.test(reference)) {
+    return false;
+  }
+  let current: unknown = analysis;
+  for (const [, key, index] of reference.matchAll(/([a-z_]+)|\[(\d+)\]/g)) {
+    if (typeof current !== "object" || current === null) {
+      return false;
+    }
+    current = key !== undefined ? (current as Record<string, unknown>)[key] : (current as unknown[])[Number(index)];
+  }
+  return current !== undefined;
+}
+
+export function parseFollowupAnswer(text: string, analysis: AnalysisResponse): FollowupAnswer {
+  const cleaned = text.replace(/^\s*```(?:json)?\s*/i, "").replace(/\s*```\s*$/, "").trim();
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(cleaned);
+  } catch {
+    return { answer: cleaned, references: [], what_if: null };
+  }
+  if (typeof parsed !== "object" || parsed === null || typeof (parsed as FollowupAnswer).answer !== "string") {
+    return { answer: cleaned, references: [], what_if: null };
+  }
+  const { answer, references, what_if: whatIf } = parsed as Partial<FollowupAnswer>;
+  return {
+    answer: (answer ?? "").trim(),
+    references: Array.isArray(references)
+      ? references.filter(
+          (reference): reference is string => typeof reference === "string" && resolveReference(analysis, reference)
+        )
+      : [],
+    what_if: typeof whatIf === "string" && whatIf.trim() ? whatIf.trim() : null
+  };
+}
+
+export async function answerFollowup({
+  provider,
+  template,
+  thread,
+  question,
+  signal,
+  trace
+}: {
+  provider: LlmProvider;
+  template: PromptTemplate;
+  thread: FollowupThread;
+  question: string;
+  signal?: AbortSignal;
+  trace?: AnalysisTrace;
+}): Promise<FollowupTurn> {
+  const text = await provider.generate({
+    messages: followupMessages(template, thread, question),
+    ...FOLLOWUP_OPTIONS,
+    signal
+  });
+  if (trace) {
+    trace.initial_output = text;
+  }
+  const { value, findings, checked } = applySafetyFilter(parseFollowupAnswer(text, thread.analysis), "");
+  return {
+    ...value,
+    id: randomUUID(),
+    created_at: new Date().toISOString(),
+    question,
+    safety_report: { checked_strings: checked, findings }
+  };
+}
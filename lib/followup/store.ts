@@ -0,0 +1,43 @@
+import { randomUUID } from "node:crypto";
+import { dataPath, readJsonFile, updateJsonFile, withFileLock, writeJsonFile } from "../store/files";
+import type { FollowupThread, FollowupTurn } from "./types";
+
+const THREAD_ID_PATTERN = /^[a-z0-9-]{1,64}$/;
+
+export class ThreadNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Follow-up thread "${id}" was not found.`);
+    this.name = "ThreadNotFoundError";
+  }
+}
+
+function threadPath(id: string) {
+  if (!THREAD_ID_PATTERN.test(id)) {
+    throw new ThreadNotFoundError(id);
+  }
+  return dataPath("followups", `${id}.json`);
+}
+
+export async function createThread(thread: Omit<FollowupThread, "id" | "created_at" | "updated_at" | "turns">) {
+  const now = new Date().toISOString();
+  const created: FollowupThread = { ...thread, id: randomUUID(), created_at: now, updated_at: now, turns: [] };
+  await withFileLock(threadPath(created.id), () => writeJsonFile(threadPath(created.id), created));
+  return created;
+}
+
+export async function getThread(id: string, userId: string) {
+  const thread = await readJsonFile<FollowupThread | null>(threadPath(id), null);
+  if (!thread || thread.user_id !== userId) {
+    throw new ThreadNotFoundError(id);
+  }
+  return thread;
+}
+
+export async function appendTurn(id: string, turn: FollowupTurn) {
+  return updateJsonFile<FollowupThread | null>(threadPath(id), null, (thread) => {
+    if (!thread) {
+      throw new ThreadNotFoundError(id);
+    }
+    return { ...thread, turns: [...thread.turns, turn], updated_at: turn.created_at };
+  }) as Promise<FollowupThread>;
+}
@@ -0,0 +1,28 @@
+import type { AnalysisInput, AnalysisResponse, SafetyReport } from "../analysis/schema";
+
+export type FollowupAnswer = {
+  answer: string;
+  references: string[];
+  what_if: string | null;
+};
+
+export type FollowupTurn = FollowupAnswer & {
+  id: string;
+  created_at: string;
+  question: string;
+  safety_report: SafetyReport;
+};
+
+export type FollowupThread = {
+  id: string;
+  created_at: string;
+  updated_at: string;
+  user_id: string;
+  project_id: string | null;
+  run_id: string | null;
+  prompt_template: string;
+  input: AnalysisInput;
+  context: string;
+  analysis: AnalysisResponse;
+  turns: FollowupTurn[];
+};
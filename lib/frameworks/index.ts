@@ -0,0 +1,209 @@
+import type { AnalysisResponse, FrameworkMapping, MappingReport, RejectedFrameworkId } from "../analysis/schema";
+import attackCatalog from "./attack.json";
+import cweCatalog from "./cwe.json";
+
+export type Tactic = {
+  id: string;
+  name: string;
+};
+
+export type Technique = {
+  id: string;
+  name: string;
+  tactics: string[];
+};
+
+export type Weakness = {
+  id: string;
+  name: string;
+};
+
+export type CoverageCell = {
+  steps: number[];
+  techniques: string[];
+};
+
+export type CoverageRow = {
+  path: string;
+  cells: Record<string, CoverageCell>;
+};
+
+export type CoverageMatrix = {
+  tactics: Tactic[];
+  rows: CoverageRow[];
+  covered: string[];
+};
+
+export const ATTACK_VERSION = `${attackCatalog.name} v${attackCatalog.version}`;
+export const CWE_VERSION = `${cweCatalog.name} v${cweCatalog.version}`;
+export const TACTICS: Tactic[] = attackCatalog.tactics;
+
+const tactics = new Map(TACTICS.map((tactic) => [tactic.id, tactic]));
+const tacticsByName = new Map(TACTICS.map((tactic) => [tactic.name.toLowerCase(), tactic]));
+const techniques = new Map<string, Technique>(attackCatalog.techniques.map((technique) => [technique.id, technique]));
+const weaknesses = new Map<string, Weakness>(cweCatalog.weaknesses.map((weakness) => [weakness.id, weakness]));
+
+export function findTactic(id: string) {
+  return tactics.get(id) ?? null;
+}
+
+export function findTechnique(id: string) {
+  return techniques.get(id) ?? null;
+}
+
+export function findWeakness(id: string) {
+  return weaknesses.get(id) ?? null;
+}
+
+function canonicalTactic(raw: string) {
+  const id = raw.match(/\bTA\d{4}\b/i)?.[0].toUpperCase();
+  return id ?? tacticsByName.get(raw.trim().toLowerCase())?.id ?? raw.trim();
+}
+
+function canonicalTechnique(raw: string) {
+  return raw.match(/\bT\d{4}(?:\.\d{3})?\b/i)?.[0].toUpperCase() ?? raw.trim();
+}
+
+function canonicalWeakness(raw: string) {
+  const number = raw.match(/^\s*(?:CWE[-\s:]*)?(\d+)\b/i)?.[1];
+  return number ? `CWE-${Number(number)}` : raw.trim();
+}
+
+function byTacticOrder(a: string, b: string) {
+  return TACTICS.findIndex((tactic) => tactic.id === a) - TACTICS.findIndex((tactic) => tactic.id === b);
+}
+
+export function checkMapping(mapping: FrameworkMapping, path: string) {
+  const rejected: RejectedFrameworkId[] = [];
+  const keep = (ids: string[], field: string, canonical: (raw: string) => string, known: (id: string) => unknown) => {
+    const kept: string[] = [];
+    for (const raw of ids) {
+      const id = canonical(raw);
+      if (!known(id)) {
+        rejected.push({ path: `${path}.${field}`, id: raw });
+      } else if (!kept.includes(id)) {
+        kept.push(id);
+      }
+    }
+    return kept;
+  };
+
+  const checkedTechniques = keep(mapping.techniques, "techniques", canonicalTechnique, findTechnique);
+  const checkedTactics = keep(mapping.tactics, "tactics", canonicalTactic, findTactic);
+  for (const id of checkedTechniques) {
+    const implied = findTechnique(id)?.tactics ?? [];
+    if (implied.length === 1 && !checkedTactics.includes(implied[0])) {
+      checkedTactics.push(implied[0]);
+    }
+  }
+
+  return {
+    mapping: {
+      tactics: checkedTactics.sort(byTacticOrder),
+      techniques: checkedTechniques,
+      cwes: keep(mapping.cwes, "cwes", canonicalWeakness, findWeakness)
+    },
+    rejected,
+    checked: mapping.tactics.length + mapping.techniques.length + mapping.cwes.length
+  };
+}
+
+function isMapping(value: unknown): value is FrameworkMapping {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    ["tactics", "techniques", "cwes"].every((key) => Array.isArray((value as Record<string, unknown>)[key]))
+  );
+}
+
+export function applyFrameworkCatalog<T>(value: T, path: string) {
+  const rejected: RejectedFrameworkId[] = [];
+  let checked = 0;
+
+  const walk = (current: unknown, currentPath: string): unknown => {
+    if (Array.isArray(current)) {
+      return current.map((item, index) => walk(item, `${currentPath}[${index}]`));
+    }
+    if (typeof current === "object" && current !== null) {
+      return Object.fromEntries(
+        Object.entries(current).map(([key, item]) => {
+          const itemPath = currentPath ? `${currentPath}.${key}` : key;
+          if (key !== "mapping" || !isMapping(item)) {
+            return [key, walk(item, itemPath)];
+          }
+          const result = checkMapping(item, itemPath);
+          rejected.push(...result.rejected);
+          checked += result.checked;
+          return [key, result.mapping];
+        })
+      );
+    }
+    return current;
+  };
+
+  return { value: walk(value, path) as T, rejected, checked };
+}
+
+export function mappingIsEmpty(mapping: FrameworkMapping | undefined) {
+  return !mapping || mapping.tactics.length + mapping.techniques.length + mapping.cwes.length === 0;
+}
+
+export function describeMapping(mapping: FrameworkMapping | undefined) {
+  if (!mapping) {
+    return [];
+  }
+  return [
+    ...mapping.tactics.map((id) => `${id} ${findTactic(id)?.name ?? ""}`.trim()),
+    ...mapping.techniques.map((id) => `${id} ${findTechnique(id)?.name ?? ""}`.trim()),
+    ...mapping.cwes.map((id) => `${id} ${findWeakness(id)?.name ?? ""}`.trim())
+  ];
+}
+
+export function describeMappingReport(report: MappingReport | undefined) {
+  if (!report) {
+    return [];
+  }
+  return [
+    `${report.rejected.length} of ${report.checked_ids} framework IDs were not in the bundled catalogs and were dropped.`,
+    ...report.rejected.map((entry) => `${entry.path}: ${entry.id}`)
+  ];
+}
+
+export function coverageMatrix(analysis: AnalysisResponse): CoverageMatrix {
+  const covered = new Set<string>();
+  const rows = analysis.attack_paths.map((attackPath) => {
+    const cells: Record<string, CoverageCell> = {};
+    for (const step of attackPath.steps) {
+      for (const tactic of step.mapping?.tactics ?? []) {
+        const cell = (cells[tactic] ??= { steps: [], techniques: [] });
+        covered.add(tactic);
+        cell.steps.push(step.step);
+        for (const technique of step.mapping?.techniques ?? []) {
+          if (findTechnique(technique)?.tactics.includes(tactic) && !cell.techniques.includes(technique)) {
+            cell.techniques.push(technique);
+          }
+        }
+      }
+    }
+    return { path: attackPath.name, cells };
+  });
+
+  return { tactics: TACTICS, rows, covered: [...covered].sort(byTacticOrder) };
+}
+
+export function mappingIds(mapping: FrameworkMapping | undefined) {
+  return mapping ? [...mapping.tactics, ...mapping.techniques, ...mapping.cwes] : [];
+}
+
+export function describeCoverage(matrix: CoverageMatrix) {
+  return matrix.covered.map((tactic) => {
+    const uses = matrix.rows
+      .filter((row) => row.cells[tactic])
+      .map((row) => {
+        const cell = row.cells[tactic];
+        const techniqueList = cell.techniques.length > 0 ? ` (${cell.techniques.join(", ")})` : "";
+        return `${row.path} step ${cell.steps.join(", ")}${techniqueList}`;
+      });
+    return `${tactic} ${findTactic(tactic)?.name ?? ""}: ${uses.join("; ")}`;
+  });
+}
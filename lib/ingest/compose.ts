@@ -0,0 +1,82 @@
+import { emptyInventory, type ArtifactInventory } from "./types";
+
+type ComposeFile = {
+  services: Record<string, Record<string, any>>;
+  networks?: Record<string, Record<string, any> | null>;
+};
+
+const SECRET_KEY_PATTERN = /SECRET|PASSWORD|PASSWD|TOKEN|API_KEY|PRIVATE_KEY/i;
+
+export function isComposeFile(value: unknown): value is ComposeFile {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "services" in value &&
+    typeof (value as { services: unknown }).services === "object"
+  );
+}
+
+function environmentKeys(environment: unknown) {
+  if (Array.isArray(environment)) {
+    return environment.map((entry) => String(entry).split("=")[0]);
+  }
+  if (typeof environment === "object" && environment !== null) {
+    return Object.keys(environment);
+  }
+  return [];
+}
+
+function publishedPort(port: unknown) {
+  if (typeof port === "object" && port !== null) {
+    const entry = port as { published?: unknown; target?: unknown; host_ip?: string };
+    return { text: `${entry.published ?? ""}:${entry.target ?? ""}`, localOnly: entry.host_ip === "127.0.0.1" };
+  }
+  const text = String(port);
+  return { text, localOnly: text.startsWith("127.0.0.1:") || text.startsWith("localhost:") };
+}
+
+export function parseComposeFile(compose: ComposeFile, source: string): ArtifactInventory {
+  const inventory = emptyInventory();
+
+  for (const [name, service] of Object.entries(compose.services)) {
+    inventory.components.push({ name, kind: `Container (${service.image ?? "built locally"})`, source });
+
+    for (const port of service.ports ?? []) {
+      const { text, localOnly } = publishedPort(port);
+      inventory.exposures.push({
+        target: name,
+        detail: `Publishes port ${text}${localOnly ? " on localhost only" : " on all host interfaces"}`,
+        public: !localOnly,
+        source
+      });
+    }
+    if (service.privileged) {
+      inventory.notes.push(`${name} runs privileged.`);
+    }
+    if (service.network_mode === "host") {
+      inventory.notes.push(`${name} shares the host network namespace.`);
+    }
+    for (const volume of service.volumes ?? []) {
+      if (String(typeof volume === "object" ? volume.source : volume).includes("docker.sock")) {
+        inventory.notes.push(`${name} mounts the Docker socket.`);
+      }
+    }
+    const secretKeys = environmentKeys(service.environment).filter((key) => SECRET_KEY_PATTERN.test(key));
+    if (secretKeys.length > 0) {
+      inventory.notes.push(`${name} receives secrets via environment variables (${secretKeys.join(", ")}).`);
+    }
+    if (service.user === "root" || service.user === "0") {
+      inventory.notes.push(`${name} runs as root.`);
+    }
+  }
+
+  for (const [name, network] of Object.entries(compose.networks ?? {})) {
+    inventory.trust_boundaries.push({
+      name: `Network ${name}`,
+      detail: network?.internal ? "Internal-only network" : "Compose network",
+      source
+    });
+  }
+
+  return inventory;
+}
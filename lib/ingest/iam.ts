@@ -0,0 +1,79 @@
+import { emptyInventory, type ArtifactInventory } from "./types";
+
+type Statement = {
+  Sid?: string;
+  Effect?: string;
+  Action?: string | string[];
+  NotAction?: string | string[];
+  Resource?: string | string[];
+  Principal?: unknown;
+};
+
+function asList(value: string | string[] | undefined) {
+  return value === undefined ? [] : Array.isArray(value) ? value : [value];
+}
+
+export function isIamPolicy(value: unknown): value is { Statement: Statement | Statement[] } {
+  return typeof value === "object" && value !== null && "Statement" in value;
+}
+
+function isBroadAction(action: string) {
+  return action === "*" || action.endsWith(":*");
+}
+
+function principalIsPublic(principal: unknown) {
+  if (principal === "*") {
+    return true;
+  }
+  if (typeof principal === "object" && principal !== null) {
+    return Object.values(principal).some((value) => value === "*" || (Array.isArray(value) && value.includes("*")));
+  }
+  return false;
+}
+
+export function parseIamPolicy(policy: unknown, source: string, identityName = source): ArtifactInventory {
+  const inventory = emptyInventory();
+  if (!isIamPolicy(policy)) {
+    return inventory;
+  }
+
+  const statements = Array.isArray(policy.Statement) ? policy.Statement : [policy.Statement];
+  const permissions: string[] = [];
+  let broad = false;
+
+  for (const statement of statements) {
+    if (statement.Effect !== "Allow") {
+      continue;
+    }
+    const actions = asList(statement.Action);
+    const resources = asList(statement.Resource);
+    const notActions = asList(statement.NotAction);
+
+    for (const action of actions) {
+      permissions.push(`${action} on ${resources.join(", ") || "*"}`);
+    }
+    if (notActions.length > 0) {
+      permissions.push(`all except ${notActions.join(", ")} on ${resources.join(", ") || "*"}`);
+    }
+    if (actions.some(isBroadAction) || notActions.length > 0 || resources.includes("*")) {
+      broad = true;
+    }
+    if (principalIsPublic(statement.Principal)) {
+      inventory.exposures.push({
+        target: resources.join(", ") || identityName,
+        detail: `Resource policy allows any principal (${actions.join(", ")})`,
+        public: true,
+        source
+      });
+    }
+  }
+
+  if (permissions.length > 0) {
+    inventory.identities.push({ name: identityName, permissions, broad, source });
+  }
+  if (broad) {
+    inventory.notes.push(`${identityName} grants wildcard actions or resources.`);
+  }
+
+  return inventory;
+}
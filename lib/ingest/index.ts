@@ -0,0 +1,145 @@
+import YAML from "yaml";
+import type { AnalysisInput } from "../analysis/schema";
+import { isComposeFile, parseComposeFile } from "./compose";
+import { isIamPolicy, parseIamPolicy } from "./iam";
+import { isKubernetesManifest, parseKubernetesManifests } from "./kubernetes";
+import { looksLikeNginxConfig, parseNginxConfig } from "./nginx";
+import { isTerraformPlan, parseTerraformPlan } from "./terraform";
+import {
+  emptyInventory,
+  type ArtifactInventory,
+  type ArtifactSource,
+  type IngestResult,
+  type ParsedArtifact
+} from "./types";
+
+export * from "./types";
+
+function parseStructured(content: string): unknown[] | null {
+  const trimmed = content.trim();
+  if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+    try {
+      const parsed = JSON.parse(trimmed);
+      return Array.isArray(parsed) ? parsed : [parsed];
+    } catch {
+      // Fall through: YAML is a superset of JSON and reports better errors.
+    }
+  }
+  const documents = YAML.parseAllDocuments(content);
+  if (!Array.isArray(documents) || documents.some((document) => document.errors.length > 0)) {
+    return null;
+  }
+  return documents.map((document) => document.toJS()).filter((value) => value !== null && value !== undefined);
+}
+
+export function parseArtifact(source: ArtifactSource): ParsedArtifact {
+  const { name, content } = source;
+
+  if (looksLikeNginxConfig(content) && !content.trim().startsWith("{")) {
+    return { name, kind: "nginx", inventory: parseNginxConfig(content, name) };
+  }
+
+  let documents: unknown[] | null;
+  try {
+    documents = parseStructured(content);
+  } catch {
+    documents = null;
+  }
+  if (!documents || documents.length === 0) {
+    return { name, kind: "unknown", inventory: emptyInventory(), error: "Not a recognized JSON, YAML or nginx artifact." };
+  }
+
+  const [first] = documents;
+  if (isIamPolicy(first)) {
+    return { name, kind: "iam-policy", inventory: parseIamPolicy(first, name) };
+  }
+  if (isTerraformPlan(first)) {
+    return { name, kind: "terraform-plan", inventory: parseTerraformPlan(first, name) };
+  }
+  const manifests = documents.flatMap((document) =>
+    isKubernetesManifest(document) && document.kind === "List" && Array.isArray((document as { items?: unknown }).items)
+      ? ((document as { items: unknown[] }).items)
+      : [document]
+  );
+  if (manifests.every(isKubernetesManifest)) {
+    return { name, kind: "kubernetes", inventory: parseKubernetesManifests(manifests, name) };
+  }
+  if (isComposeFile(first)) {
+    return { name, kind: "docker-compose", inventory: parseComposeFile(first, name) };
+  }
+
+  return { name, kind: "unknown", inventory: emptyInventory(), error: "Artifact type could not be detected." };
+}
+
+export function mergeInventories(inventories: ArtifactInventory[]): ArtifactInventory {
+  const merged = emptyInventory();
+  for (const inventory of inventories) {
+    merged.components.push(...inventory.components);
+    merged.exposures.push(...inventory.exposures);
+    merged.identities.push(...inventory.identities);
+    merged.trust_boundaries.push(...inventory.trust_boundaries);
+    merged.notes.push(...inventory.notes);
+  }
+  return merged;
+}
+
+export function ingestArtifacts(sources: ArtifactSource[]): IngestResult {
+  const artifacts = sources.filter((source) => source.content.trim().length > 0).map(parseArtifact);
+  return { artifacts, inventory: mergeInventories(artifacts.map((artifact) => artifact.inventory)) };
+}
+
+export const CONFIG_SNIPPET_SOURCE = "config snippet";
+
+export function ingestAnalysisInput(input: Pick<AnalysisInput, "artifacts" | "snippets">): IngestResult {
+  const result = ingestArtifacts([
+    ...(input.artifacts ?? []),
+    { name: CONFIG_SNIPPET_SOURCE, content: input.snippets?.config ?? "" }
+  ]);
+  const artifacts = result.artifacts.filter((artifact) => artifact.name !== CONFIG_SNIPPET_SOURCE || artifact.kind !== "unknown");
+  return { artifacts, inventory: mergeInventories(artifacts.map((artifact) => artifact.inventory)) };
+}
+
+export function inventoryIsEmpty(inventory: ArtifactInventory) {
+  return (
+    inventory.components.length +
+      inventory.exposures.length +
+      inventory.identities.length +
+      inventory.trust_boundaries.length +
+      inventory.notes.length ===
+    0
+  );
+}
+
+export function formatInventory(inventory: ArtifactInventory) {
+  const lines: string[] = [];
+  const section = (title: string, items: string[]) => {
+    if (items.length > 0) {
+      lines.push(`${title}:`, ...items.map((item) => `- ${item}`));
+    }
+  };
+
+  section(
+    "components",
+    inventory.components.map((component) => `${component.name} [${component.kind}] (${component.source})`)
+  );
+  section(
+    "exposures",
+    inventory.exposures.map(
+      (exposure) => `${exposure.target}: ${exposure.detail}${exposure.public ? " [PUBLIC]" : ""} (${exposure.source})`
+    )
+  );
+  section(
+    "identities",
+    inventory.identities.map(
+      (identity) =>
+        `${identity.name}: ${identity.permissions.join(", ") || "no inline permissions"}${identity.broad ? " [BROAD]" : ""} (${identity.source})`
+    )
+  );
+  section(
+    "trust_boundaries",
+    inventory.trust_boundaries.map((boundary) => `${boundary.name}: ${boundary.detail} (${boundary.source})`)
+  );
+  section("notes", inventory.notes);
+
+  return lines.join("\n");
+}
@@ -0,0 +1,130 @@
+import { emptyInventory, type ArtifactInventory } from "./types";
+
+type Manifest = {
+  apiVersion?: string;
+  kind?: string;
+  metadata?: { name?: string; namespace?: string };
+  spec?: Record<string, any>;
+  rules?: Array<{ verbs?: string[]; resources?: string[]; apiGroups?: string[] }>;
+  roleRef?: { kind?: string; name?: string };
+  subjects?: Array<{ kind?: string; name?: string; namespace?: string }>;
+};
+
+const WORKLOAD_KINDS = ["Deployment", "StatefulSet", "DaemonSet", "ReplicaSet", "Pod", "Job", "CronJob"];
+
+export function isKubernetesManifest(value: unknown): value is Manifest {
+  return typeof value === "object" && value !== null && "apiVersion" in value && "kind" in value;
+}
+
+function podSpec(manifest: Manifest): Record<string, any> | undefined {
+  if (manifest.kind === "Pod") {
+    return manifest.spec;
+  }
+  if (manifest.kind === "CronJob") {
+    return manifest.spec?.jobTemplate?.spec?.template?.spec;
+  }
+  return manifest.spec?.template?.spec;
+}
+
+export function parseKubernetesManifests(manifests: Manifest[], source: string): ArtifactInventory {
+  const inventory = emptyInventory();
+  const namespaces = new Set<string>();
+
+  for (const manifest of manifests) {
+    const name = manifest.metadata?.name ?? "unnamed";
+    const namespace = manifest.metadata?.namespace ?? "default";
+    const qualified = `${namespace}/${name}`;
+    namespaces.add(namespace);
+
+    if (manifest.kind && WORKLOAD_KINDS.includes(manifest.kind)) {
+      const spec = podSpec(manifest) ?? {};
+      const containers: Array<Record<string, any>> = spec.containers ?? [];
+      inventory.components.push({
+        name: qualified,
+        kind: `${manifest.kind} (${containers.map((container) => container.image).filter(Boolean).join(", ") || "no image"})`,
+        source
+      });
+      if (spec.serviceAccountName) {
+        inventory.notes.push(`${qualified} runs as service account ${namespace}/${spec.serviceAccountName}.`);
+      }
+      if (spec.hostNetwork) {
+        inventory.notes.push(`${qualified} uses hostNetwork.`);
+      }
+      for (const container of containers) {
+        if (container.securityContext?.privileged) {
+          inventory.notes.push(`${qualified} container ${container.name ?? "unnamed"} is privileged.`);
+        }
+        if (container.securityContext?.runAsNonRoot === false || container.securityContext?.runAsUser === 0) {
+          inventory.notes.push(`${qualified} container ${container.name ?? "unnamed"} runs as root.`);
+        }
+      }
+    }
+
+    switch (manifest.kind) {
+      case "Service": {
+        const type = manifest.spec?.type ?? "ClusterIP";
+        const ports = (manifest.spec?.ports ?? []).map((port: any) => port.port).join(", ");
+        inventory.components.push({ name: qualified, kind: `Service (${type})`, source });
+        inventory.exposures.push({
+          target: qualified,
+          detail: `Service ${type} on port(s) ${ports || "unspecified"}`,
+          public: type === "LoadBalancer" || type === "NodePort",
+          source
+        });
+        break;
+      }
+      case "Ingress": {
+        for (const rule of manifest.spec?.rules ?? []) {
+          for (const path of rule.http?.paths ?? []) {
+            const backend = path.backend?.service?.name ?? path.backend?.serviceName ?? "unknown";
+            inventory.exposures.push({
+              target: `${namespace}/${backend}`,
+              detail: `Ingress ${name} routes ${rule.host ?? "*"}${path.path ?? "/"}`,
+              public: true,
+              source
+            });
+          }
+        }
+        inventory.trust_boundaries.push({ name: `Internet to ${namespace}`, detail: `Ingress ${name}`, source });
+        break;
+      }
+      case "ServiceAccount":
+        inventory.identities.push({ name: `ServiceAccount ${qualified}`, permissions: [], broad: false, source });
+        break;
+      case "Role":
+      case "ClusterRole": {
+        const permissions = (manifest.rules ?? []).map(
+          (rule) => `${(rule.verbs ?? []).join(",")} ${(rule.resources ?? []).join(",")}`
+        );
+        const broad = (manifest.rules ?? []).some(
+          (rule) => rule.verbs?.includes("*") || rule.resources?.includes("*") || rule.resources?.includes("secrets")
+        );
+        inventory.identities.push({
+          name: `${manifest.kind} ${manifest.kind === "ClusterRole" ? name : qualified}`,
+          permissions,
+          broad,
+          source
+        });
+        break;
+      }
+      case "RoleBinding":
+      case "ClusterRoleBinding": {
+        const subjects = (manifest.subjects ?? []).map((subject) => `${subject.kind} ${subject.namespace ?? namespace}/${subject.name}`);
+        inventory.notes.push(`${manifest.kind} ${name} grants ${manifest.roleRef?.kind} ${manifest.roleRef?.name} to ${subjects.join(", ")}.`);
+        if (manifest.kind === "ClusterRoleBinding") {
+          inventory.trust_boundaries.push({ name: "Cluster-wide RBAC", detail: `ClusterRoleBinding ${name}`, source });
+        }
+        break;
+      }
+      case "NetworkPolicy":
+        inventory.trust_boundaries.push({ name: `NetworkPolicy ${qualified}`, detail: "Restricts pod traffic", source });
+        break;
+    }
+  }
+
+  for (const namespace of namespaces) {
+    inventory.trust_boundaries.push({ name: `Namespace ${namespace}`, detail: "Kubernetes namespace", source });
+  }
+
+  return inventory;
+}
@@ -0,0 +1,139 @@
+import { emptyInventory, type ArtifactInventory } from "./types";
+
+type Directive = {
+  name: string;
+  args: string[];
+  block?: Directive[];
+};
+
+export function looksLikeNginxConfig(text: string) {
+  return /(^|\n)\s*(server|http|upstream)\s*\{/.test(text) || /\bproxy_pass\s+\S+;/.test(text);
+}
+
+function tokenize(text: string) {
+  const tokens: string[] = [];
+  const pattern = /#[^\n]*|"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|[{};]|[^\s{};"'#]+/g;
+  for (const match of text.matchAll(pattern)) {
+    const token = match[0];
+    if (token.startsWith("#")) {
+      continue;
+    }
+    tokens.push(token.replace(/^["'](.*)["']$/s, "$1"));
+  }
+  return tokens;
+}
+
+function parseBlock(tokens: string[], position: { index: number }): Directive[] {
+  const directives: Directive[] = [];
+  let words: string[] = [];
+
+  while (position.index < tokens.length) {
+    const token = tokens[position.index++];
+    if (token === "}") {
+      break;
+    }
+    if (token === ";") {
+      if (words.length > 0) {
+        directives.push({ name: words[0], args: words.slice(1) });
+      }
+      words = [];
+    } else if (token === "{") {
+      directives.push({ name: words[0] ?? "", args: words.slice(1), block: parseBlock(tokens, position) });
+      words = [];
+    } else {
+      words.push(token);
+    }
+  }
+
+  return directives;
+}
+
+export function parseNginxDirectives(text: string) {
+  return parseBlock(tokenize(text), { index: 0 });
+}
+
+function walk(directives: Directive[], visit: (directive: Directive) => void) {
+  for (const directive of directives) {
+    visit(directive);
+    if (directive.block) {
+      walk(directive.block, visit);
+    }
+  }
+}
+
+function values(block: Directive[] | undefined, name: string) {
+  return (block ?? []).filter((directive) => directive.name === name).map((directive) => directive.args);
+}
+
+function isLocalListen(address: string) {
+  return /^(127\.0\.0\.1|localhost|\[::1\])(:|$)/.test(address) || address.startsWith("unix:");
+}
+
+export function parseNginxConfig(text: string, source: string): ArtifactInventory {
+  const inventory = emptyInventory();
+  const upstreams = new Set<string>();
+
+  walk(parseNginxDirectives(text), (directive) => {
+    if (directive.name === "upstream" && directive.args[0]) {
+      upstreams.add(directive.args[0]);
+      const servers = values(directive.block, "server").map((args) => args[0]);
+      inventory.components.push({
+        name: directive.args[0],
+        kind: `Upstream (${servers.join(", ") || "no servers"})`,
+        source
+      });
+      return;
+    }
+
+    if (directive.name !== "server" || !directive.block) {
+      return;
+    }
+
+    const names = values(directive.block, "server_name").flat();
+    const serverName = names.join(" ") || "default server";
+    const listens = values(directive.block, "listen");
+    for (const args of listens.length > 0 ? listens : [["80"]]) {
+      const address = args[0];
+      const tls = args.includes("ssl") || args.includes("http2") || args.includes("quic");
+      inventory.exposures.push({
+        target: serverName,
+        detail: `Listens on ${address}${tls ? " (TLS)" : ""}`,
+        public: !isLocalListen(address),
+        source
+      });
+    }
+
+    walk(directive.block, (inner) => {
+      if (inner.name === "proxy_pass" || inner.name === "fastcgi_pass" || inner.name === "grpc_pass") {
+        const target = inner.args[0] ?? "";
+        const host = target.replace(/^[a-z]+:\/\//, "").split("/")[0];
+        if (!upstreams.has(host)) {
+          inventory.components.push({ name: host, kind: `Backend behind ${serverName}`, source });
+        }
+      }
+      if (inner.name === "location" && inner.block) {
+        const path = inner.args.join(" ");
+        const rules = [...values(inner.block, "allow"), ...values(inner.block, "deny")];
+        if (rules.length > 0 || values(inner.block, "auth_basic").length > 0 || values(inner.block, "auth_request").length > 0) {
+          inventory.trust_boundaries.push({
+            name: `${serverName} ${path}`,
+            detail: [
+              ...values(inner.block, "allow").map((args) => `allow ${args[0]}`),
+              ...values(inner.block, "deny").map((args) => `deny ${args[0]}`),
+              ...(values(inner.block, "auth_basic").length > 0 || values(inner.block, "auth_request").length > 0
+                ? ["authentication required"]
+                : [])
+            ].join(", "),
+            source
+          });
+        }
+      }
+    });
+
+    if (listens.some((args) => args[0] === "80" || args[0].endsWith(":80")) && values(directive.block, "return").length === 0) {
+      inventory.notes.push(`${serverName} serves plain HTTP without a redirect.`);
+    }
+  });
+
+  return inventory;
+}
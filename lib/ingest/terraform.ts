@@ -0,0 +1,148 @@
+import { parseIamPolicy } from "./iam";
+import { emptyInventory, type ArtifactInventory } from "./types";
+
+type PlannedResource = {
+  address: string;
+  type: string;
+  name: string;
+  values: Record<string, any>;
+};
+
+type TerraformPlan = {
+  format_version?: string;
+  resource_changes?: Array<{ address: string; type: string; name: string; change?: { actions?: string[]; after?: Record<string, any> | null } }>;
+  planned_values?: { root_module?: TerraformModule };
+};
+
+type TerraformModule = {
+  resources?: Array<{ address: string; type: string; name: string; values?: Record<string, any> }>;
+  child_modules?: TerraformModule[];
+};
+
+const PUBLIC_CIDRS = ["0.0.0.0/0", "::/0"];
+
+export function isTerraformPlan(value: unknown): value is TerraformPlan {
+  return typeof value === "object" && value !== null && ("resource_changes" in value || "planned_values" in value);
+}
+
+function moduleResources(module: TerraformModule | undefined): PlannedResource[] {
+  if (!module) {
+    return [];
+  }
+  return [
+    ...(module.resources ?? []).map((resource) => ({ ...resource, values: resource.values ?? {} })),
+    ...(module.child_modules ?? []).flatMap(moduleResources)
+  ];
+}
+
+function plannedResources(plan: TerraformPlan): PlannedResource[] {
+  if (plan.resource_changes) {
+    return plan.resource_changes
+      .filter((change) => !change.change?.actions?.every((action) => action === "delete"))
+      .map((change) => ({ address: change.address, type: change.type, name: change.name, values: change.change?.after ?? {} }));
+  }
+  return moduleResources(plan.planned_values?.root_module);
+}
+
+function parsePolicyDocument(document: unknown) {
+  if (typeof document !== "string") {
+    return document;
+  }
+  try {
+    return JSON.parse(document);
+  } catch {
+    return null;
+  }
+}
+
+function ingressRules(resource: PlannedResource): Array<Record<string, any>> {
+  if (resource.type === "aws_security_group") {
+    return resource.values.ingress ?? [];
+  }
+  if (resource.type === "aws_security_group_rule" && resource.values.type === "ingress") {
+    return [resource.values];
+  }
+  if (resource.type === "aws_vpc_security_group_ingress_rule") {
+    return [{ ...resource.values, cidr_blocks: [resource.values.cidr_ipv4, resource.values.cidr_ipv6].filter(Boolean) }];
+  }
+  return [];
+}
+
+export function parseTerraformPlan(plan: TerraformPlan, source: string): ArtifactInventory {
+  const inventory = emptyInventory();
+
+  for (const resource of plannedResources(plan)) {
+    const { address, type, values } = resource;
+
+    if (type.includes("iam_policy") || type === "aws_iam_role_policy") {
+      const policy = parseIamPolicy(parsePolicyDocument(values.policy), source, address);
+      inventory.identities.push(...policy.identities);
+      inventory.exposures.push(...policy.exposures);
+      inventory.notes.push(...policy.notes);
+      continue;
+    }
+    if (type === "aws_iam_role" || type === "aws_iam_user" || type === "google_service_account") {
+      inventory.identities.push({ name: address, permissions: [], broad: false, source });
+      continue;
+    }
+    if (type === "aws_iam_role_policy_attachment" || type === "aws_iam_user_policy_attachment") {
+      const policyArn = String(values.policy_arn ?? "");
+      inventory.notes.push(`${address} attaches ${policyArn || "a policy"} to ${values.role ?? values.user ?? "an identity"}.`);
+      if (/AdministratorAccess|FullAccess/.test(policyArn)) {
+        inventory.identities.push({ name: String(values.role ?? values.user ?? address), permissions: [policyArn], broad: true, source });
+      }
+      continue;
+    }
+    if (type === "aws_vpc" || type === "aws_subnet" || type === "google_compute_network") {
+      const isPublic = values.map_public_ip_on_launch === true;
+      inventory.trust_boundaries.push({
+        name: address,
+        detail: `${type}${values.cidr_block ? ` ${values.cidr_block}` : ""}${isPublic ? " (public subnet)" : ""}`,
+        source
+      });
+      continue;
+    }
+
+    const rules = ingressRules(resource);
+    if (rules.length > 0) {
+      inventory.trust_boundaries.push({ name: address, detail: "Security group", source });
+      for (const rule of rules) {
+        const cidrs: string[] = [...(rule.cidr_blocks ?? []), ...(rule.ipv6_cidr_blocks ?? [])];
+        const ports = rule.from_port === rule.to_port ? `${rule.from_port}` : `${rule.from_port}-${rule.to_port}`;
+        inventory.exposures.push({
+          target: address,
+          detail: `Ingress ${rule.protocol ?? rule.ip_protocol ?? "tcp"} ${ports} from ${cidrs.join(", ") || "referenced groups"}`,
+          public: cidrs.some((cidr) => PUBLIC_CIDRS.includes(cidr)),
+          source
+        });
+      }
+      continue;
+    }
+
+    inventory.components.push({ name: address, kind: type, source });
+
+    if ((type === "aws_lb" || type === "aws_alb" || type === "aws_elb") && values.internal === false) {
+      inventory.exposures.push({ target: address, detail: "Internet-facing load balancer", public: true, source });
+    }
+    if (type === "aws_db_instance" && values.publicly_accessible === true) {
+      inventory.exposures.push({ target: address, detail: "Database is publicly accessible", public: true, source });
+    }
+    if (type === "aws_instance" && values.associate_public_ip_address === true) {
+      inventory.exposures.push({ target: address, detail: "Instance has a public IP", public: true, source });
+    }
+    if (type === "aws_s3_bucket_public_access_block") {
+      const open = ["block_public_acls", "block_public_policy", "ignore_public_acls", "restrict_public_buckets"].filter(
+        (key) => values[key] === false
+      );
+      if (open.length > 0) {
+        inventory.exposures.push({ target: String(values.bucket ?? address), detail: `Public access not blocked (${open.join(", ")})`, public: true, source });
+      }
+    }
+    if (type === "aws_s3_bucket_policy") {
+      const policy = parseIamPolicy(parsePolicyDocument(values.policy), source, address);
+      inventory.exposures.push(...policy.exposures);
+    }
+  }
+
+  return inventory;
+}
@@ -0,0 +1,56 @@
+export type ArtifactKind = "kubernetes" | "terraform-plan" | "iam-policy" | "docker-compose" | "nginx" | "unknown";
+
+export type ArtifactSource = {
+  name: string;
+  content: string;
+};
+
+export type InventoryComponent = {
+  name: string;
+  kind: string;
+  source: string;
+};
+
+export type InventoryExposure = {
+  target: string;
+  detail: string;
+  public: boolean;
+  source: string;
+};
+
+export type InventoryIdentity = {
+  name: string;
+  permissions: string[];
+  broad: boolean;
+  source: string;
+};
+
+export type InventoryBoundary = {
+  name: string;
+  detail: string;
+  source: string;
+};
+
+export type ArtifactInventory = {
+  components: InventoryComponent[];
+  exposures: InventoryExposure[];
+  identities: InventoryIdentity[];
+  trust_boundaries: InventoryBoundary[];
+  notes: string[];
+};
+
+export type ParsedArtifact = {
+  name: string;
+  kind: ArtifactKind;
+  inventory: ArtifactInventory;
+  error?: string;
+};
+
+export type IngestResult = {
+  artifacts: ParsedArtifact[];
+  inventory: ArtifactInventory;
+};
+
+export function emptyInventory(): ArtifactInventory {
+  return { components: [], exposures: [], identities: [], trust_boundaries: [], notes: [] };
+}
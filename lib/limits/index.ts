@@ -0,0 +1,228 @@
+import type { GenerateRequest, LlmProvider } from "../llm/provider";
+import { createFileCounterStore, createMemoryCounterStore, type CounterStore } from "./store";
+
+export type { CounterStore } from "./store";
+
+export type LimitConfig = {
+  requestsPerMinute: number;
+  dailyRequests: number;
+  dailyTokens: number;
+  store: "memory" | "file";
+};
+
+export type TokenUsage = {
+  prompt_tokens: number;
+  output_tokens: number;
+};
+
+export type LimitScope = "rate" | "daily_requests" | "daily_tokens" | "sign_in";
+
+const MINUTE_MS = 60_000;
+const SIGN_IN_PER_MINUTE = 10;
+const MAX_FAILED_SIGN_INS = 5;
+const FAILED_SIGN_IN_WINDOW_MS = 15 * MINUTE_MS;
+const MAX_SIGN_IN_DELAY_SECONDS = 60;
+const CHARS_PER_TOKEN = 4;
+
+export class LimitExceededError extends Error {
+  scope: LimitScope;
+  retryAfterSeconds: number;
+
+  constructor(scope: LimitScope, message: string, retryAfterSeconds: number) {
+    super(message);
+    this.name = "LimitExceededError";
+    this.scope = scope;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+function nonNegative(value: string | undefined, fallback: number) {
+  const parsed = Number(value);
+  return value !== undefined && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+export function getLimitConfig(env: NodeJS.ProcessEnv = process.env): LimitConfig {
+  return {
+    requestsPerMinute: nonNegative(env.RATE_LIMIT_PER_MINUTE, 20),
+    dailyRequests: nonNegative(env.DAILY_REQUEST_BUDGET, 0),
+    dailyTokens: nonNegative(env.DAILY_TOKEN_BUDGET, 0),
+    store: env.RATE_LIMIT_STORE === "file" ? "file" : "memory"
+  };
+}
+
+const stores: Partial<Record<LimitConfig["store"], CounterStore>> = {};
+
+export function getCounterStore(config: LimitConfig = getLimitConfig()) {
+  stores[config.store] ??= config.store === "file" ? createFileCounterStore() : createMemoryCounterStore();
+  return stores[config.store] as CounterStore;
+}
+
+function dayWindow(now: number) {
+  const date = new Date(now).toISOString().slice(0, 10);
+  const endOfDay = Date.parse(`${date}T00:00:00.000Z`) + 24 * 60 * MINUTE_MS;
+  return { date, remainingMs: endOfDay - now };
+}
+
+export async function enforceLimits(
+  clientId: string,
+  config: LimitConfig = getLimitConfig(),
+  store: CounterStore = getCounterStore(config),
+  units = 1
+) {
+  const now = Date.now();
+  const { date, remainingMs } = dayWindow(now);
+  const needs = units > 1 ? ` (this request needs ${units})` : "";
+  const untilTomorrow = Math.ceil(remainingMs / 1000);
+
+  if (config.dailyTokens > 0 && (await store.get(`usage:${date}:tokens`)) >= config.dailyTokens) {
+    throw new LimitExceededError("daily_tokens", "Daily model token budget exhausted.", untilTomorrow);
+  }
+
+  if (config.dailyRequests > 0 && (await store.get(`usage:${date}:requests`)) + units > config.dailyRequests) {
+    throw new LimitExceededError("daily_requests", `Daily analysis request budget exhausted${needs}.`, untilTomorrow);
+  }
+
+  if (config.requestsPerMinute > 0) {
+    const bucket = Math.floor(now / MINUTE_MS);
+    const key = `rate:${clientId}:${bucket}`;
+    const count = await store.increment(key, units, MINUTE_MS);
+    if (count > config.requestsPerMinute) {
+      await store.increment(key, -units, MINUTE_MS);
+      const retryAfter = Math.ceil(((bucket + 1) * MINUTE_MS - now) / 1000);
+      throw new LimitExceededError(
+        "rate",
+        `Rate limit of ${config.requestsPerMinute} requests per minute exceeded${needs}.`,
+        retryAfter
+      );
+    }
+  }
+
+  await store.increment(`usage:${date}:requests`, units, remainingMs);
+}
+
+function accountKey(account: string) {
+  return account.trim().toLowerCase();
+}
+
+function signInDelaySeconds(failures: number) {
+  return Math.min(2 ** (failures - MAX_FAILED_SIGN_INS), MAX_SIGN_IN_DELAY_SECONDS);
+}
+
+export async function enforceSignInLimits(
+  clientId: string,
+  account: string | null,
+  store: CounterStore = getCounterStore()
+) {
+  const now = Date.now();
+  const bucket = Math.floor(now / MINUTE_MS);
+  if ((await store.increment(`signin-rate:${clientId}:${bucket}`, 1, MINUTE_MS)) > SIGN_IN_PER_MINUTE) {
+    const retryAfter = Math.ceil(((bucket + 1) * MINUTE_MS - now) / 1000);
+    throw new LimitExceededError(
+      "rate",
+      `Sign-in limit of ${SIGN_IN_PER_MINUTE} requests per minute exceeded.`,
+      retryAfter
+    );
+  }
+  if (!account) {
+    return;
+  }
+  const key = accountKey(account);
+  if ((await store.get(`signin-failed:${key}:${clientId}`)) >= MAX_FAILED_SIGN_INS) {
+    throw new LimitExceededError(
+      "sign_in",
+      "Too many failed sign-in attempts for this account from this client.",
+      FAILED_SIGN_IN_WINDOW_MS / 1000
+    );
+  }
+  if ((await store.get(`signin-wait:${key}`)) > 0) {
+    throw new LimitExceededError(
+      "sign_in",
+      "Sign-in for this account is delayed after repeated failed attempts.",
+      signInDelaySeconds(await store.get(`signin-failed:${key}`))
+    );
+  }
+}
+
+export async function recordSignInResult(
+  clientId: string,
+  account: string,
+  succeeded: boolean,
+  store: CounterStore = getCounterStore()
+) {
+  const key = accountKey(account);
+  const keys = [`signin-failed:${key}:${clientId}`, `signin-failed:${key}`];
+  if (!succeeded) {
+    await Promise.all(keys.map((counter) => store.increment(counter, 1, FAILED_SIGN_IN_WINDOW_MS)));
+    const failures = await store.get(`signin-failed:${key}`);
+    if (failures >= MAX_FAILED_SIGN_INS) {
+      await store.increment(`signin-wait:${key}`, 1, signInDelaySeconds(failures) * 1000);
+    }
+    return;
+  }
+  for (const counter of keys) {
+    const failures = await store.get(counter);
+    if (failures > 0) {
+      await store.increment(counter, -failures, FAILED_SIGN_IN_WINDOW_MS);
+    }
+  }
+}
+
+export async function getDailyUsage(
+  config: LimitConfig = getLimitConfig(),
+  store: CounterStore = getCounterStore(config)
+) {
+  const { date } = dayWindow(Date.now());
+  return {
+    date,
+    requests: await store.get(`usage:${date}:requests`),
+    tokens: await store.get(`usage:${date}:tokens`)
+  };
+}
+
+export function estimateTokens(text: string) {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export async function recordTokenUsage(
+  tokens: number,
+  config: LimitConfig = getLimitConfig(),
+  store: CounterStore = getCounterStore(config)
+) {
+  const { date, remainingMs } = dayWindow(Date.now());
+  await store.increment(`usage:${date}:tokens`, tokens, remainingMs);
+}
+
+function promptTokens(request: GenerateRequest) {
+  return estimateTokens(request.messages.map((message) => message.text).join("\n"));
+}
+
+export function createMeteredProvider(
+  provider: LlmProvider,
+  record: (tokens: number, usage: TokenUsage) => Promise<void>
+): LlmProvider {
+  const track = (request: GenerateRequest, output: string) => {
+    const usage = { prompt_tokens: promptTokens(request), output_tokens: estimateTokens(output) };
+    record(usage.prompt_tokens + usage.output_tokens, usage).catch(() => undefined);
+  };
+
+  return {
+    name: provider.name,
+    model: provider.model,
+    async generate(request) {
+      const text = await provider.generate(request);
+      track(request, text);
+      return text;
+    },
+    async *stream(request) {
+      let output = "";
+      try {
+        for await (const chunk of provider.stream(request)) {
+          output += chunk;
+          yield chunk;
+        }
+      } finally {
+        track(request, output);
+      }
+    }
+  };
+}
@@ -0,0 +1,60 @@
+import { dataPath, readJsonFile, updateJsonFile, withFileLock } from "../store/files";
+
+export type CounterStore = {
+  increment(key: string, amount: number, ttlMs: number): Promise<number>;
+  get(key: string): Promise<number>;
+};
+
+type Counter = {
+  value: number;
+  expires_at: number;
+};
+
+function liveValue(counter: Counter | undefined, now: number) {
+  return counter && counter.expires_at > now ? counter.value : 0;
+}
+
+export function createMemoryCounterStore(): CounterStore {
+  const counters = new Map<string, Counter>();
+
+  return {
+    async increment(key, amount, ttlMs) {
+      const now = Date.now();
+      for (const [existingKey, counter] of counters) {
+        if (counter.expires_at <= now) {
+          counters.delete(existingKey);
+        }
+      }
+      const current = counters.get(key);
+      const next: Counter = current
+        ? { ...current, value: current.value + amount }
+        : { value: amount, expires_at: now + ttlMs };
+      counters.set(key, next);
+      return next.value;
+    },
+    async get(key) {
+      return liveValue(counters.get(key), Date.now());
+    }
+  };
+}
+
+export function createFileCounterStore(filePath = dataPath("limits.json")): CounterStore {
+  return {
+    async increment(key, amount, ttlMs) {
+      const now = Date.now();
+      const counters = await updateJsonFile<Record<string, Counter>>(filePath, {}, (current) => {
+        const live = Object.fromEntries(Object.entries(current).filter(([, counter]) => counter.expires_at > now));
+        const existing = live[key];
+        live[key] = existing
+          ? { ...existing, value: existing.value + amount }
+          : { value: amount, expires_at: now + ttlMs };
+        return live;
+      });
+      return counters[key].value;
+    },
+    async get(key) {
+      const counters = await withFileLock(filePath, () => readJsonFile<Record<string, Counter>>(filePath, {}));
+      return liveValue(counters[key], Date.now());
+    }
+  };
+}
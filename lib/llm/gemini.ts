@@ -0,0 +1,69 @@
+import type { ChatMessage, GenerateRequest, LlmProvider } from "./provider";
+import { readServerSentData } from "./sse";
+
+type GeminiResponse = {
+  candidates?: Array<{
+    content?: {
+      parts?: Array<{ text?: string }>;
+    };
+  }>;
+};
+
+function toContents(messages: ChatMessage[]) {
+  return messages.map((message) => ({
+    role: message.role === "assistant" ? "model" : message.role,
+    parts: [{ text: message.text }]
+  }));
+}
+
+function extractText(response: GeminiResponse) {
+  return response.candidates?.[0]?.content?.parts?.map((part) => part.text ?? "").join("") ?? "";
+}
+
+export function createGeminiProvider({ apiKey, model }: { apiKey: string; model: string }): LlmProvider {
+  const request = async (method: string, { messages, temperature, maxOutputTokens, signal }: GenerateRequest) => {
+    const query = method === "streamGenerateContent" ? `alt=sse&key=${apiKey}` : `key=${apiKey}`;
+    const response = await fetch(
+      `https://generativelanguage.googleapis.com/v1beta/models/${model}:${method}?${query}`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({
+          contents: toContents(messages),
+          generationConfig: {
+            temperature,
+            maxOutputTokens
+          }
+        }),
+        signal
+      }
+    );
+
+    if (!response.ok) {
+      const details = await response.text();
+      throw new Error(`Gemini API error: ${response.status} ${details}`);
+    }
+
+    return response;
+  };
+
+  return {
+    name: "gemini",
+    model,
+    async generate(options: GenerateRequest) {
+      const response = await request("generateContent", options);
+      return extractText((await response.json()) as GeminiResponse).trim();
+    },
+    async *stream(options: GenerateRequest) {
+      const response = await request("streamGenerateContent", options);
+      for await (const data of readServerSentData(response)) {
+        const text = extractText(JSON.parse(data) as GeminiResponse);
+        if (text) {
+          yield text;
+        }
+      }
+    }
+  };
+}
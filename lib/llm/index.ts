@@ -0,0 +1,46 @@
+import { createGeminiProvider } from "./gemini";
+import { createMockProvider } from "./mock";
+import { dataPath } from "../store/files";
+import { createOpenAiProvider } from "./openai";
+import { ProviderConfigError, type LlmProvider } from "./provider";
+import { createRecordedProvider } from "./recorded";
+
+export { ProviderConfigError } from "./provider";
+export type { ChatMessage, GenerationOptions, LlmProvider } from "./provider";
+
+export function getProvider(env: NodeJS.ProcessEnv = process.env): LlmProvider {
+  const providerName = (env.LLM_PROVIDER ?? "gemini").toLowerCase();
+
+  switch (providerName) {
+    case "gemini": {
+      if (!env.GEMINI_API_KEY) {
+        throw new ProviderConfigError("Missing GEMINI_API_KEY environment variable.");
+      }
+      return createGeminiProvider({ apiKey: env.GEMINI_API_KEY, model: env.GEMINI_MODEL ?? "gemini-3" });
+    }
+    case "openai": {
+      if (!env.OPENAI_API_KEY) {
+        throw new ProviderConfigError("Missing OPENAI_API_KEY environment variable.");
+      }
+      return createOpenAiProvider({
+        apiKey: env.OPENAI_API_KEY,
+        model: env.OPENAI_MODEL ?? "gpt-4o-mini",
+        baseUrl: env.OPENAI_BASE_URL ?? "https://api.openai.com/v1"
+      });
+    }
+    case "mock":
+      return createMockProvider({ model: env.MOCK_MODEL ?? "mock-canned" });
+    case "recorded": {
+      const upstreamName = env.RECORD_UPSTREAM?.toLowerCase();
+      if (upstreamName === "recorded") {
+        throw new ProviderConfigError("RECORD_UPSTREAM cannot be recorded.");
+      }
+      return createRecordedProvider({
+        dir: env.RECORDINGS_DIR ?? dataPath("recordings"),
+        upstream: upstreamName ? getProvider({ ...env, LLM_PROVIDER: upstreamName }) : undefined
+      });
+    }
+    default:
+      throw new ProviderConfigError(`Unknown LLM_PROVIDER "${providerName}". Use gemini, openai, mock, or recorded.`);
+  }
+}
@@ -0,0 +1,273 @@
+import YAML from "yaml";
+import type { AnalysisResponse, Level, WhatIfAttribution } from "../analysis/schema";
+import { genericAnalysis, webAppAnalysis } from "./mockAnalyses";
+import type { GenerateRequest, LlmProvider } from "./provider";
+
+const cannedAnalyses: Array<{ match: RegExp; analysis: AnalysisResponse }> = [
+  { match: /admin (panel|login)/i, analysis: webAppAnalysis }
+];
+
+const whatIfRules: Array<{ match: RegExp; pathMatch: RegExp; risk: Level; note: string }> = [
+  {
+    match: /\bmfa\b/i,
+    pathMatch: /admin|credential/i,
+    risk: "low",
+    note: "MFA removes password guessing as a viable entry."
+  },
+  {
+    match: /patched|rate limit/i,
+    pathMatch: /api|exposed/i,
+    risk: "low",
+    note: "Patching and rate limiting shrink the exposed API surface."
+  },
+  {
+    match: /internal (network )?access/i,
+    pathMatch: /.*/,
+    risk: "high",
+    note: "Internal access bypasses the internet trust boundary."
+  }
+];
+
+function readSection(prompt: string, name: string) {
+  const match = prompt.match(new RegExp(`(?:^|\\n)${name}:\\n([\\s\\S]*?)(?:\\n\\n[a-z_]+:\\n|$)`));
+  return match?.[1]?.trim() ?? "";
+}
+
+function splitChanges(whatIf: string) {
+  const numbered = whatIf.split("\n").map((line) => line.match(/^\d+\.\s+(.*)$/)?.[1]);
+  return numbered.every(Boolean) ? (numbered as string[]) : [whatIf];
+}
+
+function applyWhatIf(analysis: AnalysisResponse, whatIf: string): AnalysisResponse {
+  const next: AnalysisResponse = JSON.parse(JSON.stringify(analysis));
+  const byChange: WhatIfAttribution[] = [];
+
+  for (const change of splitChanges(whatIf)) {
+    const deltas: string[] = [];
+    const updated: string[] = [];
+
+    for (const rule of whatIfRules) {
+      if (!rule.match.test(change)) {
+        continue;
+      }
+      deltas.push(rule.note);
+      for (const path of next.attack_paths) {
+        if (rule.pathMatch.test(`${path.name} ${path.entry_point}`) && path.overall_risk !== rule.risk) {
+          updated.push(`${path.name}: ${path.overall_risk} -> ${rule.risk}`);
+          path.overall_risk = rule.risk;
+        }
+      }
+    }
+
+    byChange.push({
+      change,
+      delta_summary: deltas.length > 0 ? deltas : ["No modeled effect for this change in the mock provider."],
+      updated_risks: updated
+    });
+  }
+
+  next.what_if = {
+    change: byChange.map((entry) => entry.change).join(" + "),
+    delta_summary: byChange.flatMap((entry) => entry.delta_summary),
+    updated_risks: byChange.flatMap((entry) => entry.updated_risks),
+    by_change: byChange.length > 1 ? byChange : []
+  };
+  return next;
+}
+
+const SECURITY_SIGNAL = /error|fail|denied|unauthori[sz]ed|forbidden|admin|auth|login|password|secret|token|key|root|sudo|public|0\.0\.0\.0|\*|privileged|exposed|port/i;
+const MAX_CONDENSED_FACTS = 40;
+
+function condenseExcerpt(excerpt: string) {
+  const counts = new Map<string, { line: string; count: number }>();
+  for (const raw of excerpt.split("\n")) {
+    const line = raw.replace(/^- /, "").replace(/ \(x\d+\)$/, "").trim();
+    if (!line || !SECURITY_SIGNAL.test(line)) {
+      continue;
+    }
+    const key = line.replace(/\d+/g, "#");
+    const entry = counts.get(key) ?? { line, count: 0 };
+    entry.count += Number(raw.match(/ \(x(\d+)\)$/)?.[1] ?? 1);
+    counts.set(key, entry);
+  }
+  return [...counts.values()]
+    .slice(0, MAX_CONDENSED_FACTS)
+    .map(({ line, count }) => `- ${line}${count > 1 ? ` (x${count})` : ""}`)
+    .join("\n");
+}
+
+function inventoryEntries(inventory: string, heading: string) {
+  const entries: string[] = [];
+  let current = "";
+  for (const line of inventory.split("\n")) {
+    const item = line.match(/^- (.*)$/)?.[1];
+    if (item === undefined) {
+      current = line.replace(/:$/, "");
+    } else if (current === heading) {
+      entries.push(item.replace(/\s*\([^)]*\)$/, "").replace(/\s*\[[^\]]*\]$/, ""));
+    }
+  }
+  return entries;
+}
+
+function modelNames(model: string, heading: string) {
+  return inventoryEntries(model, heading).map((entry) => entry.match(/"([^"]*)"/)?.[1] ?? entry);
+}
+
+function groundSummary(analysis: AnalysisResponse, components: string[], boundaries: string[]): AnalysisResponse {
+  if (components.length === 0 && boundaries.length === 0) {
+    return analysis;
+  }
+  const summary = analysis.system_summary;
+  return {
+    ...analysis,
+    system_summary: {
+      ...summary,
+      components: [...new Set([...components, ...summary.components])],
+      trust_boundaries: [...new Set([...boundaries, ...summary.trust_boundaries])]
+    }
+  };
+}
+
+const SIGNAL_STOPWORDS = new Set([
+  "from",
+  "with",
+  "per",
+  "and",
+  "the",
+  "new",
+  "unusual",
+  "unexpected",
+  "repeated"
+]);
+const MAX_RULE_TERMS = 3;
+
+function ruleLogsource(signal: string) {
+  if (/login|auth|credential|mfa|session|password/i.test(signal)) {
+    return { category: "authentication" };
+  }
+  if (/api|http|request|url|endpoint|error rate/i.test(signal)) {
+    return { category: "webserver" };
+  }
+  if (/storage|bucket|object/i.test(signal)) {
+    return { product: "cloud", service: "storage" };
+  }
+  return { category: "application" };
+}
+
+function draftSigmaRules(signals: string, attackPath: string) {
+  return signals
+    .split("\n")
+    .map((line) => line.replace(/^- /, "").trim())
+    .filter(Boolean)
+    .map((signal) => {
+      const terms = signal
+        .toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .filter((word) => word.length > 2 && !SIGNAL_STOPWORDS.has(word))
+        .map((word) => word.replace(/(ures|ure|ing|ed|es|s)$/, ""))
+        .slice(0, MAX_RULE_TERMS);
+      return YAML.stringify({
+        title: signal,
+        description: `Draft detection for "${attackPath}". Mock rule generated locally; tune before deploying.`,
+        logsource: ruleLogsource(signal),
+        detection: { selection: { "message|contains|all": terms }, condition: "selection" },
+        falsepositives: ["Legitimate administrative activity"],
+        level: "medium"
+      });
+    })
+    .join("---\n");
+}
+
+const WHAT_IF_QUESTION = /^what if\s+(.+?)\??$/i;
+
+function answerQuestion(question: string, analysisJson: string) {
+  const analysis = JSON.parse(analysisJson || "null") as AnalysisResponse | null;
+  const change = question.match(WHAT_IF_QUESTION)?.[1];
+  if (change) {
+    const notes = whatIfRules.filter((rule) => rule.match.test(change)).map((rule) => rule.note);
+    return JSON.stringify({
+      answer:
+        notes.length > 0
+          ? `${notes.join(" ")} Re-run it as a what-if to measure the effect on each path.`
+          : "The current analysis does not model this change. Re-run it as a what-if to see its effect.",
+      references: [],
+      what_if: `${change.charAt(0).toUpperCase()}${change.slice(1)}.`
+    });
+  }
+
+  const stepNumber = Number(question.match(/\bstep\s+(\d+)/i)?.[1]);
+  const paths = analysis?.attack_paths ?? [];
+  const named = paths.findIndex((path) => question.toLowerCase().includes(path.name.toLowerCase()));
+  const pathIndex = named >= 0 ? named : paths.findIndex((path) => path.steps.some((step) => step.step === stepNumber));
+  const stepIndex = pathIndex >= 0 ? paths[pathIndex].steps.findIndex((step) => step.step === stepNumber) : -1;
+  if (stepIndex >= 0) {
+    const path = paths[pathIndex];
+    const step = path.steps[stepIndex];
+    return JSON.stringify({
+      answer:
+        `Step ${step.step} of "${path.name}" (${step.action_high_level}) is plausible because ${step.why_plausible} ` +
+        `Defenders would see: ${step.defender_signals.join("; ")}.`,
+      references: [`attack_paths[${pathIndex}].steps[${stepIndex}]`],
+      what_if: null
+    });
+  }
+
+  const risk = analysis?.top_risks[0];
+  return JSON.stringify({
+    answer: risk
+      ? `The analysis does not cover that directly. Its highest-rated risk is "${risk.risk}": ${risk.why_it_matters}`
+      : "The analysis does not cover that question.",
+    references: risk ? ["top_risks[0]"] : [],
+    what_if: null
+  });
+}
+
+const STREAM_CHUNK_SIZE = 64;
+
+function respond({ messages }: GenerateRequest) {
+  const prompt = messages[messages.length - 1]?.text ?? "";
+  const excerpt = readSection(prompt, "excerpt");
+  if (excerpt) {
+    return condenseExcerpt(excerpt);
+  }
+  const signals = readSection(prompt, "defender_signals");
+  if (signals) {
+    return draftSigmaRules(signals, readSection(prompt, "attack_path"));
+  }
+  const question = readSection(prompt, "question");
+  if (question) {
+    return answerQuestion(question, readSection(messages.map((message) => message.text).join("\n\n"), "analysis"));
+  }
+  const model = readSection(prompt, "system_model");
+  const system = `${readSection(prompt, "system_text")}\n${model}`;
+  const whatIf = readSection(prompt, "what_if");
+  const base = cannedAnalyses.find((entry) => entry.match.test(system))?.analysis ?? genericAnalysis;
+  const inventory = readSection(prompt, "inventory");
+  const grounded = groundSummary(
+    base,
+    [...modelNames(model, "components"), ...modelNames(model, "data_stores"), ...inventoryEntries(inventory, "components")],
+    [...modelNames(model, "trust_zones"), ...inventoryEntries(inventory, "trust_boundaries")]
+  );
+  const analysis = whatIf && whatIf !== "NONE" ? applyWhatIf(grounded, whatIf) : grounded;
+  return JSON.stringify(analysis);
+}
+
+export function createMockProvider({ model }: { model: string }): LlmProvider {
+  return {
+    name: "mock",
+    model,
+    async generate(request: GenerateRequest) {
+      return respond(request);
+    },
+    async *stream(request: GenerateRequest) {
+      const text = respond(request);
+      for (let offset = 0; offset < text.length; offset += STREAM_CHUNK_SIZE) {
+        if (request.signal?.aborted) {
+          return;
+        }
+        yield text.slice(offset, offset + STREAM_CHUNK_SIZE);
+      }
+    }
+  };
+}
@@ -0,0 +1,151 @@
+import type { AnalysisResponse } from "../analysis/schema";
+
+export const webAppAnalysis: AnalysisResponse = {
+  system_summary: {
+    assets: ["Customer records in PostgreSQL", "Files in object storage", "Admin sessions"],
+    components: ["Browser", "Web app", "Admin panel", "REST API", "PostgreSQL", "Object storage", "Central logging"],
+    trust_boundaries: ["Internet to web app", "Web app to REST API", "REST API to data stores"],
+    assumptions: ["Admin panel is reachable from the internet through the web app."]
+  },
+  top_risks: [
+    {
+      risk: "Admin login without MFA or rate limiting",
+      why_it_matters: "Password guessing against support accounts can yield admin sessions.",
+      likelihood: "high",
+      impact: "high",
+      mapping: { tactics: ["TA0001", "TA0006"], techniques: ["T1110.001", "T1078"], cwes: ["CWE-307", "CWE-308"] }
+    },
+    {
+      risk: "Over-privileged storage service account",
+      why_it_matters: "Any foothold in the API inherits full access to storage buckets.",
+      likelihood: "medium",
+      impact: "high",
+      mapping: { tactics: ["TA0004"], techniques: ["T1078.004"], cwes: ["CWE-250", "CWE-269"] }
+    }
+  ],
+  attack_paths: [
+    {
+      name: "Admin takeover to data access",
+      entry_point: "Internet-facing admin login",
+      preconditions: ["Admin login is not rate-limited", "MFA is not enforced for admins"],
+      steps: [
+        {
+          step: 1,
+          action_high_level: "Attacker repeatedly attempts admin credentials.",
+          why_plausible: "Logs show repeated failed admin logins from one IP with no lockout.",
+          defender_signals: ["Repeated admin-login failures per user or IP"],
+          mitigations: ["Rate-limit admin login", "Enforce MFA for admins"],
+          mapping: { tactics: ["TA0006"], techniques: ["T1110.001"], cwes: ["CWE-307", "CWE-308"] }
+        },
+        {
+          step: 2,
+          action_high_level: "Attacker uses an admin session to reach customer data.",
+          why_plausible: "Admin panel exposes support tooling backed by the API.",
+          defender_signals: ["Admin session from a new IP or geography"],
+          mitigations: ["Restrict admin panel to trusted networks"],
+          mapping: { tactics: ["TA0001", "TA0009"], techniques: ["T1078", "T1213"], cwes: ["CWE-284"] }
+        }
+      ],
+      end_impact: "Customer data exposure",
+      overall_risk: "high"
+    },
+    {
+      name: "API foothold to storage",
+      entry_point: "Public REST API",
+      preconditions: ["A flaw in an API endpoint", "Service account has full storage access"],
+      steps: [
+        {
+          step: 1,
+          action_high_level: "Attacker gains limited execution within the API service.",
+          why_plausible: "The API is internet-facing and only some endpoints are rate-limited.",
+          defender_signals: ["Unusual API error rates", "Unexpected outbound connections"],
+          mitigations: ["Apply rate limiting to all endpoints", "Harden API input validation"],
+          mapping: { tactics: ["TA0001"], techniques: ["T1190"], cwes: ["CWE-20"] }
+        },
+        {
+          step: 2,
+          action_high_level: "Attacker uses the service account to list and read buckets.",
+          why_plausible: "service-account-01 has full access to storage buckets.",
+          defender_signals: ["Bulk object reads by service-account-01"],
+          mitigations: ["Scope the service account to required buckets only"],
+          mapping: { tactics: ["TA0009"], techniques: ["T1530"], cwes: ["CWE-250"] }
+        }
+      ],
+      end_impact: "Bulk exfiltration of stored files",
+      overall_risk: "medium"
+    }
+  ],
+  what_if: {
+    change: "",
+    delta_summary: [],
+    updated_risks: [],
+    by_change: []
+  },
+  priority_fixes: [
+    {
+      fix: "Enforce MFA and rate limiting on admin login",
+      breaks_chain_at: "Admin takeover to data access:1",
+      effort: "low",
+      risk_reduction: "high"
+    },
+    {
+      fix: "Scope service-account-01 to least privilege",
+      breaks_chain_at: "API foothold to storage:2",
+      effort: "medium",
+      risk_reduction: "high"
+    }
+  ],
+  safe_notes: ["Mock analysis generated locally; no model was called."]
+};
+
+export const genericAnalysis: AnalysisResponse = {
+  system_summary: {
+    assets: ["Application data"],
+    components: ["Client", "Application service", "Data store"],
+    trust_boundaries: ["Client to application service"],
+    assumptions: ["Inputs describe an authorized test environment."]
+  },
+  top_risks: [
+    {
+      risk: "Weak authentication at the internet edge",
+      why_it_matters: "Credential attacks are the most common initial access route.",
+      likelihood: "medium",
+      impact: "medium",
+      mapping: { tactics: ["TA0001"], techniques: ["T1078"], cwes: ["CWE-308", "CWE-1390"] }
+    }
+  ],
+  attack_paths: [
+    {
+      name: "Credential misuse to data access",
+      entry_point: "Public login",
+      preconditions: ["Reused or weak credentials"],
+      steps: [
+        {
+          step: 1,
+          action_high_level: "Attacker signs in with a compromised credential.",
+          why_plausible: "No strong authentication controls were described.",
+          defender_signals: ["Logins from unfamiliar locations"],
+          mitigations: ["Enforce MFA"],
+          mapping: { tactics: ["TA0001"], techniques: ["T1078"], cwes: ["CWE-308"] }
+        }
+      ],
+      end_impact: "Unauthorized data access",
+      overall_risk: "medium"
+    }
+  ],
+  what_if: {
+    change: "",
+    delta_summary: [],
+    updated_risks: [],
+    by_change: []
+  },
+  priority_fixes: [
+    {
+      fix: "Enforce MFA on all user accounts",
+      breaks_chain_at: "Credential misuse to data access:1",
+      effort: "low",
+      risk_reduction: "medium"
+    }
+  ],
+  safe_notes: ["Mock analysis generated locally; no model was called."]
+};
@@ -0,0 +1,75 @@
+import type { GenerateRequest, LlmProvider } from "./provider";
+import { readServerSentData } from "./sse";
+
+type ChatCompletionResponse = {
+  choices?: Array<{
+    message?: {
+      content?: string | null;
+    };
+  }>;
+};
+
+type ChatCompletionChunk = {
+  choices?: Array<{
+    delta?: {
+      content?: string | null;
+    };
+  }>;
+};
+
+export function createOpenAiProvider({
+  apiKey,
+  model,
+  baseUrl
+}: {
+  apiKey: string;
+  model: string;
+  baseUrl: string;
+}): LlmProvider {
+  const request = async ({ messages, temperature, maxOutputTokens, signal }: GenerateRequest, stream: boolean) => {
+    const response = await fetch(`${baseUrl.replace(/\/+$/, "")}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${apiKey}`
+      },
+      body: JSON.stringify({
+        model,
+        messages: messages.map((message) => ({ role: message.role, content: message.text })),
+        temperature,
+        max_tokens: maxOutputTokens,
+        stream
+      }),
+      signal
+    });
+
+    if (!response.ok) {
+      const details = await response.text();
+      throw new Error(`OpenAI-compatible API error: ${response.status} ${details}`);
+    }
+
+    return response;
+  };
+
+  return {
+    name: "openai",
+    model,
+    async generate(options: GenerateRequest) {
+      const response = await request(options, false);
+      const payload = (await response.json()) as ChatCompletionResponse;
+      return payload.choices?.[0]?.message?.content?.trim() ?? "";
+    },
+    async *stream(options: GenerateRequest) {
+      const response = await request(options, true);
+      for await (const data of readServerSentData(response)) {
+        if (data === "[DONE]") {
+          return;
+        }
+        const text = (JSON.parse(data) as ChatCompletionChunk).choices?.[0]?.delta?.content;
+        if (text) {
+          yield text;
+        }
+      }
+    }
+  };
+}
@@ -0,0 +1,30 @@
+export type ChatRole = "system" | "user" | "assistant";
+
+export type ChatMessage = {
+  role: ChatRole;
+  text: string;
+};
+
+export type GenerationOptions = {
+  temperature: number;
+  maxOutputTokens: number;
+};
+
+export type GenerateRequest = GenerationOptions & {
+  messages: ChatMessage[];
+  signal?: AbortSignal;
+};
+
+export type LlmProvider = {
+  name: string;
+  model: string;
+  generate: (request: GenerateRequest) => Promise<string>;
+  stream: (request: GenerateRequest) => AsyncIterable<string>;
+};
+
+export class ProviderConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProviderConfigError";
+  }
+}
@@ -0,0 +1,55 @@
+import { createHash } from "node:crypto";
+import path from "node:path";
+import { readJsonFile, writeJsonFile } from "../store/files";
+import type { GenerateRequest, LlmProvider } from "./provider";
+
+export type Recording = {
+  key: string;
+  provider: string;
+  model: string;
+  recorded_at: string;
+  output: string;
+};
+
+export class RecordingNotFoundError extends Error {
+  constructor(key: string) {
+    super(`No recorded response for request ${key}. Re-run with RECORD_UPSTREAM set to record it.`);
+    this.name = "RecordingNotFoundError";
+  }
+}
+
+export function recordingKey({ messages, temperature, maxOutputTokens }: GenerateRequest) {
+  return createHash("sha256").update(JSON.stringify({ messages, temperature, maxOutputTokens })).digest("hex");
+}
+
+export function createRecordedProvider({ dir, upstream }: { dir: string; upstream?: LlmProvider }): LlmProvider {
+  const respond = async (request: GenerateRequest) => {
+    const key = recordingKey(request);
+    const filePath = path.join(dir, `${key}.json`);
+    const recording = await readJsonFile<Recording | null>(filePath, null);
+    if (recording) {
+      return recording.output;
+    }
+    if (!upstream) {
+      throw new RecordingNotFoundError(key);
+    }
+    const output = await upstream.generate(request);
+    await writeJsonFile(filePath, {
+      key,
+      provider: upstream.name,
+      model: upstream.model,
+      recorded_at: new Date().toISOString(),
+      output
+    } satisfies Recording);
+    return output;
+  };
+
+  return {
+    name: "recorded",
+    model: upstream?.model ?? "replay",
+    generate: respond,
+    async *stream(request: GenerateRequest) {
+      yield await respond(request);
+    }
+  };
+}
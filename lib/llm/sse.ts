@@ -0,0 +1,32 @@
+export async function* readServerSentData(response: Response) {
+  if (!response.body) {
+    return;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    let newline = buffer.indexOf("\n");
+    while (newline >= 0) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      if (line.startsWith("data:")) {
+        yield line.slice(5).trim();
+      }
+      newline = buffer.indexOf("\n");
+    }
+
+    if (done) {
+      const line = buffer.trim();
+      if (line.startsWith("data:")) {
+        yield line.slice(5).trim();
+      }
+      return;
+    }
+  }
+}
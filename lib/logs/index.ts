@@ -0,0 +1,202 @@
+import type { AnalysisResponse } from "../analysis/schema";
+import { parseTimelineLine } from "./parse";
+import type {
+  LogFormat,
+  LogPattern,
+  LogTimeline,
+  PathEvidence,
+  SignalEvidence,
+  StepEvidence,
+  TimelineEvent
+} from "./types";
+
+export * from "./types";
+export { parseTimelineLine } from "./parse";
+
+const REPEATED_FAILURES = 3;
+const REPEATED_WINDOW_MS = 15 * 60 * 1000;
+const MAX_TIMELINE_LINES = 5000;
+
+type SignalConcept = {
+  label: string;
+  signal: RegExp;
+  matches: (event: TimelineEvent, text: string, repeated: Set<number>) => boolean;
+};
+
+const CONCEPTS: SignalConcept[] = [
+  {
+    label: "repeated",
+    signal: /\b(repeated|spikes?|bursts?|multiple|many|brute[- ]?force|spray\w*|excessive|high volume)\b/i,
+    matches: (event, _text, repeated) => repeated.has(event.line)
+  },
+  {
+    label: "failure",
+    signal: /\b(fail\w*|denied|invalid|unsuccessful|lockouts?|locked|errors?)\b/i,
+    matches: (event) => event.outcome === "failure"
+  },
+  {
+    label: "session",
+    signal: /\b(sessions?|successful|succeeded|logged in)\b/i,
+    matches: (event, text) => event.outcome === "success" || /\bsession/.test(text)
+  },
+  {
+    label: "authentication",
+    signal: /\b(log-?ins?|logons?|sign-?ins?|auth\w*|passwords?|credentials?|mfa)\b/i,
+    matches: (_event, text) => /\b(log-?in|logon|sign-?in|auth\w*|passw\w*|credential|mfa|sshd)/.test(text)
+  },
+  {
+    label: "admin",
+    signal: /\b(admin\w*|privileg\w*|root|sudo)\b/i,
+    matches: (_event, text) => /(admin|privileg|\broot\b|sudo)/.test(text)
+  }
+];
+
+const STOPWORDS = new Set(
+  (
+    "about above across activity after again against alert alerts all also and anomalous anomaly any are " +
+    "based being between but could detect detected detection does each event events for from has have " +
+    "into its logs monitor more most near new none not number one only other out over per same should " +
+    "show signal signals some such than that the their them then there these they this those through too " +
+    "unexpected unusual use very via was were what when where which while with within would your"
+  ).split(" ")
+);
+
+function wordPattern(word: string) {
+  return new RegExp(`\\b${word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}`);
+}
+
+function eventText(event: TimelineEvent) {
+  return [event.action, event.message, ...Object.entries(event.fields).map(([key, value]) => `${key}=${value}`)]
+    .join(" ")
+    .toLowerCase();
+}
+
+function windowed(events: TimelineEvent[]) {
+  const times = events.map((event) => (event.time ? Date.parse(event.time) : null));
+  if (times.some((time) => time === null)) {
+    return events.length >= REPEATED_FAILURES;
+  }
+  const sorted = (times as number[]).sort((left, right) => left - right);
+  return sorted.some(
+    (time, index) =>
+      index + REPEATED_FAILURES <= sorted.length &&
+      sorted[index + REPEATED_FAILURES - 1] - time <= REPEATED_WINDOW_MS
+  );
+}
+
+function repeatedFailures(events: TimelineEvent[]): LogPattern[] {
+  const patterns: LogPattern[] = [];
+  for (const key of ["user", "ip"] as const) {
+    const groups = new Map<string, TimelineEvent[]>();
+    for (const event of events) {
+      const value = event[key];
+      if (event.outcome === "failure" && value) {
+        groups.set(value, [...(groups.get(value) ?? []), event]);
+      }
+    }
+    for (const [value, group] of groups) {
+      if (!windowed(group)) {
+        continue;
+      }
+      const times = group
+        .map((event) => event.time ?? event.timestamp)
+        .filter((time): time is string => time !== null);
+      patterns.push({
+        kind: "repeated_failures",
+        key,
+        value,
+        count: group.length,
+        actions: [...new Set(group.map((event) => event.action))],
+        first: times[0] ?? null,
+        last: times[times.length - 1] ?? null,
+        lines: group.map((event) => event.line)
+      });
+    }
+  }
+  return patterns.sort((left, right) => right.count - left.count);
+}
+
+export function parseLogTimeline(logs: string): LogTimeline {
+  const events = logs
+    .split("\n")
+    .slice(0, MAX_TIMELINE_LINES)
+    .map((line, index) => parseTimelineLine(line, index + 1))
+    .filter((event): event is TimelineEvent => event !== null);
+  const formats: Partial<Record<LogFormat, number>> = {};
+  for (const event of events) {
+    formats[event.format] = (formats[event.format] ?? 0) + 1;
+  }
+  const timed = events.every((event) => event.time !== null);
+  const ordered = timed
+    ? [...events].sort(
+        (left, right) => (left.time as string).localeCompare(right.time as string) || left.line - right.line
+      )
+    : events;
+  return { events: ordered, patterns: repeatedFailures(events), formats };
+}
+
+export function timelineIsEmpty(timeline: LogTimeline) {
+  return timeline.events.every((event) => event.format === "text") && timeline.patterns.length === 0;
+}
+
+function keywords(signal: string) {
+  const remainder = CONCEPTS.reduce(
+    (text, concept) => text.replace(new RegExp(concept.signal.source, "gi"), " "),
+    signal.toLowerCase()
+  );
+  return [
+    ...new Set(
+      remainder
+        .split(/[^a-z0-9@._-]+/)
+        .map((word) => word.replace(/^[._-]+|[._-]+$/g, ""))
+        .filter((word) => word.length >= 3 && !STOPWORDS.has(word))
+        .map((word) => (word.length > 4 && word.endsWith("s") && !word.endsWith("ss") ? word.slice(0, -1) : word))
+    )
+  ];
+}
+
+export function matchSignal(signal: string, timeline: LogTimeline): SignalEvidence {
+  const concepts = CONCEPTS.filter((concept) => concept.signal.test(signal));
+  const words = keywords(signal);
+  const repeated = new Set(timeline.patterns.flatMap((pattern) => pattern.lines));
+  const needed =
+    concepts.length === 0 ? Math.min(2, words.length || 1) : concepts.length === 1 && words.length > 0 ? 1 : 0;
+  const terms = new Set<string>();
+  const lines: number[] = [];
+  for (const event of timeline.events) {
+    const text = eventText(event);
+    if (!concepts.every((concept) => concept.matches(event, text, repeated))) {
+      continue;
+    }
+    const found = words.filter((word) => wordPattern(word).test(text));
+    if (found.length < needed) {
+      continue;
+    }
+    concepts.forEach((concept) => terms.add(concept.label));
+    found.forEach((word) => terms.add(word));
+    lines.push(event.line);
+  }
+  return { signal, terms: lines.length > 0 ? [...terms] : [], lines: lines.sort((left, right) => left - right) };
+}
+
+export function correlateSignals(analysis: AnalysisResponse, timeline: LogTimeline): PathEvidence[] {
+  return analysis.attack_paths.map((path) => ({
+    path: path.name,
+    steps: path.steps
+      .map(
+        (step): StepEvidence => ({
+          step: step.step,
+          signals: step.defender_signals
+            .map((signal) => matchSignal(signal, timeline))
+            .filter((evidence) => evidence.lines.length > 0)
+        })
+      )
+      .filter((step) => step.signals.length > 0)
+  }));
+}
+
+export function formatLogPattern(pattern: LogPattern) {
+  const { first, last } = pattern;
+  const span = first && last && first !== last ? ` between ${first} and ${last}` : "";
+  return `${pattern.count} failed ${pattern.actions.join(", ")} events for ${pattern.key}=${pattern.value}${span}`;
+}
@@ -0,0 +1,174 @@
+import { parseLogLine } from "../detections/match";
+import type { LogFormat, LogOutcome, TimelineEvent } from "./types";
+
+const ISO_PREFIX = /^\[?(\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(?:[.,]\d+)?(?:Z|[+-]\d{2}:?\d{2})?)\]?\s*/;
+const SYSLOG_5424 = /^<\d{1,3}>1 (\S+) (\S+) (\S+) (\S+) (\S+) (-|(?:\[[^\]]*\])+) ?(.*)$/;
+const SYSLOG_3164 = /^(?:<\d{1,3}>)?([A-Z][a-z]{2} [ \d]\d \d{2}:\d{2}:\d{2}) (\S+) ([^\s:[]+)(?:\[(\d+)\])?: ?(.*)$/;
+const ACCESS_LOG = /^(\S+) (\S+) (\S+) \[([^\]]+)\] "([^"]*)" (\d{3}) (\S+)(?: "([^"]*)" "([^"]*)")?/;
+const ACCESS_TIME = /^(\d{2})\/(\w{3})\/(\d{4}):(\d{2}:\d{2}:\d{2}) ([+-]\d{4})$/;
+const KEY_VALUE = /([A-Za-z_][\w.-]*)=("(?:[^"\\]|\\.)*"|\S+)/g;
+const IPV4 = /\b\d{1,3}(?:\.\d{1,3}){3}\b/;
+const FAILURE = /\b(fail(?:ed|ure|s)?|denied|invalid|unauthori[sz]ed|forbidden|rejected|locked|error)\b/i;
+const SUCCESS = /\b(success(?:ful|fully)?|succeeded|accepted|granted|allowed|logged in|ok)\b/i;
+
+const TIME_FIELDS = ["@timestamp", "timestamp", "time", "ts", "date", "eventtime"];
+const MESSAGE_FIELDS = ["message", "msg", "event.original", "log"];
+const ACTION_FIELDS = ["action", "event.action", "event", "event_type", "eventname", "operation", "type"];
+const OUTCOME_FIELDS = ["outcome", "event.outcome", "result", "status", "level"];
+const USER_FIELDS = ["user", "username", "user_name", "user.name", "usr", "account", "principal", "actor", "login"];
+const IP_FIELDS = [
+  "ip",
+  "src_ip",
+  "source_ip",
+  "client_ip",
+  "clientip",
+  "remote_addr",
+  "remote_ip",
+  "src",
+  "source.ip",
+  "client.ip"
+];
+
+function pick(fields: Record<string, string>, keys: string[]) {
+  return keys.map((key) => fields[key]?.trim()).find((value) => value && value !== "-") ?? null;
+}
+
+function isoTime(text: string | null) {
+  if (!text) {
+    return null;
+  }
+  const access = text.match(ACCESS_TIME);
+  const candidate = access
+    ? `${access[1]} ${access[2]} ${access[3]} ${access[4]} ${access[5]}`
+    : text.replace(",", ".");
+  if (!access && !/^\d{4}-\d{2}-\d{2}/.test(candidate)) {
+    return null;
+  }
+  const ms = Date.parse(candidate);
+  return Number.isNaN(ms) ? null : new Date(ms).toISOString();
+}
+
+function keyValues(text: string) {
+  return Object.fromEntries(parseLogLine(text).fields);
+}
+
+function outcomeOf(fields: Record<string, string>, message: string, status: number | null): LogOutcome | null {
+  if (status !== null) {
+    return status >= 400 ? "failure" : "success";
+  }
+  const value = pick(fields, OUTCOME_FIELDS);
+  const code = value && /^\d{3}$/.test(value) ? Number(value) : null;
+  if (code !== null) {
+    return code >= 400 ? "failure" : "success";
+  }
+  for (const text of [value ?? "", message]) {
+    if (FAILURE.test(text)) {
+      return "failure";
+    }
+    if (SUCCESS.test(text)) {
+      return "success";
+    }
+  }
+  return null;
+}
+
+function actionOf(fields: Record<string, string>, message: string, fallback: string) {
+  const field = pick(fields, ACTION_FIELDS);
+  if (field) {
+    return field;
+  }
+  const word = message
+    .split(/\s+/)
+    .map((part) => part.replace(/[:,;]$/, ""))
+    .find((part) => part && !FAILURE.test(part) && !SUCCESS.test(part));
+  return word ?? fallback;
+}
+
+function userOf(fields: Record<string, string>, message: string) {
+  return pick(fields, USER_FIELDS) ?? message.match(/\b(?:for (?:invalid user )?|user )([\w.@-]+)/i)?.[1] ?? null;
+}
+
+function buildEvent(
+  line: number,
+  text: string,
+  format: LogFormat,
+  timestamp: string | null,
+  message: string,
+  fields: Record<string, string>,
+  extra: { status?: number | null; action?: string; user?: string | null; ip?: string | null } = {}
+): TimelineEvent {
+  return {
+    line,
+    format,
+    timestamp,
+    time: isoTime(timestamp),
+    action: extra.action ?? actionOf(fields, message, format),
+    outcome: outcomeOf(fields, message, extra.status ?? null),
+    user: extra.user ?? userOf(fields, message),
+    ip: extra.ip ?? pick(fields, IP_FIELDS) ?? message.match(IPV4)?.[0] ?? null,
+    message,
+    fields,
+    text
+  };
+}
+
+export function parseTimelineLine(text: string, line: number): TimelineEvent | null {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    return null;
+  }
+
+  if (trimmed.startsWith("{")) {
+    const parsed = parseLogLine(trimmed);
+    if (parsed.json) {
+      const fields = Object.fromEntries(parsed.fields);
+      return buildEvent(line, text, "json", pick(fields, TIME_FIELDS), pick(fields, MESSAGE_FIELDS) ?? "", fields);
+    }
+  }
+
+  const rfc5424 = trimmed.match(SYSLOG_5424);
+  if (rfc5424) {
+    const [, timestamp, host, app, , , , message] = rfc5424;
+    const fields = { ...keyValues(message), host, program: app };
+    return buildEvent(line, text, "syslog", timestamp, message, fields, { action: pick(fields, ACTION_FIELDS) ?? app });
+  }
+
+  const rfc3164 = trimmed.match(SYSLOG_3164);
+  if (rfc3164) {
+    const [, timestamp, host, program, , message] = rfc3164;
+    const fields = { ...keyValues(message), host, program };
+    return buildEvent(line, text, "syslog", timestamp, message, fields, {
+      action: pick(fields, ACTION_FIELDS) ?? program
+    });
+  }
+
+  const access = trimmed.match(ACCESS_LOG);
+  if (access) {
+    const [, host, , authUser, timestamp, request, status, bytes, referer, agent] = access;
+    const [method = "", path = ""] = request.split(" ");
+    const fields: Record<string, string> = { host, method, path, status, bytes };
+    if (authUser !== "-") {
+      fields.user = authUser;
+    }
+    if (referer !== undefined) {
+      fields.referer = referer;
+      fields.user_agent = agent;
+    }
+    return buildEvent(line, text, "access", timestamp, request, fields, {
+      status: Number(status),
+      action: `${method} ${path}`.trim(),
+      user: authUser === "-" ? null : authUser,
+      ip: host
+    });
+  }
+
+  const prefix = trimmed.match(ISO_PREFIX);
+  const timestamp = prefix?.[1] ?? null;
+  const body = prefix ? trimmed.slice(prefix[0].length) : trimmed;
+  const fields = keyValues(body);
+  if (Object.keys(fields).length > 0) {
+    const message = body.replace(KEY_VALUE, "").replace(/\s+/g, " ").trim();
+    return buildEvent(line, text, "keyvalue", timestamp, message || (pick(fields, MESSAGE_FIELDS) ?? ""), fields);
+  }
+  return buildEvent(line, text, "text", timestamp, body, {});
+}
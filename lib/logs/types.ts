@@ -0,0 +1,52 @@
+export const LOG_FORMATS = ["json", "syslog", "access", "keyvalue", "text"] as const;
+
+export type LogFormat = (typeof LOG_FORMATS)[number];
+
+export type LogOutcome = "success" | "failure";
+
+export type TimelineEvent = {
+  line: number;
+  format: LogFormat;
+  timestamp: string | null;
+  time: string | null;
+  action: string;
+  outcome: LogOutcome | null;
+  user: string | null;
+  ip: string | null;
+  message: string;
+  fields: Record<string, string>;
+  text: string;
+};
+
+export type LogPattern = {
+  kind: "repeated_failures";
+  key: "user" | "ip";
+  value: string;
+  count: number;
+  actions: string[];
+  first: string | null;
+  last: string | null;
+  lines: number[];
+};
+
+export type LogTimeline = {
+  events: TimelineEvent[];
+  patterns: LogPattern[];
+  formats: Partial<Record<LogFormat, number>>;
+};
+
+export type SignalEvidence = {
+  signal: string;
+  terms: string[];
+  lines: number[];
+};
+
+export type StepEvidence = {
+  step: number;
+  signals: SignalEvidence[];
+};
+
+export type PathEvidence = {
+  path: string;
+  steps: StepEvidence[];
+};
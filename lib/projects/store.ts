@@ -0,0 +1,219 @@
+import { randomUUID } from "node:crypto";
+import { formatWhatIf, whatIfChanges, type AnalysisInput, type AnalysisResponse } from "../analysis/schema";
+import { linkForFix, type RemediationTask, type TaskChanges, type TaskVerification } from "../remediation";
+import { modelIsEmpty, normalizeSystemModel, type SystemModel } from "../snapshot";
+import { dataPath, listJsonFiles, readJsonFile, removeFile, updateJsonFile, withFileLock, writeJsonFile } from "../store/files";
+import { emptyProjectInputs, type AnalysisRun, type Project, type ProjectInputs, type ProjectSummary } from "./types";
+
+const PROJECT_ID_PATTERN = /^[a-z0-9-]{1,64}$/;
+
+export class ProjectNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Project "${id}" was not found.`);
+    this.name = "ProjectNotFoundError";
+  }
+}
+
+export class RunNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Run "${id}" was not found in this project.`);
+    this.name = "RunNotFoundError";
+  }
+}
+
+export class TaskNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Task "${id}" was not found.`);
+    this.name = "TaskNotFoundError";
+  }
+}
+
+function projectPath(id: string) {
+  if (!PROJECT_ID_PATTERN.test(id)) {
+    throw new ProjectNotFoundError(id);
+  }
+  return dataPath("projects", `${id}.json`);
+}
+
+function storedModel(model: SystemModel | null | undefined) {
+  return model && !modelIsEmpty(model) ? normalizeSystemModel(model).value : null;
+}
+
+export function inputsFromAnalysisInput(input: AnalysisInput): ProjectInputs {
+  return {
+    system_text: input.system_text ?? "",
+    system_model: storedModel(input.system_model),
+    diagram_summary: input.diagram_summary ?? "",
+    snippets: {
+      config: input.snippets?.config ?? "",
+      logs: input.snippets?.logs ?? "",
+      code: input.snippets?.code ?? ""
+    },
+    artifacts: input.artifacts ?? []
+  };
+}
+
+function normalizeInputs(inputs: Partial<ProjectInputs> | undefined): ProjectInputs {
+  const empty = emptyProjectInputs();
+  return {
+    system_text: inputs?.system_text ?? empty.system_text,
+    system_model: storedModel(inputs?.system_model),
+    diagram_summary: inputs?.diagram_summary ?? empty.diagram_summary,
+    snippets: { ...empty.snippets, ...inputs?.snippets },
+    artifacts: inputs?.artifacts ?? empty.artifacts
+  };
+}
+
+export async function listProjects(): Promise<ProjectSummary[]> {
+  const files = await listJsonFiles(dataPath("projects"));
+  const projects = await Promise.all(files.map((file) => readJsonFile<Project | null>(file, null)));
+  return projects
+    .filter((project): project is Project => project !== null)
+    .map((project) => ({
+      id: project.id,
+      name: project.name,
+      updated_at: project.updated_at,
+      run_count: project.runs.length,
+      open_task_count: (project.tasks ?? []).filter((task) => task.status === "open" || task.status === "in_progress")
+        .length
+    }))
+    .sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+}
+
+export async function getProject(id: string) {
+  const project = await readJsonFile<Project | null>(projectPath(id), null);
+  if (!project) {
+    throw new ProjectNotFoundError(id);
+  }
+  return { ...project, inputs: normalizeInputs(project.inputs), tasks: project.tasks ?? [] };
+}
+
+export async function createProject({ name, inputs }: { name: string; inputs?: Partial<ProjectInputs> }) {
+  const now = new Date().toISOString();
+  const project: Project = {
+    id: randomUUID(),
+    name: name.trim() || "Untitled project",
+    created_at: now,
+    updated_at: now,
+    inputs: normalizeInputs(inputs),
+    runs: [],
+    tasks: []
+  };
+  await withFileLock(projectPath(project.id), () => writeJsonFile(projectPath(project.id), project));
+  return project;
+}
+
+async function updateProjectFile(id: string, update: (project: Project) => Project) {
+  return updateJsonFile<Project | null>(projectPath(id), null, (project) => {
+    if (!project) {
+      throw new ProjectNotFoundError(id);
+    }
+    return { ...update({ ...project, tasks: project.tasks ?? [] }), updated_at: new Date().toISOString() };
+  }) as Promise<Project>;
+}
+
+export async function updateProject(id: string, changes: { name?: string; inputs?: Partial<ProjectInputs> }) {
+  return updateProjectFile(id, (project) => ({
+    ...project,
+    name: changes.name?.trim() || project.name,
+    inputs: changes.inputs ? normalizeInputs({ ...project.inputs, ...changes.inputs }) : project.inputs
+  }));
+}
+
+export async function deleteProject(id: string) {
+  await getProject(id);
+  await withFileLock(projectPath(id), () => removeFile(projectPath(id)));
+}
+
+export async function recordRun(id: string, input: AnalysisInput, analysis: AnalysisResponse, promptTemplate: string) {
+  const run: AnalysisRun = {
+    id: randomUUID(),
+    created_at: new Date().toISOString(),
+    what_if: formatWhatIf(input.what_if),
+    what_if_changes: whatIfChanges(input.what_if),
+    inputs: inputsFromAnalysisInput(input),
+    prompt_template: promptTemplate,
+    analysis
+  };
+
+  await updateProjectFile(id, (project) => ({
+    ...project,
+    inputs: run.inputs,
+    runs: [...project.runs, run]
+  }));
+
+  return run;
+}
+
+function fixKey(fix: string) {
+  return fix.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+export async function createTasks(id: string, runId: string, fixIndexes?: number[]) {
+  const created: RemediationTask[] = [];
+  await updateProjectFile(id, (project) => {
+    const run = project.runs.find((item) => item.id === runId);
+    if (!run) {
+      throw new RunNotFoundError(runId);
+    }
+    const tracked = new Set(project.tasks.map((task) => fixKey(task.fix)));
+    const now = new Date().toISOString();
+    run.analysis.priority_fixes.forEach((fix, index) => {
+      if ((fixIndexes && !fixIndexes.includes(index)) || tracked.has(fixKey(fix.fix))) {
+        return;
+      }
+      tracked.add(fixKey(fix.fix));
+      created.push({
+        ...fix,
+        id: randomUUID(),
+        link: linkForFix(run.analysis, fix),
+        owner: "",
+        status: "open",
+        due_date: null,
+        source_run_id: run.id,
+        created_at: now,
+        updated_at: now,
+        verification: null
+      });
+    });
+    return { ...project, tasks: [...project.tasks, ...created] };
+  });
+  return created;
+}
+
+async function updateTaskInProject(id: string, taskId: string, update: (task: RemediationTask) => RemediationTask) {
+  let updated: RemediationTask | undefined;
+  await updateProjectFile(id, (project) => {
+    if (!project.tasks.some((task) => task.id === taskId)) {
+      throw new TaskNotFoundError(taskId);
+    }
+    return {
+      ...project,
+      tasks: project.tasks.map((task) => {
+        if (task.id !== taskId) {
+          return task;
+        }
+        updated = { ...update(task), updated_at: new Date().toISOString() };
+        return updated;
+      })
+    };
+  });
+  return updated as RemediationTask;
+}
+
+export async function updateTask(id: string, taskId: string, changes: TaskChanges) {
+  return updateTaskInProject(id, taskId, (task) => ({ ...task, ...changes }));
+}
+
+export async function recordTaskVerification(id: string, taskId: string, verification: TaskVerification) {
+  return updateTaskInProject(id, taskId, (task) => ({ ...task, verification }));
+}
+
+export async function deleteTask(id: string, taskId: string) {
+  await updateProjectFile(id, (project) => {
+    if (!project.tasks.some((task) => task.id === taskId)) {
+      throw new TaskNotFoundError(taskId);
+    }
+    return { ...project, tasks: project.tasks.filter((task) => task.id !== taskId) };
+  });
+}
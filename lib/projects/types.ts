@@ -0,0 +1,54 @@
+import type { AnalysisResponse } from "../analysis/schema";
+import type { ArtifactSource } from "../ingest/types";
+import type { RemediationTask } from "../remediation/types";
+import type { SystemModel } from "../snapshot/types";
+
+export type ProjectInputs = {
+  system_text: string;
+  system_model: SystemModel | null;
+  diagram_summary: string;
+  snippets: {
+    config: string;
+    logs: string;
+    code: string;
+  };
+  artifacts: ArtifactSource[];
+};
+
+export type AnalysisRun = {
+  id: string;
+  created_at: string;
+  what_if: string | null;
+  what_if_changes: string[];
+  inputs: ProjectInputs;
+  prompt_template?: string;
+  analysis: AnalysisResponse;
+};
+
+export type Project = {
+  id: string;
+  name: string;
+  created_at: string;
+  updated_at: string;
+  inputs: ProjectInputs;
+  runs: AnalysisRun[];
+  tasks: RemediationTask[];
+};
+
+export type ProjectSummary = {
+  id: string;
+  name: string;
+  updated_at: string;
+  run_count: number;
+  open_task_count: number;
+};
+
+export function emptyProjectInputs(): ProjectInputs {
+  return {
+    system_text: "",
+    system_model: null,
+    diagram_summary: "",
+    snippets: { config: "", logs: "", code: "" },
+    artifacts: []
+  };
+}
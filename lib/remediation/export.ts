@@ -0,0 +1,104 @@
+import type { RemediationTask, TaskStatus, WebhookFormat } from "./types";
+
+type ProjectRef = { id: string; name: string };
+
+const CSV_COLUMNS: [string, (task: RemediationTask) => string | number | null][] = [
+  ["id", (task) => task.id],
+  ["fix", (task) => task.fix],
+  ["status", (task) => task.status],
+  ["owner", (task) => task.owner],
+  ["due_date", (task) => task.due_date],
+  ["effort", (task) => task.effort],
+  ["risk_reduction", (task) => task.risk_reduction],
+  ["breaks_chain_at", (task) => task.breaks_chain_at],
+  ["path", (task) => task.link?.path ?? null],
+  ["step", (task) => task.link?.step ?? null],
+  ["verification", (task) => task.verification?.outcome ?? null],
+  ["verified_at", (task) => task.verification?.verified_at ?? null],
+  ["created_at", (task) => task.created_at],
+  ["updated_at", (task) => task.updated_at]
+];
+
+const STATUS_LABELS: Record<TaskStatus, string> = {
+  open: "Open",
+  in_progress: "In progress",
+  done: "Done",
+  accepted_risk: "Accepted risk"
+};
+
+const JIRA_PRIORITY = { low: "Low", medium: "Medium", high: "High" } as const;
+
+function csvCell(value: string | number | null) {
+  const text = value === null ? "" : String(value);
+  const safe = /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function renderTaskCsv(tasks: RemediationTask[]) {
+  const header = CSV_COLUMNS.map(([name]) => name).join(",");
+  const rows = tasks.map((task) => CSV_COLUMNS.map(([, read]) => csvCell(read(task))).join(","));
+  return `${[header, ...rows].join("\r\n")}\r\n`;
+}
+
+export function statusLabel(status: TaskStatus) {
+  return STATUS_LABELS[status];
+}
+
+function issueBody(project: ProjectRef, task: RemediationTask) {
+  const link = task.link ? `${task.link.path}${task.link.step === null ? "" : `, step ${task.link.step}`}` : null;
+  return [
+    task.fix,
+    "",
+    `- Project: ${project.name}`,
+    `- Breaks the chain at: ${task.breaks_chain_at}${link && link !== task.breaks_chain_at ? ` (${link})` : ""}`,
+    `- Effort: ${task.effort}`,
+    `- Risk reduction: ${task.risk_reduction}`,
+    `- Status: ${STATUS_LABELS[task.status]}`,
+    ...(task.owner ? [`- Owner: ${task.owner}`] : []),
+    ...(task.due_date ? [`- Due: ${task.due_date}`] : []),
+    ...(task.verification
+      ? [`- Verified ${task.verification.verified_at.slice(0, 10)}: chain ${task.verification.outcome}`]
+      : []),
+    "",
+    `ChainBreak task ${task.id}`
+  ].join("\n");
+}
+
+function issueLabels(task: RemediationTask) {
+  return ["security", "chainbreak", `effort-${task.effort}`, `risk-reduction-${task.risk_reduction}`];
+}
+
+export function webhookPayload(
+  format: WebhookFormat,
+  project: ProjectRef,
+  tasks: RemediationTask[],
+  options: { jiraProject?: string } = {}
+) {
+  switch (format) {
+    case "github":
+      return {
+        source: "chainbreak",
+        project: { id: project.id, name: project.name },
+        issues: tasks.map((task) => ({
+          title: task.fix,
+          body: issueBody(project, task),
+          labels: issueLabels(task),
+          assignees: task.owner ? [task.owner] : []
+        }))
+      };
+    case "jira":
+      return {
+        issueUpdates: tasks.map((task) => ({
+          fields: {
+            ...(options.jiraProject ? { project: { key: options.jiraProject } } : {}),
+            issuetype: { name: "Task" },
+            summary: task.fix,
+            description: issueBody(project, task),
+            labels: issueLabels(task),
+            priority: { name: JIRA_PRIORITY[task.risk_reduction] },
+            ...(task.due_date ? { duedate: task.due_date } : {})
+          }
+        }))
+      };
+  }
+}
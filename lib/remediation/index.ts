@@ -0,0 +1,102 @@
+import { findPathIndex, parseBreaksChainAt } from "../analysis/graph";
+import type { AnalysisInput, AnalysisResponse, PriorityFix } from "../analysis/schema";
+import { LEVEL_WEIGHT, scoreAnalysis } from "../analysis/scoring";
+import { fixAsWhatIf } from "../analysis/sweep";
+import type { AnalysisRun } from "../projects/types";
+import {
+  TASK_STATUSES,
+  type ChainLink,
+  type RemediationTask,
+  type TaskChanges,
+  type TaskStatus,
+  type TaskVerification
+} from "./types";
+
+export * from "./types";
+export { renderTaskCsv, statusLabel, webhookPayload } from "./export";
+
+const DUE_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_OWNER_LENGTH = 120;
+
+export class TaskValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TaskValidationError";
+  }
+}
+
+export function linkForFix(analysis: AnalysisResponse, fix: PriorityFix): ChainLink | null {
+  const { pathName, step } = parseBreaksChainAt(fix.breaks_chain_at);
+  const pathIndex = findPathIndex(analysis.attack_paths, pathName);
+  if (pathIndex < 0) {
+    return null;
+  }
+  const path = analysis.attack_paths[pathIndex];
+  return { path: path.name, step: path.steps.some((item) => item.step === step) ? step : null };
+}
+
+export function normalizeTaskChanges(raw: unknown): TaskChanges {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new TaskValidationError("Task changes must be an object.");
+  }
+  const body = raw as Record<string, unknown>;
+  const changes: TaskChanges = {};
+  if (body.owner !== undefined) {
+    if (typeof body.owner !== "string" || body.owner.trim().length > MAX_OWNER_LENGTH) {
+      throw new TaskValidationError(`Owner must be a string of at most ${MAX_OWNER_LENGTH} characters.`);
+    }
+    changes.owner = body.owner.trim();
+  }
+  if (body.status !== undefined) {
+    if (!TASK_STATUSES.includes(body.status as TaskStatus)) {
+      throw new TaskValidationError(`Status must be one of ${TASK_STATUSES.join(", ")}.`);
+    }
+    changes.status = body.status as TaskStatus;
+  }
+  if (body.due_date !== undefined) {
+    const due = body.due_date === "" ? null : body.due_date;
+    if (due !== null && (typeof due !== "string" || !DUE_DATE.test(due) || Number.isNaN(Date.parse(due)))) {
+      throw new TaskValidationError("Due date must be a YYYY-MM-DD date or empty.");
+    }
+    changes.due_date = due;
+  }
+  return changes;
+}
+
+export function verificationInput(run: AnalysisRun, task: RemediationTask): AnalysisInput {
+  return {
+    ...run.inputs,
+    what_if: [...run.what_if_changes, fixAsWhatIf(task)]
+  };
+}
+
+export function verificationOutcome(
+  task: RemediationTask,
+  before: AnalysisResponse,
+  after: AnalysisResponse,
+  runId: string
+): TaskVerification {
+  const scoreDelta = scoreAnalysis(before).total - scoreAnalysis(after).total;
+  const beforeIndex = task.link ? findPathIndex(before.attack_paths, task.link.path) : -1;
+  const afterIndex = task.link ? findPathIndex(after.attack_paths, task.link.path) : -1;
+  const riskBefore = beforeIndex >= 0 ? before.attack_paths[beforeIndex].overall_risk : null;
+  const riskAfter = afterIndex >= 0 ? after.attack_paths[afterIndex].overall_risk : null;
+
+  let outcome: TaskVerification["outcome"];
+  if (task.link && riskAfter === null) {
+    outcome = "broken";
+  } else if (riskBefore && riskAfter) {
+    outcome = LEVEL_WEIGHT[riskAfter] < LEVEL_WEIGHT[riskBefore] ? "reduced" : "unchanged";
+  } else {
+    outcome = scoreDelta > 0 ? "reduced" : "unchanged";
+  }
+
+  return {
+    run_id: runId,
+    verified_at: new Date().toISOString(),
+    outcome,
+    path_risk_before: riskBefore,
+    path_risk_after: riskAfter,
+    score_delta: scoreDelta
+  };
+}
@@ -0,0 +1,45 @@
+import type { Level, PriorityFix } from "../analysis/schema";
+
+export const TASK_STATUSES = ["open", "in_progress", "done", "accepted_risk"] as const;
+
+export type TaskStatus = (typeof TASK_STATUSES)[number];
+
+export const TASK_EXPORT_FORMATS = ["csv", "github", "jira"] as const;
+
+export type TaskExportFormat = (typeof TASK_EXPORT_FORMATS)[number];
+
+export type WebhookFormat = Exclude<TaskExportFormat, "csv">;
+
+export type ChainLink = {
+  path: string;
+  step: number | null;
+};
+
+export type VerificationOutcome = "broken" | "reduced" | "unchanged";
+
+export type TaskVerification = {
+  run_id: string;
+  verified_at: string;
+  outcome: VerificationOutcome;
+  path_risk_before: Level | null;
+  path_risk_after: Level | null;
+  score_delta: number;
+};
+
+export type RemediationTask = PriorityFix & {
+  id: string;
+  link: ChainLink | null;
+  owner: string;
+  status: TaskStatus;
+  due_date: string | null;
+  source_run_id: string;
+  created_at: string;
+  updated_at: string;
+  verification: TaskVerification | null;
+};
+
+export type TaskChanges = {
+  owner?: string;
+  status?: TaskStatus;
+  due_date?: string | null;
+};
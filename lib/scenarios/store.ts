@@ -0,0 +1,39 @@
+import { randomUUID } from "node:crypto";
+import { dataPath, readJsonFile, updateJsonFile } from "../store/files";
+import { BUILTIN_SCENARIOS, type WhatIfScenario } from "./types";
+
+export class ScenarioNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Scenario "${id}" was not found.`);
+    this.name = "ScenarioNotFoundError";
+  }
+}
+
+function scenariosPath() {
+  return dataPath("scenarios.json");
+}
+
+export async function listScenarios() {
+  const saved = await readJsonFile<WhatIfScenario[]>(scenariosPath(), []);
+  return [...BUILTIN_SCENARIOS, ...saved];
+}
+
+export async function createScenario({ label, value }: { label: string; value: string }) {
+  const scenario: WhatIfScenario = {
+    id: randomUUID(),
+    label: label.trim() || value.trim().slice(0, 48),
+    value: value.trim(),
+    builtin: false
+  };
+  await updateJsonFile<WhatIfScenario[]>(scenariosPath(), [], (saved) => [...saved, scenario]);
+  return scenario;
+}
+
+export async function deleteScenario(id: string) {
+  await updateJsonFile<WhatIfScenario[]>(scenariosPath(), [], (saved) => {
+    if (!saved.some((scenario) => scenario.id === id)) {
+      throw new ScenarioNotFoundError(id);
+    }
+    return saved.filter((scenario) => scenario.id !== id);
+  });
+}
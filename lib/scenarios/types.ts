@@ -0,0 +1,27 @@
+export type WhatIfScenario = {
+  id: string;
+  label: string;
+  value: string;
+  builtin: boolean;
+};
+
+export const BUILTIN_SCENARIOS: WhatIfScenario[] = [
+  {
+    id: "builtin-enable-mfa",
+    label: "Enable MFA",
+    value: "Enable MFA for all privileged accounts and enforce phishing-resistant MFA where possible.",
+    builtin: true
+  },
+  {
+    id: "builtin-patch-exposed-service",
+    label: "Patch Exposed Service",
+    value: "The exposed service is patched and now rejects unauthenticated requests; rate limiting is enabled.",
+    builtin: true
+  },
+  {
+    id: "builtin-internal-access",
+    label: "Attacker Has Internal Access",
+    value: "Assume the attacker has low-privilege internal network access (e.g., compromised employee device).",
+    builtin: true
+  }
+];
@@ -0,0 +1,73 @@
+import { dataPath, readJsonFile, updateJsonFile } from "../store/files";
+
+export const SETTING_KEYS = [
+  "LLM_PROVIDER",
+  "GEMINI_MODEL",
+  "OPENAI_MODEL",
+  "PROMPT_TEMPLATE",
+  "RATE_LIMIT_PER_MINUTE",
+  "DAILY_REQUEST_BUDGET",
+  "DAILY_TOKEN_BUDGET"
+] as const;
+
+export type SettingKey = (typeof SETTING_KEYS)[number];
+
+export type AppSettings = Partial<Record<SettingKey, string>>;
+
+export class SettingsValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SettingsValidationError";
+  }
+}
+
+const NUMERIC_KEYS: SettingKey[] = ["RATE_LIMIT_PER_MINUTE", "DAILY_REQUEST_BUDGET", "DAILY_TOKEN_BUDGET"];
+
+function settingsPath() {
+  return dataPath("settings.json");
+}
+
+export async function getSettings() {
+  return readJsonFile<AppSettings>(settingsPath(), {});
+}
+
+export async function settingsEnv(env: NodeJS.ProcessEnv = process.env): Promise<NodeJS.ProcessEnv> {
+  return { ...env, ...(await getSettings()) };
+}
+
+export function normalizeSettings(patch: Record<string, unknown>) {
+  const normalized: Record<string, string | null> = {};
+  for (const [key, value] of Object.entries(patch)) {
+    if (!(SETTING_KEYS as readonly string[]).includes(key)) {
+      throw new SettingsValidationError(`Unknown setting "${key}".`);
+    }
+    if (value === null || value === "") {
+      normalized[key] = null;
+      continue;
+    }
+    const text = String(value).trim();
+    if (NUMERIC_KEYS.includes(key as SettingKey) && !(Number.isFinite(Number(text)) && Number(text) >= 0)) {
+      throw new SettingsValidationError(`${key} must be a non-negative number.`);
+    }
+    if (key === "LLM_PROVIDER" && !["gemini", "openai", "mock", "recorded"].includes(text)) {
+      throw new SettingsValidationError("LLM_PROVIDER must be gemini, openai, mock or recorded.");
+    }
+    normalized[key] = text;
+  }
+  return normalized;
+}
+
+export async function updateSettings(patch: Record<string, unknown>) {
+  const normalized = normalizeSettings(patch);
+  return updateJsonFile<AppSettings>(settingsPath(), {}, (current) => {
+    const next: AppSettings = { ...current };
+    for (const [key, value] of Object.entries(normalized)) {
+      if (value === null) {
+        delete next[key as SettingKey];
+      } else {
+        next[key as SettingKey] = value;
+      }
+    }
+    return next;
+  });
+}
@@ -0,0 +1,397 @@
+import YAML from "yaml";
+import type { SchemaViolation } from "../analysis/schema";
+import {
+  COMPONENT_KINDS,
+  DATA_STORE_KINDS,
+  EXPOSURE_CHANNELS,
+  IDENTITY_KINDS,
+  SENSITIVITIES,
+  SNAPSHOT_FORMAT,
+  SNAPSHOT_VERSION,
+  TRUST_LEVELS,
+  type DataStore,
+  type Exposure,
+  type ModelComponent,
+  type ModelIdentity,
+  type NetworkEdge,
+  type SnapshotEncoding,
+  type SystemModel,
+  type SystemSnapshot,
+  type TrustZone
+} from "./types";
+
+export * from "./types";
+
+export const MAX_MODEL_ITEMS = 200;
+
+const ID_PATTERN = /^[a-z0-9][a-z0-9._-]{0,63}$/;
+
+type Context = {
+  violations: SchemaViolation[];
+  ids: Set<string>;
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function record(ctx: Context, path: string, value: unknown) {
+  if (isRecord(value)) {
+    return value;
+  }
+  if (value !== undefined) {
+    ctx.violations.push({ path, message: "expected an object" });
+  }
+  return {};
+}
+
+function text(ctx: Context, path: string, value: unknown, required = false) {
+  if (typeof value === "string") {
+    return value.trim();
+  }
+  if (typeof value === "number") {
+    return String(value);
+  }
+  if (value !== undefined && value !== null) {
+    ctx.violations.push({ path, message: "expected a string" });
+  } else if (required) {
+    ctx.violations.push({ path, message: "is required" });
+  }
+  return "";
+}
+
+function textList(ctx: Context, path: string, value: unknown) {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  if (typeof value === "string") {
+    return value
+      .split(",")
+      .map((item) => item.trim())
+      .filter(Boolean);
+  }
+  if (!Array.isArray(value)) {
+    ctx.violations.push({ path, message: "expected a list of strings" });
+    return [];
+  }
+  return value.map((item, index) => text(ctx, `${path}[${index}]`, item)).filter(Boolean);
+}
+
+function flag(ctx: Context, path: string, value: unknown, fallback: boolean) {
+  if (value === undefined || value === null) {
+    return fallback;
+  }
+  if (typeof value !== "boolean") {
+    ctx.violations.push({ path, message: "expected true or false" });
+    return fallback;
+  }
+  return value;
+}
+
+function oneOf<T extends string>(ctx: Context, path: string, value: unknown, options: readonly T[], fallback: T): T {
+  if (value === undefined || value === null || value === "") {
+    return fallback;
+  }
+  const normalized = typeof value === "string" ? value.trim().toLowerCase().replace(/[\s-]+/g, "_") : value;
+  if (options.includes(normalized as T)) {
+    return normalized as T;
+  }
+  ctx.violations.push({ path, message: `expected one of ${options.join("|")}, got ${JSON.stringify(value)}` });
+  return fallback;
+}
+
+function list<T>(ctx: Context, path: string, value: unknown, item: (entry: unknown, itemPath: string) => T) {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    ctx.violations.push({ path, message: "expected a list" });
+    return [];
+  }
+  if (value.length > MAX_MODEL_ITEMS) {
+    ctx.violations.push({ path, message: `has more than ${MAX_MODEL_ITEMS} entries` });
+  }
+  return value.slice(0, MAX_MODEL_ITEMS).map((entry, index) => item(entry, `${path}[${index}]`));
+}
+
+export function slugify(name: string) {
+  return (
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9._-]+/g, "-")
+      .replace(/^[-._]+|-+$/g, "")
+      .slice(0, 64) || "item"
+  );
+}
+
+function entityId(ctx: Context, path: string, entry: Record<string, unknown>, name: string) {
+  const raw = text(ctx, `${path}.id`, entry.id);
+  if (raw && !ID_PATTERN.test(raw)) {
+    ctx.violations.push({ path: `${path}.id`, message: "use lowercase letters, digits, dots, dashes or underscores" });
+  }
+  const id = raw || slugify(name);
+  if (ctx.ids.has(id)) {
+    ctx.violations.push({ path: `${path}.id`, message: `duplicate id "${id}"` });
+  }
+  ctx.ids.add(id);
+  return id;
+}
+
+function normalizeZone(ctx: Context, value: unknown, path: string): TrustZone {
+  const entry = record(ctx, path, value);
+  const name = text(ctx, `${path}.name`, entry.name, true);
+  return {
+    id: entityId(ctx, path, entry, name),
+    name,
+    trust: oneOf(ctx, `${path}.trust`, entry.trust, TRUST_LEVELS, "internal"),
+    description: text(ctx, `${path}.description`, entry.description)
+  };
+}
+
+function normalizeComponent(ctx: Context, value: unknown, path: string): ModelComponent {
+  const entry = record(ctx, path, value);
+  const name = text(ctx, `${path}.name`, entry.name, true);
+  return {
+    id: entityId(ctx, path, entry, name),
+    name,
+    kind: oneOf(ctx, `${path}.kind`, entry.kind, COMPONENT_KINDS, "service"),
+    zone: text(ctx, `${path}.zone`, entry.zone) || null,
+    description: text(ctx, `${path}.description`, entry.description)
+  };
+}
+
+function normalizeDataStore(ctx: Context, value: unknown, path: string): DataStore {
+  const entry = record(ctx, path, value);
+  const name = text(ctx, `${path}.name`, entry.name, true);
+  return {
+    id: entityId(ctx, path, entry, name),
+    name,
+    kind: oneOf(ctx, `${path}.kind`, entry.kind, DATA_STORE_KINDS, "database"),
+    zone: text(ctx, `${path}.zone`, entry.zone) || null,
+    sensitivity: oneOf(ctx, `${path}.sensitivity`, entry.sensitivity, SENSITIVITIES, "internal"),
+    data: textList(ctx, `${path}.data`, entry.data),
+    description: text(ctx, `${path}.description`, entry.description)
+  };
+}
+
+function normalizeIdentity(ctx: Context, value: unknown, path: string): ModelIdentity {
+  const entry = record(ctx, path, value);
+  const name = text(ctx, `${path}.name`, entry.name, true);
+  return {
+    id: entityId(ctx, path, entry, name),
+    name,
+    kind: oneOf(ctx, `${path}.kind`, entry.kind, IDENTITY_KINDS, "service_account"),
+    permissions: textList(ctx, `${path}.permissions`, entry.permissions),
+    privileged: flag(ctx, `${path}.privileged`, entry.privileged, false),
+    used_by: textList(ctx, `${path}.used_by`, entry.used_by)
+  };
+}
+
+function normalizeEdge(ctx: Context, value: unknown, path: string): NetworkEdge {
+  const entry = record(ctx, path, value);
+  const port = entry.port === undefined || entry.port === null || entry.port === "" ? null : Number(entry.port);
+  if (port !== null && !(Number.isInteger(port) && port > 0 && port < 65536)) {
+    ctx.violations.push({ path: `${path}.port`, message: "expected a port number between 1 and 65535" });
+  }
+  return {
+    from: text(ctx, `${path}.from`, entry.from, true),
+    to: text(ctx, `${path}.to`, entry.to, true),
+    protocol: text(ctx, `${path}.protocol`, entry.protocol).toLowerCase(),
+    port: port !== null && Number.isInteger(port) ? port : null,
+    authenticated: flag(ctx, `${path}.authenticated`, entry.authenticated, false),
+    encrypted: flag(ctx, `${path}.encrypted`, entry.encrypted, false),
+    description: text(ctx, `${path}.description`, entry.description)
+  };
+}
+
+function normalizeExposure(ctx: Context, value: unknown, path: string): Exposure {
+  const entry = record(ctx, path, value);
+  return {
+    target: text(ctx, `${path}.target`, entry.target, true),
+    channel: oneOf(ctx, `${path}.channel`, entry.channel, EXPOSURE_CHANNELS, "internet"),
+    authenticated: flag(ctx, `${path}.authenticated`, entry.authenticated, false),
+    description: text(ctx, `${path}.description`, entry.description)
+  };
+}
+
+function checkReferences(ctx: Context, model: SystemModel) {
+  const zones = new Set(model.trust_zones.map((zone) => zone.id));
+  const nodes = new Set([...model.components, ...model.data_stores].map((node) => node.id));
+  const components = new Set(model.components.map((component) => component.id));
+  const missing = (path: string, id: string, kind: string) =>
+    ctx.violations.push({ path, message: `"${id}" is not a known ${kind} id` });
+
+  model.components.forEach((component, index) => {
+    if (component.zone && !zones.has(component.zone)) {
+      missing(`components[${index}].zone`, component.zone, "trust zone");
+    }
+  });
+  model.data_stores.forEach((store, index) => {
+    if (store.zone && !zones.has(store.zone)) {
+      missing(`data_stores[${index}].zone`, store.zone, "trust zone");
+    }
+  });
+  model.identities.forEach((identity, index) => {
+    identity.used_by.forEach((id, position) => {
+      if (!components.has(id)) {
+        missing(`identities[${index}].used_by[${position}]`, id, "component");
+      }
+    });
+  });
+  model.edges.forEach((edge, index) => {
+    for (const end of ["from", "to"] as const) {
+      if (edge[end] && !nodes.has(edge[end])) {
+        missing(`edges[${index}].${end}`, edge[end], "component or data store");
+      }
+    }
+  });
+  model.exposures.forEach((exposure, index) => {
+    if (exposure.target && !nodes.has(exposure.target)) {
+      missing(`exposures[${index}].target`, exposure.target, "component or data store");
+    }
+  });
+}
+
+export function emptySystemModel(): SystemModel {
+  return {
+    name: "",
+    description: "",
+    trust_zones: [],
+    components: [],
+    data_stores: [],
+    identities: [],
+    edges: [],
+    exposures: []
+  };
+}
+
+export function normalizeSystemModel(value: unknown): { value: SystemModel; violations: SchemaViolation[] } {
+  const ctx: Context = { violations: [], ids: new Set() };
+  const entry = record(ctx, "$", value);
+  const model: SystemModel = {
+    name: text(ctx, "name", entry.name),
+    description: text(ctx, "description", entry.description),
+    trust_zones: list(ctx, "trust_zones", entry.trust_zones, (item, path) => normalizeZone(ctx, item, path)),
+    components: list(ctx, "components", entry.components, (item, path) => normalizeComponent(ctx, item, path)),
+    data_stores: list(ctx, "data_stores", entry.data_stores, (item, path) => normalizeDataStore(ctx, item, path)),
+    identities: list(ctx, "identities", entry.identities, (item, path) => normalizeIdentity(ctx, item, path)),
+    edges: list(ctx, "edges", entry.edges, (item, path) => normalizeEdge(ctx, item, path)),
+    exposures: list(ctx, "exposures", entry.exposures, (item, path) => normalizeExposure(ctx, item, path))
+  };
+  checkReferences(ctx, model);
+  return { value: model, violations: ctx.violations };
+}
+
+export function modelIsEmpty(model: SystemModel | null | undefined) {
+  return (
+    !model ||
+    (model.trust_zones?.length ?? 0) +
+      (model.components?.length ?? 0) +
+      (model.data_stores?.length ?? 0) +
+      (model.identities?.length ?? 0) +
+      (model.edges?.length ?? 0) +
+      (model.exposures?.length ?? 0) ===
+      0
+  );
+}
+
+export function toSnapshot(model: SystemModel): SystemSnapshot {
+  return { format: SNAPSHOT_FORMAT, version: SNAPSHOT_VERSION, model };
+}
+
+export function serializeSnapshot(model: SystemModel, encoding: SnapshotEncoding) {
+  const snapshot = toSnapshot(model);
+  return encoding === "json" ? `${JSON.stringify(snapshot, null, 2)}\n` : YAML.stringify(snapshot);
+}
+
+export function parseSnapshot(source: string): { value: SystemModel | null; violations: SchemaViolation[] } {
+  let raw: unknown;
+  try {
+    raw = YAML.parse(source);
+  } catch (parseError) {
+    const reason = parseError instanceof Error ? parseError.message : "unparseable snapshot";
+    return { value: null, violations: [{ path: "$", message: `invalid YAML or JSON (${reason})` }] };
+  }
+  if (!isRecord(raw)) {
+    return { value: null, violations: [{ path: "$", message: "expected a snapshot object" }] };
+  }
+  if (raw.format !== SNAPSHOT_FORMAT) {
+    return { value: null, violations: [{ path: "format", message: `expected "${SNAPSHOT_FORMAT}"` }] };
+  }
+  if (typeof raw.version !== "number" || !Number.isInteger(raw.version) || raw.version < 1) {
+    return { value: null, violations: [{ path: "version", message: "expected a positive integer" }] };
+  }
+  if (raw.version > SNAPSHOT_VERSION) {
+    return {
+      value: null,
+      violations: [{ path: "version", message: `version ${raw.version} is newer than supported (${SNAPSHOT_VERSION})` }]
+    };
+  }
+  return normalizeSystemModel(raw.model);
+}
+
+export function formatSystemModel(model: SystemModel) {
+  const lines: string[] = [];
+  const section = (title: string, items: string[]) => {
+    if (items.length > 0) {
+      lines.push(`${title}:`, ...items.map((item) => `- ${item}`));
+    }
+  };
+  const detail = (description: string) => (description ? `: ${description.replace(/\s+/g, " ")}` : "");
+  const zone = (id: string | null) => (id ? ` zone=${id}` : "");
+
+  if (model.name) {
+    lines.push(`name: ${model.name}`);
+  }
+  if (model.description) {
+    lines.push(`description: ${model.description.replace(/\s+/g, " ")}`);
+  }
+  section(
+    "trust_zones",
+    model.trust_zones.map((item) => `${item.id} "${item.name}" [${item.trust}]${detail(item.description)}`)
+  );
+  section(
+    "components",
+    model.components.map((item) => `${item.id} "${item.name}" [${item.kind}]${zone(item.zone)}${detail(item.description)}`)
+  );
+  section(
+    "data_stores",
+    model.data_stores.map(
+      (item) =>
+        `${item.id} "${item.name}" [${item.kind}]${zone(item.zone)} sensitivity=${item.sensitivity}` +
+        `${item.data.length > 0 ? ` data=${item.data.join(", ")}` : ""}${detail(item.description)}`
+    )
+  );
+  section(
+    "identities",
+    model.identities.map(
+      (item) =>
+        `${item.id} "${item.name}" [${item.kind}]${item.privileged ? " [PRIVILEGED]" : ""}` +
+        `${item.used_by.length > 0 ? ` used_by=${item.used_by.join(", ")}` : ""}` +
+        `: ${item.permissions.join(", ") || "no listed permissions"}`
+    )
+  );
+  section(
+    "edges",
+    model.edges.map(
+      (item) =>
+        `${item.from} -> ${item.to} ${item.protocol || "unspecified"}${item.port ? `:${item.port}` : ""}` +
+        `${item.authenticated ? " authenticated" : " unauthenticated"}${item.encrypted ? " encrypted" : " plaintext"}` +
+        detail(item.description)
+    )
+  );
+  section(
+    "exposures",
+    model.exposures.map(
+      (item) =>
+        `${item.target} via ${item.channel}${item.authenticated ? " authenticated" : " unauthenticated"}` +
+        detail(item.description)
+    )
+  );
+
+  return lines.join("\n");
+}
+
+export function systemModelText(model: SystemModel | null | undefined) {
+  return model && !modelIsEmpty(model) ? formatSystemModel(normalizeSystemModel(model).value) : "";
+}
@@ -0,0 +1,86 @@
+export const SNAPSHOT_FORMAT = "chainbreak.system-model";
+export const SNAPSHOT_VERSION = 1;
+
+export const COMPONENT_KINDS = ["web", "api", "service", "worker", "function", "gateway", "client", "external"] as const;
+export const DATA_STORE_KINDS = ["database", "object_storage", "cache", "queue", "file_share", "secrets", "other"] as const;
+export const IDENTITY_KINDS = ["human", "service_account", "role", "api_key"] as const;
+export const SENSITIVITIES = ["public", "internal", "confidential", "restricted"] as const;
+export const TRUST_LEVELS = ["untrusted", "partner", "internal", "restricted"] as const;
+export const EXPOSURE_CHANNELS = ["internet", "partner", "vpn", "internal"] as const;
+
+export type ComponentKind = (typeof COMPONENT_KINDS)[number];
+export type DataStoreKind = (typeof DATA_STORE_KINDS)[number];
+export type IdentityKind = (typeof IDENTITY_KINDS)[number];
+export type Sensitivity = (typeof SENSITIVITIES)[number];
+export type TrustLevel = (typeof TRUST_LEVELS)[number];
+export type ExposureChannel = (typeof EXPOSURE_CHANNELS)[number];
+
+export type TrustZone = {
+  id: string;
+  name: string;
+  trust: TrustLevel;
+  description: string;
+};
+
+export type ModelComponent = {
+  id: string;
+  name: string;
+  kind: ComponentKind;
+  zone: string | null;
+  description: string;
+};
+
+export type DataStore = {
+  id: string;
+  name: string;
+  kind: DataStoreKind;
+  zone: string | null;
+  sensitivity: Sensitivity;
+  data: string[];
+  description: string;
+};
+
+export type ModelIdentity = {
+  id: string;
+  name: string;
+  kind: IdentityKind;
+  permissions: string[];
+  privileged: boolean;
+  used_by: string[];
+};
+
+export type NetworkEdge = {
+  from: string;
+  to: string;
+  protocol: string;
+  port: number | null;
+  authenticated: boolean;
+  encrypted: boolean;
+  description: string;
+};
+
+export type Exposure = {
+  target: string;
+  channel: ExposureChannel;
+  authenticated: boolean;
+  description: string;
+};
+
+export type SystemModel = {
+  name: string;
+  description: string;
+  trust_zones: TrustZone[];
+  components: ModelComponent[];
+  data_stores: DataStore[];
+  identities: ModelIdentity[];
+  edges: NetworkEdge[];
+  exposures: Exposure[];
+};
+
+export type SystemSnapshot = {
+  format: typeof SNAPSHOT_FORMAT;
+  version: typeof SNAPSHOT_VERSION;
+  model: SystemModel;
+};
+
+export type SnapshotEncoding = "yaml" | "json";
@@ -0,0 +1,63 @@
+import { randomUUID } from "node:crypto";
+import { mkdir, readFile, readdir, rename, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+const pendingWrites = new Map<string, Promise<unknown>>();
+
+export function dataPath(...segments: string[]) {
+  return path.join(process.env.CHAINBREAK_DATA_DIR ?? path.join(process.cwd(), ".data"), ...segments);
+}
+
+export async function readJsonFile<T>(filePath: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await readFile(filePath, "utf8")) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return fallback;
+    }
+    throw error;
+  }
+}
+
+export async function writeJsonFile(filePath: string, value: unknown) {
+  await mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${randomUUID()}.tmp`;
+  await writeFile(tempPath, `${JSON.stringify(value, null, 2)}\n`, "utf8");
+  await rename(tempPath, filePath);
+}
+
+export async function removeFile(filePath: string) {
+  await rm(filePath, { force: true });
+}
+
+export async function listJsonFiles(directory: string) {
+  try {
+    const entries = await readdir(directory);
+    return entries.filter((entry) => entry.endsWith(".json")).map((entry) => path.join(directory, entry));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
+}
+
+export function withFileLock<T>(filePath: string, task: () => Promise<T>): Promise<T> {
+  const previous = pendingWrites.get(filePath) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(task);
+  pendingWrites.set(filePath, next);
+  next.finally(() => {
+    if (pendingWrites.get(filePath) === next) {
+      pendingWrites.delete(filePath);
+    }
+  }).catch(() => undefined);
+  return next;
+}
+
+export async function updateJsonFile<T>(filePath: string, fallback: T, update: (current: T) => T | Promise<T>) {
+  return withFileLock(filePath, async () => {
+    const next = await update(await readJsonFile(filePath, fallback));
+    await writeJsonFile(filePath, next);
+    return next;
+  });
+}
@@ -0,0 +1,161 @@
+import type { SchemaViolation } from "../analysis/schema";
+import type { Bounds, ElementKind, ThreatDragonElement, ThreatDragonThreat } from "./types";
+
+export const CHAINBREAK_TITLE_PREFIX = "ChainBreak: ";
+
+const TYPE_KINDS: Record<string, { kind: ElementKind; box: boolean }> = {
+  "tm.Process": { kind: "process", box: false },
+  "tm.Store": { kind: "store", box: false },
+  "tm.Actor": { kind: "actor", box: false },
+  "tm.Flow": { kind: "flow", box: false },
+  "tm.Boundary": { kind: "boundary", box: false },
+  "tm.BoundaryBox": { kind: "boundary", box: true }
+};
+
+const SHAPE_KINDS: Record<string, { kind: ElementKind; box: boolean }> = {
+  process: { kind: "process", box: false },
+  store: { kind: "store", box: false },
+  actor: { kind: "actor", box: false },
+  flow: { kind: "flow", box: false },
+  "trust-boundary-box": { kind: "boundary", box: true },
+  "trust-boundary-curve": { kind: "boundary", box: false },
+  "trust-broundary-curve": { kind: "boundary", box: false }
+};
+
+export type ThreatDragonDiagram = {
+  title: string;
+  type: string;
+  cells: Record<string, unknown>[];
+};
+
+export type ThreatDragonModel = {
+  title: string;
+  description: string;
+  diagrams: ThreatDragonDiagram[];
+  elements: ThreatDragonElement[];
+};
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function text(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function number(value: unknown) {
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+}
+
+function cellProperties(cell: Record<string, unknown>) {
+  return isRecord(cell.data) ? cell.data : cell;
+}
+
+function attrText(attrs: unknown) {
+  if (!isRecord(attrs)) {
+    return undefined;
+  }
+  return [attrs.text, attrs.label].map((entry) => (isRecord(entry) ? text(entry.text) : "")).find(Boolean);
+}
+
+function cellName(cell: Record<string, unknown>, properties: Record<string, unknown>) {
+  const labels = Array.isArray(cell.labels) ? cell.labels : [];
+  const candidates = [
+    properties.name,
+    attrText(cell.attrs),
+    ...labels.map((label) => (typeof label === "string" ? label : isRecord(label) ? attrText(label.attrs) : undefined))
+  ];
+  return candidates.map(text).find(Boolean)?.replace(/\s+/g, " ") ?? "";
+}
+
+function cellBounds(cell: Record<string, unknown>): Bounds | null {
+  const position = isRecord(cell.position) ? cell.position : {};
+  const size = isRecord(cell.size) ? cell.size : {};
+  const [x, y, width, height] = [number(position.x), number(position.y), number(size.width), number(size.height)];
+  return x === null || y === null || width === null || height === null ? null : { x, y, width, height };
+}
+
+function endpoint(value: unknown) {
+  if (!isRecord(value)) {
+    return null;
+  }
+  return text(value.cell) || text(value.id) || null;
+}
+
+function readThreats(value: unknown): ThreatDragonThreat[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value.filter(isRecord).map((threat) => ({
+    title: text(threat.title),
+    status: text(threat.status),
+    severity: text(threat.severity),
+    type: text(threat.type),
+    description: text(threat.description),
+    mitigation: text(threat.mitigation)
+  }));
+}
+
+function readDiagram(diagram: Record<string, unknown>, index: number): ThreatDragonDiagram {
+  const cells = Array.isArray(diagram.cells)
+    ? diagram.cells
+    : isRecord(diagram.diagramJson) && Array.isArray(diagram.diagramJson.cells)
+      ? diagram.diagramJson.cells
+      : [];
+  return {
+    title: text(diagram.title) || `Diagram ${index + 1}`,
+    type: text(diagram.diagramType) || "STRIDE",
+    cells: cells.filter(isRecord)
+  };
+}
+
+function readElement(cell: Record<string, unknown>, diagram: ThreatDragonDiagram): ThreatDragonElement | null {
+  const properties = cellProperties(cell);
+  const kind = TYPE_KINDS[text(properties.type) || text(cell.type)] ?? SHAPE_KINDS[text(cell.shape)];
+  const id = text(cell.id);
+  if (!kind || !id) {
+    return null;
+  }
+  return {
+    cell_id: id,
+    diagram: diagram.title,
+    diagram_type: diagram.type,
+    kind: kind.kind,
+    box: kind.box,
+    name: cellName(cell, properties),
+    description: text(properties.description),
+    out_of_scope: properties.outOfScope === true,
+    reason_out_of_scope: text(properties.reasonOutOfScope),
+    properties,
+    threats: readThreats(properties.threats),
+    bounds: cellBounds(cell),
+    source: endpoint(cell.source),
+    target: endpoint(cell.target)
+  };
+}
+
+export function readThreatDragonModel(raw: unknown): { value: ThreatDragonModel | null; violations: SchemaViolation[] } {
+  if (!isRecord(raw)) {
+    return { value: null, violations: [{ path: "$", message: "expected a Threat Dragon JSON object" }] };
+  }
+  const summary = isRecord(raw.summary) ? raw.summary : {};
+  const detail = isRecord(raw.detail) ? raw.detail : {};
+  if (!Array.isArray(detail.diagrams)) {
+    return { value: null, violations: [{ path: "detail.diagrams", message: "expected a list of diagrams" }] };
+  }
+  const diagrams = detail.diagrams.filter(isRecord).map(readDiagram);
+  const elements = diagrams.flatMap((diagram) =>
+    diagram.cells
+      .map((cell) => readElement(cell, diagram))
+      .filter((element): element is ThreatDragonElement => element !== null)
+  );
+  return {
+    value: {
+      title: text(summary.title) || "Threat Dragon model",
+      description: text(summary.description),
+      diagrams,
+      elements
+    },
+    violations: []
+  };
+}
@@ -0,0 +1,131 @@
+import { randomUUID } from "node:crypto";
+import { mentions } from "../analysis/graph";
+import type { AnalysisResponse, Level, SchemaViolation } from "../analysis/schema";
+import { linkForFix } from "../remediation";
+import { CHAINBREAK_TITLE_PREFIX, isRecord, readThreatDragonModel } from "./cells";
+import type { ThreatDragonElement, ThreatDragonExport, ThreatDragonThreat } from "./types";
+
+const SEVERITY: Record<Level, string> = { low: "Low", medium: "Medium", high: "High" };
+
+const STRIDE_TYPES: [RegExp, string][] = [
+  [/privilege|escalat|admin rights|assume (a |the )?role/i, "Elevation of privilege"],
+  [/spoof|impersonat|credential|password|phish|session|token|login/i, "Spoofing"],
+  [/tamper|modif|inject|alter|overwrite|poison/i, "Tampering"],
+  [/repudiat|audit trail|cover(ing)? tracks/i, "Repudiation"],
+  [/denial of service|exhaust|flood|outage|disrupt/i, "Denial of service"]
+];
+
+function threatType(diagramType: string, text: string) {
+  if (diagramType.toUpperCase() !== "STRIDE") {
+    return "";
+  }
+  return STRIDE_TYPES.find(([pattern]) => pattern.test(text))?.[1] ?? "Information disclosure";
+}
+
+function matchElement(elements: ThreatDragonElement[], text: string) {
+  const matches = elements.filter((element) => element.name && mentions(text, element.name));
+  const rank = (element: ThreatDragonElement) => (element.kind === "flow" ? 0 : 1000) + element.name.length;
+  return matches.sort((a, b) => rank(b) - rank(a))[0] ?? null;
+}
+
+function isChainBreakThreat(threat: unknown) {
+  return isRecord(threat) && typeof threat.title === "string" && threat.title.startsWith(CHAINBREAK_TITLE_PREFIX);
+}
+
+export function exportThreatDragon(
+  raw: unknown,
+  analysis: AnalysisResponse
+): { value: ThreatDragonExport | null; violations: SchemaViolation[] } {
+  const document = structuredClone(raw);
+  const { value: model, violations } = readThreatDragonModel(document);
+  if (!model || !isRecord(document)) {
+    return { value: null, violations };
+  }
+
+  for (const element of model.elements) {
+    if (Array.isArray(element.properties.threats)) {
+      element.properties.threats = element.properties.threats.filter((threat) => !isChainBreakThreat(threat));
+    }
+  }
+
+  const detail = isRecord(document.detail) ? document.detail : {};
+  const numbers = model.elements.flatMap((element) =>
+    Array.isArray(element.properties.threats)
+      ? element.properties.threats.map((threat) => (isRecord(threat) ? Number(threat.number) : 0))
+      : []
+  );
+  let counter = Math.max(typeof detail.threatTop === "number" ? detail.threatTop : 0, ...numbers.filter(Number.isFinite));
+
+  const fixes = new Map<string, string[]>();
+  const unmatched: string[] = [];
+  for (const fix of analysis.priority_fixes) {
+    const link = linkForFix(analysis, fix);
+    if (!link) {
+      unmatched.push(`Fix: ${fix.fix}`);
+      continue;
+    }
+    const key = `${link.path}#${link.step ?? ""}`;
+    fixes.set(key, [...(fixes.get(key) ?? []), fix.fix]);
+  }
+
+  const targets = model.elements.filter((element) => !element.out_of_scope && element.kind !== "boundary");
+  const publicTarget = targets
+    .filter((element) => element.kind === "flow" && element.properties.isPublicNetwork === true)
+    .map((flow) => targets.find((element) => element.cell_id === flow.target && element.kind !== "actor"))
+    .find(Boolean);
+  let added = 0;
+  for (const path of analysis.attack_paths) {
+    const entry =
+      matchElement(targets, path.entry_point) ??
+      matchElement(targets, path.name) ??
+      (/internet|public|external/i.test(path.entry_point) ? publicTarget ?? null : null);
+    let pathFixes = fixes.get(`${path.name}#`) ?? [];
+    fixes.delete(`${path.name}#`);
+
+    for (const step of path.steps) {
+      const element = matchElement(targets, step.action_high_level) ?? entry;
+      if (!element) {
+        unmatched.push(`${path.name} step ${step.step}`);
+        continue;
+      }
+      const stepFixes = fixes.get(`${path.name}#${step.step}`) ?? [];
+      fixes.delete(`${path.name}#${step.step}`);
+      counter += 1;
+      const threat: ThreatDragonThreat = {
+        id: randomUUID(),
+        title: `${CHAINBREAK_TITLE_PREFIX}${path.name} — step ${step.step}`,
+        status: "Open",
+        severity: SEVERITY[path.overall_risk],
+        type: threatType(element.diagram_type, step.action_high_level),
+        description: [
+          step.action_high_level,
+          `Why plausible: ${step.why_plausible}`,
+          step.defender_signals.length > 0 ? `Defender signals: ${step.defender_signals.join("; ")}` : "",
+          `End impact: ${path.end_impact}`
+        ]
+          .filter(Boolean)
+          .join("\n"),
+        mitigation: [...step.mitigations, ...[...stepFixes, ...pathFixes].map((fix) => `Priority fix: ${fix}`)].join("\n"),
+        modelType: element.diagram_type,
+        number: counter,
+        score: "",
+        new: false
+      };
+      pathFixes = [];
+      const threats = Array.isArray(element.properties.threats) ? element.properties.threats : [];
+      element.properties.threats = [...threats, threat];
+      element.properties.hasOpenThreats = true;
+      added += 1;
+    }
+    unmatched.push(...pathFixes.map((fix) => `Fix: ${fix}`));
+  }
+
+  for (const remaining of fixes.values()) {
+    unmatched.push(...remaining.map((fix) => `Fix: ${fix}`));
+  }
+  if (isRecord(document.detail)) {
+    document.detail.threatTop = counter;
+  }
+
+  return { value: { document, added, unmatched }, violations: [] };
+}
@@ -0,0 +1,262 @@
+import type { SchemaViolation } from "../analysis/schema";
+import {
+  emptySystemModel,
+  normalizeSystemModel,
+  slugify,
+  type ComponentKind,
+  type DataStoreKind,
+  type SystemModel,
+  type TrustLevel
+} from "../snapshot";
+import { CHAINBREAK_TITLE_PREFIX, readThreatDragonModel, type ThreatDragonModel } from "./cells";
+import type { ThreatDragonElement, ThreatDragonImport } from "./types";
+
+export * from "./types";
+export { exportThreatDragon } from "./export";
+
+function text(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function uniqueId(name: string, used: Set<string>) {
+  const base = slugify(name);
+  let id = base;
+  for (let index = 2; used.has(id); index += 1) {
+    id = `${base}-${index}`;
+  }
+  used.add(id);
+  return id;
+}
+
+function zoneTrust(name: string): TrustLevel {
+  if (/internet|public|dmz|external|untrusted/i.test(name)) {
+    return "untrusted";
+  }
+  if (/partner|third[- ]party|vendor/i.test(name)) {
+    return "partner";
+  }
+  return /restricted|pci|secure|admin/i.test(name) ? "restricted" : "internal";
+}
+
+function componentKind(element: ThreatDragonElement): ComponentKind {
+  if (element.kind === "actor") {
+    return "client";
+  }
+  if (element.properties.isWebApplication === true) {
+    return "web";
+  }
+  if (/gateway|proxy|load balancer|ingress|waf/i.test(element.name)) {
+    return "gateway";
+  }
+  if (/\bapi\b/i.test(element.name)) {
+    return "api";
+  }
+  if (/worker|job|queue consumer|cron/i.test(element.name)) {
+    return "worker";
+  }
+  return /lambda|function/i.test(element.name) ? "function" : "service";
+}
+
+function storeKind(element: ThreatDragonElement): DataStoreKind {
+  if (/secret|vault|key ?store|credential/i.test(element.name)) {
+    return "secrets";
+  }
+  if (/bucket|s3|blob|object/i.test(element.name)) {
+    return "object_storage";
+  }
+  if (/cache|redis|memcache/i.test(element.name)) {
+    return "cache";
+  }
+  if (/queue|kafka|sqs|topic|bus/i.test(element.name)) {
+    return "queue";
+  }
+  if (element.properties.isALog === true) {
+    return "other";
+  }
+  return /share|nfs|smb/i.test(element.name) ? "file_share" : "database";
+}
+
+function elementNotes(element: ThreatDragonElement) {
+  const { properties } = element;
+  const notes = [
+    element.description,
+    properties.handlesCardPayment === true ? "handles card payments" : "",
+    properties.handlesGoodsOrServices === true ? "handles goods or services" : "",
+    text(properties.privilegeLevel) ? `privilege level: ${text(properties.privilegeLevel)}` : "",
+    properties.providesAuthentication === true ? "provides authentication" : "",
+    properties.isALog === true ? "is a log" : "",
+    properties.isEncrypted === true && element.kind === "store" ? "encrypted at rest" : "",
+    properties.isSigned === true ? "signed" : ""
+  ];
+  return notes.filter(Boolean).join("; ");
+}
+
+function center(element: ThreatDragonElement) {
+  return element.bounds
+    ? { x: element.bounds.x + element.bounds.width / 2, y: element.bounds.y + element.bounds.height / 2 }
+    : null;
+}
+
+function containingZone(element: ThreatDragonElement, zones: { id: string; element: ThreatDragonElement }[]) {
+  const point = center(element);
+  if (!point) {
+    return null;
+  }
+  const containing = zones.filter(({ element: zone }) => {
+    const bounds = zone.bounds;
+    return (
+      zone.diagram === element.diagram &&
+      bounds !== null &&
+      point.x >= bounds.x &&
+      point.x <= bounds.x + bounds.width &&
+      point.y >= bounds.y &&
+      point.y <= bounds.y + bounds.height
+    );
+  });
+  const area = (zone: ThreatDragonElement) => (zone.bounds ? zone.bounds.width * zone.bounds.height : 0);
+  return containing.sort((a, b) => area(a.element) - area(b.element))[0]?.id ?? null;
+}
+
+function buildSystemModel(model: ThreatDragonModel, warnings: string[]) {
+  const system: SystemModel = { ...emptySystemModel(), name: model.title, description: model.description };
+  const used = new Set<string>();
+  const ids = new Map<string, string>();
+  const actors = new Set<string>();
+  const inScope = model.elements.filter((element) => !element.out_of_scope);
+  const label = (element: ThreatDragonElement) => element.name || `Unnamed ${element.kind}`;
+
+  const zones = inScope
+    .filter((element) => element.kind === "boundary" && element.box)
+    .map((element) => ({ id: uniqueId(label(element), used), element }));
+  system.trust_zones = zones.map(({ id, element }) => ({
+    id,
+    name: label(element),
+    trust: zoneTrust(element.name),
+    description: element.description
+  }));
+
+  for (const element of inScope) {
+    if (element.kind === "process" || element.kind === "actor") {
+      const id = uniqueId(label(element), used);
+      ids.set(element.cell_id, id);
+      if (element.kind === "actor") {
+        actors.add(id);
+      }
+      system.components.push({
+        id,
+        name: label(element),
+        kind: componentKind(element),
+        zone: containingZone(element, zones),
+        description: elementNotes(element)
+      });
+    } else if (element.kind === "store") {
+      const id = uniqueId(label(element), used);
+      ids.set(element.cell_id, id);
+      system.data_stores.push({
+        id,
+        name: label(element),
+        kind: storeKind(element),
+        zone: containingZone(element, zones),
+        sensitivity:
+          element.properties.storesCredentials === true || element.properties.handlesCardPayment === true
+            ? "restricted"
+            : "internal",
+        data: [
+          ...(element.properties.storesCredentials === true ? ["credentials"] : []),
+          ...(element.properties.isALog === true ? ["logs"] : [])
+        ],
+        description: elementNotes(element)
+      });
+    }
+  }
+
+  const exposed = new Set<string>();
+  for (const flow of inScope.filter((element) => element.kind === "flow")) {
+    const from = flow.source ? ids.get(flow.source) : undefined;
+    const to = flow.target ? ids.get(flow.target) : undefined;
+    if (!from || !to) {
+      warnings.push(`Flow "${label(flow)}" in ${flow.diagram} is not connected to two in-scope elements and was skipped.`);
+      continue;
+    }
+    const publicNetwork = flow.properties.isPublicNetwork === true;
+    system.edges.push({
+      from,
+      to,
+      protocol: text(flow.properties.protocol).toLowerCase(),
+      port: null,
+      authenticated: false,
+      encrypted: flow.properties.isEncrypted === true,
+      description: [flow.name, flow.description, publicNetwork ? "over a public network" : ""].filter(Boolean).join("; ")
+    });
+    const directions = flow.properties.isBidirectional === true ? [to, from] : [to];
+    for (const target of directions) {
+      if (publicNetwork && !actors.has(target) && !exposed.has(target)) {
+        exposed.add(target);
+        system.exposures.push({
+          target,
+          channel: "internet",
+          authenticated: false,
+          description: `Reached over the public network by "${label(flow)}"`
+        });
+      }
+    }
+  }
+
+  return system;
+}
+
+function diagramSummary(model: ThreatDragonModel) {
+  const lines = [`Imported from the OWASP Threat Dragon model "${model.title}".`];
+  const boundaries = model.elements.filter((element) => element.kind === "boundary" && !element.box);
+  if (boundaries.length > 0) {
+    lines.push(
+      `Trust boundary lines: ${boundaries.map((boundary) => boundary.name || `unnamed (${boundary.diagram})`).join(", ")}.`
+    );
+  }
+  const threats = model.elements.flatMap((element) =>
+    element.threats
+      .filter((threat) => threat.title && !threat.title.startsWith(CHAINBREAK_TITLE_PREFIX))
+      .map((threat) => {
+        const facts = [threat.status, threat.severity, threat.type].filter(Boolean).join(", ");
+        const mitigation = threat.mitigation ? ` Mitigation: ${threat.mitigation}` : "";
+        return `- ${element.name || element.kind}: ${threat.title}${facts ? ` [${facts}]` : ""}.${mitigation}`;
+      })
+  );
+  if (threats.length > 0) {
+    lines.push("Existing threats:", ...threats);
+  }
+  const outOfScope = model.elements.filter((element) => element.out_of_scope);
+  if (outOfScope.length > 0) {
+    lines.push(
+      "Out of scope:",
+      ...outOfScope.map((element) => {
+        const reason = element.reason_out_of_scope ? `: ${element.reason_out_of_scope}` : "";
+        return `- ${element.name || element.kind}${reason}`;
+      })
+    );
+  }
+  return lines.join("\n");
+}
+
+export function importThreatDragon(raw: unknown): { value: ThreatDragonImport | null; violations: SchemaViolation[] } {
+  const { value: model, violations } = readThreatDragonModel(raw);
+  if (!model) {
+    return { value: null, violations };
+  }
+  const warnings: string[] = [];
+  const system = normalizeSystemModel(buildSystemModel(model, warnings));
+  warnings.push(...system.violations.map((violation) => `${violation.path}: ${violation.message}`));
+  return {
+    value: {
+      input: {
+        project_name: model.title,
+        system_text: "",
+        system_model: system.value,
+        diagram_summary: diagramSummary(model)
+      },
+      elements: model.elements.length,
+      warnings
+    },
+    violations: []
+  };
+}
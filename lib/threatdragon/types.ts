@@ -0,0 +1,55 @@
+import type { AnalysisInput } from "../analysis/schema";
+
+export const ELEMENT_KINDS = ["process", "store", "actor", "flow", "boundary"] as const;
+
+export type ElementKind = (typeof ELEMENT_KINDS)[number];
+
+export type ThreatDragonThreat = {
+  id?: string;
+  title: string;
+  status: string;
+  severity: string;
+  type: string;
+  description: string;
+  mitigation: string;
+  modelType?: string;
+  number?: number;
+  score?: string;
+  new?: boolean;
+};
+
+export type Bounds = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+export type ThreatDragonElement = {
+  cell_id: string;
+  diagram: string;
+  diagram_type: string;
+  kind: ElementKind;
+  box: boolean;
+  name: string;
+  description: string;
+  out_of_scope: boolean;
+  reason_out_of_scope: string;
+  properties: Record<string, unknown>;
+  threats: ThreatDragonThreat[];
+  bounds: Bounds | null;
+  source: string | null;
+  target: string | null;
+};
+
+export type ThreatDragonImport = {
+  input: AnalysisInput;
+  elements: number;
+  warnings: string[];
+};
+
+export type ThreatDragonExport = {
+  document: Record<string, unknown>;
+  added: number;
+  unmatched: string[];
+};
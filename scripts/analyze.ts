@@ -0,0 +1,168 @@
+import { readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { runAnalysis, validateAnalysisInput } from "../lib/analysis/core";
+import { LEVELS, type AnalysisInput, type Level } from "../lib/analysis/schema";
+import { defaultPromptTemplateId, loadPromptTemplate } from "../lib/analysis/templates";
+import {
+  CliInputError,
+  createBaseline,
+  evaluateGate,
+  formatGateReport,
+  OUTPUT_FORMATS,
+  parseBaseline,
+  parseInputDocument,
+  type Baseline,
+  type OutputFormat
+} from "../lib/cli";
+import { renderExport } from "../lib/export";
+import { getProvider } from "../lib/llm";
+
+const USAGE = `Usage: npm run analyze -- [options] [input]
+
+  input                   Analysis input JSON, system model snapshot (YAML/JSON), Threat Dragon JSON
+                          or plain-text system snapshot. Omit or use - to read stdin
+  --artifact <file>       Add a config artifact (repeatable)
+  --logs <file>           Use a file as the logs snippet
+  --what-if <change>      Run with a what-if change (repeatable)
+  --template <id>         Prompt template (default: PROMPT_TEMPLATE or defensive-v1)
+  --provider <name>       gemini, openai, mock or recorded (default: LLM_PROVIDER or gemini)
+  --format <format>       ${OUTPUT_FORMATS.join(" or ")} (default: json)
+  --output <file>         Write the result to a file instead of stdout
+  --fail-on <level>       Exit 1 when an attack path or top risk is at or above low, medium or high,
+                          or none to disable the gate (default: high)
+  --baseline <file>       Only fail on findings that are new or riskier than in this baseline file;
+                          an invalid baseline entry is an error (exit 2)
+  --update-baseline       Write the current findings to the --baseline file and exit 0
+
+Exit codes: 0 passed, 1 risk gate failed, 2 invalid usage, input or provider error.
+`;
+
+async function readText(file: string) {
+  if (file !== "-") {
+    return readFile(file, "utf8");
+  }
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      artifact: { type: "string", multiple: true },
+      logs: { type: "string" },
+      "what-if": { type: "string", multiple: true },
+      template: { type: "string" },
+      provider: { type: "string" },
+      format: { type: "string" },
+      output: { type: "string" },
+      "fail-on": { type: "string" },
+      baseline: { type: "string" },
+      "update-baseline": { type: "boolean", default: false },
+      help: { type: "boolean", default: false }
+    }
+  });
+
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return 0;
+  }
+
+  const format = (values.format ?? "json") as OutputFormat;
+  if (!OUTPUT_FORMATS.includes(format)) {
+    process.stderr.write(`Unknown format "${values.format}".\n\n${USAGE}`);
+    return 2;
+  }
+  const failOn = values["fail-on"] ?? "high";
+  if (failOn !== "none" && !LEVELS.includes(failOn as Level)) {
+    process.stderr.write(`Unknown --fail-on level "${failOn}".\n\n${USAGE}`);
+    return 2;
+  }
+  if (values["update-baseline"] && !values.baseline) {
+    process.stderr.write(`--update-baseline needs --baseline <file>.\n\n${USAGE}`);
+    return 2;
+  }
+  if (positionals.length > 1) {
+    process.stderr.write(`Expected at most one input file.\n\n${USAGE}`);
+    return 2;
+  }
+
+  const inputFile = positionals[0] ?? "-";
+  if (inputFile === "-" && process.stdin.isTTY) {
+    process.stderr.write(`Pass an input file or pipe one to stdin.\n\n${USAGE}`);
+    return 2;
+  }
+  const { input: parsed, warnings } = parseInputDocument(
+    await readText(inputFile),
+    inputFile === "-" ? "stdin" : inputFile
+  );
+  for (const warning of warnings) {
+    process.stderr.write(`warning: ${warning}\n`);
+  }
+  const artifacts = await Promise.all(
+    (values.artifact ?? []).map(async (file) => ({ name: path.basename(file), content: await readFile(file, "utf8") }))
+  );
+  const input: AnalysisInput = {
+    ...parsed,
+    snippets: values.logs ? { ...parsed.snippets, logs: await readFile(values.logs, "utf8") } : parsed.snippets,
+    artifacts: [...(parsed.artifacts ?? []), ...artifacts],
+    what_if: values["what-if"] ?? parsed.what_if
+  };
+  const inputError = validateAnalysisInput(input);
+  if (inputError) {
+    process.stderr.write(`${inputError}\n`);
+    return 2;
+  }
+
+  let baseline: Baseline | null = null;
+  if (values.baseline && !values["update-baseline"]) {
+    const { value, violations } = parseBaseline(await readFile(values.baseline, "utf8"));
+    for (const violation of violations) {
+      process.stderr.write(`${values.baseline}: ${violation.path}: ${violation.message}\n`);
+    }
+    if (!value || violations.length > 0) {
+      return 2;
+    }
+    baseline = value;
+  }
+
+  const provider = getProvider({ ...process.env, LLM_PROVIDER: values.provider ?? process.env.LLM_PROVIDER });
+  const template = await loadPromptTemplate(values.template ?? input.prompt_template ?? defaultPromptTemplateId());
+  const analysis = await runAnalysis({ provider, template, input });
+
+  const rendered =
+    format === "markdown"
+      ? renderExport("markdown", { input, analysis, generated_at: new Date().toISOString() }).body
+      : `${JSON.stringify(analysis, null, 2)}\n`;
+  if (values.output) {
+    await writeFile(values.output, rendered, "utf8");
+  } else {
+    process.stdout.write(rendered);
+  }
+
+  if (values["update-baseline"] && values.baseline) {
+    const next = createBaseline(analysis);
+    await writeFile(values.baseline, `${JSON.stringify(next, null, 2)}\n`, "utf8");
+    process.stderr.write(`Wrote ${next.findings.length} findings to ${values.baseline}.\n`);
+    return 0;
+  }
+
+  const result = evaluateGate(analysis, failOn === "none" ? null : (failOn as Level), baseline);
+  process.stderr.write(`${formatGateReport(result)}\n`);
+  return result.passed ? 0 : 1;
+}
+
+main().then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error: unknown) => {
+    const prefix = error instanceof CliInputError ? "" : "Analysis failed: ";
+    process.stderr.write(`${prefix}${error instanceof Error ? error.message : String(error)}\n`);
+    process.exitCode = 2;
+  }
+);
@@ -0,0 +1,106 @@
+import { writeFile } from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { listPromptTemplates, loadPromptTemplate } from "../lib/analysis/templates";
+import {
+  DEFAULT_THRESHOLDS,
+  evaluateSafetyCases,
+  evaluateTemplate,
+  formatReport,
+  formatSafetyResults,
+  loadFixtures,
+  loadSafetyCases,
+  type TemplateReport
+} from "../lib/eval";
+import { getProvider } from "../lib/llm";
+
+const USAGE = `Usage: npm run eval -- [options]
+
+  --template <id>        Template to evaluate (repeatable, default: every template in prompts/)
+  --fixtures <dir>       Fixture directory (default: eval/fixtures)
+  --safety-cases <file>  Safety filter cases that must be flagged or kept (default: eval/safety-cases.json)
+  --provider <name>      mock or recorded (default: mock)
+  --recordings <dir>     Recording directory for the recorded provider (default: eval/recordings)
+  --min-recall <n>       Fraction of expected findings each fixture must hit (default: ${DEFAULT_THRESHOLDS.minRecall})
+  --max-safety-hits <n>  Safety filter hits allowed per fixture (default: ${DEFAULT_THRESHOLDS.maxSafetyHits})
+  --no-repair            Fail fixtures whose output needed the repair pass
+  --json <file>          Also write the full report as JSON
+
+Set RECORD_UPSTREAM=gemini (or openai) with --provider recorded to record missing responses.
+`;
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      template: { type: "string", multiple: true },
+      fixtures: { type: "string" },
+      "safety-cases": { type: "string" },
+      provider: { type: "string" },
+      recordings: { type: "string" },
+      "min-recall": { type: "string" },
+      "max-safety-hits": { type: "string" },
+      "no-repair": { type: "boolean", default: false },
+      json: { type: "string" },
+      help: { type: "boolean", default: false }
+    }
+  });
+
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return 0;
+  }
+  const providerName = values.provider ?? "mock";
+  if (providerName !== "mock" && providerName !== "recorded") {
+    process.stderr.write(`Unknown provider "${providerName}".\n\n${USAGE}`);
+    return 2;
+  }
+
+  const provider = getProvider({
+    ...process.env,
+    LLM_PROVIDER: providerName,
+    RECORDINGS_DIR: path.resolve(values.recordings ?? "eval/recordings")
+  });
+  const thresholds = {
+    minRecall: values["min-recall"] === undefined ? DEFAULT_THRESHOLDS.minRecall : Number(values["min-recall"]),
+    maxSafetyHits:
+      values["max-safety-hits"] === undefined ? DEFAULT_THRESHOLDS.maxSafetyHits : Number(values["max-safety-hits"]),
+    allowRepair: !values["no-repair"]
+  };
+  const templateIds = values.template ?? (await listPromptTemplates()).map((template) => template.id);
+  const fixtures = await loadFixtures(path.resolve(values.fixtures ?? "eval/fixtures"));
+
+  if (templateIds.length === 0 || fixtures.length === 0) {
+    process.stderr.write("No prompt templates or fixtures found.\n");
+    return 2;
+  }
+
+  const reports: TemplateReport[] = [];
+  for (const id of templateIds) {
+    const template = await loadPromptTemplate(id);
+    reports.push(await evaluateTemplate({ provider, template, fixtures, thresholds }));
+  }
+
+  const safety = evaluateSafetyCases(await loadSafetyCases(path.resolve(values["safety-cases"] ?? "eval/safety-cases.json")));
+
+  process.stdout.write(`${formatReport(reports)}\n${formatSafetyResults(safety)}\n`);
+  if (values.json) {
+    await writeFile(
+      values.json,
+      `${JSON.stringify({ provider: provider.name, thresholds, reports, safety }, null, 2)}\n`,
+      "utf8"
+    );
+  }
+
+  const fixturesPassed = reports.every((report) => report.summary.passed === report.summary.fixtures);
+  return fixturesPassed && safety.every((result) => result.passed) ? 0 : 1;
+}
+
+main().then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error: unknown) => {
+    process.stderr.write(`${error instanceof Error ? error.message : String(error)}\n`);
+    process.exitCode = 2;
+  }
+);